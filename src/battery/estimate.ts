@@ -0,0 +1,147 @@
+// src/battery/estimate.ts
+//
+// Remaining runtime from the battery history the telemetry already keeps.
+// The HHI only notifies on coarse steps (about 5 %), so the drain rate is
+// measured between consecutive drops – the time before the first drop says
+// nothing about where inside a step the level was. Each interval is split into
+// idle and stimulating time from the stim markers, and the two rates are
+// fitted together.
+
+import type { Sample, StimMarker } from "../telemetry";
+
+export interface BatteryThresholds {
+  /** Notice at or below this level. */
+  warnPct: number;
+  /** Warning at or below this level. */
+  lowPct: number;
+  /** Stimulation is refused – and stopped, with `autoStop` – at or below this level. */
+  criticalPct: number;
+  autoStop: boolean;
+}
+
+export const DEFAULT_BATTERY: BatteryThresholds = { warnPct: 30, lowPct: 15, criticalPct: 5, autoStop: true };
+
+export type BatteryState = "ok" | "warn" | "low" | "critical";
+
+export const batteryState = (pct: number, th: BatteryThresholds): BatteryState =>
+  pct <= th.criticalPct ? "critical" : pct <= th.lowPct ? "low" : pct <= th.warnPct ? "warn" : "ok";
+
+export interface DrainRates {
+  /** Percent per hour. */
+  idle: number;
+  stim: number;
+  /** Whether stimulation was measured, or assumed at STIM_DRAIN_FACTOR × idle. */
+  stimMeasured: boolean;
+  /** Drops the fit is based on. */
+  drops: number;
+}
+
+/** Until a device has drained while stimulating, stimulation is assumed to cost this much more. */
+export const STIM_DRAIN_FACTOR = 3;
+
+// Recent drops only – rates change as the cell ages and empties
+const MAX_DROPS = 12;
+const HOUR = 3_600_000;
+
+interface Interval {
+  drop: number;
+  idleMs: number;
+  stimMs: number;
+}
+
+/** Time stimulation was on in [from, to]. */
+const stimOverlap = (markers: readonly StimMarker[], from: number, to: number) => {
+  let total = 0;
+  let onAt: number | null = null;
+  for (const m of markers) {
+    if (m.t > to) break;
+    if (m.on && onAt === null) onAt = m.t;
+    else if (!m.on && onAt !== null) {
+      total += Math.max(0, Math.min(m.t, to) - Math.max(onAt, from));
+      onAt = null;
+    }
+  }
+  if (onAt !== null) total += Math.max(0, to - Math.max(onAt, from));
+  return total;
+};
+
+const intervals = (battery: readonly Sample[], markers: readonly StimMarker[]): Interval[] => {
+  const out: Interval[] = [];
+  let prev = battery[0];
+  let lastDrop: Sample | null = null;
+  for (const s of battery.slice(1)) {
+    if (s.v > prev.v) {
+      // charging (or a reconnect to a swapped battery) – earlier drops no longer apply
+      out.length = 0;
+      lastDrop = null;
+    } else if (s.v < prev.v) {
+      if (lastDrop) {
+        const stimMs = stimOverlap(markers, lastDrop.t, s.t);
+        out.push({ drop: lastDrop.v - s.v, idleMs: s.t - lastDrop.t - stimMs, stimMs });
+      }
+      lastDrop = s;
+    }
+    prev = s;
+  }
+  return out.slice(-MAX_DROPS);
+};
+
+/** Fitted drain rates, or null until two drops have been seen. */
+export const drainRates = (battery: readonly Sample[], markers: readonly StimMarker[]): DrainRates | null => {
+  const iv = intervals(battery, markers);
+  if (!iv.length) return null;
+
+  // Least squares for drop = idle·idleMs + stim·stimMs
+  let ii = 0, is = 0, ss = 0, id = 0, sd = 0;
+  for (const x of iv) {
+    ii += x.idleMs * x.idleMs;
+    is += x.idleMs * x.stimMs;
+    ss += x.stimMs * x.stimMs;
+    id += x.idleMs * x.drop;
+    sd += x.stimMs * x.drop;
+  }
+  const det = ii * ss - is * is;
+  if (det > 1e-6 * ii * ss) {
+    const idle = (id * ss - sd * is) / det;
+    const stim = (sd * ii - id * is) / det;
+    if (idle > 0 && stim > 0) return { idle: idle * HOUR, stim: stim * HOUR, stimMeasured: true, drops: iv.length };
+  }
+
+  // Not enough variety to separate the two – fit one rate with the assumed ratio
+  const drop = iv.reduce((a, x) => a + x.drop, 0);
+  const effMs = iv.reduce((a, x) => a + x.idleMs + STIM_DRAIN_FACTOR * x.stimMs, 0);
+  if (effMs <= 0) return null;
+  const idle = (drop / effMs) * HOUR;
+  return { idle, stim: idle * STIM_DRAIN_FACTOR, stimMeasured: false, drops: iv.length };
+};
+
+/** Time until the battery reaches `floorPct`, idle or stimulating throughout. */
+export const runtimeMs = (pct: number, rates: DrainRates, floorPct: number, stimulating: boolean) =>
+  (Math.max(0, pct - floorPct) / (stimulating ? rates.stim : rates.idle)) * HOUR;
+
+/** Battery expected to be left after `durationMs`, `stimMs` of it stimulating. */
+export const projectedPct = (pct: number, rates: DrainRates, durationMs: number, stimMs: number) =>
+  pct - (rates.idle * Math.max(0, durationMs - stimMs) + rates.stim * stimMs) / HOUR;
+
+export const fmtRuntime = (ms: number) => {
+  const min = Math.round(ms / 60_000);
+  if (min < 1) return "< 1 min";
+  return min < 60 ? `${min} min` : `${Math.floor(min / 60)} h ${min % 60} min`;
+};
+
+/**
+ * Why a run of `durationMs` (`stimMs` stimulating) shouldn't start at `pct`,
+ * or null. Without an estimate yet only the critical level refuses.
+ */
+export const batteryProblem = (
+  pct: number | undefined, rates: DrainRates | null, th: BatteryThresholds, durationMs: number, stimMs: number,
+): string | null => {
+  if (pct === undefined) return null;
+  if (pct <= th.criticalPct) return `Battery critical (${pct}%) – charge the device first`;
+  if (!rates) return null;
+  const left = projectedPct(pct, rates, durationMs, stimMs);
+  if (left > th.criticalPct) return null;
+  // runtime at this run's mix of idle and stimulating time
+  const lasts = fmtRuntime(((pct - th.criticalPct) * durationMs) / (pct - left));
+  return `Would likely outlast the battery: ${fmtRuntime(durationMs)} needed, about ${lasts} left before ${th.criticalPct}%`;
+};
@@ -0,0 +1,2 @@
+// src/battery/index.ts
+export * from "./estimate";
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { charSpec, decode, encode, FIRMWARE_PROFILES, validate, type CharSpec } from ".";
+
+const fw1 = FIRMWARE_PROFILES.fw1;
+const fw2 = FIRMWARE_PROFILES.fw2;
+const view = (bytes: Uint8Array) => new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+describe("encode / decode", () => {
+  it("round-trips the range ends and special values of every numeric characteristic", () => {
+    for (const fw of [fw1, fw2]) {
+      for (const spec of Object.values(fw.chars) as CharSpec[]) {
+        if (spec.type === "utf8") continue;
+        const values = [spec.min ?? 0, spec.max ?? 0, ...Object.keys(spec.special ?? {}).map(Number)];
+        for (const v of values) expect(decode(spec, view(encode(spec, v))), `${fw.id} ${spec.key} ${v}`).toBe(v);
+      }
+    }
+  });
+
+  it("writes 16-bit values little-endian", () => {
+    expect([...encode(charSpec(fw2, "stimPulseWidth"), 1000)]).toEqual([0xe8, 0x03]);
+    expect([...encode(charSpec(fw2, "stimAmplitude"), 0xffff)]).toEqual([0xff, 0xff]);
+  });
+
+  it("keeps the fw1 amplitude to one byte and fw2 to two", () => {
+    expect(encode(charSpec(fw1, "stimAmplitude"), 30)).toHaveLength(1);
+    expect(encode(charSpec(fw2, "stimAmplitude"), 30)).toHaveLength(2);
+  });
+
+  it("round-trips text", () => {
+    const spec = charSpec(fw2, "wifiSSID");
+    expect(decode(spec, view(encode(spec, "Lab Wi-Fi ✓")))).toBe("Lab Wi-Fi ✓");
+  });
+
+  it("refuses values outside the range with a RangeError", () => {
+    expect(() => encode(charSpec(fw1, "stimAmplitude"), 31)).toThrow(RangeError);
+    expect(() => encode(charSpec(fw2, "stimAmplitude"), 51)).toThrow(RangeError);
+    expect(() => encode(charSpec(fw2, "stimPulseWidth"), 49)).toThrow(RangeError);
+    expect(() => encode(charSpec(fw1, "triggerStimulation"), 0)).toThrow(RangeError);
+  });
+
+  it("refuses a notification shorter than the characteristic", () => {
+    expect(() => decode(charSpec(fw2, "stimAmplitude"), view(Uint8Array.of(5)))).toThrow(RangeError);
+  });
+});
+
+describe("validate", () => {
+  it("accepts POT only as the firmware's own special value", () => {
+    expect(validate(charSpec(fw1, "stimAmplitude"), 0xff)).toBeNull();
+    expect(validate(charSpec(fw2, "stimAmplitude"), 0xffff)).toBeNull();
+    expect(validate(charSpec(fw2, "stimAmplitude"), 0xff)).toMatch(/outside 0–50 mA/);
+  });
+
+  it("counts text length in bytes, not characters", () => {
+    const spec = charSpec(fw2, "masterNameAddr");
+    expect(validate(spec, "a".repeat(spec.maxLength!))).toBeNull();
+    expect(validate(spec, "é".repeat(spec.maxLength! / 2 + 1))).toMatch(/bytes/);
+  });
+
+  it("wants integers for numeric characteristics", () => {
+    expect(validate(charSpec(fw2, "stimFrequency"), 2.5)).toMatch(/integer/);
+    expect(validate(charSpec(fw2, "stimFrequency"), "5")).toMatch(/integer/);
+  });
+});
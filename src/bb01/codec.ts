@@ -0,0 +1,160 @@
+// src/bb01/codec.ts
+//
+// Encode/decode generated from the schema, plus typed read/write/subscribe
+// helpers on top of a transport.
+
+import type { HhiTransport } from "../transport";
+import {
+  canRead,
+  charSpec,
+  FIRMWARE_PROFILES,
+  hasChar,
+  HHI_SERVICE_UUID,
+  type Bb01Values,
+  type CharKey,
+  type CharSpec,
+  type FirmwareId,
+  type FirmwareProfile,
+} from "./schema";
+
+const WIDTH = { uint8: 1, uint16: 2 } as const;
+
+// ================= Validation =================
+/** Returns why `value` can't be written to `spec`, or null if it can. */
+export const validate = (spec: CharSpec, value: number | string): string | null => {
+  if (spec.type === "utf8") {
+    if (typeof value !== "string") return `${spec.label} expects text`;
+    const len = new TextEncoder().encode(value).byteLength;
+    if (spec.maxLength !== undefined && len > spec.maxLength) {
+      return `${spec.label} is ${len} bytes (max ${spec.maxLength})`;
+    }
+    return null;
+  }
+  if (typeof value !== "number" || !Number.isInteger(value)) return `${spec.label} expects an integer`;
+  if (spec.special && value in spec.special) return null;
+  const limit = spec.type === "uint8" ? 0xff : 0xffff;
+  const lo = spec.min ?? 0;
+  const hi = spec.max ?? limit;
+  if (value < lo || value > hi) {
+    return `${spec.label} ${value} is outside ${lo}–${hi}${spec.unit ? ` ${spec.unit}` : ""}`;
+  }
+  return null;
+};
+
+// ================= Encode / decode =================
+export const encode = (spec: CharSpec, value: number | string): Uint8Array => {
+  const err = validate(spec, value);
+  if (err) throw new RangeError(err);
+  if (spec.type === "utf8") return new TextEncoder().encode(value as string);
+  const buf = new ArrayBuffer(WIDTH[spec.type]);
+  const dv = new DataView(buf);
+  if (spec.type === "uint8") dv.setUint8(0, value as number);
+  else dv.setUint16(0, value as number, spec.littleEndian);
+  return new Uint8Array(buf);
+};
+
+export const decode = (spec: CharSpec, dv: DataView): number | string => {
+  if (spec.type === "utf8") {
+    return new TextDecoder().decode(new Uint8Array(dv.buffer, dv.byteOffset, dv.byteLength));
+  }
+  if (dv.byteLength < WIDTH[spec.type]) {
+    throw new RangeError(`${spec.label}: expected ${WIDTH[spec.type]} bytes, got ${dv.byteLength}`);
+  }
+  return spec.type === "uint8" ? dv.getUint8(0) : dv.getUint16(0, spec.littleEndian);
+};
+
+// ================= Transport helpers =================
+export const readChar = async <K extends CharKey>(
+  t: HhiTransport, fw: FirmwareProfile, key: K,
+): Promise<Bb01Values[K]> => {
+  const spec = charSpec(fw, key);
+  return decode(spec, await t.read(spec.service, spec.uuid)) as Bb01Values[K];
+};
+
+export const writeChar = <K extends CharKey>(
+  t: HhiTransport, fw: FirmwareProfile, key: K, value: Bb01Values[K],
+) => {
+  const spec = charSpec(fw, key);
+  return t.write(spec.service, spec.uuid, encode(spec, value));
+};
+
+export const subscribeChar = <K extends CharKey>(
+  t: HhiTransport, fw: FirmwareProfile, key: K, handler: (value: Bb01Values[K]) => void,
+) => {
+  const spec = charSpec(fw, key);
+  return t.subscribe(spec.service, spec.uuid, dv => handler(decode(spec, dv) as Bb01Values[K]));
+};
+
+// ================= Multi-field writes =================
+export type FieldWrite = { [K in CharKey]: [K, Bb01Values[K]] }[CharKey];
+
+export interface FieldResult {
+  key: CharKey;
+  label: string;
+  /** Written and, when verified, read back unchanged. */
+  ok: boolean;
+  error?: string;
+  /** What the device reported after the write, when verification was asked for. */
+  readBack?: number | string;
+}
+
+export interface WriteFieldsOptions {
+  onProgress?: (done: number, total: number) => void;
+  /** Read each readable field back and fail it if the firmware clamped or ignored the value. */
+  verify?: boolean;
+}
+
+/**
+ * Writes `fields` one after another and keeps going past failures, so a save
+ * reports exactly which characteristics landed. Keys this firmware lacks are
+ * skipped and left out of the result.
+ */
+export const writeFields = async (
+  t: HhiTransport,
+  fw: FirmwareProfile,
+  fields: readonly FieldWrite[],
+  { onProgress, verify = false }: WriteFieldsOptions = {},
+): Promise<FieldResult[]> => {
+  const todo = fields.filter(([key]) => hasChar(fw, key));
+  const results: FieldResult[] = [];
+  onProgress?.(0, todo.length);
+  for (const [key, value] of todo) {
+    results.push(await writeField(t, fw, key, value, verify));
+    onProgress?.(results.length, todo.length);
+  }
+  return results;
+};
+
+const writeField = async <K extends CharKey>(
+  t: HhiTransport, fw: FirmwareProfile, key: K, value: Bb01Values[K], verify: boolean,
+): Promise<FieldResult> => {
+  const spec = charSpec(fw, key);
+  const base = { key, label: spec.label };
+  try {
+    await writeChar(t, fw, key, value);
+  } catch (e) {
+    return { ...base, ok: false, error: String(e) };
+  }
+  if (!verify || !canRead(spec)) return { ...base, ok: true };
+  try {
+    const readBack = await readChar(t, fw, key);
+    return readBack === value
+      ? { ...base, ok: true, readBack }
+      : { ...base, ok: false, readBack, error: `device holds ${JSON.stringify(readBack)} instead of ${JSON.stringify(value)}` };
+  } catch (e) {
+    return { ...base, ok: false, error: `written, but read-back failed: ${e}` };
+  }
+};
+
+// ================= Firmware detection =================
+// fw1 sends a 1-byte amplitude, fw2 a 2-byte one. If 0xBB03 can't be read
+// (e.g. a half-booted device) assume the newest layout.
+export const detectFirmware = async (t: HhiTransport): Promise<FirmwareId> => {
+  try {
+    const amp = FIRMWARE_PROFILES.fw2.chars.stimAmplitude!;
+    const dv = await t.read(HHI_SERVICE_UUID, amp.uuid);
+    return dv.byteLength === 1 ? "fw1" : "fw2";
+  } catch {
+    return "fw2";
+  }
+};
@@ -0,0 +1,4 @@
+// src/bb01/index.ts
+export * from "./schema";
+export * from "./codec";
+export * from "./status";
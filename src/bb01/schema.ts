@@ -0,0 +1,222 @@
+// src/bb01/schema.ts
+//
+// Declarative description of the BB01 GATT profile. Everything that knows the
+// wire format (codec, simulator, UI labels) is derived from these tables, so a
+// firmware change means editing one entry here and nothing else.
+
+// ================= Services =================
+export const BATTERY_SERVICE_UUID = 0x180f;
+export const BATTERY_LEVEL_CHAR_UUID = 0x2a19;
+export const HHI_SERVICE_UUID = 0xbb01;
+
+// ================= Characteristic model =================
+export type CharType = "uint8" | "uint16" | "utf8";
+export type CharProp = "read" | "write" | "notify";
+
+/** Decoded value of every characteristic the app knows about, by logical key. */
+export interface Bb01Values {
+  operatingMode: number;
+  stimAmplitude: number;
+  stimFrequency: number;
+  stimPulseWidth: number;
+  stimDuration: number;
+  emgThreshold: number;
+  batteryLevel: number;
+  mqttServerPort: string;
+  masterNameAddr: string;
+  minionNameAddr: string;
+  wifiSSID: string;
+  wifiPassword: string;
+  wifiStatus: number;
+  wifiIP: string;
+  currentStimAmplitude: number;
+  currentEmgThreshold: number;
+  triggerEnableMask: number;
+  triggerStimulation: number;
+  stimNumPulses: number;
+  emgEnvelope: number;
+}
+
+export type CharKey = keyof Bb01Values;
+export type NumericKey = { [K in CharKey]: Bb01Values[K] extends number ? K : never }[CharKey];
+export type StringKey = Exclude<CharKey, NumericKey>;
+
+export interface CharSpec {
+  key: CharKey;
+  service: number;
+  uuid: number;
+  label: string;
+  type: CharType;
+  /** Only meaningful for uint16 – BB01 is little-endian throughout. */
+  littleEndian: boolean;
+  props: readonly CharProp[];
+  unit?: string;
+  /** Inclusive numeric range, not counting `special`. */
+  min?: number;
+  max?: number;
+  /** Out-of-band values and what they mean, e.g. 0xFFFF → "POT". */
+  special?: Readonly<Record<number, string>>;
+  /** Byte limit for utf8 characteristics. */
+  maxLength?: number;
+  /** Bit meanings for bit-mask characteristics. */
+  bits?: readonly string[];
+  /** Not in released firmware yet: used when a device has it, not required when it doesn't. */
+  proposed?: boolean;
+  /** Never stored or exported – recordings keep that the write happened, not what was written. */
+  secret?: boolean;
+}
+
+export type FirmwareId = "fw1" | "fw2";
+
+export interface FirmwareProfile {
+  id: FirmwareId;
+  label: string;
+  chars: Readonly<Partial<Record<CharKey, CharSpec>>>;
+}
+
+// ================= Builders =================
+const RW: readonly CharProp[] = ["read", "write"];
+const RN: readonly CharProp[] = ["read", "notify"];
+const RWN: readonly CharProp[] = ["read", "write", "notify"];
+const W: readonly CharProp[] = ["write"];
+const WN: readonly CharProp[] = ["write", "notify"];
+
+type SpecInit = Omit<CharSpec, "key" | "service" | "littleEndian"> & { service?: number };
+
+const define = (entries: Partial<Record<CharKey, SpecInit>>): FirmwareProfile["chars"] => {
+  const out: Partial<Record<CharKey, CharSpec>> = {};
+  for (const [key, init] of Object.entries(entries) as [CharKey, SpecInit][]) {
+    out[key] = { service: HHI_SERVICE_UUID, littleEndian: true, ...init, key };
+  }
+  return out;
+};
+
+// Characteristics whose layout hasn't changed between firmware releases.
+const common = {
+  operatingMode:  { uuid: 0xbb02, label: "Operating Mode", type: "uint8", props: RW, min: 0, max: 3 },
+  stimFrequency:  { uuid: 0xbb04, label: "Stim Frequency", type: "uint8", props: RW, unit: "Hz", min: 1, max: 100 },
+  stimPulseWidth: { uuid: 0xbb05, label: "Stim Pulse Width", type: "uint16", props: RW, unit: "µs", min: 50, max: 1000 },
+  batteryLevel:   {
+    service: BATTERY_SERVICE_UUID, uuid: BATTERY_LEVEL_CHAR_UUID,
+    label: "Battery Level", type: "uint8", props: RN, unit: "%", min: 0, max: 100,
+  },
+  mqttServerPort: { uuid: 0xbb09, label: "MQTT Server/Port", type: "utf8", props: RW, maxLength: 64 },
+  masterNameAddr: { uuid: 0xbb0a, label: "Master Name/Addr", type: "utf8", props: RW, maxLength: 32 },
+  minionNameAddr: { uuid: 0xbb0b, label: "Minion Name/Addr", type: "utf8", props: RW, maxLength: 32 },
+  wifiSSID:       { uuid: 0xbb0c, label: "WiFi SSID", type: "utf8", props: RW, maxLength: 32 },
+  wifiPassword:   { uuid: 0xbb0d, label: "WiFi Password", type: "utf8", props: W, maxLength: 64, secret: true },
+  wifiStatus:     { uuid: 0xbb0e, label: "WiFi Status", type: "uint8", props: RN, bits: ["Wi-Fi", "MQTT"] },
+  wifiIP:         { uuid: 0xbb0f, label: "WiFi IP", type: "utf8", props: RN, maxLength: 45 },
+} satisfies Partial<Record<CharKey, SpecInit>>;
+
+// ================= EMG envelope (proposed) =================
+// 0xBB14 notifies the rectified, smoothed EMG in 10-bit ADC counts at about
+// 20 Hz. Each EMG threshold setting 0–5 trips at a fixed envelope level, so
+// the app can draw the threshold over the signal it is compared against.
+export const EMG_ENVELOPE_MAX = 1023;
+export const EMG_THRESHOLD_COUNTS: readonly number[] = [60, 120, 200, 300, 450, 650];
+
+// ================= Firmware profiles =================
+// fw1 – the layout documented in the README characteristics table.
+const FW1: FirmwareProfile = {
+  id: "fw1",
+  label: "Firmware 1.x (8-bit amplitude)",
+  chars: define({
+    ...common,
+    stimAmplitude:        { uuid: 0xbb03, label: "Stim Amplitude", type: "uint8", props: RW, unit: "mA", min: 0, max: 30, special: { 0xff: "POT" } },
+    emgThreshold:         { uuid: 0xbb07, label: "EMG Threshold", type: "uint8", props: RW, min: 0, max: 5, special: { 0xff: "Button" } },
+    currentStimAmplitude: { uuid: 0xbb10, label: "Current Stim Amplitude", type: "uint8", props: RN, unit: "mA", min: 0, max: 30 },
+    currentEmgThreshold:  { uuid: 0xbb11, label: "Current EMG Threshold", type: "uint8", props: RN, min: 0, max: 5 },
+    triggerStimulation:   { uuid: 0xbb12, label: "Trigger Stimulation", type: "uint8", props: W, min: 1, max: 1 },
+    stimNumPulses:        { uuid: 0xbb13, label: "Stim Num Pulses", type: "uint8", props: RW, min: 0, max: 255 },
+  }),
+};
+
+// fw2 – 16-bit amplitude, stim duration in the old reserved slot, and the
+// trigger-enable mask replacing "current EMG threshold" on 0xBB11.
+const FW2: FirmwareProfile = {
+  id: "fw2",
+  label: "Firmware 2.x (16-bit amplitude, duration, trigger mask)",
+  chars: define({
+    ...common,
+    stimAmplitude:        { uuid: 0xbb03, label: "Stim Amplitude", type: "uint16", props: RW, unit: "mA", min: 0, max: 50, special: { 0xffff: "POT" } },
+    stimDuration:         { uuid: 0xbb06, label: "Stim Duration", type: "uint8", props: RW, unit: "×100 ms", min: 0, max: 50, special: { 0xff: "while > threshold" } },
+    emgThreshold:         { uuid: 0xbb07, label: "EMG Threshold", type: "uint8", props: RWN, min: 0, max: 5, special: { 0xff: "Button" } },
+    currentStimAmplitude: { uuid: 0xbb10, label: "Current Stim Amplitude", type: "uint16", props: RN, unit: "mA", min: 0, max: 50 },
+    triggerEnableMask:    { uuid: 0xbb11, label: "Trigger Enable Mask", type: "uint8", props: RW, min: 0, max: 3, bits: ["EMG", "Button"] },
+    triggerStimulation:   { uuid: 0xbb12, label: "Trigger Stimulation", type: "uint8", props: WN, min: 0, max: 1 },
+    stimNumPulses:        { uuid: 0xbb13, label: "Stim Num Pulses", type: "uint16", props: RW, min: 0, max: 0xffff, special: { 0: "∞" } },
+    emgEnvelope:          { uuid: 0xbb14, label: "EMG Envelope", type: "uint16", props: RN, min: 0, max: EMG_ENVELOPE_MAX, proposed: true },
+  }),
+};
+
+export const FIRMWARE_PROFILES: Readonly<Record<FirmwareId, FirmwareProfile>> = {
+  fw1: FW1,
+  fw2: FW2,
+};
+
+export const LATEST_FIRMWARE: FirmwareId = "fw2";
+
+// ================= Lookups =================
+export const hasChar = (fw: FirmwareProfile, key: CharKey) => !!fw.chars[key];
+
+/** Whether 0xBB12 takes 0 = stop. fw1 only takes 1; stopping it means setting 0 mA. */
+export const hasStopCommand = (fw: FirmwareProfile) => {
+  const t = fw.chars.triggerStimulation;
+  return !!t && (t.min ?? 0) === 0;
+};
+
+export const charSpec = (fw: FirmwareProfile, key: CharKey): CharSpec => {
+  const spec = fw.chars[key];
+  if (!spec) throw new Error(`${key} is not part of ${fw.label}`);
+  return spec;
+};
+
+export const canRead   = (s: CharSpec) => s.props.includes("read");
+export const canWrite  = (s: CharSpec) => s.props.includes("write");
+export const canNotify = (s: CharSpec) => s.props.includes("notify");
+
+/** Finds the spec for a raw (service, characteristic) pair, if the profile knows it. */
+// BB01 UUIDs are all 16-bit, so a 128-bit string never matches
+export const specByUuid = (fw: FirmwareProfile, service: number | string, uuid: number | string) =>
+  Object.values(fw.chars).find(s => s.service === service && s.uuid === uuid);
+
+/** The special value meaning `meaning` (e.g. "POT"), if this spec has one. */
+export const specialValue = (s: CharSpec, meaning: string) => {
+  const hit = Object.entries(s.special ?? {}).find(([, m]) => m === meaning);
+  return hit ? Number(hit[0]) : undefined;
+};
+
+/** Human-readable range such as "0–50 mA, 65535 = POT". */
+export const describeRange = (s: CharSpec) => {
+  const parts: string[] = [];
+  if (s.type === "utf8") {
+    if (s.maxLength) parts.push(`≤ ${s.maxLength} bytes`);
+  } else if (s.min !== undefined && s.max !== undefined) {
+    parts.push(`${s.min}–${s.max}${s.unit ? ` ${s.unit}` : ""}`);
+  }
+  for (const [v, m] of Object.entries(s.special ?? {})) {
+    const n = Number(v);
+    parts.push(`${n >= 0xff ? `0x${n.toString(16).toUpperCase()}` : n} = ${m}`);
+  }
+  return parts.join(", ");
+};
+
+// Same loose check the firmware does before it tries the broker.
+export const isBrokerUrl = (s: string) => /^(mqtts?|wss?):\/\/[^\s:/]+:\d{1,5}\/?$/.test(s);
+
+/** Why `s` won't work as 0xBB09, or null. Stricter than the firmware: also checks the port range. */
+export const brokerUrlProblem = (s: string): string | null => {
+  const m = /^([a-z]+):\/\/([^/]*)\/?$/i.exec(s.trim());
+  if (!s.trim()) return "Enter the broker as mqtt://host:port";
+  if (!m) return `'${s}' needs a scheme – use mqtt://host:port`;
+  const [, scheme, authority] = m;
+  if (!/^(mqtts?|wss?)$/.test(scheme)) return `Scheme '${scheme}://' isn't supported – use mqtt://, mqtts://, ws:// or wss://`;
+  const hp = /^([^\s:/]+):(\d+)$/.exec(authority);
+  if (!authority || authority.startsWith(":")) return "The broker URL has no host";
+  if (!hp) return `Add the port after the host, e.g. ${scheme}://${authority.replace(/:.*$/, "")}:1883`;
+  const port = Number(hp[2]);
+  if (port < 1 || port > 65535) return `Port ${hp[2]} is outside 1–65535`;
+  if (!isBrokerUrl(s)) return `'${s}' is not a broker URL the firmware accepts`;
+  return null;
+};
@@ -0,0 +1,49 @@
+// src/bb01/status.ts
+//
+// 0xBB0E decoding. Bits 0/1 (Wi-Fi up, MQTT up) are what every firmware
+// sends. Newer builds also put a connection state in the upper nibble so the
+// app can tell "still trying" from "gave up, and why"; 0 there means the
+// firmware has nothing more to say.
+
+export const WIFI_BIT = 0x01;
+export const MQTT_BIT = 0x02;
+
+/** Which part of getting online a state belongs to. */
+export type NetStage = "wifi" | "ip" | "mqtt";
+
+interface StateInfo {
+  label: string;
+  stage: NetStage;
+  /** The device stopped trying – waiting longer won't help. */
+  error: boolean;
+}
+
+export const NET_STATES: Readonly<Record<number, StateInfo>> = {
+  0x1: { label: "joining Wi-Fi",                  stage: "wifi", error: false },
+  0x2: { label: "Wi-Fi password rejected",        stage: "wifi", error: true },
+  0x3: { label: "SSID not found",                 stage: "wifi", error: true },
+  0x4: { label: "waiting for an IP address",      stage: "ip",   error: false },
+  0x5: { label: "no IP address from DHCP",        stage: "ip",   error: true },
+  0x6: { label: "connecting to the broker",       stage: "mqtt", error: false },
+  0x7: { label: "broker unreachable",             stage: "mqtt", error: true },
+  0x8: { label: "broker refused the connection",  stage: "mqtt", error: true },
+};
+
+export interface NetStatus {
+  wifi: boolean;
+  mqtt: boolean;
+  /** Upper-nibble state code; 0 when the firmware sends bits only. */
+  code: number;
+  state?: StateInfo;
+  label: string;
+}
+
+export const decodeNetStatus = (v: number): NetStatus => {
+  const wifi = !!(v & WIFI_BIT);
+  const mqtt = !!(v & MQTT_BIT);
+  const code = (v >> 4) & 0x0f;
+  const state = NET_STATES[code];
+  const label = state?.label
+    ?? (code ? `unknown state 0x${code.toString(16)}` : wifi ? (mqtt ? "online" : "Wi-Fi only") : "offline");
+  return { wifi, mqtt, code, state, label };
+};
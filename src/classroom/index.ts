@@ -0,0 +1,4 @@
+// src/classroom/index.ts
+export * from "./profile";
+export * from "./storage";
+export * from "./lock";
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { charSpec, encode, FIRMWARE_PROFILES, type Bb01Values, type CharKey, type FirmwareProfile } from "../bb01";
+import type { HhiTransport } from "../transport";
+import { fakeTransport } from "../transport/fake";
+import { hashPin, LabLock, LabLockedError, labViolation, NEW_LAB, pinFields, type LabProfile } from ".";
+
+const fw2 = FIRMWARE_PROFILES.fw2;
+const fw1 = FIRMWARE_PROFILES.fw1;
+
+const LAB: LabProfile = {
+  ...NEW_LAB,
+  name: "Reflex lab",
+  modes: [3],
+  ranges: { stimAmplitude: { min: 2, max: 10 }, stimFrequency: { max: 50 } },
+};
+
+const send = <K extends CharKey>(t: HhiTransport, fw: FirmwareProfile, key: K, value: Bb01Values[K]) => {
+  const spec = charSpec(fw, key);
+  return t.write(spec.service, spec.uuid, encode(spec, value));
+};
+
+describe("labViolation", () => {
+  it("refuses modes and values outside the profile", () => {
+    expect(labViolation(LAB, fw2, "operatingMode", 0)).toMatch(/Mode 0/);
+    expect(labViolation(LAB, fw2, "stimAmplitude", 12)).toMatch(/outside the lab range/);
+    expect(labViolation(LAB, fw2, "stimFrequency", 80)).toMatch(/≤ 50 Hz/);
+  });
+
+  it("allows values inside it, fields it doesn't cover, and 0 mA", () => {
+    expect(labViolation(LAB, fw2, "operatingMode", 3)).toBeNull();
+    expect(labViolation(LAB, fw2, "stimAmplitude", 10)).toBeNull();
+    expect(labViolation(LAB, fw2, "stimPulseWidth", 1000)).toBeNull();
+    expect(labViolation(LAB, fw2, "stimAmplitude", 0)).toBeNull();
+  });
+
+  it("counts POT by its raw value", () => {
+    expect(labViolation(LAB, fw2, "stimAmplitude", 0xffff)).toMatch(/POT/);
+  });
+});
+
+describe("LabLock.guard", () => {
+  it("refuses writes outside the locked profile before they reach the device", async () => {
+    const { t, writes } = fakeTransport();
+    const g = new LabLock(LAB).guard(t, () => fw2);
+    await expect(send(g, fw2, "stimAmplitude", 20)).rejects.toBeInstanceOf(LabLockedError);
+    await expect(send(g, fw2, "operatingMode", 2)).rejects.toBeInstanceOf(LabLockedError);
+    await send(g, fw2, "stimAmplitude", 8);
+    expect(writes).toEqual(["bb03=8,0"]);
+  });
+
+  it("always lets stops through", async () => {
+    const { t, writes } = fakeTransport();
+    const g = new LabLock(LAB).guard(t, () => fw2);
+    await send(g, fw2, "triggerStimulation", 0);
+    await send(g, fw2, "stimAmplitude", 0);
+    expect(writes).toEqual(["bb12=0", "bb03=0,0"]);
+  });
+
+  it("lets amplitude 0 through on fw1, where it's the only stop", async () => {
+    const { t, writes } = fakeTransport();
+    const g = new LabLock(LAB).guard(t, () => fw1);
+    await send(g, fw1, "stimAmplitude", 0);
+    expect(writes).toEqual(["bb03=0"]);
+  });
+
+  it("stops checking once unlocked with the PIN, and checks again when locked", async () => {
+    const { t } = fakeTransport();
+    const lock = new LabLock({ ...LAB, ...(await pinFields("1234")) });
+    const g = lock.guard(t, () => fw2);
+    expect(await lock.unlock("0000")).toBe(false);
+    await expect(send(g, fw2, "stimAmplitude", 20)).rejects.toBeInstanceOf(LabLockedError);
+    expect(await lock.unlock("1234")).toBe(true);
+    await send(g, fw2, "stimAmplitude", 20);
+    lock.lock();
+    await expect(send(g, fw2, "stimAmplitude", 20)).rejects.toBeInstanceOf(LabLockedError);
+  });
+});
+
+describe("pinFields", () => {
+  it("salts every PIN, so equal PINs don't share a hash", async () => {
+    const a = await pinFields("1234");
+    const b = await pinFields("1234");
+    expect(a.pinSalt).not.toBe(b.pinSalt);
+    expect(a.pinHash).not.toBe(b.pinHash);
+    expect(await hashPin("1234", a.pinSalt)).toBe(a.pinHash);
+  });
+});
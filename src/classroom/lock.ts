@@ -0,0 +1,113 @@
+// src/classroom/lock.ts
+//
+// The active lab profile and whether the instructor has unlocked it. While a
+// profile is active and locked, every transport refuses writes the profile
+// doesn't allow – the form fields only mirror what this enforces.
+
+import { decode, HHI_SERVICE_UUID, type CharKey, type FirmwareProfile } from "../bb01";
+import { isStopWrite } from "../safety";
+import type { HhiTransport } from "../transport";
+import { hashPin, isLabKey, labToJson, labViolation, type LabPanel, type LabProfile } from "./profile";
+import { saveLab } from "./storage";
+
+export interface LabState {
+  profile: LabProfile | null;
+  /** The instructor entered the PIN; restrictions are lifted until locked again. */
+  unlocked: boolean;
+}
+
+export class LabLockedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LabLockedError";
+  }
+}
+
+export class LabLock {
+  private state: LabState;
+  private readonly listeners = new Set<(s: LabState) => void>();
+
+  constructor(profile: LabProfile | null) {
+    this.state = { profile, unlocked: false };
+  }
+
+  get snapshot() {
+    return this.state;
+  }
+
+  /** The profile students are held to right now, or null. */
+  get restricted(): LabProfile | null {
+    return this.state.unlocked ? null : this.state.profile;
+  }
+
+  hidden(panel: LabPanel) {
+    return !!this.restricted?.hidden.includes(panel);
+  }
+
+  /** Makes `profile` the active lab, locked. Refused while another lab is locked. */
+  start(profile: LabProfile) {
+    const cur = this.restricted;
+    if (cur && labToJson(cur) !== labToJson(profile)) {
+      throw new LabLockedError(`Lab '${cur.name}' is locked – unlock it with the instructor PIN first`);
+    }
+    saveLab(profile);
+    this.patch({ profile, unlocked: false });
+  }
+
+  async unlock(pin: string) {
+    const { profile } = this.state;
+    if (!profile || (await hashPin(pin, profile.pinSalt)) !== profile.pinHash) return false;
+    this.patch({ unlocked: true });
+    return true;
+  }
+
+  lock() {
+    if (this.state.profile) this.patch({ unlocked: false });
+  }
+
+  /** Drops the lab profile; only from an unlocked session. */
+  end() {
+    if (this.restricted) throw new LabLockedError("Unlock the lab before ending it");
+    saveLab(null);
+    this.patch({ profile: null, unlocked: false });
+  }
+
+  subscribe(listener: (s: LabState) => void) {
+    this.listeners.add(listener);
+    return () => void this.listeners.delete(listener);
+  }
+
+  /**
+   * Wraps a transport so writes outside the locked profile fail before they
+   * reach the device. Stops always pass: on fw1 amplitude 0 is the only stop.
+   */
+  guard(t: HhiTransport, fw: () => FirmwareProfile): HhiTransport {
+    return {
+      ...t,
+      isConnected: () => t.isConnected(),
+      connect: () => t.connect(),
+      disconnect: () => t.disconnect(),
+      onDisconnect: h => t.onDisconnect(h),
+
+      write: async (service, characteristic, value) => {
+        const lab = this.restricted;
+        if (lab && service === HHI_SERVICE_UUID && !isStopWrite(service, characteristic, value)) {
+          const profile = fw();
+          const hit = Object.entries(profile.chars).find(([, s]) => s?.uuid === characteristic);
+          const key = hit?.[0] as CharKey | undefined;
+          if (hit?.[1] && key && isLabKey(key)) {
+            const v = decode(hit[1], new DataView(value.buffer, value.byteOffset, value.byteLength));
+            const why = labViolation(lab, profile, key, v);
+            if (why) throw new LabLockedError(why);
+          }
+        }
+        return t.write(service, characteristic, value);
+      },
+    };
+  }
+
+  private patch(p: Partial<LabState>) {
+    this.state = { ...this.state, ...p };
+    this.listeners.forEach(l => l(this.state));
+  }
+}
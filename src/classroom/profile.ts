@@ -0,0 +1,213 @@
+// src/classroom/profile.ts
+//
+// Lab profiles for teaching labs: which operating modes students may pick,
+// the range each stimulation field may take and which panels are hidden. An
+// instructor builds one behind a PIN and hands it out as a file or a link.
+
+import { charSpec, FIRMWARE_PROFILES, LATEST_FIRMWARE, type CharKey, type FirmwareProfile } from "../bb01";
+import { MODE_LABELS } from "../devices";
+import { STIM_FIELDS, type Bound, type Quantity, type SafetyLimits, type StimField } from "../safety";
+
+export const LAB_PANELS = {
+  charts:       "Live charts",
+  emg:          "EMG envelope",
+  presets:      "Presets",
+  protocols:    "Protocols",
+  experiments:  "Experiments",
+  network:      "Wi-Fi + MQTT",
+  safetyLimits: "Safety limits",
+  sessions:     "Session recording",
+  mqtt:         "MQTT monitor",
+  scripts:      "Script console",
+  conformance:  "Conformance",
+  inspector:    "GATT inspector",
+  latency:      "Latency test",
+} as const;
+
+export type LabPanel = keyof typeof LAB_PANELS;
+
+export interface LabProfile {
+  name: string;
+  /** Operating modes students may select and write. */
+  modes: number[];
+  /** Allowed range per field, in device units; no entry = the firmware range. */
+  ranges: Partial<Record<StimField, Bound>>;
+  hidden: LabPanel[];
+  /** PBKDF2 of the instructor PIN with `pinSalt`; unlocking a student session needs the PIN. */
+  pinHash: string;
+  /** Random per profile, and new with every PIN. */
+  pinSalt: string;
+}
+
+export const NEW_LAB: LabProfile = {
+  name: "",
+  modes: [3],
+  ranges: {},
+  hidden: [],
+  pinHash: "",
+  pinSalt: "",
+};
+
+export const LAB_FILE_FORMAT = "hhi-lab-profile";
+export const LAB_URL_PARAM = "lab";
+export const PIN_PATTERN = /^\d{4,8}$/;
+
+// The hash travels in share links, and a 4–8 digit PIN is quick to guess
+// against a plain digest – each guess has to cost this many rounds
+export const PIN_ITERATIONS = 600_000;
+
+const toHex = (bytes: Uint8Array) => [...bytes].map(b => b.toString(16).padStart(2, "0")).join("");
+const fromHex = (hex: string) => Uint8Array.from(hex.match(/../g) ?? [], h => parseInt(h, 16));
+
+export const hashPin = async (pin: string, salt: string) => {
+  const key = await crypto.subtle.importKey("raw", new TextEncoder().encode(pin), "PBKDF2", false, ["deriveBits"]);
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", hash: "SHA-256", salt: fromHex(salt), iterations: PIN_ITERATIONS },
+    key,
+    256,
+  );
+  return toHex(new Uint8Array(bits));
+};
+
+/** Salt and hash for a new PIN. */
+export const pinFields = async (pin: string): Promise<Pick<LabProfile, "pinHash" | "pinSalt">> => {
+  const pinSalt = toHex(crypto.getRandomValues(new Uint8Array(16)));
+  return { pinHash: await hashPin(pin, pinSalt), pinSalt };
+};
+
+// ================= Checks =================
+const LAB_KEYS: readonly CharKey[] = ["operatingMode", ...STIM_FIELDS];
+export const isLabKey = (k: CharKey): k is "operatingMode" | StimField => LAB_KEYS.includes(k);
+
+/** "10–50 Hz", "≤ 10 mA", "≥ 50 µs" */
+export const describeBound = (b: Bound, unit = "") => {
+  const u = unit ? ` ${unit}` : "";
+  if (b.min !== undefined && b.max !== undefined) return `${b.min}–${b.max}${u}`;
+  if (b.max !== undefined) return `≤ ${b.max}${u}`;
+  if (b.min !== undefined) return `≥ ${b.min}${u}`;
+  return "any";
+};
+
+/** Why the lab doesn't allow `value` for `key`, or null. Special values count by their raw number. */
+export const labViolation = (lab: LabProfile, fw: FirmwareProfile, key: CharKey, value: number | string): string | null => {
+  if (!isLabKey(key) || typeof value !== "number") return null;
+  if (key === "operatingMode") {
+    return lab.modes.includes(value) ? null : `Mode ${value} (${MODE_LABELS[value] ?? "unknown"}) is not enabled in this lab`;
+  }
+  // 0 mA is off (a stop, or a sham), not an amplitude below the range
+  if (key === "stimAmplitude" && value === 0) return null;
+  const b = lab.ranges[key];
+  if (!b || ((b.min === undefined || value >= b.min) && (b.max === undefined || value <= b.max))) return null;
+  const spec = charSpec(fw, key);
+  const shown = spec.special?.[value] ?? value;
+  return `${spec.label} ${shown} is outside the lab range (${describeBound(b, spec.unit)})`;
+};
+
+// The lab ranges that have a matching safety quantity become block limits,
+// so previews, protocols and presets refuse them before anything is written
+const QUANTITY_OF: Partial<Record<StimField, Quantity>> = {
+  stimAmplitude:  "amplitudeMa",
+  stimFrequency:  "frequencyHz",
+  stimPulseWidth: "pulseWidthUs",
+};
+
+const tighter = (a: Bound | undefined, b: Bound): Bound => {
+  const min = [a?.min, b.min].filter((x): x is number => x !== undefined);
+  const max = [a?.max, b.max].filter((x): x is number => x !== undefined);
+  return {
+    ...(min.length ? { min: Math.max(...min) } : {}),
+    ...(max.length ? { max: Math.min(...max) } : {}),
+  };
+};
+
+/** `limits` with the lab ranges folded into the block limits. */
+export const withLab = (limits: SafetyLimits, lab: LabProfile | null): SafetyLimits => {
+  if (!lab) return limits;
+  const block = { ...limits.block };
+  for (const f of STIM_FIELDS) {
+    const q = QUANTITY_OF[f];
+    const b = lab.ranges[f];
+    if (q && b) block[q] = tighter(block[q], b);
+  }
+  return { ...limits, block };
+};
+
+/** Everything wrong with a profile the instructor is about to hand out. */
+export const labProblems = (lab: LabProfile): string[] => {
+  const out: string[] = [];
+  if (!lab.name.trim()) out.push("Give the lab a name");
+  if (!lab.modes.length) out.push("Enable at least one operating mode");
+  const fw = FIRMWARE_PROFILES[LATEST_FIRMWARE];
+  for (const f of STIM_FIELDS) {
+    const b = lab.ranges[f];
+    if (b?.min !== undefined && b.max !== undefined && b.min > b.max) {
+      out.push(`${charSpec(fw, f).label}: minimum is above maximum`);
+    }
+  }
+  return out;
+};
+
+// ================= Files and links =================
+export const labToJson = (lab: LabProfile) =>
+  JSON.stringify({ format: LAB_FILE_FORMAT, version: 1, profile: lab }, null, 2);
+
+const isNum = (v: unknown): v is number => typeof v === "number" && Number.isFinite(v);
+
+/** Parses an exported profile; throws with a readable reason when it isn't one. */
+export const parseLabJson = (text: string): LabProfile => {
+  let doc: unknown;
+  try {
+    doc = JSON.parse(text);
+  } catch {
+    throw new Error("Not a JSON file");
+  }
+  const d = doc as { format?: string; profile?: Partial<LabProfile> };
+  const p = d.profile;
+  if (d.format !== LAB_FILE_FORMAT || typeof p !== "object" || !p) throw new Error("Not an HHI lab profile");
+  if (typeof p.name !== "string" || typeof p.pinHash !== "string" || !p.pinHash || typeof p.pinSalt !== "string" || !p.pinSalt) {
+    throw new Error("Lab profile is missing its name or PIN");
+  }
+  if (!Array.isArray(p.modes) || !p.modes.every(m => isNum(m) && m in MODE_LABELS)) {
+    throw new Error("Lab profile has bad operating modes");
+  }
+  const ranges: LabProfile["ranges"] = {};
+  for (const f of STIM_FIELDS) {
+    const b = (p.ranges as Record<string, Bound | undefined> | undefined)?.[f];
+    if (!b) continue;
+    if ((b.min !== undefined && !isNum(b.min)) || (b.max !== undefined && !isNum(b.max))) {
+      throw new Error(`Lab profile has a bad range for ${f}`);
+    }
+    ranges[f] = { ...(b.min !== undefined ? { min: b.min } : {}), ...(b.max !== undefined ? { max: b.max } : {}) };
+  }
+  const hidden = (Array.isArray(p.hidden) ? p.hidden : []).filter((x): x is LabPanel => x in LAB_PANELS);
+  return { name: p.name, modes: p.modes, ranges, hidden, pinHash: p.pinHash, pinSalt: p.pinSalt };
+};
+
+// base64url of the UTF-8 JSON, so the link survives chat apps and e-mail
+const toBase64Url = (s: string) =>
+  btoa(String.fromCharCode(...new TextEncoder().encode(s))).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+
+const fromBase64Url = (s: string) => {
+  const bin = atob(s.replace(/-/g, "+").replace(/_/g, "/"));
+  return new TextDecoder().decode(Uint8Array.from(bin, c => c.charCodeAt(0)));
+};
+
+/** Link that opens the configurator with `lab` loaded as a student session. */
+export const labLink = (lab: LabProfile, base = window.location.href) => {
+  const url = new URL(base);
+  url.searchParams.set(LAB_URL_PARAM, toBase64Url(labToJson(lab)));
+  return url.toString();
+};
+
+/** The profile in `?lab=…`, or null; throws when the parameter is there but broken. */
+export const labFromUrl = (search = window.location.search): LabProfile | null => {
+  const raw = new URLSearchParams(search).get(LAB_URL_PARAM);
+  if (!raw) return null;
+  let text: string;
+  try {
+    text = fromBase64Url(raw);
+  } catch {
+    throw new Error("The lab link is damaged");
+  }
+  return parseLabJson(text);
+};
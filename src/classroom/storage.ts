@@ -0,0 +1,17 @@
+// src/classroom/storage.ts
+import { parseLabJson, labToJson, type LabProfile } from "./profile";
+
+const KEY = "hhi.labProfile";
+
+// Stored in the file format, so a hand-edited entry is checked like an import
+export const loadLab = (): LabProfile | null => {
+  try {
+    const raw = localStorage.getItem(KEY);
+    return raw ? parseLabJson(raw) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveLab = (lab: LabProfile | null) =>
+  lab ? localStorage.setItem(KEY, labToJson(lab)) : localStorage.removeItem(KEY);
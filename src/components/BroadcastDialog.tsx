@@ -0,0 +1,206 @@
+// src/components/BroadcastDialog.tsx
+import { useState } from "react";
+import {
+  Alert,
+  Button,
+  Checkbox,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  MenuItem,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+} from "@mui/material";
+import {
+  charSpec,
+  FIRMWARE_PROFILES,
+  hasChar,
+  LATEST_FIRMWARE,
+  validate,
+} from "../bb01";
+import type { BroadcastResult, DeviceEntry, DeviceManager } from "../devices";
+import { PRESET_KEYS, readPresetValues, stimParamsOf, type PresetKey } from "../presets";
+import { evaluateStim, STIM_FIELDS, type SafetyLimits, type StimField, type Violation } from "../safety";
+
+interface Props {
+  open: boolean;
+  manager: DeviceManager;
+  devices: DeviceEntry[];
+  /** Devices ticked in the device list. */
+  ids: string[];
+  limits: SafetyLimits;
+  onClose: () => void;
+  log: (m: string) => void;
+}
+
+interface Review {
+  id: string;
+  name: string;
+  /** Why this device will be skipped; unset when the write can go ahead. */
+  problem?: string;
+  violations: Violation[];
+}
+
+const latest = FIRMWARE_PROFILES[LATEST_FIRMWARE];
+const isStim = (k: PresetKey): k is StimField => (STIM_FIELDS as readonly string[]).includes(k);
+
+// One setting, many devices. Each device is checked against its own firmware
+// ranges and – for stimulation fields – the safety envelope with its current
+// parameters, so a value that is fine on one unit can still be refused on another.
+function BroadcastDialog({ open, manager, devices, ids, limits, onClose, log }: Props) {
+  const [key,     setKey]     = useState<PresetKey>("stimAmplitude");
+  const [raw,     setRaw]     = useState("");
+  const [review,  setReview]  = useState<Review[] | null>(null);
+  const [ack,     setAck]     = useState(false);
+  const [busy,    setBusy]    = useState(false);
+  const [results, setResults] = useState<BroadcastResult[] | null>(null);
+
+  const numeric = charSpec(latest, key).type !== "utf8";
+  const value = numeric ? Number(raw) : raw;
+  const targets = devices.filter(d => ids.includes(d.id));
+  const ready = review?.filter(r => !r.problem) ?? [];
+  const needsAck = ready.some(r => r.violations.length > 0);
+
+  const reset = () => {
+    setReview(null);
+    setResults(null);
+    setAck(false);
+  };
+
+  const check = async () => {
+    setBusy(true);
+    const rows: Review[] = [];
+    for (const d of targets) {
+      const fw = FIRMWARE_PROFILES[d.firmware];
+      const row: Review = { id: d.id, name: d.transport.name, violations: [] };
+      rows.push(row);
+      if (!hasChar(fw, key)) {
+        row.problem = `not supported by ${fw.label}`;
+        continue;
+      }
+      const invalid = numeric && raw.trim() === "" ? "no value" : validate(charSpec(fw, key), value);
+      if (invalid) {
+        row.problem = invalid;
+        continue;
+      }
+      if (!isStim(key)) continue;
+      try {
+        const current = await readPresetValues(d.transport, fw);
+        const report = evaluateStim(stimParamsOf({ ...current, [key]: value }), fw, limits);
+        const block = report.violations.find(v => v.severity === "block");
+        if (block) row.problem = block.message;
+        else row.violations = report.violations;
+      } catch (e) {
+        row.problem = `could not read current parameters: ${e}`;
+      }
+    }
+    setReview(rows);
+    setBusy(false);
+  };
+
+  const send = async () => {
+    setBusy(true);
+    ready.flatMap(r => r.violations).forEach(v => log(`Operator confirmed: ${v.message}`));
+    const res = await manager.broadcast(ready.map(r => r.id), key, value as never);
+    res.forEach(r => log(`Broadcast ${key} = ${raw} → ${r.name}: ${r.ok ? "ok" : r.error}`));
+    setResults(res);
+    setBusy(false);
+  };
+
+  const status = (r: Review) => {
+    const sent = results?.find(x => x.id === r.id);
+    if (sent) return sent.ok ? "written" : `failed: ${sent.error}`;
+    if (r.problem) return `skipped: ${r.problem}`;
+    return r.violations.length ? r.violations.map(v => v.message).join("; ") : "ok";
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth TransitionProps={{ onEnter: reset }}>
+      <DialogTitle>Broadcast to {targets.length} device{targets.length === 1 ? "" : "s"}</DialogTitle>
+      <DialogContent>
+        <TextField
+          select
+          size="small"
+          margin="dense"
+          label="Setting"
+          value={key}
+          disabled={busy || !!results}
+          onChange={e => {
+            setKey(e.target.value as PresetKey);
+            reset();
+          }}
+          sx={{ minWidth: 240, mr: 1 }}
+        >
+          {PRESET_KEYS.map(k => (
+            <MenuItem key={k} value={k}>{charSpec(latest, k).label}</MenuItem>
+          ))}
+        </TextField>
+        <TextField
+          size="small"
+          margin="dense"
+          label="Value"
+          type={numeric ? "number" : "text"}
+          value={raw}
+          disabled={busy || !!results}
+          onChange={e => {
+            setRaw(e.target.value);
+            reset();
+          }}
+        />
+
+        {review && (
+          <Table size="small" sx={{ mt: 2 }}>
+            <TableHead>
+              <TableRow>
+                <TableCell>Device</TableCell>
+                <TableCell>Status</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {review.map(r => (
+                <TableRow key={r.id} sx={r.problem ? { opacity: 0.6 } : undefined}>
+                  <TableCell>{r.name}</TableCell>
+                  <TableCell>{status(r)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+        {review && !ready.length && !results && (
+          <Alert severity="error" sx={{ mt: 1 }}>No device can take this value.</Alert>
+        )}
+        {needsAck && !results && (
+          <FormControlLabel
+            control={<Checkbox checked={ack} onChange={e => setAck(e.target.checked)} />}
+            label="I have reviewed these values and they are approved for this session"
+          />
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>{results ? "Close" : "Cancel"}</Button>
+        {!results && !review && (
+          <Button variant="outlined" disabled={busy || !targets.length} onClick={check}>
+            Check
+          </Button>
+        )}
+        {!results && review && (
+          <Button
+            variant="contained"
+            disabled={busy || !ready.length || (needsAck && !ack)}
+            onClick={send}
+          >
+            Write to {ready.length} device{ready.length === 1 ? "" : "s"}
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+}
+
+export default BroadcastDialog;
@@ -0,0 +1,223 @@
+// src/components/ConformanceDialog.tsx
+import { useState } from "react";
+import {
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  LinearProgress,
+  MenuItem,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+} from "@mui/material";
+import { FIRMWARE_PROFILES, type FirmwareId } from "../bb01";
+import {
+  conforms,
+  DEFAULT_CONFORMANCE_OPTIONS,
+  runConformance,
+  summarize,
+  toReportJson,
+  toReportMarkdown,
+  type CheckResult,
+  type CheckStatus,
+  type ConformanceReport,
+} from "../conformance";
+import type { DeviceEntry } from "../devices";
+import { createSimTransport, VirtualHhi, type HhiTransport } from "../transport";
+import { downloadText, slug } from "../util/download";
+
+interface Props {
+  open: boolean;
+  devices: DeviceEntry[];
+  onClose: () => void;
+  log: (m: string) => void;
+}
+
+// Target "sim:fw1" / "sim:fw2" is a throw-away virtual device; anything else a device id
+const SIM_PREFIX = "sim:";
+const FIRMWARE_IDS = Object.keys(FIRMWARE_PROFILES) as FirmwareId[];
+
+const COLOR: Record<CheckStatus, "success" | "error" | "warning" | "default"> = {
+  pass: "success",
+  fail: "error",
+  warn: "warning",
+  skip: "default",
+};
+
+const hex = (n: number) => `0x${n.toString(16).toUpperCase().padStart(4, "0")}`;
+
+// Runs the BB01 conformance suite against a connected device or a fresh
+// simulated one and offers the report for download.
+function ConformanceDialog({ open, devices, onClose, log }: Props) {
+  const [picked,    setPicked]    = useState(`${SIM_PREFIX}fw2`);
+  const [expected,  setExpected]  = useState<FirmwareId>("fw2");
+  const [stimulate, setStimulate] = useState(false);
+  const [unplugged, setUnplugged] = useState(false);
+  const [busy,      setBusy]      = useState(false);
+  const [results,   setResults]   = useState<CheckResult[]>([]);
+  const [report,    setReport]    = useState<ConformanceReport | null>(null);
+  const [error,     setError]     = useState<string | null>(null);
+
+  const device = devices.find(d => d.id === picked);
+  // a device that has gone away falls back to the simulator
+  const target = device || picked.startsWith(SIM_PREFIX) ? picked : `${SIM_PREFIX}fw2`;
+
+  const reset = () => {
+    setResults([]);
+    setReport(null);
+    setError(null);
+  };
+
+  const pickTarget = (v: string) => {
+    setPicked(v);
+    setUnplugged(false);
+    const fw = v.startsWith(SIM_PREFIX) ? (v.slice(SIM_PREFIX.length) as FirmwareId) : devices.find(d => d.id === v)?.firmware;
+    if (fw) setExpected(fw);
+    reset();
+  };
+
+  const run = async () => {
+    reset();
+    setBusy(true);
+    let sim: VirtualHhi | undefined;
+    try {
+      let t: HhiTransport;
+      if (device) {
+        t = device.unguarded ?? device.transport;
+      } else {
+        sim = new VirtualHhi({ firmware: target.slice(SIM_PREFIX.length) as FirmwareId });
+        t = createSimTransport(sim);
+        await t.connect();
+      }
+      const fw = FIRMWARE_PROFILES[expected];
+      const opts = { ...DEFAULT_CONFORMANCE_OPTIONS, stimulate };
+      log(`Conformance: ${t.name} against ${fw.label}${stimulate ? " (with stimulation)" : ""}`);
+      const startedAt = new Date().toISOString();
+      const found = await runConformance(t, fw, opts, r => setResults(rs => [...rs, r]));
+      const rep: ConformanceReport = {
+        firmware: fw.id,
+        firmwareLabel: fw.label,
+        device: t.name,
+        transport: t.kind,
+        startedAt,
+        finishedAt: new Date().toISOString(),
+        stimulate,
+        summary: summarize(found),
+        results: found,
+      };
+      setReport(rep);
+      const { pass, fail, warn } = rep.summary;
+      log(`Conformance ${conforms(rep) ? "passed" : "failed"}: ${pass} passed, ${fail} failed, ${warn} warnings`);
+    } catch (e) {
+      setError(String(e));
+      log(`Conformance aborted: ${e}`);
+    } finally {
+      sim?.dispose();
+      setBusy(false);
+    }
+  };
+
+  const download = (kind: "md" | "json") => {
+    if (!report) return;
+    const stem = `${slug(report.device)}_${report.firmware}_conformance`;
+    if (kind === "md") downloadText(`${stem}.md`, toReportMarkdown(report), "text/markdown");
+    else downloadText(`${stem}.json`, toReportJson(report), "application/json");
+  };
+
+  const linkDown = device && device.link !== "connected";
+
+  return (
+    <Dialog open={open} onClose={busy ? undefined : onClose} maxWidth="md" fullWidth TransitionProps={{ onEnter: reset }}>
+      <DialogTitle>BB01 conformance</DialogTitle>
+      <DialogContent>
+        <Box display="flex" gap={1} mt={1}>
+          <TextField select size="small" label="Device" value={target} disabled={busy} onChange={e => pickTarget(e.target.value)} sx={{ minWidth: 240 }}>
+            {FIRMWARE_IDS.map(id => (
+              <MenuItem key={id} value={`${SIM_PREFIX}${id}`}>Simulated – {FIRMWARE_PROFILES[id].label}</MenuItem>
+            ))}
+            {devices.map(d => (
+              <MenuItem key={d.id} value={d.id}>{d.transport.name}</MenuItem>
+            ))}
+          </TextField>
+          <TextField select size="small" label="Expected profile" value={expected} disabled={busy} onChange={e => setExpected(e.target.value as FirmwareId)} sx={{ minWidth: 240 }}>
+            {FIRMWARE_IDS.map(id => (
+              <MenuItem key={id} value={id}>{FIRMWARE_PROFILES[id].label}</MenuItem>
+            ))}
+          </TextField>
+        </Box>
+
+        <FormControlLabel
+          sx={{ mt: 1 }}
+          control={<Checkbox checked={stimulate} disabled={busy} onChange={e => setStimulate(e.target.checked)} />}
+          label="Include stimulation tests (one 0 mA pulse via Trigger Stimulation)"
+        />
+        {device && (
+          <Alert severity="warning" sx={{ mt: 1 }}>
+            Writes boundary and out-of-range values to {device.transport.name}, up to the maximum amplitude, in Mode 3.
+            Settings are restored afterwards; the Wi-Fi password is left alone.
+            <FormControlLabel
+              sx={{ display: "block" }}
+              control={<Checkbox checked={unplugged} disabled={busy} onChange={e => setUnplugged(e.target.checked)} />}
+              label="The electrodes are disconnected from everyone"
+            />
+          </Alert>
+        )}
+        {linkDown && <Alert severity="error" sx={{ mt: 1 }}>{device.transport.name} is {device.link}.</Alert>}
+
+        {busy && <LinearProgress sx={{ mt: 2 }} />}
+        {error && <Alert severity="error" sx={{ mt: 2 }}>{error}</Alert>}
+        {report && (
+          <Alert severity={conforms(report) ? "success" : "error"} sx={{ mt: 2 }}>
+            {conforms(report) ? "Conforms to" : "Does not conform to"} {report.firmwareLabel} – {report.summary.pass} passed,{" "}
+            {report.summary.fail} failed, {report.summary.warn} warnings, {report.summary.skip} skipped
+          </Alert>
+        )}
+
+        {results.length > 0 && (
+          <Table size="small" sx={{ mt: 2 }}>
+            <TableHead>
+              <TableRow>
+                <TableCell>UUID</TableCell>
+                <TableCell>Characteristic</TableCell>
+                <TableCell>Check</TableCell>
+                <TableCell>Status</TableCell>
+                <TableCell>Expected</TableCell>
+                <TableCell>Actual</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {results.map((r, i) => (
+                <TableRow key={i}>
+                  <TableCell>{hex(r.uuid)}</TableCell>
+                  <TableCell>{r.label}</TableCell>
+                  <TableCell>{r.check}</TableCell>
+                  <TableCell><Chip size="small" label={r.status} color={COLOR[r.status]} /></TableCell>
+                  <TableCell>{r.expected}</TableCell>
+                  <TableCell>{r.actual}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button disabled={!report} onClick={() => download("md")}>Report (Markdown)</Button>
+        <Button disabled={!report} onClick={() => download("json")}>Report (JSON)</Button>
+        <Button disabled={busy} onClick={onClose}>Close</Button>
+        <Button variant="contained" disabled={busy || !!linkDown || (!!device && !unplugged)} onClick={run}>Run</Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
+
+export default ConformanceDialog;
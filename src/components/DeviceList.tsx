@@ -0,0 +1,123 @@
+// src/components/DeviceList.tsx
+import {
+  Box,
+  Button,
+  Card,
+  CardActionArea,
+  CardActions,
+  CardContent,
+  Checkbox,
+  Chip,
+  Typography,
+} from "@mui/material";
+import { FIRMWARE_PROFILES } from "../bb01";
+import { MODE_LABELS, type DeviceEntry } from "../devices";
+import { fmtRuntime } from "../battery";
+
+interface Props {
+  devices: DeviceEntry[];
+  selectedId: string | null;
+  onSelect: (id: string) => void;
+  /** Devices ticked for broadcast. */
+  group: string[];
+  onGroupChange: (ids: string[]) => void;
+  onDisconnect: (id: string) => void;
+  onBroadcast: () => void;
+  onPair: () => void;
+  /** Unset hides the latency test. */
+  onLatency?: () => void;
+}
+
+const bit = (on: boolean | undefined, label: string) => (
+  <Chip size="small" label={label} color={on ? "success" : "default"} variant={on ? "filled" : "outlined"} />
+);
+
+function DeviceList({ devices, selectedId, onSelect, group, onGroupChange, onDisconnect, onBroadcast, onPair, onLatency }: Props) {
+  const toggle = (id: string, on: boolean) =>
+    onGroupChange(on ? [...group, id] : group.filter(x => x !== id));
+
+  return (
+    <Box>
+      <Box display="flex" alignItems="center" gap={1}>
+        <Typography variant="h6" sx={{ flexGrow: 1 }}>
+          Devices ({devices.length})
+        </Typography>
+        <Button size="small" disabled={devices.length < 2} onClick={onPair}>
+          Pair master/minion…
+        </Button>
+        {onLatency && (
+          <Button size="small" disabled={devices.length < 2} onClick={onLatency}>
+            Latency test…
+          </Button>
+        )}
+        <Button size="small" onClick={() => onGroupChange(group.length ? [] : devices.map(d => d.id))}>
+          {group.length ? "Clear selection" : "Select all"}
+        </Button>
+        <Button size="small" variant="outlined" disabled={!group.length} onClick={onBroadcast}>
+          Broadcast to {group.length}…
+        </Button>
+      </Box>
+
+      <Box display="grid" gridTemplateColumns="repeat(auto-fill, minmax(220px, 1fr))" gap={1} mt={1}>
+        {devices.map(d => {
+          const s = d.status;
+          return (
+            <Card
+              key={d.id}
+              variant="outlined"
+              sx={d.id === selectedId ? { borderColor: "primary.main", borderWidth: 2 } : undefined}
+            >
+              <CardActionArea onClick={() => onSelect(d.id)}>
+                <CardContent sx={{ pb: 1 }}>
+                  <Typography fontWeight="bold" noWrap>
+                    {d.transport.name}
+                    {d.transport.kind === "sim" && " (sim)"}
+                  </Typography>
+                  <Typography variant="body2" color="text.secondary">
+                    {FIRMWARE_PROFILES[d.firmware].label}
+                  </Typography>
+                  {d.link !== "connected" && (
+                    <Chip
+                      size="small"
+                      color="warning"
+                      sx={{ my: 0.5 }}
+                      label={d.link === "reconnecting" ? `reconnecting (${d.attempt})…` : "resyncing…"}
+                    />
+                  )}
+                  <Typography variant="body2">
+                    Battery: {s.battery ?? "—"}%
+                    {s.batteryRuntimeMs !== undefined && ` (~${fmtRuntime(s.batteryRuntimeMs)})`} · Mode:{" "}
+                    {s.blinded ? "hidden" : s.operatingMode === undefined ? "—" : MODE_LABELS[s.operatingMode] ?? s.operatingMode}
+                  </Typography>
+                  <Typography variant="body2">
+                    Amplitude: {s.blinded ? "hidden" : s.amplitude ?? "—"} · IP: {s.wifiIP || "—"}
+                  </Typography>
+                  <Box display="flex" gap={0.5} mt={0.5}>
+                    {bit(s.wifiConnected, "Wi-Fi")}
+                    {bit(s.mqttConnected, "MQTT")}
+                  </Box>
+                </CardContent>
+              </CardActionArea>
+              <CardActions>
+                <Checkbox
+                  size="small"
+                  checked={group.includes(d.id)}
+                  onChange={e => toggle(d.id, e.target.checked)}
+                  inputProps={{ "aria-label": `Include ${d.transport.name} in broadcast` }}
+                />
+                <Typography variant="body2" sx={{ flexGrow: 1 }}>
+                  Broadcast
+                </Typography>
+                <Button size="small" color="error" onClick={() => onDisconnect(d.id)}>
+                  Disconnect
+                </Button>
+              </CardActions>
+            </Card>
+          );
+        })}
+      </Box>
+    </Box>
+  );
+}
+
+export default DeviceList;
@@ -0,0 +1,1135 @@
+// src/components/DevicePanel.tsx
+import { useEffect, useRef, useState } from "react";
+import {
+  Typography,
+  Box,
+  Button,
+  Select,
+  MenuItem,
+  TextField,
+  FormControl,
+  InputLabel,
+  Checkbox,
+  FormGroup,
+  FormControlLabel,
+  FormHelperText,
+  Chip,
+  Alert,
+} from "@mui/material";
+import {
+  charSpec,
+  decodeNetStatus,
+  describeRange,
+  FIRMWARE_PROFILES,
+  hasChar,
+  readChar,
+  subscribeChar,
+  writeChar,
+  writeFields,
+  type Bb01Values,
+  type CharKey,
+  type FieldResult,
+  type FieldWrite,
+  type FirmwareId,
+  type FirmwareProfile,
+  type NetStatus,
+  type StringKey,
+} from "../bb01";
+import type { HhiTransport } from "../transport";
+import {
+  evaluateStim,
+  STIM_FIELDS,
+  stimWriteOrder,
+  type EmergencyStop,
+  violationsFor,
+  type SafetyLimits,
+  type StimField,
+  type Violation,
+} from "../safety";
+import { MODE_LABELS, RECONNECT_ATTEMPTS, type DeviceEntry, type DeviceManager } from "../devices";
+import SafetyConfirmDialog from "./SafetyConfirmDialog";
+import SafetySummary from "./SafetySummary";
+import ProtocolPanel from "./ProtocolPanel";
+import EmgPanel from "./EmgPanel";
+import ExperimentPanel from "./ExperimentPanel";
+import GattInspector from "./GattInspector";
+import type { StimTarget } from "../protocols";
+import PresetPanel from "./PresetPanel";
+import TelemetryChart from "./TelemetryChart";
+import PulseTrainPreview from "./PulseTrainPreview";
+import { Telemetry } from "../telemetry";
+import { provisionNetwork, type ProvisionOutcome, type ProvisionStage } from "../provisioning";
+import {
+  batteryProblem,
+  batteryState,
+  drainRates,
+  fmtRuntime,
+  runtimeMs,
+  type BatteryState,
+  type DrainRates,
+} from "../battery";
+import { describeBound, labViolation, type LabPanel, type LabProfile } from "../classroom";
+import {
+  PRESET_KEYS,
+  readPresetValues,
+  isPresetKey,
+  presetFields,
+  type PresetKey,
+  type PresetValues,
+} from "../presets";
+
+// ================= Utility helpers =================
+const fmtValue = (v: number | string) => (typeof v === "string" ? `'${v}'` : `${v}`);
+
+interface ResyncChange {
+  key: PresetKey;
+  label: string;
+  /** "device": changed on the HHI while disconnected; "unsaved": a form edit that was overwritten. */
+  kind: "device" | "unsaved";
+  from: number | string;
+  to: number | string;
+}
+
+// Form sections with their own Save button; each writes several characteristics
+type SaveSection = "mode" | "stim" | "network" | "preset" | "emg";
+
+const MODE_KEYS: readonly PresetKey[] = ["operatingMode"];
+const STIM_KEYS: readonly PresetKey[] = [
+  "stimAmplitude", "stimFrequency", "stimPulseWidth", "stimDuration", "stimNumPulses",
+  "emgThreshold", "triggerEnableMask",
+];
+const NETWORK_KEYS: readonly PresetKey[] = ["wifiSSID", "mqttServerPort", "masterNameAddr", "minionNameAddr"];
+const PROVISION_STEPS: Record<ProvisionStage, string> = {
+  validate: "1/5 Check",
+  write:    "2/5 Save",
+  wifi:     "3/5 Wi-Fi",
+  ip:       "4/5 IP address",
+  mqtt:     "5/5 Broker",
+  done:     "Done",
+};
+
+const BATTERY_RANK: Record<BatteryState, number> = { ok: 0, warn: 1, low: 2, critical: 3 };
+const BATTERY_SEVERITY = { warn: "info", low: "warning", critical: "error" } as const;
+
+// Outline for a field whose value isn't on the device yet
+const DIRTY_SX = { "& .MuiOutlinedInput-notchedOutline": { borderColor: "warning.main", borderWidth: 2 } };
+
+interface Props {
+  device: DeviceEntry;
+  manager: DeviceManager;
+  estop: EmergencyStop;
+  /** Locked lab profile: limits the modes, ranges and panels on offer. */
+  lab: LabProfile | null;
+  limits: SafetyLimits;
+  onEditLimits: () => void;
+  /** Already prefixed with the device name by the caller. */
+  log: (m: string) => void;
+  toast: (m: string) => void;
+}
+
+// One connected HHI: reads its state on mount, keeps its own form values and
+// reports a status summary back to the manager for the device list.
+function DevicePanel({ device, manager, estop, lab, limits, onEditLimits, log, toast }: Props) {
+  const transport = device.transport;
+  const firmwareId = device.firmware;
+  const fw = FIRMWARE_PROFILES[firmwareId];
+  const formRef = useRef<PresetValues>({});
+
+  // ---------- Config ----------
+  const [operatingMode,   setOperatingMode]   = useState(0);
+  const [stimAmplitude,   setStimAmplitude]   = useState(0);
+  const [stimFrequency,   setStimFrequency]   = useState(20);
+  const [stimPulseWidth,  setStimPulseWidth]  = useState(200);
+  const [stimDuration,    setStimDuration]    = useState(1);
+  const [stimNumPulses,   setStimNumPulses]   = useState(0);
+  const [triggerMask,     setTriggerMask]     = useState(0);
+  const [emgThreshold,    setEmgThreshold]    = useState(0);
+
+  // ---------- Safety ----------
+  const [pendingConfirm,  setPendingConfirm]  = useState<Violation[] | null>(null);
+  const safety = evaluateStim(
+    { stimAmplitude, stimFrequency, stimPulseWidth, stimDuration, stimNumPulses },
+    fw,
+    limits,
+  );
+  // error/helper text for a stim field, from the worst violation touching it
+  const safetyProps = (field: StimField) => {
+    const v = violationsFor(safety, field)[0];
+    if (!v) return {};
+    return {
+      error: v.severity === "block",
+      helperText: v.message,
+      slotProps: v.severity === "confirm"
+        ? { formHelperText: { sx: { color: "warning.main" } } }
+        : undefined,
+    };
+  };
+
+  // ---------- Status ----------
+  const [battery,         setBattery]         = useState<number | undefined>(undefined);
+  // 0xBB10: the amplitude actually in use (the knob in POT mode), not the 0xBB03 setting
+  const [liveAmplitude,   setLiveAmplitude]   = useState<number | undefined>(undefined);
+  const [drain,           setDrain]           = useState<DrainRates | null>(null);
+  const [wifiConnected,   setWifiConnected]   = useState(false);
+  const [mqttConnected,   setMqttConnected]   = useState(false);
+  const [wifiIP,          setWifiIP]          = useState("");
+  const [netStatus,       setNetStatus]       = useState<NetStatus | null>(null);
+
+  // ---------- Wi-Fi / MQTT creds ----------
+  const [wifiSSID,        setWifiSSID]        = useState("");
+  const [wifiPassword,    setWifiPassword]    = useState("");
+  const [mqttServerPort,  setMqttServerPort]  = useState("");
+  const [masterNameAddr,  setMasterNameAddr]  = useState("");
+  const [minionNameAddr,  setMinionNameAddr]  = useState("");
+
+  // Field label with the range the active firmware accepts, e.g. "Frequency (1–100 Hz)",
+  // or the lab's range when a lab profile narrows it
+  const rangeLabel = (name: string, key: CharKey) => {
+    if (!hasChar(fw, key)) return name;
+    const spec = charSpec(fw, key);
+    const labRange = lab?.ranges[key as StimField];
+    return labRange ? `${name} (lab: ${describeBound(labRange, spec.unit)})` : `${name} (${describeRange(spec)})`;
+  };
+
+  const shown = (p: LabPanel) => !lab?.hidden.includes(p);
+
+  // ================= Form ↔ device =================
+  const presetValues: PresetValues = {
+    operatingMode, stimAmplitude, stimFrequency, stimPulseWidth, stimDuration, stimNumPulses,
+    emgThreshold, triggerEnableMask: triggerMask,
+    wifiSSID, mqttServerPort, masterNameAddr, minionNameAddr,
+  };
+  formRef.current = presetValues;
+  const stimSetters: Record<StimField, (v: number) => void> = {
+    stimAmplitude:  setStimAmplitude,
+    stimFrequency:  setStimFrequency,
+    stimPulseWidth: setStimPulseWidth,
+    stimDuration:   setStimDuration,
+    stimNumPulses:  setStimNumPulses,
+  };
+  const presetSetters: { [K in PresetKey]: (v: Bb01Values[K]) => void } = {
+    ...stimSetters,
+    operatingMode:     setOperatingMode,
+    emgThreshold:      setEmgThreshold,
+    triggerEnableMask: setTriggerMask,
+    wifiSSID:          setWifiSSID,
+    mqttServerPort:    setMqttServerPort,
+    masterNameAddr:    setMasterNameAddr,
+    minionNameAddr:    setMinionNameAddr,
+  };
+
+  // Last value the device reported (read, notification or verified write) per field.
+  // A form value that differs from it is an unsaved edit.
+  const [deviceVals, setDeviceVals] = useState<PresetValues>({});
+  const isDirty = (key: PresetKey) => deviceVals[key] !== undefined && presetValues[key] !== deviceVals[key];
+
+  const known = (key: PresetKey, value: number | string) => setDeviceVals(d => ({ ...d, [key]: value }));
+
+  // Puts a device-side value into the form and remembers it as saved
+  const fromDevice = (key: CharKey, value: number | string) => {
+    if (!isPresetKey(key)) return;
+    (presetSetters[key] as (v: unknown) => void)(value);
+    known(key, value);
+  };
+
+  const revert = (keys: readonly PresetKey[]) => {
+    const dirty = keys.filter(isDirty);
+    if (!dirty.length) return;
+    dirty.forEach(k => (presetSetters[k] as (v: unknown) => void)(deviceVals[k]));
+    log(`Reverted to device values: ${dirty.map(k => charSpec(fw, k).label).join(", ")}`);
+  };
+
+  // ---------- Live charts ----------
+  // Kept across reconnects so the gap shows in the history
+  const [telemetry] = useState(() => new Telemetry());
+  // A blinded experiment is running: nothing on screen may reveal the condition
+  const [blinded, setBlinded] = useState(false);
+
+  const onBattery = (v: number) => {
+    setBattery(v);
+    telemetry.push("battery", v);
+    setDrain(drainRates(telemetry.series("battery"), telemetry.markers));
+  };
+  const onWifiStatus = (v: number) => {
+    const s = decodeNetStatus(v);
+    setNetStatus(s);
+    setWifiConnected(s.wifi);
+    setMqttConnected(s.mqtt);
+    telemetry.push("wifi", v & 0x01);
+    telemetry.push("mqtt", (v >> 1) & 0x01);
+  };
+  const onCurrentAmplitude = (v: number) => {
+    setLiveAmplitude(v);
+    telemetry.push("amplitude", v);
+  };
+  const onEmgThreshold = (v: number) => {
+    fromDevice("emgThreshold", v);
+    telemetry.push("emgThreshold", v);
+  };
+
+  // --------------- Initial state ---------------
+  // Runs on mount and again after every reconnect – subscriptions don't survive a drop
+  const initialise = async () => {
+    // -------- Battery first --------
+    try {
+      onBattery(await readChar(transport, fw, "batteryLevel"));
+      await subscribeChar(transport, fw, "batteryLevel", onBattery);
+    } catch (e) {
+      log(`Battery svc err: ${e}`);
+    }
+
+    // -------- HHI service --------
+    await readInitial(transport, fw);
+    await startNotifications(transport, fw);   // all 0xBBxx notifications here (after battery)
+  };
+
+  useEffect(() => {
+    void initialise();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [transport]);
+
+  // --------------- Resync after reconnect ---------------
+  const [resyncReport, setResyncReport] = useState<ResyncChange[] | null>(null);
+  const ready = device.link === "connected";
+
+  useEffect(() => {
+    if (device.link !== "resyncing") return;
+    void (async () => {
+      // What the device held when the link dropped vs. what the form showed then
+      const before = device.cache.snapshot(fw, PRESET_KEYS);
+      const form = formRef.current;
+      await initialise();
+      const after = device.cache.snapshot(fw, PRESET_KEYS);
+
+      const changes: ResyncChange[] = [];
+      for (const key of PRESET_KEYS) {
+        if (after[key] === undefined) continue;
+        const label = charSpec(fw, key).label;
+        if (before[key] !== undefined && before[key] !== after[key]) {
+          changes.push({ key, label, kind: "device", from: before[key], to: after[key] });
+        } else if (form[key] !== undefined && before[key] !== undefined && form[key] !== before[key]) {
+          changes.push({ key, label, kind: "unsaved", from: form[key], to: after[key] });
+        }
+      }
+      changes.forEach(c =>
+        log(c.kind === "device"
+          ? `Changed on device while disconnected: ${c.label} ${fmtValue(c.from)} → ${fmtValue(c.to)}`
+          : `Unsaved edit replaced by device value: ${c.label} ${fmtValue(c.from)} → ${fmtValue(c.to)}`),
+      );
+      log(`Resync complete (${changes.length} difference${changes.length === 1 ? "" : "s"})`);
+      setResyncReport(changes);
+      manager.resyncDone(device.id);
+    })();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [device.link]);
+
+  // --------------- Battery ---------------
+  // Telemetry markers double as the stimulation history for the drain estimate
+  const stimulating = !!telemetry.markers[telemetry.markers.length - 1]?.on;
+  const batteryNow = battery === undefined ? undefined : batteryState(battery, limits.battery);
+  const runtime = battery !== undefined && drain ? runtimeMs(battery, drain, limits.battery.criticalPct, stimulating) : undefined;
+  const critical = batteryNow === "critical";
+
+  // At the critical level anything still running is stopped the way the
+  // emergency stop does it, without latching; the transport refuses new starts
+  const autoStop = useRef(false);
+  useEffect(() => {
+    if (!critical || !limits.battery.autoStop) {
+      autoStop.current = false;
+      return;
+    }
+    // once on reaching critical, and again whenever a train starts anyway (EMG, button)
+    if (autoStop.current && !stimulating) return;
+    autoStop.current = true;
+    void estop.stop(device.id, `battery critical (${battery}%)`).then(ok => {
+      if (ok) telemetry.mark(false);
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [critical, stimulating, limits.battery.autoStop]);
+
+  // Alert once per level crossed on the way down; charging re-arms it
+  const lastBatteryState = useRef<BatteryState>("ok");
+  useEffect(() => {
+    if (battery === undefined || !batteryNow) return;
+    const prev = lastBatteryState.current;
+    lastBatteryState.current = batteryNow;
+    if (BATTERY_RANK[batteryNow] <= BATTERY_RANK[prev]) return;
+    log(`Battery ${batteryNow}: ${battery}%`);
+    toast(`${transport.name}: battery ${batteryNow} (${battery}%)`);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [battery, batteryNow]);
+
+  const checkBattery = (durationMs: number, stimMs: number) =>
+    batteryProblem(battery, drain, limits.battery, durationMs, stimMs);
+
+  // Status cards in the device list mirror what this panel knows
+  useEffect(() => {
+    manager.updateStatus(device.id, {
+      battery, batteryRuntimeMs: runtime, operatingMode, wifiConnected, mqttConnected, wifiIP, amplitude: liveAmplitude, blinded,
+    });
+  }, [manager, device.id, battery, runtime, operatingMode, wifiConnected, mqttConnected, wifiIP, liveAmplitude, blinded]);
+
+  // --------------- Initial read ---------------
+  const readInitial = async (t: HhiTransport, profile: FirmwareProfile) => {
+    log("Starting initial parameter read...");
+
+    // Reads one characteristic if this firmware has it, logging either way
+    const read = async <K extends CharKey>(key: K, setter: (value: Bb01Values[K]) => void) => {
+      if (!hasChar(profile, key)) return;
+      const spec = charSpec(profile, key);
+      try {
+        const value = await readChar(t, profile, key);
+        setter(value);
+        if (isPresetKey(key)) known(key, value);
+        log(`${spec.label} read: ${fmtValue(value)}`);
+      } catch (e) {
+        log(`Failed to read ${spec.label} (0x${spec.uuid.toString(16)}): ${e}`);
+      }
+    };
+
+    // 1. Read Operating Mode first
+    await read("operatingMode", setOperatingMode);
+
+    // 2. Read general stimulation parameters
+    await read("stimAmplitude", setStimAmplitude);
+    await read("emgThreshold", onEmgThreshold);
+    await read("currentStimAmplitude", onCurrentAmplitude);
+
+    // 3. Read Network Parameters
+    await read("wifiStatus", onWifiStatus);
+    await read("wifiIP", setWifiIP);
+    await read("wifiSSID", setWifiSSID);
+    await read("mqttServerPort", setMqttServerPort);
+    await read("masterNameAddr", setMasterNameAddr);
+    await read("minionNameAddr", setMinionNameAddr);
+
+    // 4. Read other stimulation parameters (potentially Mode 3 specific) at the end
+    log("Attempting to read Mode 3-centric stimulation parameters (these may fail in other modes)...");
+    await read("stimFrequency", setStimFrequency);
+    await read("stimPulseWidth", setStimPulseWidth);
+    await read("stimDuration", setStimDuration);
+    await read("stimNumPulses", setStimNumPulses);
+    await read("triggerEnableMask", setTriggerMask);
+
+    log("Initial read sequence finished.");
+  };
+
+  // --------------- Notifications ---------------
+  const startNotifications = async (t: HhiTransport, profile: FirmwareProfile) => {
+    // helper to keep code DRY
+    const subscribe = async <K extends CharKey>(
+      key: K,
+      handler: (value: Bb01Values[K]) => void,
+    ) => {
+      if (!hasChar(profile, key)) return;
+      try {
+        await subscribeChar(t, profile, key, handler);
+      } catch {
+        // characteristic may not notify on this firmware – ignore
+      }
+    };
+
+    // ----- 0xBB0E – Wi-Fi / MQTT status (bit-mask) -----
+    await subscribe("wifiStatus", onWifiStatus);
+
+    // ----- 0xBB0F – IP address (string) -----
+    await subscribe("wifiIP", setWifiIP);
+
+    // ----- 0xBB10 – current stimulation amplitude; the 0xBB03 form keeps the setting -----
+    await subscribe("currentStimAmplitude", onCurrentAmplitude);
+
+    // ----- 0xBB07 / 0xBB11 – EMG threshold (fw2 notifies the setting, fw1 a mirror) -----
+    await subscribe("emgThreshold", onEmgThreshold);
+    await subscribe("currentEmgThreshold", onEmgThreshold);
+
+    // ----- 0xBB12 – stimulation trigger flag (0|1) -----
+    await subscribe("triggerStimulation", v => {
+      telemetry.mark(!!v);
+      log(v ? "Stim started (remote)" : "Stim stopped (remote)");
+    });
+  };
+
+  // Helper to refresh network-related fields when entering network modes
+  const readNetworkSettings = async () => {
+
+    const readStr = async (key: StringKey, setter: (value: string) => void) => {
+      const spec = charSpec(fw, key);
+      try {
+        const v = await readChar(transport, fw, key);
+        setter(v);
+        if (isPresetKey(key)) known(key, v);
+        log(`${spec.label} read: '${v}'`);
+      } catch (e) {
+        log(`Failed to read ${spec.label} (0x${spec.uuid.toString(16)}): ${e}`);
+      }
+    };
+
+    await readStr("wifiSSID", setWifiSSID);
+    await readStr("mqttServerPort", setMqttServerPort);
+    await readStr("masterNameAddr", setMasterNameAddr);
+    await readStr("minionNameAddr", setMinionNameAddr);
+  };
+
+  useEffect(() => {
+    if (operatingMode === 1 || operatingMode === 2) {
+      void readNetworkSettings();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [operatingMode, transport]);
+
+  // Manual override when detection guesses wrong – re-read with the chosen layout
+  const changeFirmware = async (id: FirmwareId) => {
+    manager.setFirmware(device.id, id);
+    log(`Firmware layout set to ${FIRMWARE_PROFILES[id].label}`);
+    await readInitial(transport, FIRMWARE_PROFILES[id]);
+  };
+
+  // --------------- Writers ---------------
+  const [saving,   setSaving]   = useState<{ section: SaveSection; done: number; total: number } | null>(null);
+  const [failures, setFailures] = useState<{ section: SaveSection; results: FieldResult[] } | null>(null);
+
+  // Writes `fields`, reads each back and reports every one that didn't land as
+  // asked – rejected by the firmware, or accepted but clamped to something else
+  const runSave = async (section: SaveSection, what: string, fields: FieldWrite[]) => {
+    setFailures(null);
+    if (!fields.some(([k]) => hasChar(fw, k))) {
+      toast(`${what}: nothing to save`);
+      return [];
+    }
+    setSaving({ section, done: 0, total: 0 });
+    const results = await writeFields(transport, fw, fields, {
+      verify: true,
+      onProgress: (done, total) => setSaving({ section, done, total }),
+    });
+    setSaving(null);
+
+    const sent = new Map<CharKey, number | string>(fields);
+    for (const r of results) {
+      if (r.readBack !== undefined) fromDevice(r.key, r.readBack);
+      else if (r.ok) fromDevice(r.key, sent.get(r.key)!);
+      log(r.ok ? `${r.label} saved` : `${r.label} not saved: ${r.error}`);
+    }
+    const failed = results.filter(r => !r.ok);
+    if (failed.length) {
+      setFailures({ section, results: failed });
+      toast(`${what}: ${failed.length} of ${results.length} fields not saved`);
+    } else {
+      toast(`${what} saved`);
+    }
+    return results;
+  };
+
+  // Only what differs from the device is written; fields never read are written too
+  const changed = (keys: readonly PresetKey[]): FieldWrite[] =>
+    keys
+      .filter(k => deviceVals[k] === undefined || isDirty(k))
+      .map(k => [k, presetValues[k]] as FieldWrite);
+
+  const saveOperatingMode = () => runSave("mode", "Mode", changed(MODE_KEYS));
+
+  const applyEmgThreshold = async (level: number) => {
+    const [r] = await runSave("emg", "EMG threshold", [["emgThreshold", level]]);
+    return !!r?.ok;
+  };
+
+  const saveStimSettings = async () => {
+    const outside = lab ? STIM_KEYS.map(k => labViolation(lab, fw, k, presetValues[k] ?? 0)).filter(v => v !== null) : [];
+    if (outside.length) {
+      outside.forEach(v => log(`Lab limit: ${v}`));
+      toast("Outside the lab's ranges");
+      return;
+    }
+    if (safety.blocked) {
+      safety.violations
+        .filter(v => v.severity === "block")
+        .forEach(v => log(`Safety block: ${v.message}`));
+      toast("Blocked by safety limits");
+      return;
+    }
+    if (safety.needsConfirm) {
+      setPendingConfirm(safety.violations);
+      return;
+    }
+    await writeStimSettings();
+  };
+
+  const confirmStimSettings = async () => {
+    pendingConfirm?.forEach(v => log(`Operator confirmed: ${v.message}`));
+    setPendingConfirm(null);
+    await writeStimSettings();
+  };
+
+  // Only reachable through saveStimSettings / confirmStimSettings.
+  // Characteristics missing from this firmware are skipped, not failed.
+  // Lowered values go first so the device never holds a set past the limits.
+  const writeStimSettings = () =>
+    runSave("stim", "Stimulation parameters", stimWriteOrder(changed(STIM_KEYS), deviceVals));
+
+  // Save, then follow the device until it is on Wi-Fi, has an IP and reaches the broker
+  const saveNetworkSettings = async () => {
+    const fields: FieldWrite[] = [
+      ...changed(["wifiSSID"]),
+      // Only write password if a new one is provided
+      ...(wifiPassword ? [["wifiPassword", wifiPassword] as FieldWrite] : []),
+      ...changed(NETWORK_KEYS.filter(k => k !== "wifiSSID")),
+    ];
+    setProvisionResult(null);
+    const outcome = await provisionNetwork(
+      transport,
+      fw,
+      { wifiSSID, wifiPassword, mqttServerPort, masterNameAddr, minionNameAddr },
+      async () => {
+        log(`Saving network settings: ${fields.map(([k]) => k).join(", ") || "nothing changed"}`);
+        return (await runSave("network", "Network settings", fields)).every(r => r.ok);
+      },
+      (stage, message) => {
+        setProvisioning(stage === "done" ? null : { stage, message });
+        log(`Provisioning: ${message}`);
+      },
+    );
+    setProvisioning(null);
+    setProvisionResult(outcome);
+    toast(outcome.ok ? "Network ready" : "Network setup failed");
+  };
+
+  const [provisioning, setProvisioning] = useState<{ stage: ProvisionStage; message: string } | null>(null);
+  const [provisionResult, setProvisionResult] = useState<ProvisionOutcome | null>(null);
+
+  // Save button label and the list of fields that failed last time, per section
+  const saveLabel = (section: SaveSection, label: string) =>
+    saving?.section === section ? `Saving ${saving.done}/${saving.total}…` : label;
+
+  // Field decoration: failed on the last save > lab range > safety limits > unsaved edit
+  const fieldProps = (key: PresetKey) => {
+    const failed = failures?.results.find(r => r.key === key);
+    if (failed) {
+      return {
+        error: true,
+        helperText: failed.readBack !== undefined ? `Device kept ${fmtValue(failed.readBack)}` : "Not saved – see below",
+      };
+    }
+    const outside = lab && hasChar(fw, key) ? labViolation(lab, fw, key, presetValues[key] ?? 0) : null;
+    if (outside) return { error: true, helperText: outside };
+    const safe = (STIM_FIELDS as readonly string[]).includes(key) ? safetyProps(key as StimField) : {};
+    if (!isDirty(key)) return safe;
+    return {
+      sx: DIRTY_SX,
+      helperText: `Unsaved – device has ${fmtValue(deviceVals[key]!)}`,
+      slotProps: { formHelperText: { sx: { color: "warning.main" } } },
+      ...safe,
+    };
+  };
+
+  const revertButton = (keys: readonly PresetKey[], sx: object, extra?: { dirty: boolean; reset: () => void }) => {
+    const dirty = keys.some(isDirty) || !!extra?.dirty;
+    return (
+      <Button
+        sx={{ ...sx, ml: 1 }}
+        disabled={!dirty || !!saving}
+        onClick={() => {
+          revert(keys);
+          extra?.reset();
+        }}
+      >
+        Revert to device
+      </Button>
+    );
+  };
+
+  const saveFailures = (section: SaveSection) =>
+    failures?.section === section && (
+      <Alert severity="error" sx={{ mt: 1 }} onClose={() => setFailures(null)}>
+        Not saved:
+        <ul style={{ margin: 0, paddingLeft: 20 }}>
+          {failures.results.map(r => (
+            <li key={r.key}>{r.label}: {r.error}</li>
+          ))}
+        </ul>
+      </Alert>
+    );
+
+  const triggerStim = async (on: boolean) => {
+    if (on && critical) {
+      toast(`Battery critical (${battery}%) – stimulation refused`);
+      return;
+    }
+    try {
+      await writeChar(transport, fw, "triggerStimulation", on ? 1 : 0);
+      telemetry.mark(on);
+      toast(on ? "Stim start" : "Stim stop");
+    } catch (e) {
+      log(`Trigger failed: ${e}`);
+      toast("Trigger failed");
+    }
+  };
+
+  const stimTarget: StimTarget = {
+    fw,
+    write: async (field, value) => {
+      await writeChar(transport, fw, field, value);
+      fromDevice(field, value);
+    },
+    trigger: async on => {
+      if (on && critical) throw new Error(`Battery critical (${battery}%) – stimulation refused`);
+      await writeChar(transport, fw, "triggerStimulation", on ? 1 : 0);
+      telemetry.mark(on);
+    },
+    batteryCheck: checkBattery,
+    running: () => estop.hold(),
+    // A run that dies mid-stimulation may have left the device on
+    fault: error => {
+      if (!estop.snapshot.latched) void estop.trip(`Run failed on ${transport.name}: ${error}`);
+    },
+  };
+
+  // ================= Presets =================
+  // Writes made outside this panel (broadcast, pairing) land here too
+  useEffect(
+    () => manager.onWrite(device.id, fromDevice),
+    // fromDevice is rebuilt every render but only calls stable setters
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [manager, device.id],
+  );
+
+  // runSave moves the form only for fields that reached the device
+  const applyPreset = async (changes: PresetValues) => {
+    const results = await runSave("preset", "Preset", presetFields(changes));
+    const written = results.filter(r => r.ok).map(r => r.key as PresetKey);
+    log(`Preset applied: ${written.map(k => `${k} = ${fmtValue(changes[k]!)}`).join(", ") || "no changes"}`);
+  };
+
+
+  // Checkboxes have no helper text of their own
+  const maskNote = fieldProps("triggerEnableMask");
+
+  // ================= RENDER =================
+  return (
+    <>
+      <Typography variant="h5">
+        Device: {transport.name}
+        {transport.kind === "sim" && (
+          <Chip sx={{ ml: 1, verticalAlign: "middle" }} size="small" label="simulated" />
+        )}
+      </Typography>
+      <FormControl size="small" sx={{ mt: 1, minWidth: 320 }}>
+        <InputLabel id={`${device.id}-fw-label`}>Firmware layout</InputLabel>
+        <Select
+          labelId={`${device.id}-fw-label`}
+          label="Firmware layout"
+          value={firmwareId}
+          onChange={e => void changeFirmware(e.target.value as FirmwareId)}
+        >
+          {Object.values(FIRMWARE_PROFILES).map(p => (
+            <MenuItem key={p.id} value={p.id}>{p.label}</MenuItem>
+          ))}
+        </Select>
+      </FormControl>
+      <Typography>
+        Battery: {battery ?? "—"}%
+        {battery !== undefined && (
+          <Typography component="span" color="text.secondary">
+            {" "}·{" "}
+            {runtime === undefined
+              ? "estimating runtime…"
+              : `about ${fmtRuntime(runtime)} left ${stimulating ? "while stimulating" : "idle"} (to ${limits.battery.criticalPct}%)`}
+          </Typography>
+        )}
+      </Typography>
+      {batteryNow && batteryNow !== "ok" && (
+        <Alert severity={BATTERY_SEVERITY[batteryNow]} sx={{ mt: 1 }}>
+          {critical
+            ? `Battery critical (${battery}%) – stimulation is ${limits.battery.autoStop ? "stopped and " : ""}refused until the device is charged.`
+            : `Battery ${batteryNow} (${battery}%).`}
+          {!critical && drain && ` Idle ${drain.idle.toFixed(1)} %/h, stimulating ${drain.stim.toFixed(1)} %/h${drain.stimMeasured ? "" : " (assumed)"}.`}
+        </Alert>
+      )}
+      <Typography>
+        Wi-Fi: {wifiConnected ? "Connected" : "Disconnected"} · MQTT:{" "}
+        {mqttConnected ? "Connected" : "Disconnected"}
+        {netStatus?.state && (
+          <Typography component="span" color={netStatus.state.error ? "error" : "text.secondary"}>
+            {" "}· {netStatus.label}
+          </Typography>
+        )}
+      </Typography>
+      <Typography>IP: {wifiIP || "—"}</Typography>
+
+      {!ready && (
+        <Alert
+          severity="warning"
+          sx={{ mt: 2 }}
+          action={
+            <Button color="inherit" size="small" onClick={() => manager.disconnect(device.id)}>
+              Forget
+            </Button>
+          }
+        >
+          {device.link === "reconnecting"
+            ? `Link lost – reconnecting (attempt ${device.attempt}/${RECONNECT_ATTEMPTS})…`
+            : "Reconnected – re-reading all parameters…"}{" "}
+          Stimulation controls are disabled until the device is back in sync.
+        </Alert>
+      )}
+      {ready && resyncReport && (
+        <Alert severity={resyncReport.length ? "info" : "success"} sx={{ mt: 2 }} onClose={() => setResyncReport(null)}>
+          {resyncReport.length ? (
+            <>
+              Resynced after reconnect. Differences:
+              <ul style={{ margin: 0 }}>
+                {resyncReport.map(c => (
+                  <li key={c.key}>
+                    {c.label}: {fmtValue(c.from)} → {fmtValue(c.to)}{" "}
+                    {c.kind === "device" ? "(changed on device while disconnected)" : "(your unsaved edit was replaced)"}
+                  </li>
+                ))}
+              </ul>
+            </>
+          ) : (
+            "Resynced after reconnect – nothing changed."
+          )}
+        </Alert>
+      )}
+      {device.sim && ready && (
+        <Button size="small" sx={{ mt: 1 }} onClick={() => device.sim!.dropLink()}>
+          Simulate link loss
+        </Button>
+      )}
+
+      {!blinded && shown("charts") && (
+        <TelemetryChart
+          telemetry={telemetry}
+          ampMax={hasChar(fw, "currentStimAmplitude") ? charSpec(fw, "currentStimAmplitude").max ?? 50 : 50}
+          name={transport.name}
+        />
+      )}
+
+      {hasChar(fw, "emgEnvelope") && shown("emg") && (
+        <>
+          <EmgPanel
+            transport={transport}
+            fw={fw}
+            ready={ready}
+            threshold={deviceVals.emgThreshold}
+            sim={device.sim}
+            onApply={applyEmgThreshold}
+            log={log}
+          />
+          {saveFailures("emg")}
+        </>
+      )}
+
+      {/* MODE SELECT – hidden with the presets while blinded: both show what the device is set to */}
+      {!blinded && (
+        <Box mt={3}>
+          <FormControl fullWidth>
+            <InputLabel id={`${device.id}-mode-label`}>Operating Mode</InputLabel>
+            <Select
+              labelId={`${device.id}-mode-label`}
+              label="Operating Mode"
+              value={operatingMode}
+              onChange={e => setOperatingMode(+e.target.value)}
+              sx={isDirty("operatingMode") ? DIRTY_SX : undefined}
+            >
+              {Object.entries(MODE_LABELS).map(([m, label]) => (
+                <MenuItem key={m} value={+m} disabled={!!lab && !lab.modes.includes(+m)}>
+                  {m} – {label}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <Button sx={{ mt: 1 }} variant="contained" disabled={!ready || !!saving} onClick={saveOperatingMode}>
+            {saveLabel("mode", "Save Mode")}
+          </Button>
+          {revertButton(MODE_KEYS, { mt: 1 })}
+          {saveFailures("mode")}
+        </Box>
+      )}
+
+      {!blinded && shown("presets") && (
+        <PresetPanel
+          fw={fw}
+          limits={limits}
+          current={presetValues}
+          readDevice={() => readPresetValues(transport, fw)}
+          apply={applyPreset}
+          log={log}
+          disabled={!ready || !!saving}
+        />
+      )}
+      {saveFailures("preset")}
+
+      {/* CUSTOM STIM UI */}
+      {operatingMode === 3 && (
+        <Box mt={4}>
+          <Typography variant="h6">Custom Stimulation</Typography>
+          {blinded ? (
+            <Alert severity="info" sx={{ mt: 2 }}>
+              Stimulation parameters and charts are hidden while the blinded experiment runs.
+            </Alert>
+          ) : (
+            <>
+              <Box display="grid" gridTemplateColumns={{ xs: "1fr", md: "1fr 1fr" }} columnGap={3} alignItems="start">
+                <Box>
+                  <TextField
+                    fullWidth
+                    margin="normal"
+                    type="number"
+                    label={rangeLabel("Amplitude", "stimAmplitude")}
+                    value={stimAmplitude}
+                    onChange={e => setStimAmplitude(+e.target.value)}
+                    {...fieldProps("stimAmplitude")}
+                  />
+                  <TextField
+                    fullWidth
+                    margin="normal"
+                    type="number"
+                    label={rangeLabel("Frequency", "stimFrequency")}
+                    value={stimFrequency}
+                    onChange={e => setStimFrequency(+e.target.value)}
+                    {...fieldProps("stimFrequency")}
+                  />
+                  <TextField
+                    fullWidth
+                    margin="normal"
+                    type="number"
+                    label={rangeLabel("Pulse Width", "stimPulseWidth")}
+                    value={stimPulseWidth}
+                    onChange={e => setStimPulseWidth(+e.target.value)}
+                    {...fieldProps("stimPulseWidth")}
+                  />
+                  {hasChar(fw, "stimDuration") && (
+                    <TextField
+                      fullWidth
+                      margin="normal"
+                      type="number"
+                      label={rangeLabel("Duration", "stimDuration")}
+                      value={stimDuration}
+                      onChange={e => setStimDuration(+e.target.value)}
+                      {...fieldProps("stimDuration")}
+                    />
+                  )}
+                  <TextField
+                    fullWidth
+                    margin="normal"
+                    type="number"
+                    label={rangeLabel("# Pulses", "stimNumPulses")}
+                    value={stimNumPulses}
+                    onChange={e => setStimNumPulses(+e.target.value)}
+                    {...fieldProps("stimNumPulses")}
+                  />
+                  <TextField
+                    fullWidth
+                    margin="normal"
+                    type="number"
+                    label={rangeLabel("EMG Threshold", "emgThreshold")}
+                    value={emgThreshold}
+                    onChange={e => setEmgThreshold(+e.target.value)}
+                    {...fieldProps("emgThreshold")}
+                  />
+
+                  {/* Trigger mask as dual checkboxes */}
+                  {hasChar(fw, "triggerEnableMask") && (
+                    <FormGroup row sx={{ mt: 2 }}>
+                      <FormControlLabel
+                        control={
+                          <Checkbox
+                            checked={!!(triggerMask & 0x01)}
+                            onChange={e =>
+                              setTriggerMask(
+                                (e.target.checked ? 1 : 0) | (triggerMask & 0x02),
+                              )
+                            }
+                          />
+                        }
+                        label="EMG threshold"
+                      />
+                      <FormControlLabel
+                        control={
+                          <Checkbox
+                            checked={!!(triggerMask & 0x02)}
+                            onChange={e =>
+                              setTriggerMask(
+                                (e.target.checked ? 2 : 0) | (triggerMask & 0x01),
+                              )
+                            }
+                          />
+                        }
+                        label="Button press"
+                      />
+                      {maskNote.helperText && (
+                        <FormHelperText error={maskNote.error} sx={{ alignSelf: "center", ...(maskNote.error ? {} : { color: "warning.main" }) }}>
+                          {maskNote.helperText}
+                        </FormHelperText>
+                      )}
+                    </FormGroup>
+                  )}
+                </Box>
+                <Box sx={{ position: { md: "sticky" }, top: { md: 16 } }}>
+                  <PulseTrainPreview
+                    params={{ stimAmplitude, stimFrequency, stimPulseWidth, stimDuration, stimNumPulses }}
+                    fw={fw}
+                  />
+                </Box>
+              </Box>
+
+              <SafetySummary report={safety} labName={limits.labName} />
+
+              <Button variant="contained" sx={{ mt: 2 }} disabled={!ready || !!saving} onClick={saveStimSettings}>
+                {saveLabel("stim", "Save Parameters")}
+              </Button>
+              {revertButton(STIM_KEYS, { mt: 2 })}
+              {shown("safetyLimits") && (
+                <Button sx={{ mt: 2, ml: 1 }} onClick={onEditLimits}>
+                  Safety limits…
+                </Button>
+              )}
+              {saveFailures("stim")}
+
+              <Box mt={3}>
+                <Button
+                  variant="contained"
+                  color="secondary"
+                  sx={{ mr: 2 }}
+                  disabled={!ready}
+                  onClick={() => triggerStim(true)}
+                >
+                  Start Stim
+                </Button>
+                <Button
+                  variant="contained"
+                  color="warning"
+                  disabled={!ready}
+                  onClick={() => triggerStim(false)}
+                >
+                  Stop Stim
+                </Button>
+              </Box>
+
+              {shown("protocols") && (
+                <ProtocolPanel
+                  target={ready ? stimTarget : null}
+                  fw={fw}
+                  limits={limits}
+                  startParams={{ stimAmplitude, stimFrequency, stimPulseWidth, stimDuration, stimNumPulses }}
+                  log={log}
+                />
+              )}
+            </>
+          )}
+
+          {shown("experiments") && (
+            <ExperimentPanel
+              target={ready ? stimTarget : null}
+              fw={fw}
+              limits={limits}
+              startParams={{ stimAmplitude, stimFrequency, stimPulseWidth, stimDuration, stimNumPulses }}
+              log={log}
+              onBlindChange={setBlinded}
+            />
+          )}
+        </Box>
+      )}
+
+      {/* NETWORK CONFIG */}
+      {(operatingMode === 1 || operatingMode === 2) && shown("network") && (
+        <Box mt={4}>
+          <Typography variant="h6">Wi-Fi + MQTT</Typography>
+          <TextField
+            fullWidth
+            margin="normal"
+            label="Wi-Fi SSID"
+            value={wifiSSID}
+            onChange={e => setWifiSSID(e.target.value)}
+            {...fieldProps("wifiSSID")}
+          />
+          <TextField
+            fullWidth
+            margin="normal"
+            label="Wi-Fi Password"
+            type="password"
+            value={wifiPassword}
+            onChange={e => setWifiPassword(e.target.value)}
+            helperText="Leave blank to keep current password"
+          />
+          <TextField
+            fullWidth
+            margin="normal"
+            label="MQTT server/port"
+            value={mqttServerPort}
+            onChange={e => setMqttServerPort(e.target.value)}
+            helperText="mqtt://host:port"
+            {...fieldProps("mqttServerPort")}
+          />
+          <TextField
+            fullWidth
+            margin="normal"
+            label="Master Name"
+            value={masterNameAddr}
+            onChange={e => setMasterNameAddr(e.target.value)}
+            {...fieldProps("masterNameAddr")}
+          />
+          <TextField
+            fullWidth
+            margin="normal"
+            label="Minion Name"
+            value={minionNameAddr}
+            onChange={e => setMinionNameAddr(e.target.value)}
+            {...fieldProps("minionNameAddr")}
+          />
+          <Button
+            variant="contained"
+            sx={{ mt: 1 }}
+            disabled={!ready || !!saving || !!provisioning}
+            onClick={saveNetworkSettings}
+          >
+            {saveLabel("network", provisioning ? "Connecting…" : "Save & Connect")}
+          </Button>
+          {revertButton(NETWORK_KEYS, { mt: 1 }, { dirty: !!wifiPassword, reset: () => setWifiPassword("") })}
+          {saveFailures("network")}
+          {provisioning && (
+            <Alert severity="info" sx={{ mt: 1 }}>
+              {PROVISION_STEPS[provisioning.stage]} – {provisioning.message}
+            </Alert>
+          )}
+          {provisionResult && !provisioning && (
+            <Alert
+              severity={provisionResult.ok ? "success" : "error"}
+              sx={{ mt: 1 }}
+              onClose={() => setProvisionResult(null)}
+            >
+              {provisionResult.ok ? provisionResult.reason : `${PROVISION_STEPS[provisionResult.stage]} failed: ${provisionResult.reason}`}
+              {provisionResult.problems.length > 1 && (
+                <ul style={{ margin: 0, paddingLeft: 20 }}>
+                  {provisionResult.problems.slice(1).map(p => (
+                    <li key={p.field + p.message}>{p.message}</li>
+                  ))}
+                </ul>
+              )}
+            </Alert>
+          )}
+        </Box>
+      )}
+
+      {/* RAW GATT – for firmware work; raw values could reveal a blinded condition */}
+      {!blinded && shown("inspector") && (
+        <GattInspector
+          transport={transport}
+          fw={fw}
+          ready={ready}
+          limits={limits}
+          params={{ stimAmplitude, stimFrequency, stimPulseWidth, stimDuration, stimNumPulses }}
+          log={log}
+        />
+      )}
+
+      <SafetyConfirmDialog
+        open={!!pendingConfirm}
+        violations={pendingConfirm ?? []}
+        onCancel={() => setPendingConfirm(null)}
+        onConfirm={confirmStimSettings}
+      />
+    </>
+  );
+}
+
+export default DevicePanel;
@@ -0,0 +1,154 @@
+// src/components/EmergencyStopBar.tsx
+import { useEffect, useRef, useState } from "react";
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+} from "@mui/material";
+import type { EmergencyStop, EstopState, StopFailure } from "../safety";
+
+interface Props {
+  estop: EmergencyStop;
+}
+
+/**
+ * Global shortcut for the emergency stop. Caught in the capture phase, since
+ * MUI dialogs and menus stop Esc from bubbling; it still closes them too.
+ */
+const ESTOP_KEY = "Escape";
+
+const ALARM_TITLE = "⚠ STOP FAILED – ";
+
+// Short square-wave beep; browsers may keep audio muted until the first click
+const beep = () => {
+  try {
+    const ctx = new AudioContext();
+    const osc = ctx.createOscillator();
+    osc.type = "square";
+    osc.frequency.value = 880;
+    osc.connect(ctx.destination);
+    osc.start();
+    osc.stop(ctx.currentTime + 0.25);
+    osc.onended = () => void ctx.close();
+  } catch {
+    // no audio – the visual alert has to do
+  }
+};
+
+const describe = (f: StopFailure) =>
+  f.lost
+    ? `${f.name} disconnected before a stop could be confirmed – check the device by hand.`
+    : f.resolved
+      ? `${f.name}: stop landed after ${f.attempts + 1} attempts.`
+      : `${f.name}: stop failed ${f.attempts}× (${f.error}) – retrying.`;
+
+// Latched-stop banner, stop-failure alerts that escalate until acknowledged,
+// and the watchdog hooks: Esc, page hidden and tab closing.
+function EmergencyStopBar({ estop }: Props) {
+  const [state, setState] = useState<EstopState>(estop.snapshot);
+  useEffect(() => estop.subscribe(setState), [estop]);
+
+  // ---------- Watchdog ----------
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === ESTOP_KEY && !e.repeat) void estop.trip(`${ESTOP_KEY} key`);
+    };
+    const onHidden = () => {
+      if (document.visibilityState === "hidden" && estop.armed) void estop.trip("page hidden");
+    };
+    const onUnload = (e: BeforeUnloadEvent) => {
+      if (!estop.armed) return;
+      void estop.trip("tab closing");
+      // the leave prompt gives the stop writes time to go out
+      e.preventDefault();
+      e.returnValue = "";
+    };
+    window.addEventListener("keydown", onKey, { capture: true });
+    document.addEventListener("visibilitychange", onHidden);
+    window.addEventListener("beforeunload", onUnload);
+    return () => {
+      window.removeEventListener("keydown", onKey, { capture: true });
+      document.removeEventListener("visibilitychange", onHidden);
+      window.removeEventListener("beforeunload", onUnload);
+    };
+  }, [estop]);
+
+  // ---------- Escalation ----------
+  const alarms = state.failures.filter(f => !f.acknowledged && f.level === "alarm");
+
+  // Beep on reaching "error", and on every further attempt at "alarm"
+  const heard = useRef(new Map<string, string>());
+  useEffect(() => {
+    let sound = false;
+    for (const f of state.failures) {
+      if (f.acknowledged) continue;
+      const key = f.level === "alarm" ? `alarm:${f.attempts}:${f.lost}` : f.level;
+      if (f.level !== "warning" && !f.resolved && heard.current.get(f.deviceId) !== key) sound = true;
+      heard.current.set(f.deviceId, key);
+    }
+    if (sound) beep();
+  }, [state.failures]);
+
+  useEffect(() => {
+    if (!alarms.length) return;
+    const title = document.title;
+    document.title = ALARM_TITLE + title;
+    return () => {
+      document.title = title;
+    };
+  }, [alarms.length]);
+
+  const reset = () => estop.reset();
+
+  if (!state.latched && !state.failures.length) return null;
+  return (
+    <Box px={2} pb={1}>
+      {state.latched && (
+        <Alert
+          severity="error"
+          variant="filled"
+          sx={{ mt: 1 }}
+          action={<Button color="inherit" size="small" onClick={reset}>Reset</Button>}
+        >
+          Emergency stop at {new Date(state.latched.at).toLocaleTimeString()} ({state.latched.reason}). Stimulation is
+          refused until reset.
+        </Alert>
+      )}
+      {state.failures.filter(f => f.level !== "alarm" || f.acknowledged).map(f => (
+        <Alert
+          key={f.deviceId}
+          severity={f.resolved ? "success" : f.acknowledged || f.level === "alarm" ? "info" : f.level}
+          sx={{ mt: 1 }}
+          action={!f.acknowledged && (
+            <Button color="inherit" size="small" onClick={() => estop.acknowledge(f.deviceId)}>Acknowledge</Button>
+          )}
+        >
+          {describe(f)}
+        </Alert>
+      ))}
+
+      <Dialog open={alarms.length > 0} disableEscapeKeyDown>
+        <DialogTitle color="error">Stimulation stop not confirmed</DialogTitle>
+        <DialogContent>
+          {alarms.map(f => (
+            <Alert key={f.deviceId} severity="error" sx={{ mb: 1 }}>
+              {describe(f)}
+            </Alert>
+          ))}
+          Remove the electrodes or switch the device off if it is still stimulating.
+        </DialogContent>
+        <DialogActions>
+          <Button variant="contained" color="error" onClick={() => alarms.forEach(f => estop.acknowledge(f.deviceId))}>
+            Acknowledge
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+}
+
+export default EmergencyStopBar;
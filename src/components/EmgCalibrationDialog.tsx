@@ -0,0 +1,194 @@
+// src/components/EmgCalibrationDialog.tsx
+import { useEffect, useRef, useState } from "react";
+import {
+  Alert,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  LinearProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography,
+} from "@mui/material";
+import {
+  CONTRACTION_MS,
+  envelopeStats,
+  recommendThreshold,
+  REST_MS,
+  type EnvelopeBuffer,
+  type EnvelopeStats,
+  type Recommendation,
+} from "../emg";
+
+interface Props {
+  open: boolean;
+  buffer: EnvelopeBuffer;
+  /** The threshold setting on the device now. */
+  current: number | undefined;
+  onApply: (level: number) => Promise<boolean>;
+  onClose: () => void;
+}
+
+// "ready": rest is recorded, waiting for the participant to get set for the contraction
+type Phase = "intro" | "rest" | "ready" | "contraction" | "result";
+
+const fmtStats = (s: EnvelopeStats) => [Math.round(s.mean), Math.round(s.sd), s.p95, s.max];
+
+// Records rest and maximal contraction from the live envelope, then
+// recommends the threshold setting that separates them.
+function EmgCalibrationDialog({ open, buffer, current, onApply, onClose }: Props) {
+  const [phase,       setPhase]       = useState<Phase>("intro");
+  const [left,        setLeft]        = useState(0);
+  const [latest,      setLatest]      = useState<number | undefined>(undefined);
+  const [rest,        setRest]        = useState<EnvelopeStats | null>(null);
+  const [contraction, setContraction] = useState<EnvelopeStats | null>(null);
+  const [result,      setResult]      = useState<Recommendation | null>(null);
+  const [error,       setError]       = useState<string | null>(null);
+  const [applying,    setApplying]    = useState(false);
+  const timer = useRef<ReturnType<typeof setInterval> | null>(null);
+
+  const stopTimer = () => {
+    if (timer.current) clearInterval(timer.current);
+    timer.current = null;
+  };
+
+  useEffect(() => (open ? buffer.subscribe(() => setLatest(buffer.latest?.v)) : undefined), [open, buffer]);
+  useEffect(() => stopTimer, []);
+
+  const onEnter = () => {
+    setPhase("intro");
+    setRest(null);
+    setContraction(null);
+    setResult(null);
+    setError(null);
+  };
+
+  const close = () => {
+    stopTimer();
+    onClose();
+  };
+
+  // Counts down `ms`, then hands the samples recorded meanwhile to `done`
+  const record = (p: "rest" | "contraction", ms: number, done: (s: EnvelopeStats) => void) => {
+    const from = Date.now();
+    setPhase(p);
+    setLeft(ms);
+    stopTimer();
+    timer.current = setInterval(() => {
+      const elapsed = Date.now() - from;
+      setLeft(Math.max(0, ms - elapsed));
+      if (elapsed < ms) return;
+      stopTimer();
+      done(envelopeStats(buffer.since(from).map(s => s.v)));
+    }, 100);
+  };
+
+  const recordRest = () => {
+    setResult(null);
+    setError(null);
+    record("rest", REST_MS, s => {
+      setRest(s);
+      setPhase("ready");
+    });
+  };
+
+  const recordContraction = () =>
+    record("contraction", CONTRACTION_MS, s => {
+      setContraction(s);
+      setPhase("result");
+      try {
+        setResult(recommendThreshold(rest!, s));
+        setError(null);
+      } catch (e) {
+        setResult(null);
+        setError((e as Error).message);
+      }
+    });
+
+  const apply = async () => {
+    if (!result) return;
+    setApplying(true);
+    const ok = await onApply(result.level);
+    setApplying(false);
+    if (ok) close();
+  };
+
+  const recording = phase === "rest" || phase === "contraction";
+  const total = phase === "rest" ? REST_MS : CONTRACTION_MS;
+
+  return (
+    <Dialog open={open} onClose={recording ? undefined : close} maxWidth="sm" fullWidth TransitionProps={{ onEnter }}>
+      <DialogTitle>EMG threshold calibration</DialogTitle>
+      <DialogContent>
+        {phase === "intro" && (
+          <Typography>
+            With the electrodes in place, ask the participant to relax the muscle completely. The envelope is recorded
+            for {REST_MS / 1000} s at rest, then for {CONTRACTION_MS / 1000} s while they contract as hard as they can.
+          </Typography>
+        )}
+        {phase === "ready" && (
+          <Typography>Rest recorded. When the participant is ready, start the contraction and ask them to squeeze as hard as they can.</Typography>
+        )}
+        {recording && (
+          <>
+            <Typography variant="h6" color={phase === "contraction" ? "error" : undefined}>
+              {phase === "rest" ? "Relax…" : "Contract as hard as you can!"}
+            </Typography>
+            <LinearProgress variant="determinate" value={100 - (left / total) * 100} sx={{ my: 1 }} />
+            <Typography color="text.secondary">
+              {(left / 1000).toFixed(1)} s left · envelope {latest ?? "—"}
+            </Typography>
+          </>
+        )}
+
+        {phase === "result" && rest && contraction && (
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Recording</TableCell>
+                <TableCell align="right">Mean</TableCell>
+                <TableCell align="right">SD</TableCell>
+                <TableCell align="right">95th pct.</TableCell>
+                <TableCell align="right">Max</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {([["Rest", rest], ["Contraction", contraction]] as const).map(([label, s]) => (
+                <TableRow key={label}>
+                  <TableCell>{label} ({s.n} samples)</TableCell>
+                  {fmtStats(s).map((v, i) => <TableCell key={i} align="right">{v}</TableCell>)}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+        {result && (
+          <Alert severity={result.warning ? "warning" : "success"} sx={{ mt: 2 }}>
+            Recommended threshold: <b>{result.level}</b> (trips at {result.counts}; ideal {Math.round(result.target)})
+            {current !== undefined && current !== result.level && ` – the device has ${current}`}
+            {result.warning && <div>{result.warning}</div>}
+          </Alert>
+        )}
+        {error && <Alert severity="error" sx={{ mt: 2 }}>{error}</Alert>}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={close} disabled={recording}>Cancel</Button>
+        {phase === "intro" && <Button variant="contained" onClick={recordRest}>Record rest</Button>}
+        {phase === "ready" && <Button variant="contained" onClick={recordContraction}>Record contraction</Button>}
+        {phase === "result" && <Button onClick={recordRest}>Repeat</Button>}
+        {phase === "result" && result && (
+          <Button variant="contained" disabled={applying || current === result.level} onClick={() => void apply()}>
+            Write {result.level} to device
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+}
+
+export default EmgCalibrationDialog;
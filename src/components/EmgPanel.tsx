@@ -0,0 +1,211 @@
+// src/components/EmgPanel.tsx
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Alert, Box, Button, Slider, Typography, useTheme } from "@mui/material";
+import {
+  charSpec,
+  EMG_THRESHOLD_COUNTS,
+  hasChar,
+  specialValue,
+  subscribeChar,
+  type FirmwareProfile,
+} from "../bb01";
+import { EnvelopeBuffer } from "../emg";
+import type { HhiTransport, VirtualHhi } from "../transport";
+import EmgCalibrationDialog from "./EmgCalibrationDialog";
+
+interface Props {
+  transport: HhiTransport;
+  fw: FirmwareProfile;
+  ready: boolean;
+  /** The device's EMG threshold setting (0xBB07), once known. */
+  threshold: number | undefined;
+  /** Bench controls of a simulated device. */
+  sim?: VirtualHhi;
+  /** Writes a threshold setting; resolves true once the device holds it. */
+  onApply: (level: number) => Promise<boolean>;
+  log: (m: string) => void;
+}
+
+// "absent": the firmware doesn't have the proposed 0xBB14
+type StreamState = "idle" | "streaming" | "absent" | { error: string };
+
+const TRACE_MS = 10_000;
+const TRACE_H = 120;
+
+// Full scale follows the signal, but never hides the threshold line
+const scaleFor = (peak: number, counts: number | undefined) => Math.max(200, (counts ?? 0) * 1.25, peak * 1.1);
+
+// The envelope from 0xBB14 as a bar and a 10 s trace, with the threshold
+// setting drawn at the level the firmware compares it against.
+function EmgPanel({ transport, fw, ready, threshold, sim, onApply, log }: Props) {
+  const theme = useTheme();
+  const [buffer] = useState(() => new EnvelopeBuffer());
+  const [stream, setStream] = useState<StreamState>("idle");
+  const [latest, setLatest] = useState<number | undefined>(undefined);
+  const [effort, setEffort] = useState(0);
+  const [calibrating, setCalibrating] = useState(false);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const frame = useRef<number | null>(null);
+
+  const button = specialValue(charSpec(fw, "emgThreshold"), "Button");
+  const counts = threshold !== undefined && threshold !== button ? EMG_THRESHOLD_COUNTS[threshold] : undefined;
+  const peak = Math.max(0, ...buffer.since(Date.now() - TRACE_MS).map(s => s.v));
+  const scale = scaleFor(peak, counts);
+
+  // (Re)subscribes on every connect; notifications don't survive a dropped link
+  useEffect(() => {
+    if (!ready || !hasChar(fw, "emgEnvelope")) return;
+    let off: (() => void) | null = null;
+    let gone = false;
+    subscribeChar(transport, fw, "emgEnvelope", v => buffer.push(v))
+      .then(unsubscribe => {
+        if (gone) return unsubscribe();
+        off = unsubscribe;
+        setStream("streaming");
+      })
+      .catch(e => {
+        if (gone) return;
+        setStream(e instanceof DOMException && e.name === "NotFoundError" ? "absent" : { error: String(e) });
+      });
+    return () => {
+      gone = true;
+      off?.();
+    };
+  }, [transport, fw, ready, buffer]);
+
+  const draw = useCallback(() => {
+    frame.current = null;
+    const c = canvasRef.current;
+    if (!c?.clientWidth) return;
+    const dpr = window.devicePixelRatio || 1;
+    const W = c.clientWidth;
+    if (c.width !== Math.round(W * dpr) || c.height !== Math.round(TRACE_H * dpr)) {
+      c.width = Math.round(W * dpr);
+      c.height = Math.round(TRACE_H * dpr);
+    }
+    const ctx = c.getContext("2d")!;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    const { palette } = theme;
+    ctx.fillStyle = palette.background.paper;
+    ctx.fillRect(0, 0, W, TRACE_H);
+    ctx.strokeStyle = palette.divider;
+    ctx.strokeRect(0.5, 0.5, W - 1, TRACE_H - 1);
+
+    const to = Date.now();
+    const samples = buffer.since(to - TRACE_MS);
+    const top = scaleFor(Math.max(0, ...samples.map(s => s.v)), counts);
+    const x = (t: number) => ((t - (to - TRACE_MS)) / TRACE_MS) * W;
+    const y = (v: number) => TRACE_H - 4 - (Math.min(v, top) / top) * (TRACE_H - 8);
+
+    if (counts !== undefined) {
+      ctx.strokeStyle = palette.error.main;
+      ctx.setLineDash([4, 4]);
+      ctx.beginPath();
+      ctx.moveTo(0, y(counts));
+      ctx.lineTo(W, y(counts));
+      ctx.stroke();
+      ctx.setLineDash([]);
+      ctx.fillStyle = palette.error.main;
+      ctx.font = `11px ${theme.typography.fontFamily}`;
+      ctx.textBaseline = "bottom";
+      ctx.fillText(`threshold ${threshold} (${counts})`, 6, y(counts) - 2);
+    }
+
+    ctx.strokeStyle = palette.primary.main;
+    ctx.lineWidth = 1.5;
+    ctx.beginPath();
+    samples.forEach((s, i) => (i ? ctx.lineTo(x(s.t), y(s.v)) : ctx.moveTo(x(s.t), y(s.v))));
+    ctx.stroke();
+    ctx.lineWidth = 1;
+  }, [buffer, counts, threshold, theme]);
+
+  // One redraw per animation frame however fast samples arrive
+  useEffect(() => {
+    const off = buffer.subscribe(() => {
+      setLatest(buffer.latest?.v);
+      frame.current ??= requestAnimationFrame(draw);
+    });
+    draw();
+    return () => {
+      off();
+      if (frame.current !== null) cancelAnimationFrame(frame.current);
+      frame.current = null;
+    };
+  }, [buffer, draw]);
+
+  const above = latest !== undefined && counts !== undefined && latest >= counts;
+
+  const apply = async (level: number) => {
+    const ok = await onApply(level);
+    if (ok) log(`EMG threshold set to ${level} from calibration`);
+    return ok;
+  };
+
+  return (
+    <Box mt={4}>
+      <Typography variant="h6">EMG Envelope</Typography>
+      {stream === "absent" && (
+        <Alert severity="info" sx={{ mt: 1 }}>
+          This firmware doesn't stream the EMG envelope (0xBB14, proposed). The threshold can still be set by number.
+        </Alert>
+      )}
+      {typeof stream === "object" && <Alert severity="error" sx={{ mt: 1 }}>{stream.error}</Alert>}
+      {stream !== "absent" && (
+        <>
+          <Box display="flex" alignItems="center" gap={2} mt={1}>
+            <Box position="relative" flexGrow={1} height={20} bgcolor="action.hover" borderRadius={1} overflow="hidden">
+              <Box
+                height="100%"
+                width={`${Math.min(100, ((latest ?? 0) / scale) * 100)}%`}
+                bgcolor={above ? "error.main" : "primary.main"}
+              />
+              {counts !== undefined && (
+                <Box position="absolute" top={0} bottom={0} left={`${(counts / scale) * 100}%`} width={2} bgcolor="error.dark" />
+              )}
+            </Box>
+            <Typography sx={{ minWidth: 220 }}>
+              {latest ?? "—"}
+              {counts !== undefined
+                ? ` / ${counts} – ${above ? "above" : "below"} threshold`
+                : threshold === button ? " – threshold set by the button" : ""}
+            </Typography>
+          </Box>
+          <Box mt={1}>
+            <canvas ref={canvasRef} style={{ width: "100%", height: TRACE_H, display: "block" }} />
+          </Box>
+          <Box display="flex" alignItems="center" gap={2} mt={1}>
+            <Button variant="outlined" disabled={!ready || stream !== "streaming"} onClick={() => setCalibrating(true)}>
+              Calibrate threshold…
+            </Button>
+            {sim && (
+              <Box display="flex" alignItems="center" gap={2} flexGrow={1} maxWidth={360}>
+                <Typography variant="body2" noWrap>Simulated effort</Typography>
+                <Slider
+                  size="small"
+                  value={effort}
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  onChange={(_, v) => {
+                    setEffort(v as number);
+                    sim.setEffort(v as number);
+                  }}
+                />
+              </Box>
+            )}
+          </Box>
+        </>
+      )}
+
+      <EmgCalibrationDialog
+        open={calibrating}
+        buffer={buffer}
+        current={threshold}
+        onApply={apply}
+        onClose={() => setCalibrating(false)}
+      />
+    </Box>
+  );
+}
+
+export default EmgPanel;
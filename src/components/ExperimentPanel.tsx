@@ -0,0 +1,430 @@
+// src/components/ExperimentPanel.tsx
+import { useEffect, useRef, useState } from "react";
+import {
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  Chip,
+  FormControlLabel,
+  IconButton,
+  MenuItem,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from "@mui/material";
+import PlayArrowIcon from "@mui/icons-material/PlayArrow";
+import PauseIcon from "@mui/icons-material/Pause";
+import StopIcon from "@mui/icons-material/Stop";
+import DeleteIcon from "@mui/icons-material/Delete";
+import type { FirmwareProfile } from "../bb01";
+import { STIM_FIELDS, type SafetyLimits, type StimParams, type Violation } from "../safety";
+import { FIELD_LABELS, type StimTarget } from "../protocols";
+import {
+  buildSchedule,
+  checkExperiment,
+  loadExperiments,
+  newCondition,
+  newExperiment,
+  newSeed,
+  saveExperiments,
+  toTrialTsv,
+  TrialRunner,
+  type Condition,
+  type Experiment,
+  type TrialOrder,
+  type TrialPhase,
+  type TrialProgress,
+  type TrialRecord,
+} from "../experiments";
+import { downloadText, slug } from "../util/download";
+import SafetyConfirmDialog from "./SafetyConfirmDialog";
+
+interface Props {
+  /** null while no device is connected. */
+  target: StimTarget | null;
+  fw: FirmwareProfile;
+  limits: SafetyLimits;
+  /** Parameters currently in the form – what new conditions start from. */
+  startParams: StimParams;
+  log: (m: string) => void;
+  /** True while a blinded run is in progress, so the panel can hide parameters. */
+  onBlindChange: (blinded: boolean) => void;
+}
+
+const fmtMs = (ms: number) =>
+  ms >= 60_000 ? `${(ms / 60_000).toFixed(1)} min` : ms >= 1000 ? `${(ms / 1000).toFixed(1)} s` : `${Math.round(ms)} ms`;
+
+const fmtClock = (t: number) =>
+  t ? `${new Date(t).toLocaleTimeString([], { hour12: false })}.${String(Math.floor(t % 1000)).padStart(3, "0")}` : "—";
+
+const PHASE_TEXT: Record<TrialPhase, string> = {
+  setup:       "setting parameters",
+  stimulating: "stimulating",
+  interval:    "inter-trial interval",
+  break:       "block finished – press Continue",
+  finished:    "finished",
+};
+
+const num = (label: string, value: number, onChange: (v: number) => void, disabled?: boolean, width = 110) => (
+  <TextField
+    size="small"
+    type="number"
+    label={label}
+    value={value}
+    disabled={disabled}
+    onChange={e => onChange(+e.target.value)}
+    sx={{ width, mr: 1, mt: 1 }}
+  />
+);
+
+function ConditionRow({ c, fw, startParams, disabled, onChange, onRemove }: {
+  c: Condition;
+  fw: FirmwareProfile;
+  startParams: StimParams;
+  disabled?: boolean;
+  onChange: (c: Condition) => void;
+  onRemove?: () => void;
+}) {
+  return (
+    <Paper variant="outlined" sx={{ p: 1, mb: 1 }}>
+      <Box display="flex" alignItems="center" flexWrap="wrap">
+        <TextField
+          size="small"
+          label="Condition"
+          value={c.label}
+          disabled={disabled}
+          onChange={e => onChange({ ...c, label: e.target.value })}
+          sx={{ width: 160, mr: 1, mt: 1 }}
+        />
+        {num("Trials", c.trials, trials => onChange({ ...c, trials }), disabled, 90)}
+        <FormControlLabel
+          sx={{ mt: 1 }}
+          control={<Checkbox checked={c.sham} disabled={disabled} onChange={e => onChange({ ...c, sham: e.target.checked })} />}
+          label="Sham (0 mA)"
+        />
+        <Box flexGrow={1} />
+        <Button size="small" disabled={disabled} onClick={() => onChange({ ...c, params: { ...startParams } })}>
+          Use form values
+        </Button>
+        <IconButton size="small" disabled={disabled || !onRemove} onClick={onRemove}>
+          <DeleteIcon fontSize="small" />
+        </IconButton>
+      </Box>
+      {STIM_FIELDS.filter(f => fw.chars[f] && !(c.sham && f === "stimAmplitude")).map(f => (
+        <TextField
+          key={f}
+          size="small"
+          type="number"
+          label={FIELD_LABELS[f]}
+          value={c.params[f]}
+          disabled={disabled}
+          onChange={e => onChange({ ...c, params: { ...c.params, [f]: +e.target.value } })}
+          sx={{ width: 110, mr: 1, mt: 1 }}
+        />
+      ))}
+    </Paper>
+  );
+}
+
+function ExperimentPanel({ target, fw, limits, startParams, log, onBlindChange }: Props) {
+  const [experiments, setExperiments] = useState<Experiment[]>(() => {
+    const list = loadExperiments();
+    return list.length ? list : [newExperiment(startParams)];
+  });
+  const [selectedId, setSelectedId] = useState(() => experiments[0].id);
+  const [progress,   setProgress]   = useState<TrialProgress | null>(null);
+  const [records,    setRecords]    = useState<TrialRecord[]>([]);
+  const [seed,       setSeed]       = useState(0);
+  const [revealed,   setRevealed]   = useState(false);
+  const [confirm,    setConfirm]    = useState<Violation[] | null>(null);
+  const runner = useRef<TrialRunner | null>(null);
+
+  const exp = experiments.find(x => x.id === selectedId) ?? experiments[0];
+  const active = progress?.state === "running" || progress?.state === "paused";
+  const check = checkExperiment(exp, fw, limits);
+  // Each block is checked again as it starts; with a single block this is that check
+  const battery = !active ? target?.batteryCheck?.(check.estimatedMs, check.stimMs) : null;
+  const batteryBlocks = !!battery && check.blocks === 1;
+  // Labels stay hidden until the operator unblinds a finished run
+  const hideLabels = exp.blinded && !revealed;
+
+  useEffect(() => {
+    onBlindChange(active && exp.blinded);
+  }, [active, exp.blinded, onBlindChange]);
+
+  const update = (list: Experiment[]) => {
+    setExperiments(list);
+    saveExperiments(list);
+  };
+  const edit = (x: Experiment) => update(experiments.map(e => (e.id === x.id ? x : e)));
+  const editCondition = (c: Condition) => edit({ ...exp, conditions: exp.conditions.map(x => (x.id === c.id ? c : x)) });
+
+  const addExperiment = () => {
+    const x = newExperiment(startParams);
+    update([...experiments, x]);
+    setSelectedId(x.id);
+  };
+
+  const deleteExperiment = () => {
+    const rest = experiments.filter(x => x.id !== exp.id);
+    const list = rest.length ? rest : [newExperiment(startParams)];
+    update(list);
+    setSelectedId(list[0].id);
+  };
+
+  const start = async () => {
+    if (!target) return;
+    setConfirm(null);
+    const s = newSeed();
+    const schedule = buildSchedule(exp, s);
+    setSeed(s);
+    setRecords([]);
+    setRevealed(false);
+    log(`Experiment '${exp.name}' started: ${schedule.length} trials, ${exp.order}, seed ${s}${exp.blinded ? ", blinded" : ""}`);
+    let last: TrialProgress | null = null;
+    const r = new TrialRunner(
+      target,
+      limits,
+      exp,
+      p => {
+        last = p;
+        setProgress(p);
+      },
+      rec => {
+        setRecords(rs => [...rs, rec]);
+        log(exp.blinded
+          ? `Trial ${rec.trial} of ${schedule.length} ${rec.status}`
+          : `Trial ${rec.trial} of ${schedule.length} (${rec.condition}) ${rec.status}`);
+      },
+    );
+    runner.current = r;
+    await r.run(schedule);
+    runner.current = null;
+    const end = last as TrialProgress | null;
+    log(`Experiment '${exp.name}' ${end?.state ?? "ended"}${end?.error ? `: ${end.error}` : ""}`);
+  };
+
+  const onRun = () => {
+    if (!target || check.blocked || check.problems.length || batteryBlocks) return;
+    if (check.violations.length) setConfirm(check.violations);
+    else void start();
+  };
+
+  const exportTable = () =>
+    downloadText(`${slug(exp.name)}_trials_${seed}.tsv`, toTrialTsv(records, seed), "text/tab-separated-values");
+
+  return (
+    <Box mt={4}>
+      <Typography variant="h6">Experiments</Typography>
+
+      <Box display="flex" alignItems="center" mt={1}>
+        <TextField
+          select
+          size="small"
+          label="Experiment"
+          value={exp.id}
+          disabled={active}
+          onChange={e => setSelectedId(e.target.value)}
+          sx={{ minWidth: 200, mr: 1 }}
+        >
+          {experiments.map(x => (
+            <MenuItem key={x.id} value={x.id}>{x.name}</MenuItem>
+          ))}
+        </TextField>
+        <TextField
+          size="small"
+          label="Name"
+          value={exp.name}
+          disabled={active}
+          onChange={e => edit({ ...exp, name: e.target.value })}
+          sx={{ mr: 1 }}
+        />
+        <Button size="small" disabled={active} onClick={addExperiment}>New</Button>
+        <Button size="small" color="error" disabled={active} onClick={deleteExperiment}>Delete</Button>
+      </Box>
+
+      {/* Conditions are hidden during a blinded run – they'd give the order away */}
+      {!(active && exp.blinded) && (
+        <Box mt={2}>
+          {exp.conditions.map(c => (
+            <ConditionRow
+              key={c.id}
+              c={c}
+              fw={fw}
+              startParams={startParams}
+              disabled={active}
+              onChange={editCondition}
+              onRemove={exp.conditions.length > 1 ? () => edit({ ...exp, conditions: exp.conditions.filter(x => x.id !== c.id) }) : undefined}
+            />
+          ))}
+          <Button
+            size="small"
+            disabled={active}
+            onClick={() => edit({ ...exp, conditions: [...exp.conditions, newCondition(startParams, `Condition ${exp.conditions.length + 1}`)] })}
+          >
+            + Condition
+          </Button>
+        </Box>
+      )}
+
+      <Box display="flex" alignItems="center" flexWrap="wrap" mt={1}>
+        <TextField
+          select
+          size="small"
+          label="Order"
+          value={exp.order}
+          disabled={active}
+          onChange={e => edit({ ...exp, order: e.target.value as TrialOrder })}
+          sx={{ width: 170, mr: 1, mt: 1 }}
+        >
+          <MenuItem value="randomized">Randomized</MenuItem>
+          <MenuItem value="counterbalanced">Counterbalanced</MenuItem>
+        </TextField>
+        {num("ITI min ms", exp.itiMinMs, itiMinMs => edit({ ...exp, itiMinMs }), active)}
+        {num("ITI max ms", exp.itiMaxMs, itiMaxMs => edit({ ...exp, itiMaxMs }), active)}
+        {num("Hold ≤ ms", exp.holdMs, holdMs => edit({ ...exp, holdMs }), active)}
+        {num("Block size", exp.blockSize, blockSize => edit({ ...exp, blockSize: Math.max(0, Math.round(blockSize)) }), active)}
+        <FormControlLabel
+          sx={{ mt: 1 }}
+          control={
+            <Checkbox
+              checked={exp.pauseBetweenBlocks}
+              disabled={active || exp.blockSize <= 0}
+              onChange={e => edit({ ...exp, pauseBetweenBlocks: e.target.checked })}
+            />
+          }
+          label="Pause between blocks"
+        />
+        <FormControlLabel
+          sx={{ mt: 1 }}
+          control={<Checkbox checked={exp.blinded} disabled={active} onChange={e => edit({ ...exp, blinded: e.target.checked })} />}
+          label="Blinded"
+        />
+      </Box>
+
+      <Box mt={2}>
+        <Typography variant="body2">
+          {check.trials} trials in {check.blocks} block{check.blocks === 1 ? "" : "s"} · estimated run time {fmtMs(check.estimatedMs)}
+        </Typography>
+        {check.problems.map(p => (
+          <Alert key={p} severity="error" sx={{ mt: 1 }}>{p}</Alert>
+        ))}
+        {!(active && exp.blinded) && check.violations.map((v, i) => (
+          <Alert key={i} severity={v.severity === "block" ? "error" : "warning"} sx={{ mt: 1 }}>
+            {v.message}
+          </Alert>
+        ))}
+        {battery && (
+          <Alert severity={batteryBlocks ? "error" : "warning"} sx={{ mt: 1 }}>
+            {battery}
+            {!batteryBlocks && " – blocks that won't fit are refused as they start."}
+          </Alert>
+        )}
+      </Box>
+
+      <Box mt={2} display="flex" alignItems="center" gap={1}>
+        {!active && (
+          <Button
+            variant="contained"
+            startIcon={<PlayArrowIcon />}
+            disabled={!target || !check.trials || check.blocked || !!check.problems.length || batteryBlocks}
+            onClick={onRun}
+          >
+            Run
+          </Button>
+        )}
+        {progress?.state === "running" && (
+          <Button variant="outlined" startIcon={<PauseIcon />} disabled={progress.pausing} onClick={() => runner.current?.pause()}>
+            {progress.pausing ? "Pausing after trial…" : "Pause"}
+          </Button>
+        )}
+        {progress?.state === "paused" && (
+          <Button variant="outlined" startIcon={<PlayArrowIcon />} onClick={() => runner.current?.resume()}>
+            {progress.phase === "break" ? "Continue" : "Resume"}
+          </Button>
+        )}
+        {active && (
+          <Button variant="contained" color="error" startIcon={<StopIcon />} onClick={() => runner.current?.abort()}>
+            Abort
+          </Button>
+        )}
+        {progress && (
+          <>
+            <Chip size="small" label={progress.state} color={progress.state === "failed" ? "error" : "default"} />
+            <Typography variant="body2">
+              Trial {progress.trial} of {progress.total}
+              {progress.blocks > 1 && ` · block ${progress.block}/${progress.blocks}`}
+              {progress.condition && ` · ${progress.condition}`}
+              {active && ` · ${PHASE_TEXT[progress.phase]}`} · {fmtMs(progress.elapsedMs)}
+            </Typography>
+          </>
+        )}
+      </Box>
+      {progress?.error && <Alert severity="error" sx={{ mt: 1 }}>{progress.error}</Alert>}
+
+      {records.length > 0 && (
+        <Box mt={2}>
+          <Box display="flex" alignItems="center" gap={1}>
+            <Typography variant="subtitle2" sx={{ flexGrow: 1 }}>
+              Trial table · seed {seed}
+            </Typography>
+            {hideLabels && (
+              <Button size="small" disabled={active} onClick={() => setRevealed(true)}>
+                Unblind
+              </Button>
+            )}
+            <Button size="small" disabled={active || hideLabels} onClick={exportTable}>
+              Export TSV
+            </Button>
+          </Box>
+          <Box sx={{ maxHeight: 240, overflowY: "auto" }}>
+            <Table size="small" stickyHeader>
+              <TableHead>
+                <TableRow>
+                  <TableCell align="right">Trial</TableCell>
+                  <TableCell align="right">Block</TableCell>
+                  <TableCell>Condition</TableCell>
+                  <TableCell>Onset</TableCell>
+                  <TableCell align="right">Duration</TableCell>
+                  <TableCell align="right">ITI</TableCell>
+                  <TableCell>Status</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {records.map(r => (
+                  <TableRow key={r.trial}>
+                    <TableCell align="right">{r.trial}</TableCell>
+                    <TableCell align="right">{r.block}</TableCell>
+                    <TableCell>{hideLabels ? "hidden" : `${r.condition}${r.sham ? " (sham)" : ""}`}</TableCell>
+                    <TableCell>{fmtClock(r.onset)}</TableCell>
+                    <TableCell align="right">{r.onset && r.offset ? fmtMs(r.offset - r.onset) : "—"}</TableCell>
+                    <TableCell align="right">{fmtMs(r.itiMs)}</TableCell>
+                    <TableCell>{r.status}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </Box>
+        </Box>
+      )}
+
+      <SafetyConfirmDialog
+        open={!!confirm}
+        violations={confirm ?? []}
+        onCancel={() => setConfirm(null)}
+        onConfirm={() => {
+          confirm?.forEach(v => log(`Operator confirmed: ${v.message}`));
+          void start();
+        }}
+      />
+    </Box>
+  );
+}
+
+export default ExperimentPanel;
@@ -0,0 +1,398 @@
+// src/components/GattInspector.tsx
+import { Fragment, useEffect, useRef, useState } from "react";
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  MenuItem,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from "@mui/material";
+import { decode, type CharSpec, type FirmwareProfile } from "../bb01";
+import {
+  bb01Match,
+  describeDescriptor,
+  descriptorName,
+  formatFor,
+  formatRaw,
+  parseRaw,
+  RAW_FORMATS,
+  serviceName,
+  type RawFormat,
+} from "../inspector";
+import { evaluateStim, STIM_FIELDS, type SafetyLimits, type StimField, type StimParams, type Violation } from "../safety";
+import { dvBytes, now, toHex } from "../session";
+import { fmtUuid, type GattServiceInfo, type GattUuid, type HhiTransport } from "../transport";
+import SafetyConfirmDialog from "./SafetyConfirmDialog";
+
+interface Props {
+  transport: HhiTransport;
+  fw: FirmwareProfile;
+  ready: boolean;
+  limits: SafetyLimits;
+  /** Parameters in the form – what a raw write to one stimulation field is checked together with. */
+  params: StimParams;
+  log: (m: string) => void;
+}
+
+interface Target {
+  service: GattUuid;
+  characteristic: GattUuid;
+}
+
+interface LogLine {
+  t: number;
+  characteristic: GattUuid;
+  hex: string;
+}
+
+// Notifications kept on screen; a chatty characteristic would otherwise grow the page forever
+const LOG_LINES = 500;
+
+const slotOf = (t: Target) => `${fmtUuid(t.service)}/${fmtUuid(t.characteristic)}`;
+
+const fmtClock = (t: number) => {
+  const d = new Date(t);
+  return `${d.toLocaleTimeString([], { hour12: false })}.${String(d.getMilliseconds()).padStart(3, "0")}`;
+};
+
+// What the schema makes of raw bytes – a mismatch is the interesting case here
+const asSchema = (spec: CharSpec, bytes: Uint8Array) => {
+  try {
+    return String(decode(spec, new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)));
+  } catch (e) {
+    return `doesn't decode – ${(e as Error).message}`;
+  }
+};
+
+const isStimField = (k: string): k is StimField => (STIM_FIELDS as readonly string[]).includes(k);
+
+// Every service, characteristic and descriptor the device exposes, with raw
+// reads and writes in a chosen format and a log of notifications. Writes go
+// through the device's transport, so the emergency stop, lab ranges and dose
+// cap apply; raw values for stimulation fields are held to the safety limits.
+function GattInspector({ transport, fw, ready, limits, params, log }: Props) {
+  const [services, setServices] = useState<GattServiceInfo[] | null>(null);
+  const [busy,     setBusy]     = useState(false);
+  const [error,    setError]    = useState<string | null>(null);
+  const [target,   setTarget]   = useState<Target | null>(null);
+  const [format,   setFormat]   = useState<RawFormat>("hex");
+  const [layout,   setLayout]   = useState("u8 u16");
+  const [text,     setText]     = useState("");
+  const [lastRead, setLastRead] = useState<Uint8Array | null>(null);
+  const [lines,    setLines]    = useState<LogLine[]>([]);
+  const [subscribed, setSubscribed] = useState<string[]>([]);
+  const [pendingConfirm, setPendingConfirm] = useState<{ bytes: Uint8Array; violations: Violation[] } | null>(null);
+  const unsubs = useRef(new Map<string, () => void>());
+
+  const match = target && bb01Match(fw, target.service, target.characteristic);
+
+  // Subscriptions don't outlive the link or the panel
+  useEffect(() => {
+    const subs = unsubs.current;
+    const drop = () => {
+      subs.clear();
+      setSubscribed([]);
+    };
+    const off = transport.onDisconnect(drop);
+    return () => {
+      off();
+      subs.forEach(u => u());
+      drop();
+    };
+  }, [transport]);
+
+  const discover = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const found = await transport.discover!();
+      setServices(found);
+      log(`GATT inspector: ${found.length} service${found.length === 1 ? "" : "s"}, ${found.reduce((n, s) => n + s.characteristics.length, 0)} characteristics`);
+    } catch (e) {
+      setError(`Discovery failed: ${e}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const select = (t: Target) => {
+    setTarget(t);
+    setFormat(formatFor(bb01Match(fw, t.service, t.characteristic)?.spec));
+    setText("");
+    setLastRead(null);
+    setError(null);
+  };
+
+  // Re-shows the last read in a newly picked format
+  const changeFormat = (f: RawFormat, l = layout) => {
+    setFormat(f);
+    setLayout(l);
+    if (!lastRead) return;
+    try {
+      setText(formatRaw(lastRead, f, l));
+      setError(null);
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  };
+
+  const read = async () => {
+    if (!target) return;
+    setError(null);
+    try {
+      const bytes = dvBytes(await transport.read(target.service, target.characteristic)).slice();
+      setLastRead(bytes);
+      log(`GATT read ${slotOf(target)}: ${toHex(bytes) || "(empty)"}`);
+      setText(formatRaw(bytes, format, layout));
+    } catch (e) {
+      setError(`Read failed: ${(e as Error).message ?? e}`);
+    }
+  };
+
+  const send = async (bytes: Uint8Array) => {
+    if (!target) return;
+    try {
+      await transport.write(target.service, target.characteristic, bytes);
+      log(`GATT write ${slotOf(target)}: ${toHex(bytes) || "(empty)"}`);
+    } catch (e) {
+      setError(`Write failed: ${(e as Error).message ?? e}`);
+    }
+  };
+
+  const write = async () => {
+    if (!target) return;
+    setError(null);
+    let bytes: Uint8Array;
+    try {
+      bytes = parseRaw(text, format, layout);
+    } catch (e) {
+      setError((e as Error).message);
+      return;
+    }
+    // A known stimulation field gets the same checks as the form
+    const spec = match?.inFirmware ? match.spec : null;
+    if (spec && isStimField(spec.key)) {
+      let value: number;
+      try {
+        value = decode(spec, new DataView(bytes.buffer)) as number;
+      } catch {
+        setError(`${bytes.length} bytes don't fit ${spec.label} (${spec.type})`);
+        return;
+      }
+      const report = evaluateStim({ ...params, [spec.key]: value }, fw, limits);
+      if (report.blocked) {
+        report.violations.filter(v => v.severity === "block").forEach(v => log(`Safety block: ${v.message}`));
+        setError("Blocked by safety limits");
+        return;
+      }
+      if (report.needsConfirm) {
+        setPendingConfirm({ bytes, violations: report.violations });
+        return;
+      }
+    }
+    await send(bytes);
+  };
+
+  const confirmWrite = async () => {
+    if (!pendingConfirm) return;
+    pendingConfirm.violations.forEach(v => log(`Operator confirmed: ${v.message}`));
+    setPendingConfirm(null);
+    await send(pendingConfirm.bytes);
+  };
+
+  const toggleSubscribe = async (t: Target) => {
+    const slot = slotOf(t);
+    const off = unsubs.current.get(slot);
+    if (off) {
+      off();
+      unsubs.current.delete(slot);
+      setSubscribed(s => s.filter(x => x !== slot));
+      return;
+    }
+    try {
+      const unsubscribe = await transport.subscribe(t.service, t.characteristic, dv =>
+        setLines(l => [...l.slice(-(LOG_LINES - 1)), { t: now(), characteristic: t.characteristic, hex: toHex(dvBytes(dv)) }]),
+      );
+      unsubs.current.set(slot, unsubscribe);
+      setSubscribed(s => [...s, slot]);
+    } catch (e) {
+      setError(`Subscribe to ${slot} failed: ${(e as Error).message ?? e}`);
+    }
+  };
+
+  return (
+    <Box mt={4}>
+      <Typography variant="h6">GATT Inspector</Typography>
+      <Box display="flex" alignItems="center" gap={1} mt={1}>
+        <Button variant="outlined" size="small" disabled={!ready || busy || !transport.discover} onClick={discover}>
+          {services ? "Rediscover" : "Discover services"}
+        </Button>
+        {!transport.discover && (
+          <Typography variant="body2" color="text.secondary">This transport can't enumerate its services.</Typography>
+        )}
+        {transport.kind === "ble" && (
+          <Typography variant="body2" color="text.secondary">
+            Browsers only show services requested when the device was picked.
+          </Typography>
+        )}
+      </Box>
+
+      {services && (
+        <Table size="small" sx={{ mt: 1 }}>
+          <TableHead>
+            <TableRow>
+              <TableCell>Characteristic</TableCell>
+              <TableCell>BB01</TableCell>
+              <TableCell>Properties</TableCell>
+              <TableCell>Descriptors</TableCell>
+              <TableCell />
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {services.map(svc => (
+              <Fragment key={fmtUuid(svc.uuid)}>
+                <TableRow>
+                  <TableCell colSpan={5} sx={{ bgcolor: "action.hover", fontWeight: 500 }}>
+                    {serviceName(svc.uuid)}
+                    {typeof svc.uuid === "number" && ` (${fmtUuid(svc.uuid)})`}
+                  </TableCell>
+                </TableRow>
+                {svc.characteristics.map(ch => {
+                  const t = { service: svc.uuid, characteristic: ch.uuid };
+                  const slot = slotOf(t);
+                  const m = bb01Match(fw, svc.uuid, ch.uuid);
+                  const notifies = ch.properties.includes("notify") || ch.properties.includes("indicate");
+                  return (
+                    <TableRow
+                      key={slot}
+                      hover
+                      selected={!!target && slotOf(target) === slot}
+                      onClick={() => select(t)}
+                      sx={{ cursor: "pointer" }}
+                    >
+                      <TableCell sx={{ fontFamily: "monospace" }}>{fmtUuid(ch.uuid)}</TableCell>
+                      <TableCell>
+                        {m ? `${m.spec.key} – ${m.spec.label}` : "—"}
+                        {m && !m.inFirmware && (
+                          <Chip size="small" color="warning" label={`not in ${fw.label}`} sx={{ ml: 1 }} />
+                        )}
+                      </TableCell>
+                      <TableCell>{ch.properties.join(", ")}</TableCell>
+                      <TableCell>
+                        {ch.descriptors.map(d => (
+                          <div key={fmtUuid(d.uuid)}>
+                            {descriptorName(d.uuid)}: {d.value ? describeDescriptor(d.uuid, d.value) : d.error}
+                          </div>
+                        ))}
+                      </TableCell>
+                      <TableCell>
+                        {notifies && (
+                          <Button
+                            size="small"
+                            onClick={e => {
+                              e.stopPropagation();
+                              void toggleSubscribe(t);
+                            }}
+                          >
+                            {subscribed.includes(slot) ? "Unsubscribe" : "Subscribe"}
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </Fragment>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      {target && (
+        <Box mt={2}>
+          <Typography variant="subtitle1">
+            {fmtUuid(target.characteristic)}
+            {match && ` · ${match.spec.label} (${match.spec.type}${match.spec.unit ? `, ${match.spec.unit}` : ""})`}
+          </Typography>
+          <Box display="flex" flexWrap="wrap" alignItems="center" gap={1} mt={1}>
+            <TextField
+              select
+              size="small"
+              label="Format"
+              value={format}
+              onChange={e => changeFormat(e.target.value as RawFormat)}
+              sx={{ minWidth: 140 }}
+            >
+              {(Object.entries(RAW_FORMATS) as [RawFormat, string][]).map(([f, label]) => (
+                <MenuItem key={f} value={f}>{label}</MenuItem>
+              ))}
+            </TextField>
+            {format === "struct" && (
+              <TextField
+                size="small"
+                label="Layout"
+                value={layout}
+                onChange={e => changeFormat(format, e.target.value)}
+                helperText="u8 i8 u16 i16 u32 i32 f32, little-endian"
+              />
+            )}
+            <TextField
+              size="small"
+              label="Value"
+              value={text}
+              onChange={e => setText(e.target.value)}
+              helperText={format === "hex" || format === "utf8" ? undefined : "Comma or space separated; 0x… allowed"}
+              slotProps={{ input: { sx: { fontFamily: "monospace" } }, htmlInput: { spellCheck: false } }}
+              sx={{ flexGrow: 1, minWidth: 240 }}
+            />
+            <Button variant="outlined" disabled={!ready} onClick={read}>Read</Button>
+            <Button variant="contained" disabled={!ready} onClick={write}>Write</Button>
+          </Box>
+          {lastRead && match && (
+            <Typography variant="body2" color="text.secondary" mt={1}>
+              As {match.spec.key}: {asSchema(match.spec, lastRead)}
+            </Typography>
+          )}
+        </Box>
+      )}
+
+      {error && <Alert severity="error" sx={{ mt: 1 }} onClose={() => setError(null)}>{error}</Alert>}
+
+      {(subscribed.length > 0 || lines.length > 0) && (
+        <Box mt={2}>
+          <Box display="flex" alignItems="center" gap={1}>
+            <Typography variant="subtitle1">Notifications</Typography>
+            {subscribed.map(s => <Chip key={s} size="small" label={s} />)}
+            <Button size="small" disabled={!lines.length} onClick={() => setLines([])}>Clear</Button>
+          </Box>
+          <Box
+            mt={1}
+            p={1}
+            sx={{ bgcolor: "#f5f5f5", fontFamily: "monospace", fontSize: 13, maxHeight: 240, overflowY: "auto", whiteSpace: "pre" }}
+          >
+            {lines.map((l, i) => (
+              <div key={i}>
+                {fmtClock(l.t)}  {fmtUuid(l.characteristic).padEnd(8)}  {l.hex}
+              </div>
+            ))}
+          </Box>
+        </Box>
+      )}
+
+      <SafetyConfirmDialog
+        open={!!pendingConfirm}
+        violations={pendingConfirm?.violations ?? []}
+        onCancel={() => setPendingConfirm(null)}
+        onConfirm={confirmWrite}
+      />
+    </Box>
+  );
+}
+
+export default GattInspector;
@@ -0,0 +1,304 @@
+// src/components/LabProfileDialog.tsx
+import { useRef, useState } from "react";
+import {
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  FormGroup,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from "@mui/material";
+import { charSpec, describeRange, FIRMWARE_PROFILES, LATEST_FIRMWARE } from "../bb01";
+import { MODE_LABELS } from "../devices";
+import { STIM_FIELDS, type Bound, type StimField } from "../safety";
+import {
+  LAB_PANELS,
+  labLink,
+  labProblems,
+  labToJson,
+  NEW_LAB,
+  parseLabJson,
+  PIN_PATTERN,
+  pinFields,
+  type LabLock,
+  type LabPanel,
+  type LabProfile,
+  type LabState,
+} from "../classroom";
+import { downloadText, slug } from "../util/download";
+
+interface Props {
+  open: boolean;
+  lab: LabLock;
+  state: LabState;
+  onClose: () => void;
+  log: (m: string) => void;
+  toast: (m: string) => void;
+}
+
+// Labels and firmware ranges come from the newest layout; the ranges are raw device units
+const FW = FIRMWARE_PROFILES[LATEST_FIRMWARE];
+
+// Locked: asks for the PIN. Otherwise: the instructor's editor for the lab
+// profile, with file/link export and starting or ending the lab here.
+function LabProfileDialog({ open, lab, state, onClose, log, toast }: Props) {
+  const [draft, setDraft] = useState<LabProfile>(NEW_LAB);
+  const [pin,   setPin]   = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const locked = !!state.profile && !state.unlocked;
+
+  const onEnter = () => {
+    setDraft(state.profile ?? NEW_LAB);
+    setPin("");
+    setError(null);
+  };
+
+  const unlock = async () => {
+    if (await lab.unlock(pin)) {
+      log(`Lab '${state.profile?.name}' unlocked by the instructor`);
+      setDraft(state.profile ?? NEW_LAB);
+      setPin("");
+      setError(null);
+    } else {
+      setError("Wrong PIN");
+    }
+  };
+
+  // ---------- Editor ----------
+  const setRange = (f: StimField, which: keyof Bound, text: string) =>
+    setDraft(d => {
+      const b: Bound = { ...d.ranges[f] };
+      if (text.trim() === "") delete b[which];
+      else b[which] = Number(text);
+      const ranges = { ...d.ranges, [f]: b };
+      if (b.min === undefined && b.max === undefined) delete ranges[f];
+      return { ...d, ranges };
+    });
+
+  const toggle = <T,>(list: T[], x: T, on: boolean) => (on ? [...list, x] : list.filter(y => y !== x));
+
+  const pinProblem = pin ? (PIN_PATTERN.test(pin) ? null : "PIN must be 4–8 digits") : draft.pinHash ? null : "Set a PIN";
+  const problems = [...labProblems(draft), ...(pinProblem ? [pinProblem] : [])];
+
+  // The draft with the new PIN, if one was typed
+  const build = async (): Promise<LabProfile> => ({ ...draft, name: draft.name.trim(), ...(pin ? await pinFields(pin) : {}) });
+
+  const onImport = async (file: File) => {
+    try {
+      setDraft(parseLabJson(await file.text()));
+      setPin("");
+      setError(null);
+      log(`Lab profile loaded from ${file.name}`);
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  };
+
+  const download = async () => {
+    const p = await build();
+    downloadText(`${slug(p.name)}.hhilab.json`, labToJson(p), "application/json");
+  };
+
+  const copyLink = async () => {
+    const link = labLink(await build());
+    try {
+      await navigator.clipboard.writeText(link);
+      toast("Lab link copied");
+    } catch {
+      log(`Lab link: ${link}`);
+      toast("Couldn't copy – the link is in the log");
+    }
+  };
+
+  const start = async () => {
+    const p = await build();
+    lab.start(p);
+    log(`Lab '${p.name}' started – controls are limited to the profile`);
+    onClose();
+  };
+
+  const end = () => {
+    log(`Lab '${state.profile?.name}' ended`);
+    lab.end();
+    onClose();
+  };
+
+  const relock = () => {
+    lab.lock();
+    log(`Lab '${state.profile?.name}' locked`);
+    onClose();
+  };
+
+  if (locked) {
+    return (
+      <Dialog open={open} onClose={onClose} TransitionProps={{ onEnter }}>
+        <DialogTitle>Lab: {state.profile?.name}</DialogTitle>
+        <DialogContent>
+          <Typography gutterBottom>
+            This session is held to the lab profile. Enter the instructor PIN to change it.
+          </Typography>
+          <TextField
+            autoFocus
+            fullWidth
+            margin="normal"
+            type="password"
+            label="Instructor PIN"
+            value={pin}
+            onChange={e => setPin(e.target.value)}
+            onKeyDown={e => e.key === "Enter" && void unlock()}
+            error={!!error}
+            helperText={error}
+            slotProps={{ htmlInput: { inputMode: "numeric" } }}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={onClose}>Cancel</Button>
+          <Button variant="contained" disabled={!pin} onClick={() => void unlock()}>Unlock</Button>
+        </DialogActions>
+      </Dialog>
+    );
+  }
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" TransitionProps={{ onEnter }}>
+      <DialogTitle>Instructor mode</DialogTitle>
+      <DialogContent>
+        {state.profile && (
+          <Alert severity="info" sx={{ mb: 1 }}>
+            Lab '{state.profile.name}' is unlocked – students' limits are lifted until you lock it again.
+          </Alert>
+        )}
+        <Box display="flex" gap={2}>
+          <TextField
+            fullWidth
+            margin="normal"
+            label="Lab name"
+            value={draft.name}
+            onChange={e => setDraft(d => ({ ...d, name: e.target.value }))}
+          />
+          <TextField
+            margin="normal"
+            type="password"
+            label={draft.pinHash ? "New PIN" : "Instructor PIN"}
+            value={pin}
+            onChange={e => setPin(e.target.value)}
+            helperText={draft.pinHash ? "Leave blank to keep the PIN" : "4–8 digits"}
+            slotProps={{ htmlInput: { inputMode: "numeric" } }}
+            sx={{ minWidth: 180 }}
+          />
+        </Box>
+
+        <Typography variant="subtitle1" sx={{ mt: 2 }}>Operating modes students may select</Typography>
+        <FormGroup row>
+          {Object.entries(MODE_LABELS).map(([m, label]) => (
+            <FormControlLabel
+              key={m}
+              control={
+                <Checkbox
+                  checked={draft.modes.includes(+m)}
+                  onChange={e => setDraft(d => ({ ...d, modes: toggle(d.modes, +m, e.target.checked).sort((a, b) => a - b) }))}
+                />
+              }
+              label={`${m} – ${label}`}
+            />
+          ))}
+        </FormGroup>
+
+        <Typography variant="subtitle1" sx={{ mt: 2 }}>Allowed ranges</Typography>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Field</TableCell>
+              <TableCell>Firmware range</TableCell>
+              <TableCell>Lab minimum</TableCell>
+              <TableCell>Lab maximum</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {STIM_FIELDS.map(f => {
+              const spec = charSpec(FW, f);
+              return (
+                <TableRow key={f}>
+                  <TableCell>{spec.label}{spec.unit ? ` (${spec.unit})` : ""}</TableCell>
+                  <TableCell>{describeRange(spec)}</TableCell>
+                  {(["min", "max"] as const).map(which => (
+                    <TableCell key={which}>
+                      <TextField
+                        size="small"
+                        type="number"
+                        value={draft.ranges[f]?.[which] ?? ""}
+                        placeholder="—"
+                        onChange={e => setRange(f, which, e.target.value)}
+                        sx={{ width: 100 }}
+                      />
+                    </TableCell>
+                  ))}
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+
+        <Typography variant="subtitle1" sx={{ mt: 2 }}>Hidden panels</Typography>
+        <FormGroup row>
+          {(Object.entries(LAB_PANELS) as [LabPanel, string][]).map(([p, label]) => (
+            <FormControlLabel
+              key={p}
+              control={
+                <Checkbox
+                  checked={draft.hidden.includes(p)}
+                  onChange={e => setDraft(d => ({ ...d, hidden: toggle(d.hidden, p, e.target.checked) }))}
+                />
+              }
+              label={label}
+            />
+          ))}
+        </FormGroup>
+
+        {(error || problems.length > 0) && (
+          <Alert severity={error ? "error" : "warning"} sx={{ mt: 2 }}>
+            {error ?? problems.join(" · ")}
+          </Alert>
+        )}
+        <input
+          ref={fileInput}
+          type="file"
+          accept="application/json,.json"
+          hidden
+          onChange={e => {
+            const f = e.target.files?.[0];
+            if (f) void onImport(f);
+            e.target.value = "";
+          }}
+        />
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={() => fileInput.current?.click()}>Open file…</Button>
+        <Button disabled={problems.length > 0} onClick={() => void download()}>Download</Button>
+        <Button disabled={problems.length > 0} onClick={() => void copyLink()}>Copy link</Button>
+        <Box flexGrow={1} />
+        {state.profile && <Button color="error" onClick={end}>End lab</Button>}
+        {state.profile && <Button onClick={relock}>Lock</Button>}
+        <Button onClick={onClose}>Cancel</Button>
+        <Button variant="contained" disabled={problems.length > 0} onClick={() => void start()}>
+          {state.profile ? "Save & lock" : "Start lab here"}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
+
+export default LabProfileDialog;
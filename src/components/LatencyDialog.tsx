@@ -0,0 +1,269 @@
+// src/components/LatencyDialog.tsx
+import { useRef, useState } from "react";
+import DeleteIcon from "@mui/icons-material/Delete";
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  LinearProgress,
+  MenuItem,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from "@mui/material";
+import type { DeviceEntry, DeviceManager } from "../devices";
+import {
+  DEFAULT_LATENCY_SETTINGS,
+  fmtMs,
+  latencyStats,
+  loadLatencyRuns,
+  runLatencyTest,
+  saveLatencyRuns,
+  toComparisonCsv,
+  toReportJson,
+  toReportMarkdown,
+  validateLatency,
+  type LatencyConfig,
+  type LatencyReport,
+  type LatencyStats,
+  type LatencyTrial,
+} from "../latency";
+import { downloadText, slug } from "../util/download";
+
+interface Props {
+  open: boolean;
+  manager: DeviceManager;
+  devices: DeviceEntry[];
+  onClose: () => void;
+  log: (m: string) => void;
+}
+
+// Devices already in Mode 1 / Mode 2 are the likely pair
+const initialConfig = (devices: DeviceEntry[]): LatencyConfig => {
+  const byMode = (mode: number, fallback: number) =>
+    (devices.find(d => d.status.operatingMode === mode) ?? devices[fallback])?.id ?? "";
+  return { controllerId: byMode(1, 0), minionId: byMode(2, 1), ...DEFAULT_LATENCY_SETTINGS };
+};
+
+const STAT_COLUMNS: [string, keyof LatencyStats][] = [
+  ["Min", "min"], ["Median", "median"], ["p95", "p95"], ["Max", "max"], ["Jitter", "jitter"],
+];
+
+// Times controller trigger → minion stimulation over the broker, and keeps
+// past runs so broker setups can be compared.
+function LatencyDialog({ open, manager, devices, onClose, log }: Props) {
+  const [cfg,     setCfg]     = useState<LatencyConfig>(() => initialConfig(devices));
+  const [label,   setLabel]   = useState("");
+  const [running, setRunning] = useState(false);
+  const [trials,  setTrials]  = useState<LatencyTrial[]>([]);
+  const [report,  setReport]  = useState<LatencyReport | null>(null);
+  const [saved,   setSaved]   = useState<LatencyReport[]>(loadLatencyRuns);
+  const [error,   setError]   = useState<string | null>(null);
+  const stopRef = useRef(false);
+
+  const set = <K extends keyof LatencyConfig>(k: K, v: LatencyConfig[K]) => setCfg(c => ({ ...c, [k]: v }));
+
+  const reset = () => {
+    setCfg(c => ({ ...initialConfig(devices), repetitions: c.repetitions, intervalMs: c.intervalMs, timeoutMs: c.timeoutMs }));
+    setTrials([]);
+    setReport(null);
+    setError(null);
+  };
+
+  const problems = validateLatency(cfg, manager);
+  const isSaved = !!report && saved.some(r => r.id === report.id);
+
+  const run = async () => {
+    setTrials([]);
+    setReport(null);
+    setError(null);
+    setRunning(true);
+    stopRef.current = false;
+    const name = (id: string) => manager.get(id)?.transport.name ?? id;
+    log(`Latency test: ${name(cfg.controllerId)} → ${name(cfg.minionId)}, ${cfg.repetitions} triggers`);
+    try {
+      const r = await runLatencyTest(cfg, manager, t => setTrials(ts => [...ts, t]), () => stopRef.current);
+      setReport({ ...r, id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`, label: label.trim() });
+      const s = r.stats;
+      log(`Latency via ${r.broker}: median ${fmtMs(s.median)}, p95 ${fmtMs(s.p95)}, jitter ${fmtMs(s.jitter)}, ${s.dropped}/${s.sent} dropped`);
+      if (r.stoppedEarly) log(`Latency test stopped early: ${r.stoppedEarly}`);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+      log(`Latency test aborted: ${e}`);
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const persist = (list: LatencyReport[]) => {
+    saveLatencyRuns(list);
+    setSaved(loadLatencyRuns());
+  };
+
+  const download = (kind: "md" | "json") => {
+    if (!report) return;
+    const stem = `${slug(report.label || report.broker)}_latency`;
+    if (kind === "md") downloadText(`${stem}.md`, toReportMarkdown(report), "text/markdown");
+    else downloadText(`${stem}.json`, toReportJson(report), "application/json");
+  };
+
+  const stats = report?.stats ?? latencyStats(trials);
+
+  const devicePicker = (label: string, key: "controllerId" | "minionId") => (
+    <TextField select fullWidth size="small" label={label} value={cfg[key]} disabled={running} onChange={e => set(key, e.target.value)}>
+      {devices.map(d => (
+        <MenuItem key={d.id} value={d.id}>{d.transport.name}</MenuItem>
+      ))}
+    </TextField>
+  );
+
+  const numberField = (label: string, key: "repetitions" | "intervalMs" | "timeoutMs") => (
+    <TextField
+      size="small"
+      type="number"
+      label={label}
+      value={cfg[key]}
+      disabled={running}
+      onChange={e => set(key, Number(e.target.value))}
+      sx={{ width: 150 }}
+    />
+  );
+
+  return (
+    <Dialog open={open} onClose={running ? undefined : onClose} maxWidth="md" fullWidth TransitionProps={{ onEnter: reset }}>
+      <DialogTitle>Remote stimulation latency</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary">
+          Triggers the controller (Mode 1) over BLE and times the minion's (Mode 2) 0xBB12 start notification. Pair the
+          devices first; both must be connected to the broker.
+        </Typography>
+        <Box display="flex" gap={1} mt={2}>
+          {devicePicker("Controller (Mode 1)", "controllerId")}
+          {devicePicker("Minion (Mode 2)", "minionId")}
+        </Box>
+        <Box display="flex" gap={1} mt={2} flexWrap="wrap">
+          {numberField("Repetitions", "repetitions")}
+          {numberField("Pause (ms)", "intervalMs")}
+          {numberField("Dropped after (ms)", "timeoutMs")}
+          <TextField
+            size="small"
+            label="Label"
+            placeholder="e.g. local Mosquitto"
+            value={label}
+            disabled={running}
+            onChange={e => setLabel(e.target.value)}
+            sx={{ flexGrow: 1 }}
+          />
+        </Box>
+        <Alert severity="warning" sx={{ mt: 2 }}>
+          Every repetition fires the minion's stimulation train. Disconnect its electrodes or set its amplitude to 0 mA.
+        </Alert>
+        {problems.length > 0 && !running && <Alert severity="error" sx={{ mt: 1 }}>{problems.join(". ")}.</Alert>}
+
+        {running && (
+          <LinearProgress variant="determinate" value={(trials.length / cfg.repetitions) * 100} sx={{ mt: 2 }} />
+        )}
+        {error && <Alert severity="error" sx={{ mt: 2 }}>{error}</Alert>}
+        {report?.stoppedEarly && <Alert severity="warning" sx={{ mt: 2 }}>{report.stoppedEarly}</Alert>}
+
+        {trials.length > 0 && (
+          <>
+            <Table size="small" sx={{ mt: 2 }}>
+              <TableHead>
+                <TableRow>
+                  <TableCell>Received</TableCell>
+                  <TableCell>Dropped</TableCell>
+                  {STAT_COLUMNS.map(([h]) => <TableCell key={h} align="right">{h}</TableCell>)}
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                <TableRow>
+                  <TableCell>{stats.received} / {stats.sent}</TableCell>
+                  <TableCell>{stats.dropped}</TableCell>
+                  {STAT_COLUMNS.map(([h, k]) => <TableCell key={h} align="right">{fmtMs(stats[k])}</TableCell>)}
+                </TableRow>
+              </TableBody>
+            </Table>
+            <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+              {trials.map(t => (t.latencyMs === undefined ? "✕" : t.latencyMs.toFixed(0))).join(" · ")} ms
+            </Typography>
+          </>
+        )}
+        {report && (
+          <Typography variant="body2" sx={{ mt: 1 }}>
+            Broker {report.broker} · controller {report.controller.wifiStatusLabel}
+            {report.controller.wifiIP && ` (${report.controller.wifiIP})`} · minion {report.minion.wifiStatusLabel}
+            {report.minion.wifiIP && ` (${report.minion.wifiIP})`}
+          </Typography>
+        )}
+
+        {saved.length > 0 && (
+          <>
+            <Box display="flex" alignItems="center" mt={3}>
+              <Typography variant="subtitle1" sx={{ flexGrow: 1 }}>Saved runs</Typography>
+              <Button size="small" onClick={() => downloadText("latency_runs.csv", toComparisonCsv(saved), "text/csv")}>
+                Export CSV
+              </Button>
+            </Box>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Label</TableCell>
+                  <TableCell>Broker</TableCell>
+                  <TableCell>Started</TableCell>
+                  <TableCell>Received</TableCell>
+                  <TableCell align="right">Median</TableCell>
+                  <TableCell align="right">p95</TableCell>
+                  <TableCell align="right">Jitter</TableCell>
+                  <TableCell />
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {saved.map(r => (
+                  <TableRow key={r.id} selected={r.id === report?.id}>
+                    <TableCell>{r.label || "—"}</TableCell>
+                    <TableCell>{r.broker}</TableCell>
+                    <TableCell>{new Date(r.startedAt).toLocaleString()}</TableCell>
+                    <TableCell>{r.stats.received} / {r.stats.sent}</TableCell>
+                    <TableCell align="right">{fmtMs(r.stats.median)}</TableCell>
+                    <TableCell align="right">{fmtMs(r.stats.p95)}</TableCell>
+                    <TableCell align="right">{fmtMs(r.stats.jitter)}</TableCell>
+                    <TableCell padding="none">
+                      <IconButton size="small" aria-label="Delete run" onClick={() => persist(saved.filter(x => x.id !== r.id))}>
+                        <DeleteIcon fontSize="small" />
+                      </IconButton>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button disabled={!report} onClick={() => download("md")}>Report (Markdown)</Button>
+        <Button disabled={!report} onClick={() => download("json")}>Report (JSON)</Button>
+        <Button disabled={!report || isSaved} onClick={() => report && persist([...saved, report])}>
+          {isSaved ? "Saved" : "Save run"}
+        </Button>
+        <Button disabled={running} onClick={onClose}>Close</Button>
+        {running ? (
+          <Button variant="contained" color="warning" onClick={() => (stopRef.current = true)}>Stop</Button>
+        ) : (
+          <Button variant="contained" disabled={problems.length > 0} onClick={() => void run()}>Run</Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+}
+
+export default LatencyDialog;
@@ -0,0 +1,215 @@
+// src/components/MqttPanel.tsx
+import { useEffect, useReducer, useState } from "react";
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  Collapse,
+  MenuItem,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from "@mui/material";
+import {
+  loadMqttSettings,
+  saveMqttSettings,
+  type MqttMonitor,
+  type MqttSettings,
+} from "../mqtt";
+
+interface Props {
+  monitor: MqttMonitor;
+  log: (m: string) => void;
+}
+
+const fmtClock = (perfMs: number) =>
+  new Date(performance.timeOrigin + perfMs).toLocaleTimeString(undefined, { hour12: false });
+
+const ago = (ms: number) => {
+  const s = Math.round((Date.now() - ms) / 1000);
+  return s < 60 ? `${s} s ago` : `${Math.round(s / 60)} min ago`;
+};
+
+function MqttPanel({ monitor, log }: Props) {
+  const [, refresh] = useReducer((n: number) => n + 1, 0);
+  const [settings,  setSettings]  = useState<MqttSettings>(loadMqttSettings);
+  const [advanced,  setAdvanced]  = useState(false);
+  const [minion,    setMinion]    = useState("");
+  const [injectErr, setInjectErr] = useState<string | null>(null);
+
+  useEffect(() => monitor.subscribe(refresh), [monitor]);
+  // keeps the "last seen" column moving
+  useEffect(() => {
+    const id = setInterval(refresh, 5000);
+    return () => clearInterval(id);
+  }, []);
+
+  const set = (patch: Partial<MqttSettings>) => setSettings(s => ({ ...s, ...patch }));
+  const connected = monitor.state === "connected";
+  const busy = monitor.state === "connecting";
+
+  const connect = async () => {
+    saveMqttSettings(settings);
+    log(`MQTT: connecting to ${settings.url}`);
+    await monitor.connect(settings);
+    log(monitor.error ? `MQTT: ${monitor.error}` : `MQTT: connected, watching ${settings.watch}`);
+  };
+
+  const inject = (on: boolean) => {
+    if (!minion) return;
+    if (on && !window.confirm(`Send a stimulation command to '${minion}' over MQTT?`)) return;
+    try {
+      const topic = monitor.injectStim(minion, on);
+      setInjectErr(null);
+      log(`MQTT: injected stim ${on ? "start" : "stop"} → ${topic}`);
+    } catch (e) {
+      setInjectErr((e as Error).message);
+      log(`MQTT: ${(e as Error).message}`);
+    }
+  };
+
+  const field = (label: string, key: keyof MqttSettings, helperText?: string, type = "text") => (
+    <TextField
+      size="small"
+      margin="dense"
+      label={label}
+      type={type}
+      value={settings[key]}
+      disabled={connected || busy}
+      onChange={e => set({ [key]: e.target.value })}
+      helperText={helperText}
+    />
+  );
+
+  return (
+    <Box mt={4}>
+      <Typography variant="h6">
+        MQTT Monitor{" "}
+        <Chip
+          size="small"
+          label={monitor.state}
+          color={connected ? "success" : busy ? "warning" : "default"}
+          sx={{ verticalAlign: "middle" }}
+        />
+      </Typography>
+
+      <Box display="flex" flexWrap="wrap" gap={1} alignItems="flex-start" mt={1}>
+        {field("Broker WebSocket URL", "url", "e.g. ws://localhost:9001")}
+        {field("User", "username")}
+        {field("Password", "password", undefined, "password")}
+        {field("Watch filter", "watch")}
+      </Box>
+      <Button size="small" onClick={() => setAdvanced(a => !a)}>
+        {advanced ? "Hide topic layout" : "Topic layout…"}
+      </Button>
+      <Collapse in={advanced}>
+        <Box display="flex" flexWrap="wrap" gap={1}>
+          {field("Stim topic", "stimTopic", "{name} = minion name")}
+          {field("Presence topic", "presenceTopic", "{name} = device name")}
+          {field("Stim on payload", "stimOnPayload")}
+          {field("Stim off payload", "stimOffPayload")}
+        </Box>
+      </Collapse>
+      <Box mt={1}>
+        {connected ? (
+          <Button variant="outlined" onClick={() => monitor.disconnect()}>Disconnect</Button>
+        ) : (
+          <Button variant="contained" disabled={busy || !settings.url} onClick={connect}>Connect to broker</Button>
+        )}
+      </Box>
+      {monitor.error && <Alert severity="error" sx={{ mt: 1 }}>{monitor.error}</Alert>}
+
+      {/* ---------- Presence ---------- */}
+      {monitor.presence.length > 0 && (
+        <Table size="small" sx={{ mt: 2 }}>
+          <TableHead>
+            <TableRow>
+              <TableCell>Device</TableCell>
+              <TableCell>Presence</TableCell>
+              <TableCell>Last seen</TableCell>
+              <TableCell>Last status</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {monitor.presence.map(p => (
+              <TableRow key={p.name}>
+                <TableCell>{p.name}</TableCell>
+                <TableCell>
+                  <Chip
+                    size="small"
+                    label={p.online === null ? "unknown" : p.online ? "online" : "offline"}
+                    color={p.online ? "success" : p.online === false ? "error" : "default"}
+                  />
+                </TableCell>
+                <TableCell>{ago(p.lastSeen)}</TableCell>
+                <TableCell>{p.lastPayload}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      {/* ---------- Inject ---------- */}
+      <Box display="flex" alignItems="center" gap={1} mt={2}>
+        <TextField
+          select={monitor.presence.length > 0}
+          size="small"
+          label="Minion name"
+          value={minion}
+          onChange={e => setMinion(e.target.value)}
+          sx={{ minWidth: 200 }}
+        >
+          {monitor.presence.map(p => (
+            <MenuItem key={p.name} value={p.name}>{p.name}</MenuItem>
+          ))}
+        </TextField>
+        <Button variant="contained" color="secondary" disabled={!connected || !minion} onClick={() => inject(true)}>
+          Inject stim
+        </Button>
+        <Button variant="contained" color="warning" disabled={!connected || !minion} onClick={() => inject(false)}>
+          Stop
+        </Button>
+      </Box>
+      {injectErr && <Alert severity="error" sx={{ mt: 1 }} onClose={() => setInjectErr(null)}>{injectErr}</Alert>}
+
+      {/* ---------- Traffic ---------- */}
+      <Box display="flex" alignItems="center" mt={2}>
+        <Typography variant="subtitle1" sx={{ flexGrow: 1 }}>
+          Traffic ({monitor.traffic.length})
+        </Typography>
+        <Button size="small" onClick={() => monitor.clearTraffic()}>Clear</Button>
+      </Box>
+      <Box sx={{ maxHeight: 260, overflowY: "auto" }}>
+        <Table size="small" stickyHeader>
+          <TableHead>
+            <TableRow>
+              <TableCell>Time</TableCell>
+              <TableCell>Topic</TableCell>
+              <TableCell>Payload</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {[...monitor.traffic].reverse().map(e => (
+              <TableRow key={e.seq} sx={e.direction === "stim" ? { bgcolor: "action.hover" } : undefined}>
+                <TableCell>{fmtClock(e.t)}</TableCell>
+                <TableCell>
+                  {e.topic}
+                  {e.direction === "stim" && <Chip size="small" label={e.own ? "injected" : "→ minion"} sx={{ ml: 1 }} />}
+                  {e.retain && <Chip size="small" variant="outlined" label="retained" sx={{ ml: 1 }} />}
+                </TableCell>
+                <TableCell sx={{ fontFamily: "monospace" }}>{e.payload}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </Box>
+    </Box>
+  );
+}
+
+export default MqttPanel;
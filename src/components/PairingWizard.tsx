@@ -0,0 +1,192 @@
+// src/components/PairingWizard.tsx
+import { useState } from "react";
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  LinearProgress,
+  MenuItem,
+  Step,
+  StepLabel,
+  Stepper,
+  TextField,
+  Typography,
+} from "@mui/material";
+import type { DeviceEntry, DeviceManager } from "../devices";
+import {
+  generateNames,
+  runPairing,
+  validatePairing,
+  type PairingConfig,
+  type PairingResult,
+} from "../pairing";
+
+interface Props {
+  open: boolean;
+  manager: DeviceManager;
+  devices: DeviceEntry[];
+  onClose: () => void;
+  log: (m: string) => void;
+}
+
+const STEPS = ["Devices", "Network", "Names", "Pair"];
+
+// Which wizard page each setting is entered on
+const FIELD_STEP: Record<keyof PairingConfig, number> = {
+  controllerId: 0,
+  minionId: 0,
+  wifiSSID: 1,
+  wifiPassword: 1,
+  mqttServerPort: 1,
+  masterNameAddr: 2,
+  minionNameAddr: 2,
+};
+
+const initialConfig = (devices: DeviceEntry[]): PairingConfig => ({
+  controllerId: devices[0]?.id ?? "",
+  minionId: devices[1]?.id ?? "",
+  wifiSSID: "",
+  wifiPassword: "",
+  mqttServerPort: "mqtt://",
+  ...generateNames(),
+});
+
+function PairingWizard({ open, manager, devices, onClose, log }: Props) {
+  const [step,     setStep]     = useState(0);
+  const [cfg,      setCfg]      = useState<PairingConfig>(() => initialConfig(devices));
+  const [progress, setProgress] = useState<string | null>(null);
+  const [result,   setResult]   = useState<PairingResult | null>(null);
+
+  const running = progress !== null && !result;
+  const set = (patch: Partial<PairingConfig>) => setCfg(c => ({ ...c, ...patch }));
+  const nameOf = (id: string) => devices.find(d => d.id === id)?.transport.name ?? id;
+
+  // Input problems are shown before anything is written to either device
+  const problems = validatePairing(cfg, manager);
+  const stepProblems = problems.filter(p => p.field && FIELD_STEP[p.field] === step);
+
+  const reset = () => {
+    setStep(0);
+    setCfg(initialConfig(devices));
+    setProgress(null);
+    setResult(null);
+  };
+
+  const pair = async () => {
+    setResult(null);
+    log(`Pairing ${nameOf(cfg.controllerId)} (controller) with ${nameOf(cfg.minionId)} (minion)`);
+    let r: PairingResult;
+    try {
+      r = await runPairing(cfg, manager, (_, message) => {
+        setProgress(message);
+        log(`Pairing: ${message}`);
+      });
+    } catch (e) {
+      r = { ok: false, diagnoses: [{ code: "write", message: `Pairing stopped: ${e}` }], ip: {} };
+    }
+    r.diagnoses.forEach(d => log(`Pairing problem (${d.code}): ${d.message}`));
+    setResult(r);
+  };
+
+  const devicePicker = (label: string, value: string, onChange: (id: string) => void) => (
+    <TextField select fullWidth margin="normal" label={label} value={value} onChange={e => onChange(e.target.value)}>
+      {devices.map(d => (
+        <MenuItem key={d.id} value={d.id}>{d.transport.name}</MenuItem>
+      ))}
+    </TextField>
+  );
+
+  return (
+    <Dialog open={open} onClose={running ? undefined : onClose} maxWidth="sm" fullWidth TransitionProps={{ onEnter: reset }}>
+      <DialogTitle>Pair master / minion</DialogTitle>
+      <DialogContent>
+        <Stepper activeStep={step} sx={{ mb: 2 }}>
+          {STEPS.map(s => (
+            <Step key={s}>
+              <StepLabel>{s}</StepLabel>
+            </Step>
+          ))}
+        </Stepper>
+
+        {step === 0 && (
+          <>
+            {devicePicker("Controller (Mode 1 – reads EMG)", cfg.controllerId, id => set({ controllerId: id }))}
+            {devicePicker("Minion (Mode 2 – stimulates)", cfg.minionId, id => set({ minionId: id }))}
+          </>
+        )}
+
+        {step === 1 && (
+          <>
+            <TextField fullWidth margin="normal" label="Wi-Fi SSID" value={cfg.wifiSSID}
+              onChange={e => set({ wifiSSID: e.target.value })} />
+            <TextField fullWidth margin="normal" label="Wi-Fi Password" type="password" value={cfg.wifiPassword}
+              onChange={e => set({ wifiPassword: e.target.value })}
+              helperText="Written to both devices. Leave blank to keep their current passwords" />
+            <TextField fullWidth margin="normal" label="MQTT server/port" value={cfg.mqttServerPort}
+              onChange={e => set({ mqttServerPort: e.target.value })} helperText="mqtt://host:port" />
+          </>
+        )}
+
+        {step === 2 && (
+          <>
+            <Typography variant="body2">
+              The controller publishes to the minion's name; both devices get the same pair of names.
+            </Typography>
+            <TextField fullWidth margin="normal" label="Master Name" value={cfg.masterNameAddr}
+              onChange={e => set({ masterNameAddr: e.target.value })} />
+            <TextField fullWidth margin="normal" label="Minion Name" value={cfg.minionNameAddr}
+              onChange={e => set({ minionNameAddr: e.target.value })} />
+            <Button size="small" onClick={() => set(generateNames())}>Generate new names</Button>
+          </>
+        )}
+
+        {step === 3 && (
+          <Box>
+            <Typography variant="body2">
+              {nameOf(cfg.controllerId)} → Mode 1, {nameOf(cfg.minionId)} → Mode 2, both on '{cfg.wifiSSID}'
+              via {cfg.mqttServerPort} as {cfg.masterNameAddr} / {cfg.minionNameAddr}.
+            </Typography>
+            {progress && (
+              <Box mt={2}>
+                <Typography variant="body2">{progress}</Typography>
+                {running && <LinearProgress sx={{ mt: 1 }} />}
+              </Box>
+            )}
+            {result?.ok && (
+              <Alert severity="success" sx={{ mt: 2 }}>
+                Both devices report Wi-Fi + MQTT connected
+                {result.ip.controller && ` (controller ${result.ip.controller}, minion ${result.ip.minion ?? "?"})`}.
+              </Alert>
+            )}
+            {result?.diagnoses.map((d, i) => (
+              <Alert key={i} severity="error" sx={{ mt: 1 }}>{d.message}</Alert>
+            ))}
+          </Box>
+        )}
+
+        {step < 3 && stepProblems.map((p, i) => (
+          <Alert key={i} severity="warning" sx={{ mt: 1 }}>{p.message}</Alert>
+        ))}
+      </DialogContent>
+      <DialogActions>
+        <Button disabled={running} onClick={onClose}>{result?.ok ? "Close" : "Cancel"}</Button>
+        <Button disabled={step === 0 || running} onClick={() => setStep(s => s - 1)}>Back</Button>
+        {step < 3 ? (
+          <Button variant="contained" disabled={stepProblems.length > 0} onClick={() => setStep(s => s + 1)}>
+            Next
+          </Button>
+        ) : (
+          <Button variant="contained" disabled={running || !!result?.ok || problems.length > 0} onClick={pair}>
+            {result ? "Retry" : "Pair"}
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+}
+
+export default PairingWizard;
@@ -0,0 +1,101 @@
+// src/components/PresetDiffDialog.tsx
+import { useState } from "react";
+import {
+  Alert,
+  Button,
+  Checkbox,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography,
+} from "@mui/material";
+import type { DiffRow } from "../presets";
+import type { SafetyReport } from "../safety";
+
+interface Props {
+  open: boolean;
+  presetName: string;
+  /** null while the device values are still being read. */
+  rows: DiffRow[] | null;
+  safety: SafetyReport | null;
+  onCancel: () => void;
+  onApply: () => void;
+}
+
+const show = (v: number | string | undefined) =>
+  v === undefined ? "unknown" : typeof v === "string" ? `'${v}'` : v;
+
+function PresetDiffDialog({ open, presetName, rows, safety, onCancel, onApply }: Props) {
+  const [ack, setAck] = useState(false);
+  const changed = rows?.filter(r => r.changed).length ?? 0;
+  const needsAck = !!safety?.needsConfirm;
+
+  return (
+    <Dialog open={open} onClose={onCancel} maxWidth="md" TransitionProps={{ onEnter: () => setAck(false) }}>
+      <DialogTitle>Apply preset '{presetName}'</DialogTitle>
+      <DialogContent>
+        {!rows ? (
+          <Typography>Reading current values from the device…</Typography>
+        ) : (
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Field</TableCell>
+                <TableCell>On device</TableCell>
+                <TableCell>Preset</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {rows.map(r => (
+                <TableRow
+                  key={r.key}
+                  sx={r.changed ? { bgcolor: "warning.light" } : r.supported ? undefined : { opacity: 0.5 }}
+                >
+                  <TableCell>
+                    {r.label}
+                    {!r.supported && " (not on this firmware – skipped)"}
+                  </TableCell>
+                  <TableCell>{show(r.device)}</TableCell>
+                  <TableCell>
+                    {r.changed && "→ "}
+                    {show(r.preset)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+        {safety?.violations.map((v, i) => (
+          <Alert key={i} severity={v.severity === "block" ? "error" : "warning"} sx={{ mt: 1 }}>
+            {v.message}
+          </Alert>
+        ))}
+        {needsAck && (
+          <FormControlLabel
+            control={<Checkbox checked={ack} onChange={e => setAck(e.target.checked)} />}
+            label="I have reviewed these values and they are approved for this session"
+          />
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onCancel}>Cancel</Button>
+        <Button
+          variant="contained"
+          disabled={!rows || !changed || !!safety?.blocked || (needsAck && !ack)}
+          onClick={onApply}
+        >
+          Apply {changed} change{changed === 1 ? "" : "s"}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
+
+export default PresetDiffDialog;
@@ -0,0 +1,172 @@
+// src/components/PresetPanel.tsx
+import { useRef, useState } from "react";
+import { Box, Button, MenuItem, TextField, Typography } from "@mui/material";
+import type { FirmwareProfile } from "../bb01";
+import {
+  changesOf,
+  diffPreset,
+  loadPresets,
+  parsePresetsJson,
+  presetsToJson,
+  savePresets,
+  stimParamsOf,
+  type DiffRow,
+  type Preset,
+  type PresetValues,
+} from "../presets";
+import { evaluateStim, type SafetyLimits, type SafetyReport } from "../safety";
+import { downloadText, slug } from "../util/download";
+import PresetDiffDialog from "./PresetDiffDialog";
+
+interface Props {
+  fw: FirmwareProfile;
+  limits: SafetyLimits;
+  /** What "Save current" captures – the values in the form. */
+  current: PresetValues;
+  readDevice: () => Promise<PresetValues>;
+  apply: (changes: PresetValues) => Promise<void>;
+  log: (m: string) => void;
+  /** Blocks "Apply to device…", e.g. while the link is down. */
+  disabled?: boolean;
+}
+
+function PresetPanel({ fw, limits, current, readDevice, apply, log, disabled }: Props) {
+  const [presets,    setPresets]    = useState<Preset[]>(loadPresets);
+  const [selectedId, setSelectedId] = useState(() => presets[0]?.id ?? "");
+  const [newName,    setNewName]    = useState("");
+  const [diff,       setDiff]       = useState<{ rows: DiffRow[] | null; safety: SafetyReport | null } | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const selected = presets.find(p => p.id === selectedId);
+
+  const update = (list: Preset[]) => {
+    setPresets(list);
+    savePresets(list);
+  };
+
+  const saveCurrent = () => {
+    const p: Preset = {
+      id: Date.now().toString(36),
+      name: newName.trim() || `Preset ${presets.length + 1}`,
+      createdAt: Date.now(),
+      firmware: fw.id,
+      values: current,
+    };
+    update([...presets, p]);
+    setSelectedId(p.id);
+    setNewName("");
+    log(`Preset '${p.name}' saved`);
+  };
+
+  const remove = () => {
+    if (!selected) return;
+    const rest = presets.filter(p => p.id !== selected.id);
+    update(rest);
+    setSelectedId(rest[0]?.id ?? "");
+  };
+
+  const onImport = async (file: File) => {
+    try {
+      const imported = parsePresetsJson(await file.text());
+      update([...presets, ...imported]);
+      if (imported[0]) setSelectedId(imported[0].id);
+      log(`Imported ${imported.length} preset(s) from ${file.name}`);
+    } catch (e) {
+      log(`Preset import failed: ${(e as Error).message}`);
+    }
+  };
+
+  const openDiff = async () => {
+    if (!selected) return;
+    setDiff({ rows: null, safety: null });
+    let device: PresetValues;
+    try {
+      device = await readDevice();
+    } catch (e) {
+      log(`Reading device values failed: ${e}`);
+      setDiff(null);
+      return;
+    }
+    const rows = diffPreset(selected.values, device, fw);
+    // Judge the stimulation the device will end up with, not just the preset's fields
+    const merged = { ...device, ...changesOf(rows) };
+    const safety = evaluateStim(stimParamsOf(merged), fw, limits);
+    setDiff({ rows, safety });
+  };
+
+  const doApply = async () => {
+    if (!selected || !diff?.rows) return;
+    const changes = changesOf(diff.rows);
+    diff.safety?.violations.forEach(v => log(`Operator confirmed: ${v.message}`));
+    setDiff(null);
+    await apply(changes);
+  };
+
+  return (
+    <Box mt={4}>
+      <Typography variant="h6">Presets</Typography>
+      <Box display="flex" alignItems="center" flexWrap="wrap" gap={1} mt={1}>
+        <TextField
+          select
+          size="small"
+          label="Preset"
+          value={selected ? selectedId : ""}
+          onChange={e => setSelectedId(e.target.value)}
+          sx={{ minWidth: 200 }}
+        >
+          {presets.map(p => (
+            <MenuItem key={p.id} value={p.id}>{p.name}</MenuItem>
+          ))}
+        </TextField>
+        <Button variant="contained" size="small" disabled={!selected || disabled} onClick={openDiff}>
+          Apply to device…
+        </Button>
+        <Button size="small" disabled={!selected} onClick={() => selected && downloadText(`${slug(selected.name)}.json`, presetsToJson([selected]), "application/json")}>
+          Export
+        </Button>
+        <Button size="small" disabled={!presets.length} onClick={() => downloadText("hhi-presets.json", presetsToJson(presets), "application/json")}>
+          Export all
+        </Button>
+        <Button size="small" onClick={() => fileInput.current?.click()}>
+          Import
+        </Button>
+        <Button size="small" color="error" disabled={!selected} onClick={remove}>
+          Delete
+        </Button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept="application/json,.json"
+          hidden
+          onChange={e => {
+            const f = e.target.files?.[0];
+            if (f) void onImport(f);
+            e.target.value = "";
+          }}
+        />
+      </Box>
+      <Box display="flex" alignItems="center" gap={1} mt={1}>
+        <TextField
+          size="small"
+          label="New preset name"
+          value={newName}
+          onChange={e => setNewName(e.target.value)}
+        />
+        <Button size="small" variant="outlined" onClick={saveCurrent}>
+          Save current values
+        </Button>
+      </Box>
+
+      <PresetDiffDialog
+        open={!!diff}
+        presetName={selected?.name ?? ""}
+        rows={diff?.rows ?? null}
+        safety={diff?.safety ?? null}
+        onCancel={() => setDiff(null)}
+        onApply={doApply}
+      />
+    </Box>
+  );
+}
+
+export default PresetPanel;
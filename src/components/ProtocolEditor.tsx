@@ -0,0 +1,182 @@
+// src/components/ProtocolEditor.tsx
+import {
+  Box,
+  Button,
+  ButtonGroup,
+  Checkbox,
+  FormControlLabel,
+  IconButton,
+  MenuItem,
+  Paper,
+  TextField,
+  Typography,
+} from "@mui/material";
+import ArrowUpwardIcon from "@mui/icons-material/ArrowUpward";
+import ArrowDownwardIcon from "@mui/icons-material/ArrowDownward";
+import DeleteIcon from "@mui/icons-material/Delete";
+import type { FirmwareProfile } from "../bb01";
+import { STIM_FIELDS, type StimField } from "../safety";
+import {
+  FIELD_LABELS,
+  newStep,
+  type ProtocolStep,
+  type RampField,
+  type StepKind,
+} from "../protocols";
+
+const KINDS: { kind: StepKind; label: string }[] = [
+  { kind: "set",    label: "Set" },
+  { kind: "train",  label: "Train" },
+  { kind: "ramp",   label: "Ramp" },
+  { kind: "wait",   label: "Wait" },
+  { kind: "repeat", label: "Repeat" },
+];
+
+interface ListProps {
+  steps: ProtocolStep[];
+  fw: FirmwareProfile;
+  disabled?: boolean;
+  onChange: (steps: ProtocolStep[]) => void;
+}
+
+const num = (label: string, value: number, onChange: (v: number) => void, disabled?: boolean) => (
+  <TextField
+    size="small"
+    type="number"
+    label={label}
+    value={value}
+    disabled={disabled}
+    onChange={e => onChange(+e.target.value)}
+    sx={{ width: 120, mr: 1, mt: 1 }}
+  />
+);
+
+function StepFields({ step, fw, disabled, onChange }: {
+  step: ProtocolStep;
+  fw: FirmwareProfile;
+  disabled?: boolean;
+  onChange: (s: ProtocolStep) => void;
+}) {
+  switch (step.kind) {
+    case "set": {
+      // empty field = leave that parameter as it is
+      const setField = (f: StimField, text: string) => {
+        const params = { ...step.params };
+        if (text === "") delete params[f];
+        else params[f] = +text;
+        onChange({ ...step, params });
+      };
+      return (
+        <>
+          {STIM_FIELDS.filter(f => fw.chars[f]).map(f => (
+            <TextField
+              key={f}
+              size="small"
+              type="number"
+              label={FIELD_LABELS[f]}
+              placeholder="unchanged"
+              value={step.params[f] ?? ""}
+              disabled={disabled}
+              onChange={e => setField(f, e.target.value)}
+              sx={{ width: 120, mr: 1, mt: 1 }}
+            />
+          ))}
+        </>
+      );
+    }
+    case "train":
+      return num("Hold ≤ ms", step.holdMs, holdMs => onChange({ ...step, holdMs }), disabled);
+    case "ramp":
+      return (
+        <>
+          <TextField
+            select
+            size="small"
+            label="Parameter"
+            value={step.field}
+            disabled={disabled}
+            onChange={e => onChange({ ...step, field: e.target.value as RampField })}
+            sx={{ width: 140, mr: 1, mt: 1 }}
+          >
+            <MenuItem value="stimAmplitude">{FIELD_LABELS.stimAmplitude}</MenuItem>
+            <MenuItem value="stimFrequency">{FIELD_LABELS.stimFrequency}</MenuItem>
+          </TextField>
+          {num("From", step.from, from => onChange({ ...step, from }), disabled)}
+          {num("To", step.to, to => onChange({ ...step, to }), disabled)}
+          {num("Steps", step.steps, steps => onChange({ ...step, steps }), disabled)}
+          {num("Step ms", step.stepMs, stepMs => onChange({ ...step, stepMs }), disabled)}
+          <FormControlLabel
+            sx={{ mt: 1 }}
+            control={
+              <Checkbox
+                checked={step.trainEachStep}
+                disabled={disabled}
+                onChange={e => onChange({ ...step, trainEachStep: e.target.checked })}
+              />
+            }
+            label="Train at each step"
+          />
+          {step.trainEachStep && num("Hold ≤ ms", step.holdMs, holdMs => onChange({ ...step, holdMs }), disabled)}
+        </>
+      );
+    case "wait":
+      return num("ms", step.ms, ms => onChange({ ...step, ms }), disabled);
+    case "repeat":
+      return (
+        <>
+          {num("Times", step.times, times => onChange({ ...step, times }), disabled)}
+          <Box pl={2} mt={1} sx={{ borderLeft: 2, borderColor: "divider" }}>
+            <StepList
+              steps={step.steps}
+              fw={fw}
+              disabled={disabled}
+              onChange={steps => onChange({ ...step, steps })}
+            />
+          </Box>
+        </>
+      );
+  }
+}
+
+function StepList({ steps, fw, disabled, onChange }: ListProps) {
+  const replace = (i: number, s: ProtocolStep) => onChange(steps.map((x, j) => (j === i ? s : x)));
+  const remove = (i: number) => onChange(steps.filter((_, j) => j !== i));
+  const move = (i: number, by: number) => {
+    const next = [...steps];
+    [next[i], next[i + by]] = [next[i + by], next[i]];
+    onChange(next);
+  };
+
+  return (
+    <>
+      {steps.map((s, i) => (
+        <Paper key={s.id} variant="outlined" sx={{ p: 1, mb: 1 }}>
+          <Box display="flex" alignItems="center">
+            <Typography variant="subtitle2" sx={{ flexGrow: 1 }}>
+              {i + 1}. {KINDS.find(k => k.kind === s.kind)!.label}
+            </Typography>
+            <IconButton size="small" disabled={disabled || i === 0} onClick={() => move(i, -1)}>
+              <ArrowUpwardIcon fontSize="small" />
+            </IconButton>
+            <IconButton size="small" disabled={disabled || i === steps.length - 1} onClick={() => move(i, 1)}>
+              <ArrowDownwardIcon fontSize="small" />
+            </IconButton>
+            <IconButton size="small" disabled={disabled} onClick={() => remove(i)}>
+              <DeleteIcon fontSize="small" />
+            </IconButton>
+          </Box>
+          <StepFields step={s} fw={fw} disabled={disabled} onChange={x => replace(i, x)} />
+        </Paper>
+      ))}
+      <ButtonGroup size="small" disabled={disabled}>
+        {KINDS.map(k => (
+          <Button key={k.kind} onClick={() => onChange([...steps, newStep(k.kind)])}>
+            + {k.label}
+          </Button>
+        ))}
+      </ButtonGroup>
+    </>
+  );
+}
+
+export default StepList;
@@ -0,0 +1,199 @@
+// src/components/ProtocolPanel.tsx
+import { useRef, useState } from "react";
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  MenuItem,
+  TextField,
+  Typography,
+} from "@mui/material";
+import PlayArrowIcon from "@mui/icons-material/PlayArrow";
+import PauseIcon from "@mui/icons-material/Pause";
+import StopIcon from "@mui/icons-material/Stop";
+import type { FirmwareProfile } from "../bb01";
+import type { SafetyLimits, StimParams, Violation } from "../safety";
+import {
+  loadProtocols,
+  newProtocol,
+  preflight,
+  ProtocolRunner,
+  saveProtocols,
+  type RunnerProgress,
+  type StimProtocol,
+  type StimTarget,
+} from "../protocols";
+import StepList from "./ProtocolEditor";
+import SafetyConfirmDialog from "./SafetyConfirmDialog";
+
+interface Props {
+  /** null while no device is connected. */
+  target: StimTarget | null;
+  fw: FirmwareProfile;
+  limits: SafetyLimits;
+  /** Parameters currently on the device – where the protocol starts from. */
+  startParams: StimParams;
+  log: (m: string) => void;
+}
+
+const fmtMs = (ms: number) => (ms >= 1000 ? `${(ms / 1000).toFixed(1)} s` : `${Math.round(ms)} ms`);
+
+function ProtocolPanel({ target, fw, limits, startParams, log }: Props) {
+  const [protocols, setProtocols] = useState<StimProtocol[]>(() => {
+    const list = loadProtocols();
+    return list.length ? list : [newProtocol()];
+  });
+  const [selectedId, setSelectedId] = useState(() => protocols[0].id);
+  const [progress,   setProgress]   = useState<RunnerProgress | null>(null);
+  const [confirm,    setConfirm]    = useState<Violation[] | null>(null);
+  const runner = useRef<ProtocolRunner | null>(null);
+
+  const protocol = protocols.find(p => p.id === selectedId) ?? protocols[0];
+  const active = progress?.state === "running" || progress?.state === "paused";
+  const check = target ? preflight(protocol, startParams, fw, limits) : null;
+  const battery = check && !active ? target?.batteryCheck?.(check.estimatedMs, check.stimMs) : null;
+
+  const update = (list: StimProtocol[]) => {
+    setProtocols(list);
+    saveProtocols(list);
+  };
+  const edit = (p: StimProtocol) => update(protocols.map(x => (x.id === p.id ? p : x)));
+
+  const addProtocol = () => {
+    const p = newProtocol();
+    update([...protocols, p]);
+    setSelectedId(p.id);
+  };
+
+  const deleteProtocol = () => {
+    const rest = protocols.filter(p => p.id !== protocol.id);
+    const list = rest.length ? rest : [newProtocol()];
+    update(list);
+    setSelectedId(list[0].id);
+  };
+
+  const start = async () => {
+    if (!target) return;
+    setConfirm(null);
+    log(`Protocol '${protocol.name}' started`);
+    let last: RunnerProgress | null = null;
+    const r = new ProtocolRunner(target, limits, startParams, p => {
+      last = p;
+      setProgress(p);
+    });
+    runner.current = r;
+    await r.run(protocol);
+    runner.current = null;
+    const end = last as RunnerProgress | null;
+    log(`Protocol '${protocol.name}' ${end?.state ?? "ended"}${end?.error ? `: ${end.error}` : ""}`);
+  };
+
+  const onRun = () => {
+    if (!check || check.blocked || battery) return;
+    if (check.violations.length) setConfirm(check.violations);
+    else void start();
+  };
+
+  return (
+    <Box mt={4}>
+      <Typography variant="h6">Stimulation Protocols</Typography>
+
+      <Box display="flex" alignItems="center" mt={1}>
+        <TextField
+          select
+          size="small"
+          label="Protocol"
+          value={protocol.id}
+          disabled={active}
+          onChange={e => setSelectedId(e.target.value)}
+          sx={{ minWidth: 200, mr: 1 }}
+        >
+          {protocols.map(p => (
+            <MenuItem key={p.id} value={p.id}>{p.name}</MenuItem>
+          ))}
+        </TextField>
+        <TextField
+          size="small"
+          label="Name"
+          value={protocol.name}
+          disabled={active}
+          onChange={e => edit({ ...protocol, name: e.target.value })}
+          sx={{ mr: 1 }}
+        />
+        <Button size="small" disabled={active} onClick={addProtocol}>New</Button>
+        <Button size="small" color="error" disabled={active} onClick={deleteProtocol}>Delete</Button>
+      </Box>
+
+      <Box mt={2}>
+        <StepList
+          steps={protocol.steps}
+          fw={fw}
+          disabled={active}
+          onChange={steps => edit({ ...protocol, steps })}
+        />
+      </Box>
+
+      {check && (
+        <Box mt={2}>
+          <Typography variant="body2">Estimated run time: {fmtMs(check.estimatedMs)}</Typography>
+          {check.violations.map((v, i) => (
+            <Alert key={i} severity={v.severity === "block" ? "error" : "warning"} sx={{ mt: 1 }}>
+              {v.message}
+            </Alert>
+          ))}
+          {battery && <Alert severity="error" sx={{ mt: 1 }}>{battery}</Alert>}
+        </Box>
+      )}
+
+      <Box mt={2} display="flex" alignItems="center" gap={1}>
+        {!active && (
+          <Button
+            variant="contained"
+            startIcon={<PlayArrowIcon />}
+            disabled={!target || !protocol.steps.length || check?.blocked || !!battery}
+            onClick={onRun}
+          >
+            Run
+          </Button>
+        )}
+        {progress?.state === "running" && (
+          <Button variant="outlined" startIcon={<PauseIcon />} onClick={() => runner.current?.pause()}>
+            Pause
+          </Button>
+        )}
+        {progress?.state === "paused" && (
+          <Button variant="outlined" startIcon={<PlayArrowIcon />} onClick={() => runner.current?.resume()}>
+            Resume
+          </Button>
+        )}
+        {active && (
+          <Button variant="contained" color="error" startIcon={<StopIcon />} onClick={() => runner.current?.abort()}>
+            Abort
+          </Button>
+        )}
+        {progress && (
+          <>
+            <Chip size="small" label={progress.state} color={progress.state === "failed" ? "error" : "default"} />
+            <Typography variant="body2">
+              {progress.label} · {fmtMs(progress.elapsedMs)}
+            </Typography>
+          </>
+        )}
+      </Box>
+      {progress?.error && <Alert severity="error" sx={{ mt: 1 }}>{progress.error}</Alert>}
+
+      <SafetyConfirmDialog
+        open={!!confirm}
+        violations={confirm ?? []}
+        onCancel={() => setConfirm(null)}
+        onConfirm={() => {
+          confirm?.forEach(v => log(`Operator confirmed: ${v.message}`));
+          void start();
+        }}
+      />
+    </Box>
+  );
+}
+
+export default ProtocolPanel;
@@ -0,0 +1,193 @@
+// src/components/PulseTrainPreview.tsx
+import { useId } from "react";
+import { Box, Typography, useTheme } from "@mui/material";
+import type { FirmwareProfile } from "../bb01";
+import { describeTrain, type StimParams, type TrainEnd } from "../safety";
+
+interface Props {
+  params: StimParams;
+  fw: FirmwareProfile;
+}
+
+// ---------- SVG layout (viewBox units) ----------
+const W = 600, LEFT = 70, RIGHT = 20;
+const PLOT_W = W - LEFT - RIGHT;
+const TRAIN_TOP = 34, TRAIN_H = 70;
+const DETAIL_TOP = 150, DETAIL_H = 50;
+const H = DETAIL_TOP + DETAIL_H + 40;
+
+// Beyond this many pulses in view the train is drawn as a band
+const MAX_DRAWN = 150;
+
+const fmtMs = (ms: number) =>
+  !Number.isFinite(ms) ? "∞" : ms >= 1000 ? `${+(ms / 1000).toFixed(2)} s` : `${+ms.toFixed(ms < 10 ? 2 : 1)} ms`;
+
+const END_TEXT: Record<TrainEnd, string> = {
+  pulses:    "# pulses ends the train first",
+  duration:  "duration ends the train first",
+  threshold: "runs while EMG stays above threshold",
+  stop:      "runs until Stop (no pulse or duration limit)",
+};
+
+// Live picture of the Mode 3 pulse train: an overview of the whole train on
+// top, one inter-pulse interval magnified underneath.
+function PulseTrainPreview({ params, fw }: Props) {
+  const { palette } = useTheme();
+  // marker ids are document-wide and every device panel has a preview
+  const tickId = `tick-${useId().replace(/:/g, "")}`;
+  const tr = describeTrain(params, fw);
+  const finite = Number.isFinite(tr.trainMs);
+
+  // Show the whole train plus a margin; open-ended trains get a few seconds
+  const spanMs = finite && tr.trainMs > 0
+    ? tr.trainMs * 1.15
+    : Math.min(Math.max(tr.periodMs * 5, 1000), 5000);
+  const sx = PLOT_W / spanMs;
+  const tx = (ms: number) => LEFT + ms * sx;
+
+  const ampFrac = tr.amplitudeMaxMa > 0 ? Math.min(1, tr.amplitudeMa / tr.amplitudeMaxMa) : 0;
+  const pulseH = Math.max(4, TRAIN_H * (tr.amplitudeOnPot ? 1 : ampFrac));
+  const baseY = TRAIN_TOP + TRAIN_H;
+  const drawnEnd = Math.min(finite ? tr.trainMs : spanMs, spanMs);
+  const inView = Number.isFinite(tr.periodMs) ? Math.ceil(drawnEnd / tr.periodMs) : 0;
+  const pulseFill = tr.amplitudeOnPot ? "none" : palette.secondary.main;
+  const pulseStroke = palette.secondary.main;
+
+  const pulses = [];
+  if (inView > MAX_DRAWN) {
+    pulses.push(
+      <rect key="band" x={tx(0)} y={baseY - pulseH} width={tx(drawnEnd) - tx(0)} height={pulseH}
+        fill={palette.secondary.main} fillOpacity={0.25} stroke={pulseStroke}
+        strokeDasharray={tr.amplitudeOnPot ? "4 3" : undefined} />,
+      <text key="band-label" x={tx(drawnEnd / 2)} y={baseY - pulseH / 2 + 4} textAnchor="middle" fontSize={11}>
+        {finite ? tr.pulses : "∞"} pulses at {+(1000 / tr.periodMs).toFixed(2)} Hz
+      </text>,
+    );
+  } else {
+    for (let i = 0; i < inView; i++) {
+      pulses.push(
+        <rect key={i} x={tx(i * tr.periodMs)} y={baseY - pulseH} width={Math.max(1.5, (tr.pulseWidthUs / 1000) * sx)}
+          height={pulseH} fill={pulseFill} stroke={pulseStroke} strokeWidth={tr.amplitudeOnPot ? 1 : 0}
+          strokeDasharray={tr.amplitudeOnPot ? "3 2" : undefined} />,
+      );
+    }
+  }
+
+  // Limit that cut the train, and the other one when it falls inside the view
+  const limitLine = (ms: number, label: string, active: boolean, row: number) =>
+    Number.isFinite(ms) && ms <= spanMs && (
+      <g key={label}>
+        <line x1={tx(ms)} x2={tx(ms)} y1={TRAIN_TOP - 6} y2={baseY + 4}
+          stroke={active ? palette.error.main : palette.text.disabled} strokeDasharray={active ? undefined : "4 3"} />
+        <text x={tx(ms)} y={TRAIN_TOP - 10 - row * 12} textAnchor={tx(ms) > W - 120 ? "end" : "middle"} fontSize={10}
+          fill={active ? palette.error.main : palette.text.secondary}>
+          {label} {fmtMs(ms)}
+        </text>
+      </g>
+    );
+
+  // ---------- Detail: two onsets, one interval ----------
+  const periodFinite = Number.isFinite(tr.periodMs);
+  const dsx = periodFinite ? (PLOT_W * 0.8) / tr.periodMs : 0;
+  const dx = (ms: number) => LEFT + 10 + ms * dsx;
+  const dpw = Math.max(2, (tr.pulseWidthUs / 1000) * dsx);
+  const dBase = DETAIL_TOP + DETAIL_H;
+  const dimY = dBase + 14;
+
+  const text = palette.text.primary;
+
+  return (
+    <Box mt={2} p={1.5} sx={{ border: 1, borderColor: "divider", borderRadius: 1 }}>
+      <Typography variant="subtitle2">Pulse train preview</Typography>
+      <svg viewBox={`0 0 ${W} ${H}`} width="100%" role="img" aria-label="Pulse train preview" style={{ display: "block" }}>
+        <g fontFamily="inherit" fill={text}>
+          {/* ---- amplitude axis ---- */}
+          <text x={LEFT - 8} y={baseY - pulseH + 10} textAnchor="end" fontSize={11}>
+            {tr.amplitudeOnPot ? "POT" : `${tr.amplitudeMa} mA`}
+          </text>
+          {tr.amplitudeOnPot && (
+            <text x={LEFT - 8} y={baseY - pulseH + 24} textAnchor="end" fontSize={9} fill={palette.text.secondary}>
+              0–{tr.amplitudeMaxMa} mA
+            </text>
+          )}
+          <line x1={LEFT} x2={W - RIGHT} y1={baseY} y2={baseY} stroke={palette.divider} />
+
+          {/* ---- EMG gate ---- */}
+          {tr.gated && (
+            <g>
+              <rect x={tx(0)} y={TRAIN_TOP - 4} width={PLOT_W} height={TRAIN_H + 4}
+                fill={palette.info.main} fillOpacity={0.08} stroke={palette.info.main} strokeDasharray="5 3" />
+              <text x={W - RIGHT - 4} y={TRAIN_TOP + 10} textAnchor="end" fontSize={10} fill={palette.info.main}>
+                gated: only while EMG &gt; threshold
+              </text>
+            </g>
+          )}
+
+          {pulses}
+
+          {/* ---- limits ---- */}
+          {limitLine(tr.byPulsesMs, "# pulses:", tr.endsBy === "pulses", 0)}
+          {limitLine(tr.byDurationMs, "duration:", tr.endsBy === "duration", tr.endsBy === "pulses" && tr.byDurationMs - tr.byPulsesMs < spanMs * 0.25 ? 1 : 0)}
+          {!finite && (
+            <text x={W - RIGHT} y={baseY - pulseH - 6} textAnchor="end" fontSize={11} fill={palette.error.main}>
+              {tr.pulsesInfinite && !tr.gated ? "∞ pulses → until Stop" : "continues →"}
+            </text>
+          )}
+          <text x={LEFT} y={baseY + 16} fontSize={10} fill={palette.text.secondary}>0</text>
+          <text x={W - RIGHT} y={baseY + 16} textAnchor="end" fontSize={10} fill={palette.text.secondary}>
+            {fmtMs(spanMs)}
+          </text>
+
+          {/* ---- one interval, magnified ---- */}
+          {periodFinite && (
+            <g>
+              <text x={LEFT - 8} y={DETAIL_TOP + 10} textAnchor="end" fontSize={10} fill={palette.text.secondary}>
+                zoom
+              </text>
+              <line x1={LEFT} x2={W - RIGHT} y1={dBase} y2={dBase} stroke={palette.divider} />
+              {[0, tr.periodMs].map(t => (
+                <rect key={t} x={dx(t)} y={DETAIL_TOP} width={dpw} height={DETAIL_H}
+                  fill={pulseFill} stroke={pulseStroke} strokeDasharray={tr.amplitudeOnPot ? "3 2" : undefined} />
+              ))}
+              {/* inter-pulse interval */}
+              <line x1={dx(0)} x2={dx(tr.periodMs)} y1={dimY} y2={dimY} stroke={text} markerStart={`url(#${tickId})`} markerEnd={`url(#${tickId})`} />
+              <text x={(dx(0) + dx(tr.periodMs)) / 2} y={dimY + 14} textAnchor="middle" fontSize={11}>
+                inter-pulse interval {fmtMs(tr.periodMs)} ({+(1000 / tr.periodMs).toFixed(2)} Hz)
+              </text>
+              {/* pulse width */}
+              <text x={dx(0) + dpw + 6} y={DETAIL_TOP + 12} fontSize={11}>
+                ← pulse width {tr.pulseWidthUs} µs
+              </text>
+              <text x={dx(0) + dpw + 6} y={DETAIL_TOP + 26} fontSize={10} fill={palette.text.secondary}>
+                off {fmtMs(tr.gapMs)}
+              </text>
+            </g>
+          )}
+        </g>
+        <defs>
+          <marker id={tickId} viewBox="0 0 2 10" refX={1} refY={5} markerWidth={2} markerHeight={10}>
+            <rect width={2} height={10} fill={text} />
+          </marker>
+        </defs>
+      </svg>
+
+      <Typography variant="body2">
+        Inter-pulse interval {fmtMs(tr.periodMs)} · Train {fmtMs(tr.trainMs)} ·{" "}
+        {Number.isFinite(tr.pulses) ? `${tr.pulses} pulse${tr.pulses === 1 ? "" : "s"}` : "∞ pulses"} · {END_TEXT[tr.endsBy]}
+        {tr.gated && tr.endsBy === "pulses" && ", or earlier if EMG drops below threshold"}
+      </Typography>
+      {tr.amplitudeOnPot && (
+        <Typography variant="body2" color="warning.main">
+          Amplitude follows the POT knob – anywhere from 0 to {tr.amplitudeMaxMa} mA.
+        </Typography>
+      )}
+      {finite && tr.pulses === 0 && (
+        <Typography variant="body2" color="warning.main">
+          No pulses will be delivered with these settings.
+        </Typography>
+      )}
+    </Box>
+  );
+}
+
+export default PulseTrainPreview;
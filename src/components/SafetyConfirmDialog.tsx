@@ -0,0 +1,51 @@
+// src/components/SafetyConfirmDialog.tsx
+import { useState } from "react";
+import {
+  Alert,
+  Button,
+  Checkbox,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+} from "@mui/material";
+import type { Violation } from "../safety";
+
+interface Props {
+  open: boolean;
+  violations: Violation[];
+  onCancel: () => void;
+  onConfirm: () => void;
+}
+
+// Values outside the lab's "confirm" limits only go out after the operator
+// ticks the acknowledgement – a single misclick on "Save" isn't enough.
+function SafetyConfirmDialog({ open, violations, onCancel, onConfirm }: Props) {
+  const [ack, setAck] = useState(false);
+
+  return (
+    <Dialog open={open} onClose={onCancel} TransitionProps={{ onEnter: () => setAck(false) }}>
+      <DialogTitle>Confirm stimulation parameters</DialogTitle>
+      <DialogContent>
+        {violations.map((v, i) => (
+          <Alert key={i} severity="warning" sx={{ mb: 1 }}>
+            {v.message}
+          </Alert>
+        ))}
+        <FormControlLabel
+          control={<Checkbox checked={ack} onChange={e => setAck(e.target.checked)} />}
+          label="I have reviewed these values and they are approved for this session"
+        />
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onCancel}>Cancel</Button>
+        <Button variant="contained" color="warning" disabled={!ack} onClick={onConfirm}>
+          Write anyway
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
+
+export default SafetyConfirmDialog;
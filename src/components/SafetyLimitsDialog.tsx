@@ -0,0 +1,188 @@
+// src/components/SafetyLimitsDialog.tsx
+import { useState } from "react";
+import {
+  Box,
+  Button,
+  Checkbox,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  FormHelperText,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from "@mui/material";
+import type { BatteryThresholds } from "../battery";
+import type { DoseCap } from "../dose";
+import {
+  DEFAULT_LIMITS,
+  QUANTITY_INFO,
+  type Bound,
+  type Quantity,
+  type SafetyLimits,
+  type Severity,
+} from "../safety";
+
+interface Props {
+  open: boolean;
+  limits: SafetyLimits;
+  onClose: () => void;
+  onSave: (limits: SafetyLimits) => void;
+}
+
+// Duty cycle is stored as a fraction but edited as a percentage
+const scale = (q: Quantity) => (q === "dutyCycle" ? 100 : 1);
+
+function SafetyLimitsDialog({ open, limits, onClose, onSave }: Props) {
+  const [draft, setDraft] = useState(limits);
+
+  const setBound = (sev: Severity, q: Quantity, which: keyof Bound, text: string) => {
+    setDraft(d => {
+      const bound: Bound = { ...d[sev][q] };
+      if (text.trim() === "") delete bound[which];
+      else bound[which] = Number(text) / scale(q);
+      return { ...d, [sev]: { ...d[sev], [q]: bound } };
+    });
+  };
+
+  const setBattery = (patch: Partial<BatteryThresholds>) =>
+    setDraft(d => ({ ...d, battery: { ...d.battery, ...patch } }));
+
+  const { warnPct, lowPct, criticalPct } = draft.battery;
+  const batteryOrderOk = warnPct >= lowPct && lowPct >= criticalPct && criticalPct >= 0 && warnPct <= 100;
+
+  const pctField = (label: string, key: "warnPct" | "lowPct" | "criticalPct") => (
+    <TextField
+      size="small"
+      type="number"
+      label={label}
+      value={draft.battery[key]}
+      onChange={e => setBattery({ [key]: Number(e.target.value) })}
+      slotProps={{ htmlInput: { min: 0, max: 100 } }}
+      sx={{ width: 130 }}
+    />
+  );
+
+  // Blank = no cap; time is edited in seconds
+  const capField = (label: string, key: keyof DoseCap, scale = 1) => (
+    <TextField
+      size="small"
+      type="number"
+      label={label}
+      value={draft.dose[key] === undefined ? "" : draft.dose[key]! / scale}
+      placeholder="no cap"
+      onChange={e =>
+        setDraft(d => {
+          const dose = { ...d.dose };
+          if (e.target.value.trim() === "") delete dose[key];
+          else dose[key] = Number(e.target.value) * scale;
+          return { ...d, dose };
+        })
+      }
+      slotProps={{ htmlInput: { min: 0 }, inputLabel: { shrink: true } }}
+      sx={{ width: 150 }}
+    />
+  );
+
+  const cell = (sev: Severity, q: Quantity, which: keyof Bound) => {
+    const v = draft[sev][q]?.[which];
+    return (
+      <TableCell>
+        <TextField
+          size="small"
+          type="number"
+          value={v === undefined ? "" : +(v * scale(q)).toPrecision(6)}
+          placeholder="—"
+          onChange={e => setBound(sev, q, which, e.target.value)}
+          sx={{ width: 90 }}
+        />
+      </TableCell>
+    );
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onClose={onClose}
+      maxWidth="md"
+      TransitionProps={{ onEnter: () => setDraft(limits) }}
+    >
+      <DialogTitle>Safety limits</DialogTitle>
+      <DialogContent>
+        <TextField
+          fullWidth
+          margin="normal"
+          label="Lab / protocol name"
+          value={draft.labName}
+          onChange={e => setDraft(d => ({ ...d, labName: e.target.value }))}
+        />
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Quantity</TableCell>
+              <TableCell>Block below</TableCell>
+              <TableCell>Block above</TableCell>
+              <TableCell>Confirm below</TableCell>
+              <TableCell>Confirm above</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {(Object.keys(QUANTITY_INFO) as Quantity[]).map(q => (
+              <TableRow key={q}>
+                <TableCell>
+                  {QUANTITY_INFO[q].label} ({QUANTITY_INFO[q].unit})
+                </TableCell>
+                {cell("block", q, "min")}
+                {cell("block", q, "max")}
+                {cell("confirm", q, "min")}
+                {cell("confirm", q, "max")}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <Typography variant="subtitle1" sx={{ mt: 3 }}>Battery (%)</Typography>
+        <Box display="flex" alignItems="center" gap={1} mt={1}>
+          {pctField("Notice at", "warnPct")}
+          {pctField("Warn at", "lowPct")}
+          {pctField("Critical at", "criticalPct")}
+          <FormControlLabel
+            sx={{ ml: 1 }}
+            control={<Checkbox checked={draft.battery.autoStop} onChange={e => setBattery({ autoStop: e.target.checked })} />}
+            label="Stop stimulation at critical"
+          />
+        </Box>
+        <FormHelperText error={!batteryOrderOk}>
+          {batteryOrderOk
+            ? "At or below the critical level new stimulation is refused, and protocols or trial blocks that would run past it don't start."
+            : "Levels must satisfy 100 ≥ notice ≥ warn ≥ critical ≥ 0."}
+        </FormHelperText>
+
+        <Typography variant="subtitle1" sx={{ mt: 3 }}>Dose cap per participant</Typography>
+        <Box display="flex" alignItems="center" gap={1} mt={1}>
+          {capField("Charge (µC)", "chargeUc")}
+          {capField("Pulses", "pulses")}
+          {capField("Stimulation (s)", "stimMs", 1000)}
+        </Box>
+        <FormHelperText>
+          Counted per recorded session. Once a cap is reached, running trains are stopped and further starts are refused.
+        </FormHelperText>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={() => setDraft(DEFAULT_LIMITS)}>Reset to defaults</Button>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button variant="contained" disabled={!batteryOrderOk} onClick={() => onSave(draft)}>
+          Save
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
+
+export default SafetyLimitsDialog;
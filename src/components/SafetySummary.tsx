@@ -0,0 +1,26 @@
+// src/components/SafetySummary.tsx
+import { Box, Typography } from "@mui/material";
+import { fmtQuantity, type SafetyReport } from "../safety";
+
+// Derived quantities for the parameter set currently on screen.
+function SafetySummary({ report, labName }: { report: SafetyReport; labName: string }) {
+  const d = report.derived;
+  const color = report.blocked ? "error.main" : report.needsConfirm ? "warning.main" : "success.main";
+
+  return (
+    <Box mt={2} p={1.5} sx={{ border: 1, borderColor: color, borderRadius: 1 }}>
+      <Typography variant="subtitle2" sx={{ color }}>
+        Safety ({labName}):{" "}
+        {report.blocked ? "blocked" : report.needsConfirm ? "needs confirmation" : "within limits"}
+      </Typography>
+      <Typography variant="body2">
+        Charge/pulse {fmtQuantity("chargePerPulseUc", d.chargePerPulseUc)}
+        {d.amplitudeOnPot && " (POT at full scale)"} · Duty cycle {fmtQuantity("dutyCycle", d.dutyCycle)} ·
+        Train {fmtQuantity("trainMs", d.trainMs)} ({Number.isFinite(d.pulsesPerTrain) ? d.pulsesPerTrain : "∞"} pulses) ·
+        Charge/train {fmtQuantity("trainChargeUc", d.trainChargeUc)}
+      </Typography>
+    </Box>
+  );
+}
+
+export default SafetySummary;
@@ -0,0 +1,166 @@
+// src/components/ScriptConsole.tsx
+import { useRef, useState } from "react";
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  MenuItem,
+  TextField,
+  Typography,
+} from "@mui/material";
+import PlayArrowIcon from "@mui/icons-material/PlayArrow";
+import StopIcon from "@mui/icons-material/Stop";
+import { newId } from "../protocols";
+import {
+  EXAMPLE_SCRIPT,
+  loadScripts,
+  saveScripts,
+  startScript,
+  type SavedScript,
+  type ScriptHost,
+  type ScriptResult,
+  type ScriptRun,
+} from "../scripting";
+
+interface Props {
+  host: ScriptHost;
+}
+
+const MAX_OUTPUT = 500;
+
+const newScript = (name = "New script", source = ""): SavedScript => ({ id: newId(), name, source });
+
+function ScriptConsole({ host }: Props) {
+  const [scripts, setScripts] = useState<SavedScript[]>(() => {
+    const list = loadScripts();
+    return list.length ? list : [newScript(EXAMPLE_SCRIPT.name, EXAMPLE_SCRIPT.source)];
+  });
+  const [selectedId, setSelectedId] = useState(() => scripts[0].id);
+  const [output,     setOutput]     = useState<string[]>([]);
+  const [result,     setResult]     = useState<ScriptResult | null>(null);
+  const [running,    setRunning]    = useState(false);
+  const run = useRef<ScriptRun | null>(null);
+
+  const script = scripts.find(s => s.id === selectedId) ?? scripts[0];
+
+  const update = (list: SavedScript[]) => {
+    setScripts(list);
+    saveScripts(list);
+  };
+  const edit = (s: SavedScript) => update(scripts.map(x => (x.id === s.id ? s : x)));
+
+  const addScript = () => {
+    const s = newScript();
+    update([...scripts, s]);
+    setSelectedId(s.id);
+  };
+
+  const deleteScript = () => {
+    const rest = scripts.filter(s => s.id !== script.id);
+    const list = rest.length ? rest : [newScript()];
+    update(list);
+    setSelectedId(list[0].id);
+  };
+
+  const print = (m: string) => setOutput(o => [...o.slice(-(MAX_OUTPUT - 1)), m]);
+
+  const start = async () => {
+    setOutput([]);
+    setResult(null);
+    setRunning(true);
+    host.log(`Script '${script.name}' started`);
+    const { run: r, done } = startScript(script.source, {
+      ...host,
+      log: m => {
+        print(m);
+        host.log(m);
+      },
+    });
+    run.current = r;
+    const res = await done;
+    run.current = null;
+    setRunning(false);
+    setResult(res);
+    host.log(`Script '${script.name}' ${res.ok ? "finished" : res.stopped ? "stopped" : `failed: ${res.error}`}`);
+  };
+
+  return (
+    <Box mt={4}>
+      <Typography variant="h6">Scripts</Typography>
+
+      <Box display="flex" alignItems="center" mt={1}>
+        <TextField
+          select
+          size="small"
+          label="Script"
+          value={script.id}
+          disabled={running}
+          onChange={e => setSelectedId(e.target.value)}
+          sx={{ minWidth: 200, mr: 1 }}
+        >
+          {scripts.map(s => (
+            <MenuItem key={s.id} value={s.id}>{s.name}</MenuItem>
+          ))}
+        </TextField>
+        <TextField
+          size="small"
+          label="Name"
+          value={script.name}
+          disabled={running}
+          onChange={e => edit({ ...script, name: e.target.value })}
+          sx={{ mr: 1 }}
+        />
+        <Button size="small" disabled={running} onClick={addScript}>New</Button>
+        <Button size="small" color="error" disabled={running} onClick={deleteScript}>Delete</Button>
+      </Box>
+
+      <TextField
+        fullWidth
+        multiline
+        minRows={8}
+        margin="normal"
+        value={script.source}
+        disabled={running}
+        onChange={e => edit({ ...script, source: e.target.value })}
+        helperText="Runs as an async function with hhi, sleep and log in scope – see README › Scripting"
+        slotProps={{ input: { sx: { fontFamily: "monospace", fontSize: 13 } }, htmlInput: { spellCheck: false } }}
+      />
+
+      <Box display="flex" alignItems="center" gap={1}>
+        {!running ? (
+          <Button variant="contained" startIcon={<PlayArrowIcon />} disabled={!script.source.trim()} onClick={start}>
+            Run
+          </Button>
+        ) : (
+          <Button variant="contained" color="error" startIcon={<StopIcon />} onClick={() => run.current?.stop()}>
+            Stop
+          </Button>
+        )}
+        {running && <Chip size="small" label="running" />}
+        {result && (
+          <Chip
+            size="small"
+            label={`${result.ok ? "finished" : result.stopped ? "stopped" : "failed"} · ${(result.elapsedMs / 1000).toFixed(1)} s`}
+            color={result.ok ? "success" : result.stopped ? "default" : "error"}
+          />
+        )}
+      </Box>
+      {result?.error && <Alert severity="error" sx={{ mt: 1 }}>{result.error}</Alert>}
+
+      {output.length > 0 && (
+        <Box
+          mt={1}
+          p={1}
+          sx={{ bgcolor: "#f5f5f5", fontFamily: "monospace", fontSize: 13, maxHeight: 200, overflowY: "auto", whiteSpace: "pre-wrap" }}
+        >
+          {output.map((l, i) => (
+            <div key={i}>{l}</div>
+          ))}
+        </Box>
+      )}
+    </Box>
+  );
+}
+
+export default ScriptConsole;
@@ -0,0 +1,205 @@
+// src/components/SessionPanel.tsx
+import { useEffect, useState } from "react";
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  LinearProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from "@mui/material";
+import FiberManualRecordIcon from "@mui/icons-material/FiberManualRecord";
+import {
+  bidsSidecar,
+  deleteSession,
+  getEvents,
+  listSessions,
+  toBidsTsv,
+  toCsv,
+  toJson,
+  type SessionMeta,
+  type SessionRecorder,
+} from "../session";
+import { capReached, capUsed, fmtDose, type DoseCap, type DoseMeter, type DoseSummary } from "../dose";
+import { downloadText, slug } from "../util/download";
+
+const fmtTime = (ms: number) => new Date(ms).toLocaleString();
+
+interface Props {
+  recorder: SessionRecorder;
+  dose: DoseMeter;
+  cap: DoseCap;
+  /** A blinded experiment is running: the dose only grows on active trials, so it isn't shown. */
+  blinded?: boolean;
+}
+
+function SessionPanel({ recorder, dose, cap, blinded }: Props) {
+  const [current,  setCurrent]  = useState<SessionMeta | null>(recorder.current);
+  const [sessions, setSessions] = useState<SessionMeta[]>([]);
+  const [name,     setName]     = useState("");
+  const [live,     setLive]     = useState<DoseSummary>(() => dose.summary());
+  const [doseError, setDoseError] = useState<string | null>(null);
+
+  useEffect(() => dose.subscribe(() => setLive(dose.summary())), [dose]);
+
+  const used = capUsed(live.total, cap);
+  const refusal = capReached(live.total, cap);
+
+  const refresh = () => void listSessions().then(setSessions).catch(() => setSessions([]));
+
+  useEffect(() => {
+    refresh();
+    return recorder.subscribe(setCurrent);
+  }, [recorder]);
+
+  const start = async () => {
+    await recorder.start(name.trim() || `Session ${new Date().toLocaleString()}`);
+    setName("");
+    refresh();
+  };
+
+  const stop = async () => {
+    await recorder.stop();
+    refresh();
+  };
+
+  const nextParticipant = () => {
+    if (!window.confirm("Start a new participant? The dose count starts again at zero.")) return;
+    try {
+      dose.startParticipant();
+      setDoseError(null);
+    } catch (e) {
+      setDoseError((e as Error).message);
+    }
+  };
+
+  const exportAs = async (meta: SessionMeta, kind: "csv" | "json" | "bids") => {
+    const events = await getEvents(meta.id);
+    const stem = slug(meta.name);
+    if (kind === "csv") downloadText(`${stem}.csv`, toCsv(events), "text/csv");
+    if (kind === "json") downloadText(`${stem}.json`, toJson(meta, events), "application/json");
+    if (kind === "bids") {
+      downloadText(`${stem}_events.tsv`, toBidsTsv(events), "text/tab-separated-values");
+      downloadText(`${stem}_events.json`, bidsSidecar(meta), "application/json");
+    }
+  };
+
+  const remove = async (meta: SessionMeta) => {
+    if (!window.confirm(`Delete session '${meta.name}' and its ${meta.eventCount} events?`)) return;
+    await deleteSession(meta.id);
+    refresh();
+  };
+
+  return (
+    <Box mt={4}>
+      <Typography variant="h6">Session Recording</Typography>
+      {current ? (
+        <>
+          <Box display="flex" alignItems="center" gap={1} mt={1}>
+            <Chip color="error" size="small" icon={<FiberManualRecordIcon />} label="REC" />
+            <Typography>
+              {current.name} · {current.eventCount} events
+            </Typography>
+            <Button size="small" variant="outlined" onClick={stop}>
+              Stop
+            </Button>
+          </Box>
+        </>
+      ) : (
+        <Box display="flex" alignItems="center" gap={1} mt={1}>
+          <TextField
+            size="small"
+            label="Session name"
+            value={name}
+            onChange={e => setName(e.target.value)}
+          />
+          <Button variant="contained" size="small" onClick={start}>
+            Start recording
+          </Button>
+        </Box>
+      )}
+
+      {/* The dose belongs to the participant, not the recording: it keeps counting between recordings */}
+      <Box display="flex" alignItems="center" gap={1} mt={1}>
+        <Typography>
+          Dose since {live.participant ? fmtTime(live.participant.startedAt) : "start"}:{" "}
+          {blinded ? (
+            "hidden while the blinded experiment runs"
+          ) : (
+            <>
+              {fmtDose(live.total)} in {live.total.trains} train{live.total.trains === 1 ? "" : "s"}
+            </>
+          )}
+        </Typography>
+        <Button size="small" disabled={!!refusal} onClick={nextParticipant}>
+          New participant
+        </Button>
+      </Box>
+      {!blinded && live.devices.length > 1 && live.devices.map(d => (
+        <Typography key={d.deviceId} variant="body2" color="text.secondary">
+          {d.name}: {fmtDose(d)}
+        </Typography>
+      ))}
+      {!blinded && used !== null && (
+        <LinearProgress
+          variant="determinate"
+          value={Math.min(100, used * 100)}
+          color={used >= 1 ? "error" : used >= 0.8 ? "warning" : "primary"}
+          sx={{ mt: 1, maxWidth: 400 }}
+        />
+      )}
+      {doseError && !refusal && <Alert severity="warning" sx={{ mt: 1 }}>{doseError}</Alert>}
+      {refusal && (
+        <Alert severity="error" sx={{ mt: 1 }}>
+          {refusal} – stimulation is refused for the rest of this participant's session. Only raising the cap under
+          Safety limits lifts it.
+        </Alert>
+      )}
+
+      {sessions.length > 0 && (
+        <Table size="small" sx={{ mt: 2 }}>
+          <TableHead>
+            <TableRow>
+              <TableCell>Name</TableCell>
+              <TableCell>Started</TableCell>
+              <TableCell align="right">Events</TableCell>
+              <TableCell>Dose</TableCell>
+              <TableCell>Export</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {sessions.map(s => (
+              <TableRow key={s.id}>
+                <TableCell>{s.name}</TableCell>
+                <TableCell>{fmtTime(s.startedAt)}</TableCell>
+                <TableCell align="right">{s.eventCount}</TableCell>
+                <TableCell>{blinded && s.id === current?.id ? "hidden" : s.dose ? fmtDose(s.dose.total) : "—"}</TableCell>
+                <TableCell>
+                  <Button size="small" onClick={() => exportAs(s, "csv")}>CSV</Button>
+                  <Button size="small" onClick={() => exportAs(s, "json")}>JSON</Button>
+                  <Button size="small" onClick={() => exportAs(s, "bids")}>events.tsv</Button>
+                  <Button
+                    size="small"
+                    color="error"
+                    disabled={s.id === current?.id}
+                    onClick={() => remove(s)}
+                  >
+                    Delete
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </Box>
+  );
+}
+
+export default SessionPanel;
@@ -0,0 +1,312 @@
+// src/components/TelemetryChart.tsx
+import { useCallback, useEffect, useRef, useState } from "react";
+import { alpha, Box, Button, IconButton, Tooltip, Typography, useTheme } from "@mui/material";
+import ZoomInIcon from "@mui/icons-material/ZoomIn";
+import ZoomOutIcon from "@mui/icons-material/ZoomOut";
+import { SERIES_LABELS, type Sample, type SeriesKey, type Telemetry } from "../telemetry";
+import { downloadBlob, downloadText, slug } from "../util/download";
+
+interface Props {
+  telemetry: Telemetry;
+  /** Full scale of the amplitude lane – differs between firmware layouts. */
+  ampMax: number;
+  /** Used for export file names. */
+  name: string;
+}
+
+interface Lane {
+  label: string;
+  keys: SeriesKey[];
+  max: number;
+}
+
+// ---------- Layout (CSS px) ----------
+const LANE_H = 60, GAP = 12, TOP = 6, LEFT = 112, RIGHT = 8, AXIS = 22;
+
+const MIN_SPAN = 5_000;
+const MAX_SPAN = 40 * 60_000;
+const clampSpan = (ms: number) => Math.min(MAX_SPAN, Math.max(MIN_SPAN, ms));
+
+// Tick spacing giving roughly 6 labels across the window
+const TICK_STEPS = [1, 2, 5, 10, 15, 30, 60, 120, 300, 600, 900, 1800].map(s => s * 1000);
+const tickStep = (span: number) => TICK_STEPS.find(s => span / s <= 7) ?? TICK_STEPS[TICK_STEPS.length - 1];
+
+const lanesFor = (ampMax: number): Lane[] => [
+  { label: "Amplitude", keys: ["amplitude"], max: ampMax },
+  { label: "EMG threshold", keys: ["emgThreshold"], max: 5 },
+  { label: "Battery %", keys: ["battery"], max: 100 },
+  { label: "Wi-Fi / MQTT", keys: ["wifi", "mqtt"], max: 1 },
+];
+const HEIGHT = TOP + lanesFor(0).length * (LANE_H + GAP) + AXIS;
+
+// Visible [from, to]; a null end follows "now"
+const windowOf = ({ span, end }: { span: number; end: number | null }) => {
+  const to = end ?? Date.now();
+  return [to - span, to] as const;
+};
+
+const clock = (t: number) => new Date(t).toLocaleTimeString(undefined, { hour12: false });
+
+function TelemetryChart({ telemetry, ampMax, name }: Props) {
+  const theme = useTheme();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [span, setSpan] = useState(60_000);
+  // Right edge of the window; null follows "now"
+  const [end, setEnd] = useState<number | null>(null);
+  const view = useRef({ span, end });
+  view.current = { span, end };
+  const drag = useRef<{ x: number; end: number } | null>(null);
+
+  const draw = useCallback(() => {
+    const c = canvasRef.current;
+    // nothing to do while the device's panel is hidden
+    if (!c?.clientWidth) return;
+    const dpr = window.devicePixelRatio || 1;
+    const W = c.clientWidth;
+    const H = c.clientHeight;
+    if (c.width !== Math.round(W * dpr) || c.height !== Math.round(H * dpr)) {
+      c.width = Math.round(W * dpr);
+      c.height = Math.round(H * dpr);
+    }
+    const ctx = c.getContext("2d")!;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    const { palette } = theme;
+    const colors: Record<SeriesKey, string> = {
+      amplitude:    palette.secondary.main,
+      emgThreshold: palette.info.main,
+      battery:      palette.success.main,
+      wifi:         palette.primary.main,
+      mqtt:         palette.warning.main,
+    };
+
+    // opaque background so the PNG export isn't transparent
+    ctx.fillStyle = palette.background.paper;
+    ctx.fillRect(0, 0, W, H);
+    ctx.font = `11px ${theme.typography.fontFamily}`;
+
+    const lanes = lanesFor(ampMax);
+    const [from, to] = windowOf(view.current);
+    const plotW = W - LEFT - RIGHT;
+    const plotBottom = TOP + lanes.length * (LANE_H + GAP) - GAP;
+    const x = (t: number) => LEFT + ((t - from) / (to - from)) * plotW;
+    const now = Date.now();
+
+    // ---------- Stimulation bands + markers ----------
+    ctx.fillStyle = alpha(palette.error.main, 0.12);
+    const band = (a: number, b: number) => {
+      if (b < from || a > to) return;
+      const x0 = Math.max(LEFT, x(a));
+      const x1 = Math.min(LEFT + plotW, x(b));
+      ctx.fillRect(x0, TOP, x1 - x0, plotBottom - TOP);
+    };
+    let onAt: number | null = null;
+    for (const m of telemetry.markers) {
+      if (m.on) onAt = m.t;
+      else if (onAt !== null) {
+        band(onAt, m.t);
+        onAt = null;
+      }
+    }
+    if (onAt !== null) band(onAt, Math.min(to, now));
+    ctx.setLineDash([3, 3]);
+    for (const m of telemetry.markers) {
+      if (m.t < from || m.t > to) continue;
+      ctx.strokeStyle = m.on ? palette.error.main : palette.text.disabled;
+      ctx.beginPath();
+      ctx.moveTo(x(m.t), TOP);
+      ctx.lineTo(x(m.t), plotBottom);
+      ctx.stroke();
+    }
+    ctx.setLineDash([]);
+
+    // ---------- Lanes ----------
+    lanes.forEach((lane, i) => {
+      const top = TOP + i * (LANE_H + GAP);
+      const bottom = top + LANE_H;
+
+      ctx.strokeStyle = palette.divider;
+      ctx.strokeRect(LEFT + 0.5, top + 0.5, plotW - 1, LANE_H - 1);
+
+      ctx.fillStyle = palette.text.primary;
+      ctx.textAlign = "right";
+      ctx.textBaseline = "top";
+      ctx.fillText(lane.label, LEFT - 8, top);
+
+      ctx.save();
+      ctx.beginPath();
+      ctx.rect(LEFT, top, plotW, LANE_H);
+      ctx.clip();
+
+      if (lane.keys.length > 1) {
+        // on/off series as bars, one row each
+        const rowH = LANE_H / lane.keys.length;
+        lane.keys.forEach((key, r) => {
+          ctx.fillStyle = alpha(colors[key], 0.6);
+          eachStep(telemetry.window(key, from, to), to, now, (t0, t1, v) => {
+            if (v) ctx.fillRect(x(t0), top + r * rowH + 3, x(t1) - x(t0), rowH - 6);
+          });
+        });
+      } else {
+        const key = lane.keys[0];
+        const y = (v: number) => bottom - 4 - (Math.min(v, lane.max) / lane.max) * (LANE_H - 8);
+        ctx.strokeStyle = colors[key];
+        ctx.lineWidth = 1.5;
+        ctx.beginPath();
+        let first = true;
+        eachStep(telemetry.window(key, from, to), to, now, (t0, t1, v) => {
+          if (first) ctx.moveTo(x(t0), y(v));
+          else ctx.lineTo(x(t0), y(v));
+          ctx.lineTo(x(t1), y(v));
+          first = false;
+        });
+        ctx.stroke();
+        ctx.lineWidth = 1;
+      }
+      ctx.restore();
+
+      // scale / legend under the label
+      ctx.fillStyle = palette.text.secondary;
+      if (lane.keys.length > 1) {
+        lane.keys.forEach((key, r) => {
+          ctx.fillStyle = colors[key];
+          ctx.fillText(SERIES_LABELS[key], LEFT - 8, top + 16 + r * 14);
+        });
+      } else {
+        const last = telemetry.series(lane.keys[0]);
+        const v = last.length ? last[last.length - 1].v : undefined;
+        ctx.fillText(`now ${v ?? "—"} · max ${lane.max}`, LEFT - 8, top + 16);
+      }
+    });
+
+    // ---------- Time axis ----------
+    const step = tickStep(to - from);
+    ctx.fillStyle = palette.text.secondary;
+    ctx.strokeStyle = palette.divider;
+    ctx.textAlign = "center";
+    ctx.textBaseline = "top";
+    for (let t = Math.ceil(from / step) * step; t <= to; t += step) {
+      ctx.beginPath();
+      ctx.moveTo(x(t), plotBottom);
+      ctx.lineTo(x(t), plotBottom + 4);
+      ctx.stroke();
+      ctx.fillText(clock(t), x(t), plotBottom + 6);
+    }
+  }, [telemetry, ampMax, theme]);
+
+  // Live: redraw ~10×/s. Frozen: only when the window moves.
+  useEffect(() => {
+    if (end !== null) {
+      draw();
+      return;
+    }
+    let raf = 0;
+    let last = 0;
+    const loop = (ts: number) => {
+      if (ts - last > 100) {
+        last = ts;
+        draw();
+      }
+      raf = requestAnimationFrame(loop);
+    };
+    raf = requestAnimationFrame(loop);
+    return () => cancelAnimationFrame(raf);
+  }, [end, span, draw]);
+
+  // Zooms around a point of the plot (0 = left edge, 1 = right edge)
+  const zoom = useCallback((factor: number, at = 1) => {
+    const { span: s, end: e } = view.current;
+    const next = clampSpan(s * factor);
+    setSpan(next);
+    if (e !== null) {
+      const pivot = e - s * (1 - at);
+      setEnd(pivot + next * (1 - at));
+    }
+  }, []);
+
+  // React's onWheel is passive, so preventDefault needs a native listener
+  useEffect(() => {
+    const c = canvasRef.current!;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const at = (e.offsetX - LEFT) / (c.clientWidth - LEFT - RIGHT);
+      zoom(e.deltaY > 0 ? 1.25 : 0.8, Math.min(1, Math.max(0, at)));
+    };
+    c.addEventListener("wheel", onWheel, { passive: false });
+    return () => c.removeEventListener("wheel", onWheel);
+  }, [zoom]);
+
+  // Dragging pans and freezes the view
+  const onMouseDown = (e: React.MouseEvent) => {
+    drag.current = { x: e.clientX, end: view.current.end ?? Date.now() };
+  };
+  const onMouseMove = (e: React.MouseEvent) => {
+    const d = drag.current;
+    const c = canvasRef.current;
+    if (!d || !c) return;
+    const dt = ((e.clientX - d.x) / (c.clientWidth - LEFT - RIGHT)) * view.current.span;
+    setEnd(Math.min(Date.now(), d.end - dt));
+  };
+  const endDrag = () => {
+    drag.current = null;
+  };
+
+  const exportPng = () =>
+    canvasRef.current?.toBlob(b => b && downloadBlob(`${slug(name)}_telemetry.png`, b), "image/png");
+
+  const exportCsv = () => {
+    const [from, to] = windowOf(view.current);
+    downloadText(`${slug(name)}_telemetry.csv`, telemetry.toCsv(from, to), "text/csv");
+  };
+
+  const live = end === null;
+
+  return (
+    <Box mt={4}>
+      <Box display="flex" alignItems="center" gap={1} flexWrap="wrap">
+        <Typography variant="h6" sx={{ flexGrow: 1 }}>
+          Live Charts
+        </Typography>
+        <Typography variant="body2" color="text.secondary">
+          {Math.round(span / 1000)} s window{live ? "" : ` · frozen at ${clock(end)}`}
+        </Typography>
+        <Tooltip title="Zoom in">
+          <IconButton size="small" onClick={() => zoom(0.5)}>
+            <ZoomInIcon fontSize="small" />
+          </IconButton>
+        </Tooltip>
+        <Tooltip title="Zoom out">
+          <IconButton size="small" onClick={() => zoom(2)}>
+            <ZoomOutIcon fontSize="small" />
+          </IconButton>
+        </Tooltip>
+        <Button size="small" variant={live ? "outlined" : "contained"} onClick={() => setEnd(live ? Date.now() : null)}>
+          {live ? "Freeze" : "Live"}
+        </Button>
+        <Button size="small" onClick={exportPng}>PNG</Button>
+        <Button size="small" onClick={exportCsv}>CSV</Button>
+      </Box>
+      <canvas
+        ref={canvasRef}
+        style={{ width: "100%", height: HEIGHT, display: "block", cursor: "grab" }}
+        onMouseDown={onMouseDown}
+        onMouseMove={onMouseMove}
+        onMouseUp={endDrag}
+        onMouseLeave={endDrag}
+      />
+      <Typography variant="caption" color="text.secondary">
+        Scroll to zoom, drag to pan. Shaded: stimulation on (0xBB12).
+      </Typography>
+    </Box>
+  );
+}
+
+// Walks a series as a step function: each sample holds until the next one,
+// the last until the window's right edge (or now, whichever is earlier)
+const eachStep = (samples: readonly Sample[], to: number, now: number, fn: (t0: number, t1: number, v: number) => void) => {
+  for (let i = 0; i < samples.length; i++) {
+    const t1 = i + 1 < samples.length ? samples[i + 1].t : Math.min(to, now);
+    fn(samples[i].t, t1, samples[i].v);
+  }
+};
+
+export default TelemetryChart;
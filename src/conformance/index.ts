@@ -0,0 +1,3 @@
+// src/conformance/index.ts
+export * from "./suite";
+export * from "./report";
@@ -0,0 +1,53 @@
+// src/conformance/report.ts
+//
+// The downloadable result of one conformance run: which firmware profile was
+// expected, what it ran against, and every check with its outcome.
+
+import type { FirmwareProfile } from "../bb01";
+import type { TransportKind } from "../transport";
+import type { CheckResult, CheckStatus } from "./suite";
+
+export interface ConformanceReport {
+  firmware: FirmwareProfile["id"];
+  firmwareLabel: string;
+  device: string;
+  transport: TransportKind;
+  startedAt: string;
+  finishedAt: string;
+  stimulate: boolean;
+  summary: Record<CheckStatus, number>;
+  results: CheckResult[];
+}
+
+export const summarize = (results: CheckResult[]): Record<CheckStatus, number> => {
+  const s = { pass: 0, fail: 0, warn: 0, skip: 0 };
+  results.forEach(r => s[r.status]++);
+  return s;
+};
+
+/** A profile conforms when nothing failed; warnings are left to the reader. */
+export const conforms = (r: ConformanceReport) => r.summary.fail === 0;
+
+const hex = (n: number) => `0x${n.toString(16).toUpperCase().padStart(4, "0")}`;
+const cell = (s: string) => s.replace(/\|/g, "\\|").replace(/\n/g, " ");
+
+export const toReportJson = (r: ConformanceReport) => JSON.stringify(r, null, 2);
+
+export const toReportMarkdown = (r: ConformanceReport) => {
+  const { pass, fail, warn, skip } = r.summary;
+  const lines = [
+    `# BB01 conformance – ${r.firmwareLabel}`,
+    "",
+    `- Device: ${r.device} (${r.transport === "sim" ? "simulated" : "Bluetooth"})`,
+    `- Started: ${r.startedAt}`,
+    `- Finished: ${r.finishedAt}`,
+    `- Stimulation tests: ${r.stimulate ? "yes" : "no"}`,
+    `- Result: **${conforms(r) ? "PASS" : "FAIL"}** – ${pass} passed, ${fail} failed, ${warn} warnings, ${skip} skipped`,
+    "",
+    "| UUID | Characteristic | Check | Status | Expected | Actual |",
+    "| --- | --- | --- | --- | --- | --- |",
+    ...r.results.map(x =>
+      `| ${hex(x.uuid)} | ${cell(x.label)} | ${cell(x.check)} | ${x.status.toUpperCase()} | ${cell(x.expected)} | ${cell(x.actual)} |`),
+  ];
+  return lines.join("\n") + "\n";
+};
@@ -0,0 +1,357 @@
+// src/conformance/suite.ts
+//
+// Checks a device against a firmware profile – the README characteristics
+// table in code. Every characteristic is probed for presence and declared
+// properties, its default is read, boundary and out-of-range values are
+// written raw (bypassing the app's own validation) and notifications are
+// provoked where a write should cause one, all in Mode 3 with the trigger
+// enable mask cleared so that no write sets off a train. Whatever was changed
+// is put back.
+// A proposed characteristic the device doesn't have is skipped, not failed.
+
+import {
+  canNotify,
+  canRead,
+  canWrite,
+  decode,
+  hasStopCommand,
+  validate,
+  writeChar,
+  type CharKey,
+  type CharSpec,
+  type FirmwareProfile,
+} from "../bb01";
+import type { HhiTransport } from "../transport";
+
+export type CheckStatus = "pass" | "fail" | "warn" | "skip";
+
+export interface CheckResult {
+  key: CharKey;
+  uuid: number;
+  label: string;
+  check: string;
+  status: CheckStatus;
+  expected: string;
+  actual: string;
+}
+
+export interface ConformanceOptions {
+  /**
+   * Include 0xBB12: triggers one 0 mA pulse to see the start/stop
+   * notifications. Off by default – the electrodes should be disconnected.
+   */
+  stimulate: boolean;
+  notifyTimeoutMs: number;
+}
+
+export const DEFAULT_CONFORMANCE_OPTIONS: ConformanceOptions = { stimulate: false, notifyTimeoutMs: 2000 };
+
+// Writing these would replace something the app can't read back and restore
+const NO_WRITE: Partial<Record<CharKey, string>> = {
+  wifiPassword: "would replace the stored Wi-Fi password",
+};
+
+// Notifications a write should cause: the written characteristic echoes into `key`
+const PROVOKE: Partial<Record<CharKey, CharKey>> = {
+  emgThreshold:         "emgThreshold",
+  currentEmgThreshold:  "emgThreshold",
+  currentStimAmplitude: "stimAmplitude",
+};
+
+const TYPE_MAX = { uint8: 0xff, uint16: 0xffff } as const;
+
+// Mode 3 (Custom) starts a train on 0xBB12 and, on fw2, on EMG and the button
+// as far as the trigger enable mask (0xBB11) allows – with the mask cleared,
+// only 0xBB12 starts one
+const QUIET_MODE = 3;
+
+// ================= Raw bytes =================
+// The codec refuses out-of-range values, which is exactly what we need to send.
+const rawBytes = (spec: CharSpec, value: number | string): Uint8Array => {
+  if (spec.type === "utf8") return new TextEncoder().encode(value as string);
+  const n = value as number;
+  return spec.type === "uint8"
+    ? Uint8Array.of(n & 0xff)
+    : spec.littleEndian ? Uint8Array.of(n & 0xff, n >> 8) : Uint8Array.of(n >> 8, n & 0xff);
+};
+
+const show = (spec: CharSpec, v: number | string) => {
+  if (typeof v === "string") return v.length > 20 ? `"${v.slice(0, 17)}…" (${new TextEncoder().encode(v).byteLength} B)` : `"${v}"`;
+  const special = spec.special?.[v];
+  return special ? `${v} (${special})` : `${v}${spec.unit && !spec.unit.startsWith("×") ? ` ${spec.unit}` : ""}`;
+};
+
+const errText = (e: unknown) => (e instanceof Error ? `${e.name}: ${e.message}` : String(e));
+
+/** Values the firmware must accept and values it must refuse (or clamp). */
+export const boundaryValues = (spec: CharSpec): { accept: (number | string)[]; reject: (number | string)[] } => {
+  if (spec.type === "utf8") {
+    if (spec.maxLength === undefined) return { accept: ["conformance"], reject: [] };
+    return { accept: ["x".repeat(spec.maxLength)], reject: ["x".repeat(spec.maxLength + 1)] };
+  }
+  const top = TYPE_MAX[spec.type];
+  const lo = spec.min ?? 0;
+  const hi = spec.max ?? top;
+  const specials = Object.keys(spec.special ?? {}).map(Number);
+  const accept = [...new Set([lo, hi, ...specials])];
+  const reject = [lo - 1, hi + 1, top].filter(v => v >= 0 && v <= top && !accept.includes(v) && !spec.special?.[v]);
+  return { accept, reject: [...new Set(reject)] };
+};
+
+// ================= Runner =================
+export const runConformance = async (
+  t: HhiTransport,
+  fw: FirmwareProfile,
+  opts: ConformanceOptions,
+  onResult: (r: CheckResult) => void,
+): Promise<CheckResult[]> => {
+  const results: CheckResult[] = [];
+  const specs = (Object.values(fw.chars) as CharSpec[]).sort((a, b) => a.service - b.service || a.uuid - b.uuid);
+  const byKey = (k: CharKey) => fw.chars[k];
+
+  const add = (spec: CharSpec, check: string, status: CheckStatus, expected: string, actual: string) => {
+    const r = { key: spec.key, uuid: spec.uuid, label: spec.label, check, status, expected, actual };
+    results.push(r);
+    onResult(r);
+  };
+
+  const read = async (spec: CharSpec) => decode(spec, await t.read(spec.service, spec.uuid));
+
+  // Resolves with the first notification matching `want`, or null on timeout
+  const nextNotify = async (spec: CharSpec, want: (v: number | string) => boolean, act: () => Promise<void>) => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let unsub = () => {};
+    try {
+      const seen = new Promise<number | string | null>(resolve => {
+        timer = setTimeout(() => resolve(null), opts.notifyTimeoutMs);
+        t.subscribe(spec.service, spec.uuid, dv => {
+          try {
+            const v = decode(spec, dv);
+            if (want(v)) resolve(v);
+          } catch {
+            // malformed notification – keep waiting, the timeout reports it
+          }
+        }).then(u => (unsub = u)).then(act).catch(() => resolve(null));
+      });
+      return await seen;
+    } finally {
+      clearTimeout(timer);
+      unsub();
+    }
+  };
+
+  const present = new Set<CharKey>();
+  // Characteristics known to be absent – no point writing to them
+  const missing = new Set<CharKey>();
+  const isMissing = (e: unknown) => e instanceof DOMException && e.name === "NotFoundError";
+
+  // ---------- 1. Presence, properties, read/notify behaviour, defaults ----------
+  for (const spec of specs) {
+    const expected = spec.props.join("/");
+    if (t.properties) {
+      try {
+        const props = await t.properties(spec.service, spec.uuid);
+        present.add(spec.key);
+        add(spec, "present", "pass", "present", "present");
+        const same = props.length === spec.props.length && props.every(p => spec.props.includes(p));
+        add(spec, "properties", same ? "pass" : "fail", expected, props.join("/") || "none");
+      } catch (e) {
+        missing.add(spec.key);
+        add(spec, "present", spec.proposed ? "skip" : "fail", spec.proposed ? "present (proposed)" : "present", errText(e));
+        continue;
+      }
+    }
+
+    if (canRead(spec)) {
+      try {
+        const v = await read(spec);
+        present.add(spec.key);
+        const problem = validate(spec, v);
+        add(spec, "default value", problem ? "fail" : "pass", "in range", problem ? `${show(spec, v)} – ${problem}` : show(spec, v));
+      } catch (e) {
+        if (isMissing(e)) missing.add(spec.key);
+        add(spec, "read", spec.proposed && isMissing(e) ? "skip" : "fail", "readable", errText(e));
+      }
+    } else {
+      try {
+        const v = await read(spec);
+        add(spec, "write-only", "fail", "read refused", `read returned ${show(spec, v)}`);
+      } catch (e) {
+        if (isMissing(e)) missing.add(spec.key);
+        add(spec, "write-only", isMissing(e) ? "fail" : "pass", "read refused", errText(e));
+      }
+    }
+    if (missing.has(spec.key)) continue;
+
+    try {
+      const unsub = await t.subscribe(spec.service, spec.uuid, () => {});
+      unsub();
+      add(spec, "notify", canNotify(spec) ? "pass" : "fail", canNotify(spec) ? "subscribe accepted" : "subscribe refused", "subscribe accepted");
+    } catch (e) {
+      add(spec, "notify", canNotify(spec) ? "fail" : "pass", canNotify(spec) ? "subscribe accepted" : "subscribe refused", errText(e));
+    }
+  }
+
+  // ---------- 2. Boundary writes ----------
+  // Modes 0 and 2 stimulate by themselves, so everything from here on runs
+  // in Mode 3 with no trigger enabled – or amplitude writes are skipped
+  const mode = byKey("operatingMode");
+  const amp = byKey("stimAmplitude");
+  const mask = byKey("triggerEnableMask");
+  const startMode = mode && present.has(mode.key) ? await read(mode).catch(() => undefined) : undefined;
+  const startMask = mask && present.has(mask.key) ? await read(mask).catch(() => undefined) : undefined;
+  let quiet = false;
+  if (mode && startMode !== undefined && (!mask || startMask !== undefined)) {
+    try {
+      if (mask) await t.write(mask.service, mask.uuid, rawBytes(mask, 0));
+      await t.write(mode.service, mode.uuid, rawBytes(mode, QUIET_MODE));
+      quiet = true;
+    } catch (e) {
+      add(mode, `switch to Mode ${QUIET_MODE}, no triggers`, "fail", "accepted", errText(e));
+    }
+  }
+  const needsQuiet = (spec: CharSpec) => spec.key === "stimAmplitude" || PROVOKE[spec.key] === "stimAmplitude";
+
+  try {
+    for (const spec of specs) {
+      if (!canWrite(spec) || spec.key === "triggerStimulation" || missing.has(spec.key)) continue;
+      if (NO_WRITE[spec.key]) {
+        add(spec, "writes", "skip", "", NO_WRITE[spec.key]!);
+        continue;
+      }
+      if (needsQuiet(spec) && !quiet) {
+        add(spec, "writes", "skip", "", `device couldn't be put in Mode ${QUIET_MODE} first`);
+        continue;
+      }
+      const original = canRead(spec) ? await read(spec).catch(() => undefined) : undefined;
+      const { accept, reject } = boundaryValues(spec);
+      // Stepping through the modes passes 0 and 2, and through the mask enables
+      // EMG and the button – hold the amplitude at 0 meanwhile
+      const holdsAmp = spec.key === "operatingMode" || spec.key === "triggerEnableMask";
+      const heldAmp = holdsAmp && amp && present.has(amp.key) ? await read(amp).catch(() => undefined) : undefined;
+      if (heldAmp !== undefined) await t.write(amp!.service, amp!.uuid, rawBytes(amp!, 0)).catch(() => {});
+
+      for (const v of accept) {
+        const check = `write ${show(spec, v)}`;
+        try {
+          await t.write(spec.service, spec.uuid, rawBytes(spec, v));
+          if (!canRead(spec)) {
+            add(spec, check, "pass", "accepted", "accepted");
+            continue;
+          }
+          const back = await read(spec);
+          add(spec, check, back === v ? "pass" : "fail", "accepted, reads back", back === v ? "reads back" : `reads back ${show(spec, back)}`);
+        } catch (e) {
+          add(spec, check, "fail", "accepted", errText(e));
+        }
+      }
+
+      for (const v of reject) {
+        const check = `write ${show(spec, v)}`;
+        const expected = "rejected or clamped";
+        try {
+          await t.write(spec.service, spec.uuid, rawBytes(spec, v));
+        } catch (e) {
+          add(spec, check, "pass", expected, `rejected (${errText(e)})`);
+          continue;
+        }
+        if (!canRead(spec)) {
+          add(spec, check, "warn", expected, "accepted – not readable, can't tell if clamped");
+          continue;
+        }
+        try {
+          const back = await read(spec);
+          const clamped = back !== v && !validate(spec, back);
+          add(spec, check, clamped ? "pass" : "fail", expected, clamped ? `clamped to ${show(spec, back)}` : `stored ${show(spec, back)}`);
+        } catch (e) {
+          add(spec, check, "fail", expected, `accepted, then read failed: ${errText(e)}`);
+        }
+      }
+
+      if (original !== undefined) {
+        try {
+          await t.write(spec.service, spec.uuid, rawBytes(spec, original));
+        } catch (e) {
+          add(spec, "restore", "fail", `restored to ${show(spec, original)}`, errText(e));
+        }
+      }
+      if (heldAmp !== undefined) await t.write(amp!.service, amp!.uuid, rawBytes(amp!, heldAmp)).catch(() => {});
+    }
+
+    // ---------- 3. Notifications a write should cause ----------
+    for (const spec of specs) {
+      const via = PROVOKE[spec.key];
+      const viaSpec = via && byKey(via);
+      if (!canNotify(spec) || !viaSpec || !present.has(spec.key) || !present.has(viaSpec.key)) continue;
+      if (needsQuiet(spec) && !quiet) continue;
+      const original = await read(viaSpec).catch(() => undefined);
+      if (typeof original !== "number") continue;
+      const lo = viaSpec.min ?? 0;
+      const target = original === lo ? lo + 1 : lo;
+      const got = await nextNotify(spec, v => v === target, () => t.write(viaSpec.service, viaSpec.uuid, rawBytes(viaSpec, target)));
+      add(spec, `notifies after ${viaSpec.label} write`, got === null ? "fail" : "pass", show(spec, target),
+        got === null ? `nothing within ${opts.notifyTimeoutMs} ms` : show(spec, got));
+      await t.write(viaSpec.service, viaSpec.uuid, rawBytes(viaSpec, original)).catch(() => {});
+    }
+
+    // ---------- 4. Trigger (opt-in) ----------
+    const trig = byKey("triggerStimulation");
+    if (trig && !missing.has(trig.key)) {
+      if (!opts.stimulate) add(trig, "trigger", "skip", "", "stimulation tests not enabled");
+      else await checkTrigger(t, fw, trig, opts, add, nextNotify);
+    }
+  } finally {
+    if (mode && startMode !== undefined) await t.write(mode.service, mode.uuid, rawBytes(mode, startMode)).catch(() => {});
+    if (mask && startMask !== undefined) await t.write(mask.service, mask.uuid, rawBytes(mask, startMask)).catch(() => {});
+  }
+
+  return results;
+};
+
+// One 0 mA, single-pulse train in Mode 3; firmware with a stop command must
+// notify start and stop. Settings are restored afterwards.
+const checkTrigger = async (
+  t: HhiTransport,
+  fw: FirmwareProfile,
+  trig: CharSpec,
+  opts: ConformanceOptions,
+  add: (spec: CharSpec, check: string, status: CheckStatus, expected: string, actual: string) => void,
+  nextNotify: (spec: CharSpec, want: (v: number | string) => boolean, act: () => Promise<void>) => Promise<number | string | null>,
+) => {
+  const keys = (["operatingMode", "stimAmplitude", "stimNumPulses", "stimDuration"] as const).filter(k => fw.chars[k]);
+  const saved = new Map<CharKey, number>();
+  try {
+    for (const k of keys) saved.set(k, decode(fw.chars[k]!, await t.read(fw.chars[k]!.service, fw.chars[k]!.uuid)) as number);
+    await writeChar(t, fw, "operatingMode", 3);
+    await writeChar(t, fw, "stimAmplitude", 0);
+    await writeChar(t, fw, "stimNumPulses", 1);
+    if (fw.chars.stimDuration) await writeChar(t, fw, "stimDuration", 1);
+
+    const { reject } = boundaryValues(trig);
+    for (const v of reject) {
+      try {
+        await t.write(trig.service, trig.uuid, rawBytes(trig, v));
+        add(trig, `write ${v}`, "fail", "rejected", "accepted");
+      } catch (e) {
+        add(trig, `write ${v}`, "pass", "rejected", `rejected (${errText(e)})`);
+      }
+    }
+
+    if (!canNotify(trig)) {
+      await t.write(trig.service, trig.uuid, rawBytes(trig, 1));
+      add(trig, "start", "pass", "accepted", "accepted");
+      return;
+    }
+    const on = await nextNotify(trig, v => v === 1, () => t.write(trig.service, trig.uuid, rawBytes(trig, 1)));
+    add(trig, "notifies start", on === null ? "fail" : "pass", "1", on === null ? `nothing within ${opts.notifyTimeoutMs} ms` : String(on));
+    // a one-pulse train ends on its own; the stop notification must follow
+    const off = await nextNotify(trig, v => v === 0, async () => {});
+    add(trig, "notifies stop", off === null ? "fail" : "pass", "0", off === null ? `nothing within ${opts.notifyTimeoutMs} ms` : String(off));
+  } catch (e) {
+    add(trig, "trigger", "fail", "start/stop", errText(e));
+  } finally {
+    if (hasStopCommand(fw)) await t.write(trig.service, trig.uuid, rawBytes(trig, 0)).catch(() => {});
+    for (const [k, v] of saved) await t.write(fw.chars[k]!.service, fw.chars[k]!.uuid, rawBytes(fw.chars[k]!, v)).catch(() => {});
+  }
+};
+
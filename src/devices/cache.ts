@@ -0,0 +1,61 @@
+// src/devices/cache.ts
+//
+// Last bytes seen on each characteristic – read, written or notified. After a
+// dropped link the resync compares against this to tell what changed on the
+// device while the app couldn't see it.
+
+import { charSpec, decode, hasChar, type CharKey, type FirmwareProfile } from "../bb01";
+import type { GattUuid, HhiTransport } from "../transport";
+
+const slot = (service: GattUuid, characteristic: GattUuid) => `${service}:${characteristic}`;
+
+export class ValueCache {
+  private readonly values = new Map<string, DataView>();
+
+  wrap(t: HhiTransport): HhiTransport {
+    const keep = (service: GattUuid, characteristic: GattUuid, dv: DataView) =>
+      this.values.set(slot(service, characteristic), dv);
+
+    return {
+      ...t,
+      isConnected: () => t.isConnected(),
+      connect: () => t.connect(),
+      disconnect: () => t.disconnect(),
+      onDisconnect: h => t.onDisconnect(h),
+
+      read: async (service, characteristic) => {
+        const dv = await t.read(service, characteristic);
+        keep(service, characteristic, dv);
+        return dv;
+      },
+
+      write: async (service, characteristic, value) => {
+        await t.write(service, characteristic, value);
+        keep(service, characteristic, new DataView(value.slice().buffer));
+      },
+
+      subscribe: (service, characteristic, handler) =>
+        t.subscribe(service, characteristic, dv => {
+          keep(service, characteristic, dv);
+          handler(dv);
+        }),
+    };
+  }
+
+  /** Decoded values for `keys`; characteristics never seen are left out. */
+  snapshot(fw: FirmwareProfile, keys: readonly CharKey[]) {
+    const out: Partial<Record<CharKey, number | string>> = {};
+    for (const key of keys) {
+      if (!hasChar(fw, key)) continue;
+      const spec = charSpec(fw, key);
+      const dv = this.values.get(slot(spec.service, spec.uuid));
+      if (!dv) continue;
+      try {
+        out[key] = decode(spec, dv);
+      } catch {
+        // bytes from another firmware layout – nothing to compare against
+      }
+    }
+    return out;
+  }
+}
@@ -0,0 +1,3 @@
+// src/devices/index.ts
+export * from "./manager";
+export * from "./cache";
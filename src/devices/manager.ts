@@ -0,0 +1,249 @@
+// src/devices/manager.ts
+//
+// Tracks every connected HHI. Each device keeps its own transport, firmware
+// layout and status summary; the UI renders a panel per entry.
+
+import {
+  FIRMWARE_PROFILES,
+  hasChar,
+  LATEST_FIRMWARE,
+  writeChar,
+  type Bb01Values,
+  type CharKey,
+  type FirmwareId,
+  type FirmwareProfile,
+} from "../bb01";
+import type { PresetKey } from "../presets";
+import type { HhiTransport, VirtualHhi } from "../transport";
+import { ValueCache } from "./cache";
+
+export const MODE_LABELS: Record<number, string> = {
+  0: "Traditional HHI",
+  1: "Remote Controller",
+  2: "Remote Minion",
+  3: "Custom",
+};
+
+/** What the status cards show; filled in by the device's panel as values arrive. */
+export interface DeviceStatus {
+  battery?: number;
+  /** Until the critical level at the current drain; unset until estimated. */
+  batteryRuntimeMs?: number;
+  operatingMode?: number;
+  wifiConnected?: boolean;
+  mqttConnected?: boolean;
+  wifiIP?: string;
+  amplitude?: number;
+  /** A blinded experiment is running: the cards don't show the settings. */
+  blinded?: boolean;
+}
+
+/**
+ * connected → (link lost) → reconnecting → (GATT back) → resyncing → connected.
+ * Writes that change stimulation stay disabled until the resync is done.
+ */
+export type LinkState = "connected" | "reconnecting" | "resyncing";
+
+export interface DeviceEntry {
+  id: string;
+  transport: HhiTransport;
+  firmware: FirmwareId;
+  status: DeviceStatus;
+  link: LinkState;
+  /** Reconnect attempt in progress; 0 while connected. */
+  attempt: number;
+  cache: ValueCache;
+  /** Set for simulated devices so the UI can fake a link loss. */
+  sim?: VirtualHhi;
+  /**
+   * The same link without the lab, safety-limit and dose guards, for the
+   * conformance suite: its boundary writes are meant to go past them.
+   */
+  unguarded?: HhiTransport;
+}
+
+// Delay before reconnect attempt n (1-based): 0.5 s doubling up to 30 s.
+export const RECONNECT_ATTEMPTS = 12;
+export const reconnectDelayMs = (attempt: number) => Math.min(30_000, 500 * 2 ** (attempt - 1));
+
+export type BroadcastKey = PresetKey;
+
+export interface BroadcastResult {
+  id: string;
+  name: string;
+  ok: boolean;
+  error?: string;
+}
+
+type WriteListener = <K extends CharKey>(key: K, value: Bb01Values[K]) => void;
+
+export class DeviceManager {
+  private entries: DeviceEntry[] = [];
+  private readonly listeners = new Set<(list: DeviceEntry[]) => void>();
+  private readonly writeListeners = new Map<string, Set<WriteListener>>();
+  private readonly noticeListeners = new Set<(name: string, message: string) => void>();
+  /** Devices the operator disconnected on purpose – no reconnect for these. */
+  private readonly closing = new Set<string>();
+
+  get list() {
+    return this.entries;
+  }
+
+  get(id: string) {
+    return this.entries.find(d => d.id === id);
+  }
+
+  /** Firmware profile for a device, falling back to the latest layout for unknown IDs. */
+  profile(id: string): FirmwareProfile {
+    return FIRMWARE_PROFILES[this.get(id)?.firmware ?? LATEST_FIRMWARE];
+  }
+
+  add(transport: HhiTransport, firmware: FirmwareId, sim?: VirtualHhi, unguarded?: HhiTransport) {
+    if (this.get(transport.id)) throw new Error(`${transport.name} is already connected`);
+    const cache = new ValueCache();
+    const entry: DeviceEntry = {
+      id: transport.id,
+      transport: cache.wrap(transport),
+      firmware,
+      status: {},
+      link: "connected",
+      attempt: 0,
+      cache,
+      sim,
+      unguarded,
+    };
+    transport.onDisconnect(() => this.onLinkLost(entry.id));
+    this.entries = [...this.entries, entry];
+    this.emit();
+    return entry;
+  }
+
+  /** Operator-initiated: drops the link and forgets the device. */
+  disconnect(id: string) {
+    const d = this.get(id);
+    if (!d) return;
+    if (d.transport.isConnected()) {
+      this.closing.add(id);
+      d.transport.disconnect();
+    }
+    this.remove(id);
+  }
+
+  remove(id: string) {
+    const d = this.get(id);
+    if (!d) return;
+    this.entries = this.entries.filter(x => x.id !== id);
+    this.writeListeners.delete(id);
+    this.emit();
+    this.notice(d, "Device removed");
+  }
+
+  /** Called by the device's panel once it has re-read everything after a reconnect. */
+  resyncDone(id: string) {
+    this.patch(id, d => ({ ...d, link: "connected", attempt: 0 }));
+  }
+
+  setFirmware(id: string, firmware: FirmwareId) {
+    this.patch(id, d => ({ ...d, firmware }));
+  }
+
+  updateStatus(id: string, status: DeviceStatus) {
+    this.patch(id, d => ({ ...d, status: { ...d.status, ...status } }));
+  }
+
+  /** Writes one characteristic on one device and lets its panel know. */
+  async write<K extends CharKey>(id: string, key: K, value: Bb01Values[K]) {
+    const d = this.get(id);
+    if (!d) throw new Error(`Device ${id} is not connected`);
+    await writeChar(d.transport, FIRMWARE_PROFILES[d.firmware], key, value);
+    this.writeListeners.get(id)?.forEach(l => l(key, value));
+  }
+
+  /**
+   * Writes one setting to every device in `ids` in parallel. Devices whose
+   * firmware lacks the characteristic are reported as failed, not skipped
+   * silently. The caller is responsible for safety checks.
+   */
+  async broadcast<K extends BroadcastKey>(ids: string[], key: K, value: Bb01Values[K]): Promise<BroadcastResult[]> {
+    const targets = this.entries.filter(d => ids.includes(d.id));
+    return Promise.all(
+      targets.map(async d => {
+        const fw = FIRMWARE_PROFILES[d.firmware];
+        const base = { id: d.id, name: d.transport.name };
+        if (!hasChar(fw, key)) return { ...base, ok: false, error: `not supported by ${fw.label}` };
+        try {
+          await this.write(d.id, key, value);
+          return { ...base, ok: true };
+        } catch (e) {
+          return { ...base, ok: false, error: String(e) };
+        }
+      }),
+    );
+  }
+
+  /** Fires after `write`/`broadcast` changed device `id`, so its form can follow. */
+  onWrite(id: string, listener: WriteListener) {
+    let set = this.writeListeners.get(id);
+    if (!set) this.writeListeners.set(id, (set = new Set()));
+    set.add(listener);
+    return () => void set.delete(listener);
+  }
+
+  /** Human-readable link events (drops, reconnect attempts) for the log. */
+  onNotice(listener: (name: string, message: string) => void) {
+    this.noticeListeners.add(listener);
+    return () => void this.noticeListeners.delete(listener);
+  }
+
+  subscribe(listener: (list: DeviceEntry[]) => void) {
+    this.listeners.add(listener);
+    return () => void this.listeners.delete(listener);
+  }
+
+  // ---------- reconnect ----------
+  private onLinkLost(id: string) {
+    if (this.closing.delete(id)) return;
+    const d = this.get(id);
+    if (!d || d.link === "reconnecting") return;
+    this.notice(d, "Link lost – reconnecting");
+    this.patch(id, x => ({ ...x, link: "reconnecting", attempt: 0 }));
+    void this.reconnect(id);
+  }
+
+  private async reconnect(id: string) {
+    for (let attempt = 1; attempt <= RECONNECT_ATTEMPTS; attempt++) {
+      this.patch(id, x => ({ ...x, attempt }));
+      await new Promise(r => setTimeout(r, reconnectDelayMs(attempt)));
+      // forgotten by the operator while we waited
+      const d = this.get(id);
+      if (!d || d.link !== "reconnecting") return;
+      try {
+        await d.transport.connect();
+      } catch (e) {
+        this.notice(d, `Reconnect attempt ${attempt}/${RECONNECT_ATTEMPTS} failed: ${e}`);
+        continue;
+      }
+      this.notice(d, "Reconnected – resyncing");
+      this.patch(id, x => ({ ...x, link: "resyncing" }));
+      return;
+    }
+    const d = this.get(id);
+    if (d) {
+      this.notice(d, `Gave up after ${RECONNECT_ATTEMPTS} attempts`);
+      this.remove(id);
+    }
+  }
+
+  private notice(d: DeviceEntry, message: string) {
+    this.noticeListeners.forEach(l => l(d.transport.name, message));
+  }
+
+  private patch(id: string, f: (d: DeviceEntry) => DeviceEntry) {
+    this.entries = this.entries.map(d => (d.id === id ? f(d) : d));
+    this.emit();
+  }
+
+  private emit() {
+    this.listeners.forEach(l => l(this.entries));
+  }
+}
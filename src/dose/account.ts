@@ -0,0 +1,120 @@
+// src/dose/account.ts
+//
+// Dose arithmetic. While a train runs, pulses are counted at the configured
+// frequency until the train's own length (# pulses or duration) is reached;
+// each pulse delivers amplitude × pulse width of charge (mA × µs = nC).
+
+import type { FirmwareProfile } from "../bb01";
+import { stimParamsOf } from "../presets";
+import { deriveStim, type StimParams } from "../safety";
+
+export interface DoseTotals {
+  /** Fractional while a train runs; shown rounded down. */
+  pulses: number;
+  stimMs: number;
+  chargeUc: number;
+  trains: number;
+}
+
+export interface DeviceDose extends DoseTotals {
+  deviceId: string;
+  name: string;
+}
+
+/** Whose dose is being counted; the cap applies to one participant at a time. */
+export interface DoseParticipant {
+  id: string;
+  /** Unix ms. */
+  startedAt: number;
+}
+
+export interface DoseSummary {
+  /** Missing in recordings made before participants were tracked. */
+  participant?: DoseParticipant;
+  total: DoseTotals;
+  devices: DeviceDose[];
+}
+
+/** Per participant; a missing entry is not capped. */
+export interface DoseCap {
+  chargeUc?: number;
+  pulses?: number;
+  stimMs?: number;
+}
+
+export const DEFAULT_DOSE_CAP: DoseCap = {};
+
+export const ZERO_DOSE: DoseTotals = { pulses: 0, stimMs: 0, chargeUc: 0, trains: 0 };
+
+/** A train in progress: counted up to `lastT`, over at `endAt` (Infinity: until stopped). */
+export interface Train {
+  lastT: number;
+  endAt: number;
+}
+
+// Float error would otherwise show 7 pulses as 6
+export const wholePulses = (p: number) => Math.floor(p + 1e-6);
+
+/** Whole pulses, whole ms, charge to 1 nC – what the summary reports. */
+export const roundDose = <T extends DoseTotals>(t: T): T => ({
+  ...t,
+  pulses: wholePulses(t.pulses),
+  stimMs: Math.round(t.stimMs),
+  chargeUc: Math.round(t.chargeUc * 1000) / 1000,
+});
+
+export const fmtDose = (t: DoseTotals) =>
+  `${wholePulses(t.pulses)} pulses · ${(t.stimMs / 1000).toFixed(1)} s · ${t.chargeUc.toFixed(2)} µC`;
+
+export const addDose = (a: DoseTotals, b: DoseTotals): DoseTotals => ({
+  pulses: a.pulses + b.pulses,
+  stimMs: a.stimMs + b.stimMs,
+  chargeUc: a.chargeUc + b.chargeUc,
+  trains: a.trains + b.trains,
+});
+
+/** The first cap `t` has reached, as a sentence, or null. */
+export const capReached = (t: DoseTotals, cap: DoseCap): string | null => {
+  if (cap.chargeUc !== undefined && t.chargeUc >= cap.chargeUc) return `Participant charge cap of ${cap.chargeUc} µC reached`;
+  if (cap.pulses !== undefined && wholePulses(t.pulses) >= cap.pulses) return `Participant pulse cap of ${cap.pulses} reached`;
+  if (cap.stimMs !== undefined && t.stimMs >= cap.stimMs) return `Participant stimulation time cap of ${cap.stimMs / 1000} s reached`;
+  return null;
+};
+
+/** Largest fraction of any cap used, 0–1+; null without a cap. */
+export const capUsed = (t: DoseTotals, cap: DoseCap): number | null => {
+  const parts = [
+    cap.chargeUc !== undefined ? t.chargeUc / cap.chargeUc : null,
+    cap.pulses !== undefined ? t.pulses / cap.pulses : null,
+    cap.stimMs !== undefined ? t.stimMs / cap.stimMs : null,
+  ].filter((x): x is number => x !== null);
+  return parts.length ? Math.max(...parts) : null;
+};
+
+/** Starts a train at `t` with the parameters in force. */
+export const startTrain = (params: Partial<StimParams>, fw: FirmwareProfile, t: number): Train => ({
+  lastT: t,
+  endAt: t + deriveStim(stimParamsOf(params), fw).trainMs,
+});
+
+/**
+ * Counts `train` forward to `to`. `amplitude` is the measured 0xBB10 value
+ * when known; otherwise the configured one (POT counts as the firmware maximum).
+ */
+export const runTrain = (
+  train: Train,
+  params: Partial<StimParams>,
+  amplitude: number | undefined,
+  fw: FirmwareProfile,
+  to: number,
+): { dose: DoseTotals; train: Train | null } => {
+  const end = Math.min(to, train.endAt);
+  const dt = Math.max(0, end - train.lastT);
+  const s = deriveStim(stimParamsOf(params), fw);
+  const pulses = (s.frequencyHz * dt) / 1000;
+  const amp = amplitude ?? s.amplitudeMa;
+  return {
+    dose: { pulses, stimMs: dt, chargeUc: (pulses * amp * s.pulseWidthUs) / 1000, trains: 0 },
+    train: end >= train.endAt ? null : { ...train, lastT: Math.max(train.lastT, end) },
+  };
+};
@@ -0,0 +1,4 @@
+// src/dose/index.ts
+export * from "./account";
+export * from "./meter";
+export * from "./storage";
@@ -0,0 +1,117 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { DeviceManager } from "../devices";
+import { addFake } from "../transport/fake";
+import { DoseCapError, DoseMeter } from ".";
+
+const setup = (cap = { pulses: 5 }, firmware: "fw1" | "fw2" = "fw2") => {
+  const manager = new DeviceManager();
+  const log: string[] = [];
+  const dose = new DoseMeter(manager, m => log.push(m));
+  dose.setCap(cap);
+  const { t, writes } = addFake(manager, firmware, t => dose.guard(t, () => manager.profile(t.id)));
+  return { manager, dose, writes, log, id: t.id };
+};
+
+// 5 mA × 100 µs at 100 Hz, running until stopped
+const startTrain = async (manager: DeviceManager, id: string) => {
+  await manager.write(id, "stimFrequency", 100);
+  await manager.write(id, "stimPulseWidth", 100);
+  await manager.write(id, "stimNumPulses", 0);
+  await manager.write(id, "stimDuration", 0);
+  await manager.write(id, "stimAmplitude", 5);
+  await manager.write(id, "triggerStimulation", 1);
+};
+
+// The cap's Stop has reached the device and the meter has seen it land
+const capStop = (dose: DoseMeter, writes: string[]) =>
+  vi.waitFor(() => {
+    expect(writes[writes.length - 1]).toBe("bb12=0");
+    expect(dose.stimulating).toBe(false);
+  }, { timeout: 1000 });
+
+beforeEach(() => {
+  const store = new Map<string, string>();
+  vi.stubGlobal("localStorage", {
+    getItem: (k: string) => store.get(k) ?? null,
+    setItem: (k: string, v: string) => void store.set(k, v),
+    removeItem: (k: string) => void store.delete(k),
+  });
+});
+
+// A meter's ticker runs once more after its train ends and saves as it goes;
+// let it stop before the next test's storage is in place
+afterEach(() => new Promise(r => setTimeout(r, 150)));
+
+describe("DoseMeter", () => {
+  it("counts pulses and charge from the writes passing through", async () => {
+    const { manager, dose, id } = setup({ pulses: 1000 });
+    await startTrain(manager, id);
+    await new Promise(r => setTimeout(r, 120));
+    await manager.write(id, "triggerStimulation", 0);
+    const { total } = dose.summary();
+    expect(total.trains).toBe(1);
+    expect(total.pulses).toBeGreaterThanOrEqual(10);
+    // 0.5 µC per pulse, 100 pulses a second
+    expect(total.chargeUc / total.stimMs).toBeCloseTo(0.05, 3);
+    expect(dose.stimulating).toBe(false);
+  });
+
+  it("stops the running train at the cap and refuses further starts", async () => {
+    const { manager, dose, writes, id } = setup();
+    await startTrain(manager, id);
+    await capStop(dose, writes);
+    expect(dose.refusal).toMatch(/cap/);
+    await expect(manager.write(id, "triggerStimulation", 1)).rejects.toBeInstanceOf(DoseCapError);
+    // stops still go out
+    await manager.write(id, "triggerStimulation", 0);
+  });
+
+  it("stops a train at 0 mA on firmware without a stop command", async () => {
+    const { manager, dose, writes, id } = setup({ pulses: 5 }, "fw1");
+    // 5 mA × 100 µs at 100 Hz for 250 ms
+    await manager.write(id, "stimFrequency", 100);
+    await manager.write(id, "stimPulseWidth", 100);
+    await manager.write(id, "stimNumPulses", 25);
+    await manager.write(id, "stimAmplitude", 5);
+    await manager.write(id, "triggerStimulation", 1);
+    await vi.waitFor(() => expect(writes[writes.length - 1]).toBe("bb03=0"), { timeout: 1000 });
+    expect(dose.refusal).toMatch(/cap/);
+    // the train runs on at 0 mA; no more charge reaches the participant
+    const { chargeUc } = dose.summary().total;
+    await new Promise(r => setTimeout(r, 100));
+    expect(dose.summary().total.chargeUc).toBe(chargeUc);
+  });
+
+  it("refuses a new participant while the cap is reached, until the cap is raised", async () => {
+    const { manager, dose, writes, id } = setup();
+    await startTrain(manager, id);
+    await capStop(dose, writes);
+    expect(() => dose.startParticipant()).toThrow(DoseCapError);
+
+    dose.setCap({ pulses: 1000 });
+    dose.startParticipant();
+    expect(dose.summary().total.pulses).toBe(0);
+    await manager.write(id, "triggerStimulation", 1);
+    await manager.write(id, "triggerStimulation", 0);
+  });
+
+  it("refuses a new participant while a train is running", async () => {
+    const { manager, dose, id } = setup({ pulses: 1000 });
+    await startTrain(manager, id);
+    expect(() => dose.startParticipant()).toThrow(/Stop stimulation/);
+    await manager.write(id, "triggerStimulation", 0);
+  });
+
+  it("carries the participant's totals over a reload", async () => {
+    const { manager, dose, writes, id } = setup();
+    await startTrain(manager, id);
+    await capStop(dose, writes);
+    const before = dose.summary();
+
+    const reloaded = new DoseMeter(new DeviceManager(), () => {});
+    reloaded.setCap({ pulses: 5 });
+    expect(reloaded.summary().participant).toEqual(before.participant);
+    expect(reloaded.summary().total.pulses).toBe(before.total.pulses);
+    expect(reloaded.refusal).toMatch(/cap/);
+  });
+});
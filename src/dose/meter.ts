@@ -0,0 +1,300 @@
+// src/dose/meter.ts
+//
+// Cumulative stimulation dose per participant. The meter sits in every
+// device's transport and counts what passes through it – 0xBB12 start/stop,
+// 0xBB10 current amplitude and the stimulation parameters read or written –
+// whether or not a session is being recorded. A running recording gets the
+// summary attached, which puts it in the exports. Reaching the cap refuses
+// further starts and stops trains still running; the totals only start over
+// with a new participant, which is refused while the cap is reached.
+
+import {
+  charSpec,
+  decode,
+  FIRMWARE_PROFILES,
+  hasStopCommand,
+  LATEST_FIRMWARE,
+  specByUuid,
+  specialValue,
+  type CharKey,
+  type FirmwareProfile,
+} from "../bb01";
+import type { DeviceManager } from "../devices";
+import { isStartWrite, STIM_FIELDS, type StimField, type StimParams } from "../safety";
+import { now, type SessionRecorder } from "../session";
+import type { GattUuid, HhiTransport } from "../transport";
+import {
+  addDose,
+  capReached,
+  DEFAULT_DOSE_CAP,
+  roundDose,
+  runTrain,
+  startTrain,
+  ZERO_DOSE,
+  type DoseCap,
+  type DoseParticipant,
+  type DoseSummary,
+  type DoseTotals,
+  type Train,
+} from "./account";
+import { loadDose, saveDose } from "./storage";
+
+export class DoseCapError extends Error {
+  constructor(reason: string) {
+    super(`${reason} – stimulation refused for the rest of this participant's session`);
+    this.name = "DoseCapError";
+  }
+}
+
+interface Tracked {
+  name: string;
+  params: Partial<StimParams>;
+  /** Last 0xBB10 reading – the amplitude actually set, with POT resolved. */
+  amplitude?: number;
+  train: Train | null;
+  dose: DoseTotals;
+}
+
+// How far past the cap a running train can get before it is stopped
+const TICK_MS = 100;
+
+const isStimField = (k: string | undefined): k is StimField => (STIM_FIELDS as readonly string[]).includes(k ?? "");
+
+const newParticipant = (): DoseParticipant => ({
+  id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+  startedAt: Date.now(),
+});
+
+type Op = "read" | "write" | "notify";
+
+export class DoseMeter {
+  private participant: DoseParticipant;
+  private devices = new Map<string, Tracked>();
+  private cap: DoseCap = DEFAULT_DOSE_CAP;
+  /** Set once the cap is hit, so the stop goes out once. */
+  private capped: string | null = null;
+  private ticker: ReturnType<typeof setInterval> | null = null;
+  private readonly listeners = new Set<() => void>();
+
+  constructor(
+    private readonly manager: DeviceManager,
+    private readonly log: (m: string) => void,
+  ) {
+    // a reload mid-session carries on with the same participant
+    const saved = loadDose();
+    this.participant = saved?.participant ?? newParticipant();
+    for (const { deviceId, name, ...dose } of saved?.devices ?? []) {
+      this.devices.set(deviceId, { name, params: {}, train: null, dose });
+    }
+  }
+
+  /** Totals up to now, per device and for the participant. */
+  summary(): DoseSummary {
+    this.settle(now());
+    const devices = [...this.devices].map(([deviceId, d]) => ({ deviceId, name: d.name, ...d.dose }));
+    return {
+      participant: this.participant,
+      total: roundDose(devices.reduce<DoseTotals>(addDose, ZERO_DOSE)),
+      devices: devices.map(roundDose),
+    };
+  }
+
+  get stimulating() {
+    return [...this.devices.values()].some(d => d.train);
+  }
+
+  /** Why starts are refused right now, or null. */
+  get refusal() {
+    return capReached(this.summary().total, this.cap);
+  }
+
+  /**
+   * Starts counting from zero for the next participant. Refused while the cap
+   * is reached – raise the cap first – and while a train is running.
+   */
+  startParticipant() {
+    const reason = this.refusal;
+    if (reason) throw new DoseCapError(reason);
+    if (this.stimulating) throw new Error("Stop stimulation before starting a new participant");
+    // keep the devices' settings, drop their totals
+    this.devices = new Map([...this.devices].map(([id, d]) => [id, { ...d, dose: ZERO_DOSE }]));
+    this.participant = newParticipant();
+    this.capped = null;
+    this.log("Dose: new participant, totals start at zero");
+    this.emit();
+  }
+
+  setCap(cap: DoseCap) {
+    this.cap = cap;
+    // a raised cap lets the session carry on
+    if (!capReached(this.summary().total, cap)) this.capped = null;
+    this.enforce();
+    this.emit();
+  }
+
+  subscribe(listener: () => void) {
+    this.listeners.add(listener);
+    return () => void this.listeners.delete(listener);
+  }
+
+  /** Keeps the running summary on whichever session `recorder` is recording. */
+  attach(recorder: SessionRecorder) {
+    const annotate = () => recorder.annotate({ dose: this.summary() });
+    const offMeta = recorder.subscribe(m => m && annotate());
+    const offDose = this.subscribe(annotate);
+    annotate();
+    return () => {
+      offMeta();
+      offDose();
+      this.stopTicker();
+    };
+  }
+
+  /**
+   * Wraps a transport: starts are refused once the cap is reached, and every
+   * value read, written or notified is counted.
+   */
+  guard(t: HhiTransport, fw: () => FirmwareProfile): HhiTransport {
+    const seen = (op: Op, service: GattUuid, characteristic: GattUuid, dv: DataView) => {
+      const spec = specByUuid(fw(), service, characteristic);
+      if (!spec) return;
+      let v: number | string;
+      try {
+        v = decode(spec, dv);
+      } catch {
+        return;
+      }
+      if (typeof v === "number") this.record(t.id, t.name, op, spec.key, v);
+    };
+    t.onDisconnect(() => this.ended(t.id));
+
+    return {
+      ...t,
+      isConnected: () => t.isConnected(),
+      connect: () => t.connect(),
+      disconnect: () => t.disconnect(),
+      onDisconnect: h => t.onDisconnect(h),
+
+      read: async (service, characteristic) => {
+        const dv = await t.read(service, characteristic);
+        seen("read", service, characteristic, dv);
+        return dv;
+      },
+
+      write: async (service, characteristic, value) => {
+        const reason = isStartWrite(service, characteristic, value) ? this.refusal : null;
+        if (reason) throw new DoseCapError(reason);
+        await t.write(service, characteristic, value);
+        seen("write", service, characteristic, new DataView(value.buffer, value.byteOffset, value.byteLength));
+      },
+
+      subscribe: (service, characteristic, handler) =>
+        t.subscribe(service, characteristic, dv => {
+          seen("notify", service, characteristic, dv);
+          handler(dv);
+        }),
+    };
+  }
+
+  // ---------- counting ----------
+  private record(deviceId: string, name: string, op: Op, key: CharKey, value: number) {
+    const t = now();
+    const fw = this.fwOf(deviceId);
+    const d = this.tracked(deviceId, name);
+    this.advance(d, fw, t);
+
+    if (isStimField(key)) {
+      d.params[key] = value;
+      // a new setting makes the last 0xBB10 reading stale – except on the POT, which 0xBB10 resolves
+      if (key === "stimAmplitude" && value !== specialValue(charSpec(fw, "stimAmplitude"), "POT")) {
+        d.amplitude = undefined;
+      }
+    } else if (key === "currentStimAmplitude") {
+      d.amplitude = value;
+    } else if (key === "triggerStimulation" && op !== "read") {
+      // writes and notifications both arrive for one start; the first one counts
+      if (!value) d.train = null;
+      else if (!d.train) {
+        d.train = startTrain(d.params, fw, t);
+        d.dose = { ...d.dose, trains: d.dose.trains + 1 };
+      }
+    } else {
+      return;
+    }
+    if (this.stimulating) this.startTicker();
+    this.enforce();
+    this.emit();
+  }
+
+  // A dropped link ends the train as far as anyone can tell
+  private ended(deviceId: string) {
+    const d = this.devices.get(deviceId);
+    if (!d?.train) return;
+    this.advance(d, this.fwOf(deviceId), now());
+    d.train = null;
+    this.emit();
+  }
+
+  private tracked(deviceId: string, name: string) {
+    let d = this.devices.get(deviceId);
+    if (!d) {
+      d = { name, params: {}, train: null, dose: ZERO_DOSE };
+      this.devices.set(deviceId, d);
+    }
+    return d;
+  }
+
+  private advance(d: Tracked, fw: FirmwareProfile, to: number) {
+    if (!d.train) return;
+    const r = runTrain(d.train, d.params, d.amplitude, fw, to);
+    d.dose = addDose(d.dose, r.dose);
+    d.train = r.train;
+  }
+
+  private settle(to: number) {
+    for (const [id, d] of this.devices) this.advance(d, this.fwOf(id), to);
+  }
+
+  // Devices that are gone are counted with the newest layout; their trains ended with the disconnect
+  private fwOf(deviceId: string) {
+    return this.manager.get(deviceId) ? this.manager.profile(deviceId) : FIRMWARE_PROFILES[LATEST_FIRMWARE];
+  }
+
+  // ---------- cap ----------
+  private enforce() {
+    const reason = capReached(this.summary().total, this.cap);
+    if (!reason || this.capped) return;
+    this.capped = reason;
+    this.log(`${reason} – further stimulation is refused`);
+    for (const [id, d] of this.devices) {
+      if (!d.train) continue;
+      const entry = this.manager.get(id);
+      if (!entry) continue;
+      // fw1 has no stop command – 0 mA ends the dose instead
+      const stop = hasStopCommand(FIRMWARE_PROFILES[entry.firmware]) ? "triggerStimulation" : "stimAmplitude";
+      this.manager.write(id, stop, 0).catch(e => this.log(`${d.name}: stop at the dose cap failed: ${e}`));
+    }
+  }
+
+  // ---------- housekeeping ----------
+  private tick = () => {
+    if (!this.stimulating) this.stopTicker();
+    this.enforce();
+    this.emit();
+  };
+
+  private startTicker() {
+    this.ticker ??= setInterval(this.tick, TICK_MS);
+  }
+
+  private stopTicker() {
+    if (this.ticker) clearInterval(this.ticker);
+    this.ticker = null;
+  }
+
+  private emit() {
+    const { participant, devices } = this.summary();
+    saveDose({ participant: participant!, devices });
+    this.listeners.forEach(l => l());
+  }
+}
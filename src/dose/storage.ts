@@ -0,0 +1,24 @@
+// src/dose/storage.ts
+//
+// The participant's totals survive a page reload, so reloading can't clear
+// a reached cap.
+import type { DeviceDose, DoseParticipant } from "./account";
+
+const KEY = "hhi.dose";
+
+export interface SavedDose {
+  participant: DoseParticipant;
+  devices: DeviceDose[];
+}
+
+export const loadDose = (): SavedDose | null => {
+  try {
+    const raw = localStorage.getItem(KEY);
+    return raw ? (JSON.parse(raw) as SavedDose) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveDose = (d: SavedDose) =>
+  localStorage.setItem(KEY, JSON.stringify(d));
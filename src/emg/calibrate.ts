@@ -0,0 +1,86 @@
+// src/emg/calibrate.ts
+//
+// Threshold calibration from two recordings of the EMG envelope: the
+// participant at rest, then contracting as hard as they can. The threshold
+// should clear the resting noise and sit well below a real contraction, so the
+// target is a quarter of the way from the top of the rest recording to the
+// typical contraction; the recommendation is the firmware level nearest to it
+// that stays between the two. Settings are ordered from most to least sensitive.
+
+import { EMG_THRESHOLD_COUNTS } from "../bb01";
+
+export interface EnvelopeStats {
+  n: number;
+  mean: number;
+  sd: number;
+  /** 95th percentile – the top of the resting noise, ignoring the odd spike. */
+  p95: number;
+  max: number;
+}
+
+export interface Recommendation {
+  /** EMG threshold setting (0xBB07) to write. */
+  level: number;
+  /** Envelope level that setting trips at. */
+  counts: number;
+  /** Where the threshold would ideally go. */
+  target: number;
+  /** Why the recommendation is doubtful, or null. */
+  warning: string | null;
+}
+
+export const REST_MS = 5000;
+export const CONTRACTION_MS = 3000;
+
+// Fraction of the way from resting noise to contraction
+const TARGET_FRACTION = 0.25;
+// Fewer samples than this and the envelope probably wasn't streaming
+const MIN_SAMPLES = 20;
+
+export const envelopeStats = (values: readonly number[]): EnvelopeStats => {
+  const n = values.length;
+  if (!n) return { n, mean: 0, sd: 0, p95: 0, max: 0 };
+  const mean = values.reduce((a, b) => a + b, 0) / n;
+  const sd = Math.sqrt(values.reduce((a, b) => a + (b - mean) ** 2, 0) / n);
+  const sorted = [...values].sort((a, b) => a - b);
+  return { n, mean, sd, p95: sorted[Math.min(n - 1, Math.floor(n * 0.95))], max: sorted[n - 1] };
+};
+
+/** The threshold setting for these recordings. Throws when they can't support one. */
+export const recommendThreshold = (
+  rest: EnvelopeStats,
+  contraction: EnvelopeStats,
+  levels: readonly number[] = EMG_THRESHOLD_COUNTS,
+): Recommendation => {
+  if (rest.n < MIN_SAMPLES || contraction.n < MIN_SAMPLES) {
+    throw new Error("Too few envelope samples – is the device streaming 0xBB14?");
+  }
+  const floor = rest.p95;
+  const peak = contraction.mean;
+  if (peak < floor * 1.5 || peak - floor < 30) {
+    throw new Error(
+      `The contraction (mean ${Math.round(peak)}) hardly rises above rest (${Math.round(floor)}) – check the electrodes and repeat`,
+    );
+  }
+  const target = floor + TARGET_FRACTION * (peak - floor);
+  const nearest = (candidates: number[]) =>
+    candidates.reduce((best, l) => (Math.abs(levels[l] - target) < Math.abs(levels[best] - target) ? l : best));
+
+  const between = levels.map((_, l) => l).filter(l => levels[l] > floor && levels[l] < peak);
+  if (between.length) {
+    const level = nearest(between);
+    return { level, counts: levels[level], target, warning: null };
+  }
+  // Nothing fits between the two: take the most sensitive setting that still clears the rest
+  const above = levels.findIndex(c => c > floor);
+  if (above < 0) {
+    const level = levels.length - 1;
+    return { level, counts: levels[level], target, warning: `Resting noise reaches even setting ${level} (${levels[level]}) – expect triggers at rest` };
+  }
+  return {
+    level: above,
+    counts: levels[above],
+    target,
+    warning: `A typical contraction (${Math.round(peak)}) stays below setting ${above} (${levels[above]}) – only the strongest efforts may trigger`,
+  };
+};
@@ -0,0 +1,45 @@
+// src/emg/envelope.ts
+//
+// The last seconds of a device's 0xBB14 EMG envelope, for the live trace and
+// for calibration recordings. At ~20 Hz this is far denser than the telemetry
+// series, so it keeps its own short buffer.
+
+export interface EnvelopeSample {
+  /** Wall-clock ms (Date.now()). */
+  t: number;
+  v: number;
+}
+
+// Long enough for the trace and for the longest calibration phase
+const KEEP_MS = 30_000;
+
+export class EnvelopeBuffer {
+  private samples: EnvelopeSample[] = [];
+  private readonly listeners = new Set<() => void>();
+
+  push(v: number, t = Date.now()) {
+    this.samples.push({ t, v });
+    const old = this.samples.findIndex(s => s.t >= t - KEEP_MS);
+    if (old > 0) this.samples.splice(0, old);
+    this.listeners.forEach(l => l());
+  }
+
+  get latest(): EnvelopeSample | undefined {
+    return this.samples[this.samples.length - 1];
+  }
+
+  /** Samples from `from` on. */
+  since(from: number): readonly EnvelopeSample[] {
+    return this.samples.filter(s => s.t >= from);
+  }
+
+  clear() {
+    this.samples = [];
+    this.listeners.forEach(l => l());
+  }
+
+  subscribe(listener: () => void) {
+    this.listeners.add(listener);
+    return () => void this.listeners.delete(listener);
+  }
+}
@@ -0,0 +1,3 @@
+// src/emg/index.ts
+export * from "./envelope";
+export * from "./calibrate";
@@ -0,0 +1,26 @@
+// src/experiments/export.ts
+//
+// The trial table: one row per trial with its condition and the wall-clock
+// times stimulation was switched on and off. Onsets use the same clock as
+// session events, so both files line up.
+
+import type { TrialRecord } from "./runner";
+
+const COLUMNS = [
+  "trial", "block", "condition", "sham", "onset_unix_ms", "offset_unix_ms", "duration_s", "iti_ms",
+  "amplitude", "frequency", "pulse_width", "duration_setting", "num_pulses", "status", "seed",
+] as const;
+
+export const toTrialTsv = (records: TrialRecord[], seed: number) => {
+  const rows = records.map(r => [
+    r.trial, r.block, r.condition, r.sham ? 1 : 0,
+    r.onset ? r.onset.toFixed(3) : "n/a",
+    r.offset ? r.offset.toFixed(3) : "n/a",
+    r.onset && r.offset ? ((r.offset - r.onset) / 1000).toFixed(6) : "n/a",
+    r.itiMs,
+    r.params.stimAmplitude, r.params.stimFrequency, r.params.stimPulseWidth,
+    r.params.stimDuration, r.params.stimNumPulses,
+    r.status, seed,
+  ].map(v => String(v).replace(/[\t\n]/g, " ")).join("\t"));
+  return [COLUMNS.join("\t"), ...rows].join("\n") + "\n";
+};
@@ -0,0 +1,5 @@
+// src/experiments/index.ts
+export * from "./model";
+export * from "./runner";
+export * from "./export";
+export * from "./storage";
@@ -0,0 +1,210 @@
+// src/experiments/model.ts
+//
+// Trial-based experiment designs: a set of conditions (each a stimulation
+// parameter set, or a sham), how many trials each gets, and how those trials
+// are ordered, spaced and split into blocks.
+
+import type { FirmwareProfile } from "../bb01";
+import {
+  deriveStim,
+  evaluateStim,
+  type SafetyLimits,
+  type StimParams,
+  type Violation,
+} from "../safety";
+import { newId } from "../protocols";
+
+export interface Condition {
+  id: string;
+  label: string;
+  params: StimParams;
+  /** Runs the same trigger sequence at 0 mA. */
+  sham: boolean;
+  trials: number;
+}
+
+/**
+ * randomized: every trial shuffled. counterbalanced: rounds in which each
+ * condition appears once, ordered by a balanced Latin square so every
+ * condition follows every other equally often.
+ */
+export type TrialOrder = "randomized" | "counterbalanced";
+
+export interface Experiment {
+  id: string;
+  name: string;
+  conditions: Condition[];
+  order: TrialOrder;
+  /** Inter-trial interval, drawn uniformly from [min, max] for each trial. */
+  itiMinMs: number;
+  itiMaxMs: number;
+  /** Trials per block; 0 runs everything as one block. */
+  blockSize: number;
+  /** Wait for the operator to continue after each block. */
+  pauseBetweenBlocks: boolean;
+  /** The operator sees only "Trial n of N" while it runs. */
+  blinded: boolean;
+  /** Stimulation time for trains that neither # pulses nor duration ends. */
+  holdMs: number;
+}
+
+export const newCondition = (params: StimParams, label = "Condition", sham = false): Condition => ({
+  id: newId(), label, params: { ...params }, sham, trials: 10,
+});
+
+export const newExperiment = (start: StimParams, name = "New experiment"): Experiment => ({
+  id: newId(),
+  name,
+  conditions: [newCondition(start, "Active"), newCondition(start, "Sham", true)],
+  order: "randomized",
+  itiMinMs: 3000,
+  itiMaxMs: 5000,
+  blockSize: 0,
+  pauseBetweenBlocks: true,
+  blinded: false,
+  holdMs: 1000,
+});
+
+/** What the device is actually set to for a condition. */
+export const conditionParams = (c: Condition): StimParams =>
+  c.sham ? { ...c.params, stimAmplitude: 0 } : c.params;
+
+// ================= Schedule =================
+export interface PlannedTrial {
+  /** 1-based position in the run. */
+  trial: number;
+  /** 1-based. */
+  block: number;
+  conditionId: string;
+  itiMs: number;
+}
+
+// Small seeded PRNG so a schedule can be rebuilt from the seed in the trial table
+export const seededRandom = (seed: number) => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const newSeed = () => Math.floor(Math.random() * 0xffffffff);
+
+const shuffle = <T>(xs: T[], rand: () => number) => {
+  const a = [...xs];
+  for (let i = a.length - 1; i > 0; i--) {
+    const j = Math.floor(rand() * (i + 1));
+    [a[i], a[j]] = [a[j], a[i]];
+  }
+  return a;
+};
+
+// Williams design: row r is 0, 1, n-1, 2, n-2, … shifted by r. For odd n the
+// mirrored rows are appended so carry-over is balanced too.
+export const balancedLatinSquare = (n: number): number[][] => {
+  const base: number[] = [];
+  for (let i = 0, lo = 1, hi = n - 1; i < n; i++) {
+    base.push(i === 0 ? 0 : i % 2 ? lo++ : hi--);
+  }
+  const rows = Array.from({ length: n }, (_, r) => base.map(x => (x + r) % n));
+  return n % 2 ? [...rows, ...rows.map(row => [...row].reverse())] : rows;
+};
+
+const interleave = (exp: Experiment, rand: () => number): string[] => {
+  const live = exp.conditions.filter(c => c.trials > 0);
+  if (exp.order === "randomized") {
+    return shuffle(live.flatMap(c => Array<string>(Math.round(c.trials)).fill(c.id)), rand);
+  }
+  // Which condition gets which square index is random, the square itself isn't
+  const conds = shuffle(live, rand);
+  const square = balancedLatinSquare(conds.length);
+  const left = new Map(conds.map(c => [c.id, Math.round(c.trials)]));
+  const out: string[] = [];
+  for (let round = 0; [...left.values()].some(n => n > 0); round++) {
+    for (const i of square[round % square.length]) {
+      const id = conds[i].id;
+      if (left.get(id)! <= 0) continue;
+      left.set(id, left.get(id)! - 1);
+      out.push(id);
+    }
+  }
+  return out;
+};
+
+export const buildSchedule = (exp: Experiment, seed: number): PlannedTrial[] => {
+  const rand = seededRandom(seed);
+  const lo = Math.max(0, Math.min(exp.itiMinMs, exp.itiMaxMs));
+  const hi = Math.max(exp.itiMinMs, exp.itiMaxMs);
+  return interleave(exp, rand).map((conditionId, i) => ({
+    trial: i + 1,
+    block: exp.blockSize > 0 ? Math.floor(i / exp.blockSize) + 1 : 1,
+    conditionId,
+    itiMs: Math.round(lo + rand() * (hi - lo)),
+  }));
+};
+
+// ================= Static analysis =================
+export const trialMs = (p: StimParams, fw: FirmwareProfile, holdMs: number) => {
+  const t = deriveStim(p, fw).trainMs;
+  return Number.isFinite(t) ? t : holdMs;
+};
+
+export interface ExperimentCheck {
+  trials: number;
+  blocks: number;
+  estimatedMs: number;
+  /** Time with stimulation on, for the battery estimate. */
+  stimMs: number;
+  violations: Violation[];
+  blocked: boolean;
+  /** Design problems that make the experiment unrunnable. */
+  problems: string[];
+}
+
+export const checkExperiment = (exp: Experiment, fw: FirmwareProfile, limits: SafetyLimits): ExperimentCheck => {
+  const problems: string[] = [];
+  const live = exp.conditions.filter(c => c.trials > 0);
+  if (!live.length) problems.push("Give at least one condition some trials");
+  const labels = exp.conditions.map(c => c.label.trim());
+  if (labels.some(l => !l)) problems.push("Every condition needs a label");
+  else if (new Set(labels).size !== labels.length) problems.push("Condition labels must be unique");
+
+  // Same message from several conditions is reported once, prefixed with the first
+  const seen = new Map<string, Violation>();
+  for (const c of live) {
+    for (const v of evaluateStim(conditionParams(c), fw, limits).violations) {
+      if (!seen.has(v.message)) seen.set(v.message, { ...v, message: `${c.label}: ${v.message}` });
+    }
+  }
+  const violations = [...seen.values()];
+
+  const trials = live.reduce((n, c) => n + Math.round(c.trials), 0);
+  const meanIti = (exp.itiMinMs + exp.itiMaxMs) / 2;
+  const stimMs = live.reduce((ms, c) => ms + Math.round(c.trials) * trialMs(conditionParams(c), fw, exp.holdMs), 0);
+  return {
+    trials,
+    blocks: exp.blockSize > 0 ? Math.ceil(trials / exp.blockSize) : 1,
+    estimatedMs: stimMs + trials * meanIti,
+    stimMs,
+    violations,
+    blocked: violations.some(v => v.severity === "block"),
+    problems,
+  };
+};
+
+/** Run time and stimulation time of one block of a built schedule. */
+export const blockLoad = (schedule: PlannedTrial[], block: number, exp: Experiment, fw: FirmwareProfile) => {
+  let ms = 0;
+  let stimMs = 0;
+  for (const t of schedule) {
+    if (t.block !== block) continue;
+    const c = exp.conditions.find(x => x.id === t.conditionId);
+    const train = c ? trialMs(conditionParams(c), fw, exp.holdMs) : 0;
+    ms += train + t.itiMs;
+    stimMs += train;
+  }
+  return { ms, stimMs };
+};
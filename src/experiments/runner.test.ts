@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { FIRMWARE_PROFILES } from "../bb01";
+import type { StimTarget } from "../protocols";
+import { DEFAULT_LIMITS, type StimParams } from "../safety";
+import { newCondition, newExperiment, TrialRunner, type PlannedTrial, type TrialProgress, type TrialRecord } from ".";
+
+// 5 mA, 100 µs at 20 Hz, one pulse per train – a 50 ms train
+const START: StimParams = { stimAmplitude: 5, stimFrequency: 20, stimPulseWidth: 100, stimDuration: 10, stimNumPulses: 1 };
+
+const setup = (params: StimParams = START) => {
+  const calls: string[] = [];
+  const target: StimTarget = {
+    fw: FIRMWARE_PROFILES.fw1,
+    write: async (field, value) => void calls.push(`${field}=${value}`),
+    trigger: async on => void calls.push(on ? "on" : "off"),
+  };
+  const c = newCondition(params, "Active");
+  const exp = { ...newExperiment(params), conditions: [c], pauseBetweenBlocks: false };
+  const schedule: PlannedTrial[] = [1, 2].map(trial => ({ trial, block: 1, conditionId: c.id, itiMs: 10 }));
+  const progress: TrialProgress[] = [];
+  const records: TrialRecord[] = [];
+  const runner = new TrialRunner(target, DEFAULT_LIMITS, exp, p => progress.push(p), r => records.push(r));
+  return { runner, schedule, calls, records, last: () => progress[progress.length - 1]! };
+};
+
+describe("TrialRunner on firmware without a stop command", () => {
+  it("ends each trial at 0 mA and brings the amplitude back for the next", async () => {
+    const { runner, schedule, calls, records, last } = setup();
+    await runner.run(schedule);
+    expect(last().state).toBe("done");
+    expect(calls.filter(c => c === "on" || c.startsWith("stimAmplitude"))).toEqual([
+      "stimAmplitude=5", "on", "stimAmplitude=0",
+      "stimAmplitude=5", "on", "stimAmplitude=0",
+      "stimAmplitude=5",
+    ]);
+    expect(records.map(r => r.offset >= r.onset + 50)).toEqual([true, true]);
+  });
+
+  it("leaves 0 mA when aborted mid-train", async () => {
+    // a 5 s train
+    const { runner, schedule, calls, records, last } = setup({ ...START, stimNumPulses: 100 });
+    const done = runner.run(schedule);
+    await new Promise(r => setTimeout(r, 20));
+    runner.abort();
+    await done;
+    expect(last().state).toBe("aborted");
+    expect(calls[calls.length - 1]).toBe("stimAmplitude=0");
+    expect(records).toMatchObject([{ status: "aborted" }]);
+  });
+});
@@ -0,0 +1,270 @@
+// src/experiments/runner.ts
+//
+// Runs a trial schedule against a device: set the condition's parameters,
+// fire one train through 0xBB12, wait the jittered interval, repeat. Every
+// trial becomes a TrialRecord with the times its start and stop were issued.
+
+import {
+  evaluateStim,
+  STIM_FIELDS,
+  stimWriteOrder,
+  type SafetyLimits,
+  type StimParams,
+} from "../safety";
+import { StimSwitch, type RunnerState, type StimTarget } from "../protocols";
+import { now } from "../session";
+import { blockLoad, conditionParams, trialMs, type Experiment, type PlannedTrial } from "./model";
+
+export type TrialPhase = "setup" | "stimulating" | "interval" | "break" | "finished";
+
+export interface TrialProgress {
+  state: RunnerState;
+  phase: TrialPhase;
+  trial: number;
+  total: number;
+  block: number;
+  blocks: number;
+  /** Unset while the run is blinded. */
+  condition?: string;
+  elapsedMs: number;
+  /** A pause was asked for and takes effect once the current trial ends. */
+  pausing: boolean;
+  error?: string;
+}
+
+export interface TrialRecord {
+  trial: number;
+  block: number;
+  conditionId: string;
+  condition: string;
+  sham: boolean;
+  params: StimParams;
+  /** Wall-clock ms when the start write was issued. */
+  onset: number;
+  /** When the stop write was issued – 0xBB12 = 0, or 0 mA on firmware without a stop command. */
+  offset: number;
+  /** Interval that followed this trial. */
+  itiMs: number;
+  status: "done" | "aborted" | "failed";
+}
+
+const TICK_MS = 50;
+
+class RunAborted extends Error {}
+
+const delay = (ms: number) => new Promise(r => setTimeout(r, ms));
+
+export class TrialRunner {
+  private state: RunnerState = "idle";
+  private phase: TrialPhase = "setup";
+  private pauseRequested = false;
+  private current: PlannedTrial | null = null;
+  /** What the device holds, as far as this run knows; unset until first written. */
+  private params: Partial<StimParams> = {};
+  private startedAt = 0;
+  private total = 0;
+  private blocks = 1;
+  private resumeWaiters: (() => void)[] = [];
+  private readonly stim: StimSwitch;
+
+  constructor(
+    private readonly target: StimTarget,
+    private readonly limits: SafetyLimits,
+    private readonly exp: Experiment,
+    private readonly onProgress: (p: TrialProgress) => void,
+    private readonly onTrial: (r: TrialRecord) => void,
+  ) {
+    this.stim = new StimSwitch(target);
+  }
+
+  get running() {
+    return this.state === "running" || this.state === "paused";
+  }
+
+  async run(schedule: PlannedTrial[]) {
+    if (this.running) throw new Error("Runner already active");
+    this.state = "running";
+    this.startedAt = performance.now();
+    this.total = schedule.length;
+    this.blocks = schedule.length ? schedule[schedule.length - 1].block : 1;
+    const release = this.target.running?.();
+    try {
+      for (let i = 0; i < schedule.length; i++) {
+        await this.gate();
+        if (i === 0 || schedule[i].block !== schedule[i - 1].block) this.checkBattery(schedule, schedule[i].block);
+        this.current = schedule[i];
+        await this.runTrial(schedule[i]);
+
+        const next = schedule[i + 1];
+        if (!next) break;
+        if (next.block !== schedule[i].block && this.exp.pauseBetweenBlocks) await this.blockBreak();
+        this.phase = "interval";
+        this.report();
+        await this.sleep(schedule[i].itiMs);
+      }
+      await this.stim.restore();
+      this.state = "done";
+      this.phase = "finished";
+      this.report();
+    } catch (e) {
+      const aborted = e instanceof RunAborted;
+      this.state = aborted ? "aborted" : "failed";
+      this.report(aborted ? undefined : String(e));
+    } finally {
+      await this.ensureStopped();
+      release?.();
+    }
+  }
+
+  /** Takes effect between trials – a train that has started is never cut short. */
+  pause() {
+    if (this.state !== "running") return;
+    this.pauseRequested = true;
+    this.report();
+  }
+
+  resume() {
+    if (!this.running) return;
+    this.pauseRequested = false;
+    if (this.state === "paused") {
+      this.state = "running";
+      if (this.phase === "break") this.phase = "interval";
+      this.wake();
+    }
+    this.report();
+  }
+
+  abort() {
+    if (!this.running) return;
+    this.state = "aborted";
+    this.wake();
+  }
+
+  // ---------- execution ----------
+  private async runTrial(t: PlannedTrial) {
+    const c = this.exp.conditions.find(x => x.id === t.conditionId)!;
+    const params = conditionParams(c);
+    const record: TrialRecord = {
+      trial: t.trial,
+      block: t.block,
+      conditionId: c.id,
+      condition: c.label,
+      sham: c.sham,
+      params,
+      onset: 0,
+      offset: 0,
+      itiMs: t.itiMs,
+      status: "done",
+    };
+    const ms = trialMs(params, this.target.fw, this.exp.holdMs);
+    try {
+      this.phase = "setup";
+      this.report();
+      await this.apply(params);
+      this.checkAbort();
+      this.phase = "stimulating";
+      this.report();
+      record.onset = now();
+      await this.stim.start();
+      await this.sleep(ms, false);
+      record.offset = now();
+      await this.stim.stop();
+    } catch (e) {
+      record.status = e instanceof RunAborted ? "aborted" : "failed";
+      if (record.status === "failed" && this.stim.on) this.target.fault?.(String(e));
+      const stopAt = now();
+      await this.ensureStopped();
+      record.offset = record.onset ? stopAt : 0;
+      throw e;
+    } finally {
+      this.onTrial(record);
+    }
+  }
+
+  // Writes the fields that differ from the device, lowered ones first, once the set passes the safety check
+  private async apply(p: StimParams) {
+    const report = evaluateStim(p, this.target.fw, this.limits);
+    if (report.blocked) {
+      throw new Error(report.violations.find(v => v.severity === "block")!.message);
+    }
+    const writes = STIM_FIELDS.filter(f => this.params[f] !== p[f] && this.target.fw.chars[f]).map(f => [f, p[f]] as const);
+    for (const [f, v] of stimWriteOrder(writes, this.params)) {
+      this.checkAbort();
+      await this.stim.write(f, v);
+      this.params[f] = v;
+    }
+  }
+
+  private ensureStopped() {
+    return this.stim.ensureOff(e => this.report(`Stop failed: ${e}`));
+  }
+
+  // A block only starts if the battery should see it through
+  private checkBattery(schedule: PlannedTrial[], block: number) {
+    const { ms, stimMs } = blockLoad(schedule, block, this.exp, this.target.fw);
+    const problem = this.target.batteryCheck?.(ms, stimMs);
+    if (problem) throw new Error(this.blocks > 1 ? `Block ${block}: ${problem}` : problem);
+  }
+
+  // ---------- timing / control ----------
+  private async blockBreak() {
+    this.phase = "break";
+    this.state = "paused";
+    this.report();
+    await this.waitForResume();
+    this.checkAbort();
+  }
+
+  // Pauses are honoured between trials only, so a train's timing is never stretched
+  private async sleep(ms: number, pausable = true) {
+    let remaining = ms;
+    while (remaining > 0) {
+      this.checkAbort();
+      if (pausable) await this.gate();
+      const t0 = performance.now();
+      await delay(Math.min(remaining, TICK_MS));
+      remaining -= performance.now() - t0;
+    }
+  }
+
+  private async gate() {
+    this.checkAbort();
+    if (this.pauseRequested) {
+      this.pauseRequested = false;
+      this.state = "paused";
+      this.report();
+      await this.waitForResume();
+    }
+    this.checkAbort();
+  }
+
+  private waitForResume() {
+    return new Promise<void>(r => this.resumeWaiters.push(r));
+  }
+
+  private wake() {
+    const w = this.resumeWaiters;
+    this.resumeWaiters = [];
+    w.forEach(r => r());
+  }
+
+  private checkAbort() {
+    if (this.state === "aborted") throw new RunAborted();
+  }
+
+  private report(error?: string) {
+    const t = this.current;
+    this.onProgress({
+      state: this.state,
+      phase: this.phase,
+      trial: t?.trial ?? 0,
+      total: this.total,
+      block: t?.block ?? 1,
+      blocks: this.blocks,
+      condition: this.exp.blinded || !t ? undefined : this.exp.conditions.find(c => c.id === t.conditionId)?.label,
+      elapsedMs: performance.now() - this.startedAt,
+      pausing: this.pauseRequested,
+      error,
+    });
+  }
+}
@@ -0,0 +1,15 @@
+// src/experiments/storage.ts
+import type { Experiment } from "./model";
+
+const KEY = "hhi.experiments";
+
+export const loadExperiments = (): Experiment[] => {
+  try {
+    return JSON.parse(localStorage.getItem(KEY) ?? "[]") as Experiment[];
+  } catch {
+    return [];
+  }
+};
+
+export const saveExperiments = (list: Experiment[]) =>
+  localStorage.setItem(KEY, JSON.stringify(list));
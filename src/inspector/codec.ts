@@ -0,0 +1,119 @@
+// src/inspector/codec.ts
+//
+// Raw value formats for the GATT inspector. Bytes can be shown and entered as
+// hex, a run of UInt8 or little-endian UInt16 values, UTF-8 text, or a struct
+// described by a layout such as "u8 u16 i16 f32" – little-endian, packed, the
+// way BB01 firmware lays out its multi-byte values.
+
+import { toHex } from "../session";
+
+export const RAW_FORMATS = {
+  hex:    "Hex",
+  uint8:  "UInt8",
+  uint16: "UInt16 (LE)",
+  utf8:   "UTF-8",
+  struct: "Struct",
+} as const;
+
+export type RawFormat = keyof typeof RAW_FORMATS;
+
+type FieldType = "u8" | "i8" | "u16" | "i16" | "u32" | "i32" | "f32";
+
+const FIELDS: Record<FieldType, { size: number; min: number; max: number }> = {
+  u8:  { size: 1, min: 0, max: 0xff },
+  i8:  { size: 1, min: -0x80, max: 0x7f },
+  u16: { size: 2, min: 0, max: 0xffff },
+  i16: { size: 2, min: -0x8000, max: 0x7fff },
+  u32: { size: 4, min: 0, max: 0xffffffff },
+  i32: { size: 4, min: -0x80000000, max: 0x7fffffff },
+  f32: { size: 4, min: -Infinity, max: Infinity },
+};
+
+const isField = (s: string): s is FieldType => s in FIELDS;
+
+/** "u8 u16, f32" → its field types. Throws on anything it doesn't know. */
+export const parseLayout = (layout: string): FieldType[] => {
+  const parts = layout.trim().toLowerCase().split(/[\s,]+/).filter(Boolean);
+  if (!parts.length) throw new Error("Empty struct layout – e.g. 'u8 u16 i16 f32'");
+  const bad = parts.find(p => !isField(p));
+  if (bad) throw new Error(`Unknown field type '${bad}' – use ${Object.keys(FIELDS).join(", ")}`);
+  return parts as FieldType[];
+};
+
+// `count` fields of one type – how the UInt8 and UInt16 formats are read and written
+const run = (format: RawFormat, layout: string, count: number): FieldType[] =>
+  format === "struct" ? parseLayout(layout) : Array<FieldType>(Math.max(1, count)).fill(format === "uint8" ? "u8" : "u16");
+
+const sizeOf = (fields: FieldType[]) => fields.reduce((n, f) => n + FIELDS[f].size, 0);
+
+const getField = (dv: DataView, at: number, f: FieldType) => {
+  switch (f) {
+    case "u8":  return dv.getUint8(at);
+    case "i8":  return dv.getInt8(at);
+    case "u16": return dv.getUint16(at, true);
+    case "i16": return dv.getInt16(at, true);
+    case "u32": return dv.getUint32(at, true);
+    case "i32": return dv.getInt32(at, true);
+    case "f32": return dv.getFloat32(at, true);
+  }
+};
+
+const setField = (dv: DataView, at: number, f: FieldType, v: number) => {
+  switch (f) {
+    case "u8":  return dv.setUint8(at, v);
+    case "i8":  return dv.setInt8(at, v);
+    case "u16": return dv.setUint16(at, v, true);
+    case "i16": return dv.setInt16(at, v, true);
+    case "u32": return dv.setUint32(at, v, true);
+    case "i32": return dv.setInt32(at, v, true);
+    case "f32": return dv.setFloat32(at, v, true);
+  }
+};
+
+/** `bytes` in `format`. Throws when they don't fit it (odd length for UInt16, invalid UTF-8, …). */
+export const formatRaw = (bytes: Uint8Array, format: RawFormat, layout = ""): string => {
+  if (format === "hex") return toHex(bytes);
+  if (format === "utf8") return new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+  if (!bytes.length) return "";
+  const fields = run(format, layout, format === "uint16" ? Math.ceil(bytes.length / 2) : bytes.length);
+  const size = sizeOf(fields);
+  if (size !== bytes.length) {
+    throw new Error(`${RAW_FORMATS[format]} needs ${size} bytes here, the value has ${bytes.length}`);
+  }
+  const dv = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let at = 0;
+  return fields
+    .map(f => {
+      const v = getField(dv, at, f);
+      at += FIELDS[f].size;
+      return String(v);
+    })
+    .join(", ");
+};
+
+/** Bytes for `text` entered in `format` – the inverse of formatRaw. Throws with what's wrong. */
+export const parseRaw = (text: string, format: RawFormat, layout = ""): Uint8Array => {
+  if (format === "utf8") return new TextEncoder().encode(text);
+  if (format === "hex") {
+    const digits = text.replace(/0x/gi, "").replace(/[\s,:-]/g, "");
+    if (!/^[0-9a-f]*$/i.test(digits)) throw new Error("Hex may only contain 0-9, a-f and separators");
+    if (digits.length % 2) throw new Error("Hex needs two digits per byte");
+    return Uint8Array.from(digits.match(/../g) ?? [], h => parseInt(h, 16));
+  }
+  const values = text.trim().split(/[\s,]+/).filter(Boolean).map(Number);
+  const fields = run(format, layout, values.length);
+  if (values.length !== fields.length) throw new Error(`The layout has ${fields.length} fields, ${values.length} given`);
+  const out = new Uint8Array(sizeOf(fields));
+  const dv = new DataView(out.buffer);
+  let at = 0;
+  fields.forEach((f, i) => {
+    const v = values[i];
+    const { min, max } = FIELDS[f];
+    if (Number.isNaN(v) || (f !== "f32" && (!Number.isInteger(v) || v < min || v > max))) {
+      throw new Error(`Field ${i + 1} (${f}) must be ${f === "f32" ? "a number" : `an integer ${min}–${max}`}`);
+    }
+    setField(dv, at, f, v);
+    at += FIELDS[f].size;
+  });
+  return out;
+};
@@ -0,0 +1,3 @@
+// src/inspector/index.ts
+export * from "./codec";
+export * from "./names";
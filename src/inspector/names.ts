@@ -0,0 +1,79 @@
+// src/inspector/names.ts
+//
+// What the inspector knows about a UUID: BB01 characteristics by their schema
+// name – looked up in every firmware layout, so a characteristic the detected
+// firmware shouldn't have is called out – and the standard services and
+// descriptors a BB01 board exposes.
+
+import {
+  BATTERY_SERVICE_UUID,
+  FIRMWARE_PROFILES,
+  HHI_SERVICE_UUID,
+  specByUuid,
+  type CharSpec,
+  type FirmwareProfile,
+} from "../bb01";
+import { toHex } from "../session";
+import { fmtUuid, type GattUuid } from "../transport";
+import type { RawFormat } from "./codec";
+
+const SERVICES: Record<number, string> = {
+  [HHI_SERVICE_UUID]: "BB01 Human-Human Interface",
+  [BATTERY_SERVICE_UUID]: "Battery Service",
+  0x180a: "Device Information",
+};
+
+const DESCRIPTORS: Record<number, string> = {
+  0x2900: "Extended Properties",
+  0x2901: "User Description",
+  0x2902: "Client Configuration (CCCD)",
+  0x2903: "Server Configuration",
+  0x2904: "Presentation Format",
+};
+
+// Bluetooth Assigned Numbers, Format Types – the ones firmware tends to use
+const FORMATS: Record<number, string> = {
+  0x01: "boolean", 0x04: "uint8", 0x06: "uint16", 0x08: "uint32", 0x0c: "sint8",
+  0x0e: "sint16", 0x10: "sint32", 0x14: "float32", 0x19: "utf8s",
+};
+
+const named = (table: Record<number, string>, uuid: GattUuid) => (typeof uuid === "number" ? table[uuid] : undefined);
+
+export const serviceName = (uuid: GattUuid) => named(SERVICES, uuid) ?? fmtUuid(uuid);
+
+export const descriptorName = (uuid: GattUuid) => named(DESCRIPTORS, uuid) ?? fmtUuid(uuid);
+
+export interface Bb01Match {
+  spec: CharSpec;
+  /** False when only another firmware layout has this characteristic. */
+  inFirmware: boolean;
+}
+
+/** The BB01 schema entry for a characteristic, preferring the detected firmware's layout. */
+export const bb01Match = (fw: FirmwareProfile, service: GattUuid, characteristic: GattUuid): Bb01Match | null => {
+  const here = specByUuid(fw, service, characteristic);
+  if (here) return { spec: here, inFirmware: true };
+  for (const p of Object.values(FIRMWARE_PROFILES)) {
+    const spec = specByUuid(p, service, characteristic);
+    if (spec) return { spec, inFirmware: false };
+  }
+  return null;
+};
+
+/** The raw format matching a schema type – where the inspector starts for a known characteristic. */
+export const formatFor = (spec: CharSpec | undefined): RawFormat => spec?.type ?? "hex";
+
+/** A descriptor value the way its type reads, falling back to hex. */
+export const describeDescriptor = (uuid: GattUuid, value: Uint8Array): string => {
+  if (uuid === 0x2901) return `"${new TextDecoder().decode(value)}"`;
+  if (uuid === 0x2902 && value.length >= 1) {
+    const on = [value[0] & 1 && "notifications", value[0] & 2 && "indications"].filter(Boolean);
+    return on.length ? `${on.join(" + ")} on` : "off";
+  }
+  if (uuid === 0x2904 && value.length === 7) {
+    const dv = new DataView(value.buffer, value.byteOffset, value.byteLength);
+    const format = FORMATS[value[0]] ?? `format 0x${value[0].toString(16)}`;
+    return `${format}, exponent ${dv.getInt8(1)}, unit 0x${dv.getUint16(2, true).toString(16)}`;
+  }
+  return toHex(value) || "(empty)";
+};
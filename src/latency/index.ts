@@ -0,0 +1,4 @@
+// src/latency/index.ts
+export * from "./measure";
+export * from "./report";
+export * from "./storage";
@@ -0,0 +1,302 @@
+// src/latency/measure.ts
+//
+// End-to-end latency of a remote trigger: write 0xBB12 = 1 to the Mode 1
+// controller and time the Mode 2 minion's 0xBB12 start notification. Both
+// BLE links end at this computer, so one clock times both ends and the
+// figure covers controller → broker → minion plus the two BLE hops.
+
+import {
+  canNotify,
+  canWrite,
+  charSpec,
+  decodeNetStatus,
+  FIRMWARE_PROFILES,
+  hasChar,
+  hasStopCommand,
+  MQTT_BIT,
+  readChar,
+  subscribeChar,
+  type Bb01Values,
+  type FirmwareId,
+} from "../bb01";
+import type { DeviceEntry, DeviceManager } from "../devices";
+import type { TransportKind } from "../transport";
+
+export interface LatencyConfig {
+  controllerId: string;
+  minionId: string;
+  repetitions: number;
+  /** Pause after the minion has stopped, before the next trigger. */
+  intervalMs: number;
+  /** No start notification from the minion within this counts as a dropped trigger. */
+  timeoutMs: number;
+}
+
+export const DEFAULT_LATENCY_SETTINGS: Pick<LatencyConfig, "repetitions" | "intervalMs" | "timeoutMs"> = {
+  repetitions: 20,
+  intervalMs: 1000,
+  timeoutMs: 3000,
+};
+
+// Shorter than this and a relayed stop could land after the next start
+export const MIN_INTERVAL_MS = 200;
+
+export type LinkRole = "controller" | "minion";
+
+/** One end of the link as it was when the test started. */
+export interface LinkEnd {
+  device: string;
+  transport: TransportKind;
+  firmware: FirmwareId;
+  operatingMode: number;
+  /** Raw 0xBB0E and what it means. */
+  wifiStatus: number;
+  wifiStatusLabel: string;
+  wifiIP: string;
+  mqttServerPort: string;
+}
+
+export interface LatencyTrial {
+  n: number;
+  /** Until the controller acknowledged the trigger write. */
+  writeMs: number;
+  /** Trigger write → minion's start notification; unset when the trigger was dropped. */
+  latencyMs?: number;
+}
+
+export interface LatencyStats {
+  sent: number;
+  received: number;
+  dropped: number;
+  /** null while nothing was received. */
+  min: number | null;
+  median: number | null;
+  p95: number | null;
+  max: number | null;
+  mean: number | null;
+  /** Mean change in latency from one received trigger to the next, as RTP reports jitter. */
+  jitter: number | null;
+}
+
+export interface LatencyRun {
+  startedAt: string;
+  finishedAt: string;
+  /** The broker both devices were set to (0xBB09). */
+  broker: string;
+  controller: LinkEnd;
+  minion: LinkEnd;
+  repetitions: number;
+  intervalMs: number;
+  timeoutMs: number;
+  trials: LatencyTrial[];
+  stats: LatencyStats;
+  /** Why the run ended before all repetitions, if it did. */
+  stoppedEarly?: string;
+}
+
+// ================= Statistics =================
+export const latencyStats = (trials: readonly LatencyTrial[]): LatencyStats => {
+  const got = trials.flatMap(t => (t.latencyMs === undefined ? [] : [t.latencyMs]));
+  const n = got.length;
+  const none = { min: null, median: null, p95: null, max: null, mean: null, jitter: null };
+  const base = { sent: trials.length, received: n, dropped: trials.length - n };
+  if (!n) return { ...base, ...none };
+  const sorted = [...got].sort((a, b) => a - b);
+  const mid = n >> 1;
+  const steps = got.slice(1).map((v, i) => Math.abs(v - got[i]));
+  return {
+    ...base,
+    min: sorted[0],
+    median: n % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2,
+    p95: sorted[Math.ceil(n * 0.95) - 1],
+    max: sorted[n - 1],
+    mean: got.reduce((a, b) => a + b, 0) / n,
+    jitter: steps.length ? steps.reduce((a, b) => a + b, 0) / steps.length : 0,
+  };
+};
+
+// ================= Preflight =================
+const PREFLIGHT_KEYS = ["operatingMode", "wifiStatus", "mqttServerPort", "masterNameAddr", "minionNameAddr"] as const;
+type PreflightKey = (typeof PREFLIGHT_KEYS)[number];
+
+interface Side {
+  role: LinkRole;
+  device: DeviceEntry;
+  mode: number;
+  values: Pick<Bb01Values, PreflightKey>;
+  ip: string;
+}
+
+/** Problems that rule the pair out before anything is read; empty when it can run. */
+export const validateLatency = (cfg: LatencyConfig, manager: DeviceManager): string[] => {
+  const out: string[] = [];
+  if (cfg.controllerId === cfg.minionId) out.push("Pick two different devices for controller and minion");
+  if (!Number.isInteger(cfg.repetitions) || cfg.repetitions < 1) out.push("Repetitions must be a whole number of at least 1");
+  if (cfg.intervalMs < MIN_INTERVAL_MS) out.push(`The pause between triggers must be at least ${MIN_INTERVAL_MS} ms`);
+  if (cfg.timeoutMs <= 0) out.push("The timeout must be positive");
+
+  const controller = manager.get(cfg.controllerId);
+  const minion = manager.get(cfg.minionId);
+  for (const [role, d] of [["controller", controller], ["minion", minion]] as const) {
+    if (!d) out.push(`The ${role} is no longer connected`);
+    else if (d.link !== "connected") out.push(`${d.transport.name} (${role}) is ${d.link}`);
+    else {
+      const fw = FIRMWARE_PROFILES[d.firmware];
+      const missing = PREFLIGHT_KEYS.filter(k => !hasChar(fw, k));
+      if (missing.length) out.push(`${d.transport.name} (${fw.label}) lacks ${missing.join(", ")}`);
+    }
+  }
+  if (controller && !canWrite(charSpec(FIRMWARE_PROFILES[controller.firmware], "triggerStimulation"))) {
+    out.push(`${controller.transport.name} doesn't accept trigger writes`);
+  }
+  // fw1 has no 0xBB12 notification, so the minion's stimulation can't be timestamped
+  if (minion && !canNotify(charSpec(FIRMWARE_PROFILES[minion.firmware], "triggerStimulation"))) {
+    out.push(`${minion.transport.name} doesn't notify 0xBB12 when it stimulates – the minion needs ${FIRMWARE_PROFILES.fw2.label}`);
+  }
+  return out;
+};
+
+const readSide = async (role: LinkRole, device: DeviceEntry, mode: number): Promise<Side> => {
+  const fw = FIRMWARE_PROFILES[device.firmware];
+  const values = {} as Record<PreflightKey, number | string>;
+  for (const key of PREFLIGHT_KEYS) values[key] = await readChar(device.transport, fw, key);
+  const ip = hasChar(fw, "wifiIP") ? await readChar(device.transport, fw, "wifiIP") : "";
+  return { role, device, mode, values: values as Side["values"], ip };
+};
+
+// The devices must be paired and online, or every trigger would just time out
+const setupProblems = ([controller, minion]: Side[]): string[] => {
+  const out: string[] = [];
+  for (const s of [controller, minion]) {
+    const name = s.device.transport.name;
+    if (s.values.operatingMode !== s.mode) {
+      out.push(`${name} is in Mode ${s.values.operatingMode}, the ${s.role} must be in Mode ${s.mode}`);
+    }
+    if (!(s.values.wifiStatus & MQTT_BIT)) {
+      out.push(`${name} isn't connected to the broker (${decodeNetStatus(s.values.wifiStatus).label})`);
+    }
+  }
+  if (controller.values.mqttServerPort !== minion.values.mqttServerPort) {
+    out.push(`The devices use different brokers: '${controller.values.mqttServerPort}' and '${minion.values.mqttServerPort}'`);
+  }
+  if (controller.values.masterNameAddr !== minion.values.masterNameAddr
+    || controller.values.minionNameAddr !== minion.values.minionNameAddr) {
+    out.push("The devices hold different master/minion names – pair them first");
+  }
+  return out;
+};
+
+const linkEnd = (s: Side): LinkEnd => ({
+  device: s.device.transport.name,
+  transport: s.device.transport.kind,
+  firmware: s.device.firmware,
+  operatingMode: s.values.operatingMode,
+  wifiStatus: s.values.wifiStatus,
+  wifiStatusLabel: decodeNetStatus(s.values.wifiStatus).label,
+  wifiIP: s.ip,
+  mqttServerPort: s.values.mqttServerPort,
+});
+
+// ================= Runner =================
+const sleep = (ms: number) => new Promise(r => setTimeout(r, ms));
+
+/**
+ * Runs `cfg.repetitions` triggers one at a time and reports each as it
+ * completes. Every trial ends with the minion stopped, so a late start from
+ * one trigger can't be taken for the next. Throws when the pair isn't set up
+ * for remote stimulation; a write failing part-way ends the run early instead.
+ */
+export const runLatencyTest = async (
+  cfg: LatencyConfig,
+  manager: DeviceManager,
+  onTrial: (trial: LatencyTrial) => void,
+  shouldStop: () => boolean = () => false,
+): Promise<LatencyRun> => {
+  const problems = validateLatency(cfg, manager);
+  if (problems.length) throw new Error(problems.join("; "));
+
+  const controller = manager.get(cfg.controllerId)!;
+  const minion = manager.get(cfg.minionId)!;
+  const sides = [await readSide("controller", controller, 1), await readSide("minion", minion, 2)];
+  const setup = setupProblems(sides);
+  if (setup.length) throw new Error(setup.join("; "));
+
+  const startedAt = new Date().toISOString();
+  const trials: LatencyTrial[] = [];
+  let stoppedEarly: string | undefined;
+  // fw1 controllers only take 1; their own train ends by itself
+  const controllerStops = hasStopCommand(FIRMWARE_PROFILES[controller.firmware]);
+
+  let stimulating = false;
+  let waiter: { value: number; done: (at: number) => void } | null = null;
+  const off = await subscribeChar(minion.transport, FIRMWARE_PROFILES[minion.firmware], "triggerStimulation", v => {
+    const at = performance.now();
+    stimulating = v === 1;
+    if (waiter?.value !== v) return;
+    const w = waiter;
+    waiter = null;
+    w.done(at);
+  });
+  // Set before the write, so a notification racing the write ack isn't missed
+  const expect = (value: number) =>
+    new Promise<number | null>(resolve => {
+      const timer = setTimeout(() => {
+        waiter = null;
+        resolve(null);
+      }, cfg.timeoutMs);
+      waiter = { value, done: at => { clearTimeout(timer); resolve(at); } };
+    });
+
+  const stopMinion = async () => {
+    if (!stimulating) return;
+    const ended = expect(0);
+    await manager.write(minion.id, "triggerStimulation", 0);
+    if ((await ended) === null && stimulating) throw new Error(`${minion.transport.name} didn't report the end of stimulation`);
+  };
+
+  try {
+    for (let n = 1; n <= cfg.repetitions; n++) {
+      if (shouldStop()) {
+        stoppedEarly = `Stopped by the user after ${n - 1} triggers`;
+        break;
+      }
+      try {
+        await stopMinion();
+        const started = expect(1);
+        const sent = performance.now();
+        await manager.write(controller.id, "triggerStimulation", 1);
+        const writeMs = performance.now() - sent;
+        const at = await started;
+        const trial: LatencyTrial = { n, writeMs, latencyMs: at === null ? undefined : at - sent };
+        trials.push(trial);
+        onTrial(trial);
+        if (controllerStops) await manager.write(controller.id, "triggerStimulation", 0);
+        await stopMinion();
+      } catch (e) {
+        waiter = null;
+        stoppedEarly = `Trigger ${n}: ${e instanceof Error ? e.message : e}`;
+        break;
+      }
+      if (n < cfg.repetitions) await sleep(cfg.intervalMs);
+    }
+  } finally {
+    off();
+    // Leave the minion idle whatever happened above
+    if (stimulating) await manager.write(minion.id, "triggerStimulation", 0).catch(() => undefined);
+  }
+
+  const [c, m] = sides.map(linkEnd);
+  return {
+    startedAt,
+    finishedAt: new Date().toISOString(),
+    broker: c.mqttServerPort,
+    controller: c,
+    minion: m,
+    repetitions: cfg.repetitions,
+    intervalMs: cfg.intervalMs,
+    timeoutMs: cfg.timeoutMs,
+    trials,
+    stats: latencyStats(trials),
+    stoppedEarly,
+  };
+};
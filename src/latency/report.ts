@@ -0,0 +1,63 @@
+// src/latency/report.ts
+//
+// A latency run as it is saved and shared: the measurements plus the broker
+// and network state they were taken under, so runs against different broker
+// setups can be put side by side.
+
+import { csvCell } from "../session";
+import type { LatencyRun, LinkEnd } from "./measure";
+
+export interface LatencyReport extends LatencyRun {
+  id: string;
+  /** What this run is meant to show, e.g. "local Mosquitto" or "ngrok tunnel". */
+  label: string;
+}
+
+export const fmtMs = (v: number | null | undefined) => (v === null || v === undefined ? "—" : `${v.toFixed(1)} ms`);
+
+const end = (e: LinkEnd) =>
+  `${e.device} (${e.transport === "sim" ? "simulated" : "Bluetooth"}, ${e.firmware}) – Wi-Fi status 0x${e.wifiStatus.toString(16).padStart(2, "0")} ${e.wifiStatusLabel}${e.wifiIP ? `, IP ${e.wifiIP}` : ""}`;
+
+export const toReportJson = (r: LatencyReport) => JSON.stringify(r, null, 2);
+
+export const toReportMarkdown = (r: LatencyReport) => {
+  const s = r.stats;
+  const lines = [
+    `# Remote stimulation latency${r.label ? ` – ${r.label}` : ""}`,
+    "",
+    `- Broker: \`${r.broker}\``,
+    `- Controller: ${end(r.controller)}`,
+    `- Minion: ${end(r.minion)}`,
+    `- Started: ${r.startedAt}`,
+    `- Finished: ${r.finishedAt}`,
+    `- Repetitions: ${r.repetitions}, ${r.intervalMs} ms apart, dropped after ${r.timeoutMs} ms`,
+    ...(r.stoppedEarly ? [`- Stopped early: ${r.stoppedEarly}`] : []),
+    "",
+    "| Sent | Received | Dropped | Min | Median | p95 | Max | Jitter |",
+    "| --- | --- | --- | --- | --- | --- | --- | --- |",
+    `| ${s.sent} | ${s.received} | ${s.dropped} | ${fmtMs(s.min)} | ${fmtMs(s.median)} | ${fmtMs(s.p95)} | ${fmtMs(s.max)} | ${fmtMs(s.jitter)} |`,
+    "",
+    "| # | Write ack | Latency |",
+    "| --- | --- | --- |",
+    ...r.trials.map(t => `| ${t.n} | ${fmtMs(t.writeMs)} | ${t.latencyMs === undefined ? "dropped" : fmtMs(t.latencyMs)} |`),
+  ];
+  return lines.join("\n") + "\n";
+};
+
+const CSV_COLUMNS = [
+  "started", "label", "broker", "controller", "controller_wifi_status", "controller_ip",
+  "minion", "minion_wifi_status", "minion_ip", "sent", "received", "dropped",
+  "min_ms", "median_ms", "p95_ms", "max_ms", "mean_ms", "jitter_ms", "stopped_early",
+] as const;
+
+const ms = (v: number | null) => (v === null ? null : v.toFixed(2));
+
+/** One row per run, for comparing broker setups in a spreadsheet. */
+export const toComparisonCsv = (reports: LatencyReport[]) => {
+  const rows = reports.map(({ stats: s, controller: c, minion: m, ...r }) => [
+    r.startedAt, r.label, r.broker, c.device, c.wifiStatusLabel, c.wifiIP,
+    m.device, m.wifiStatusLabel, m.wifiIP, s.sent, s.received, s.dropped,
+    ms(s.min), ms(s.median), ms(s.p95), ms(s.max), ms(s.mean), ms(s.jitter), r.stoppedEarly,
+  ].map(csvCell).join(","));
+  return [CSV_COLUMNS.join(","), ...rows].join("\n") + "\n";
+};
@@ -0,0 +1,18 @@
+// src/latency/storage.ts
+import type { LatencyReport } from "./report";
+
+const KEY = "hhi.latencyRuns";
+
+// Oldest runs go first once the list is full
+export const MAX_SAVED_RUNS = 50;
+
+export const loadLatencyRuns = (): LatencyReport[] => {
+  try {
+    return JSON.parse(localStorage.getItem(KEY) ?? "[]") as LatencyReport[];
+  } catch {
+    return [];
+  }
+};
+
+export const saveLatencyRuns = (list: LatencyReport[]) =>
+  localStorage.setItem(KEY, JSON.stringify(list.slice(-MAX_SAVED_RUNS)));
@@ -0,0 +1,228 @@
+// src/mqtt/client.ts
+//
+// Minimal MQTT 3.1.1 client over WebSockets – enough to watch and publish on
+// the broker the HHIs use (Mosquitto with a `protocol websockets` listener).
+// QoS 0 publishes, QoS 0/1 receive, keep-alive pings; no session persistence.
+
+export interface MqttMessage {
+  topic: string;
+  payload: Uint8Array;
+  retain: boolean;
+  /** performance.now() when the packet arrived. */
+  t: number;
+}
+
+export interface MqttOptions {
+  clientId?: string;
+  username?: string;
+  password?: string;
+  keepAliveSec?: number;
+  connectTimeoutMs?: number;
+}
+
+// ---------- Packet types (upper nibble of the fixed header) ----------
+// SUBACK, UNSUBACK and PINGRESP arrive too but need nothing beyond being consumed.
+const CONNECT = 1, CONNACK = 2, PUBLISH = 3, PUBACK = 4, SUBSCRIBE = 8;
+const UNSUBSCRIBE = 10, PINGREQ = 12, DISCONNECT = 14;
+
+const CONNACK_ERRORS: Record<number, string> = {
+  1: "unacceptable protocol version",
+  2: "client ID rejected",
+  3: "server unavailable",
+  4: "bad user name or password",
+  5: "not authorized",
+};
+
+const utf8 = new TextEncoder();
+
+const str = (s: string) => {
+  const b = utf8.encode(s);
+  return [b.length >> 8, b.length & 0xff, ...b];
+};
+
+const packet = (header: number, body: number[]) => {
+  const len: number[] = [];
+  let n = body.length;
+  do {
+    let byte = n % 128;
+    n = Math.floor(n / 128);
+    if (n > 0) byte |= 0x80;
+    len.push(byte);
+  } while (n > 0);
+  return new Uint8Array([header, ...len, ...body]);
+};
+
+/** MQTT wildcard match: `+` is one level, a trailing `#` is any number. */
+export const topicMatches = (filter: string, topic: string) => {
+  const f = filter.split("/");
+  const t = topic.split("/");
+  for (let i = 0; i < f.length; i++) {
+    if (f[i] === "#") return true;
+    if (i >= t.length || (f[i] !== "+" && f[i] !== t[i])) return false;
+  }
+  return f.length === t.length;
+};
+
+export class MqttClient {
+  private ws: WebSocket | null = null;
+  private rx = new Uint8Array(0);
+  private nextId = 1;
+  private pingTimer: ReturnType<typeof setInterval> | null = null;
+  private readonly messageHandlers = new Set<(m: MqttMessage) => void>();
+  private readonly closeHandlers = new Set<(reason: string) => void>();
+
+  constructor(
+    readonly url: string,
+    private readonly opts: MqttOptions = {},
+  ) {}
+
+  get connected() {
+    return this.ws?.readyState === WebSocket.OPEN;
+  }
+
+  connect(): Promise<void> {
+    const { clientId = `hhi-cfg-${Math.random().toString(36).slice(2, 8)}`, keepAliveSec = 30 } = this.opts;
+    return new Promise((resolve, reject) => {
+      let settled = false;
+      const fail = (why: string) => {
+        if (settled) return;
+        settled = true;
+        this.teardown();
+        reject(new Error(why));
+      };
+      const timer = setTimeout(() => fail("timed out waiting for the broker"), this.opts.connectTimeoutMs ?? 5000);
+
+      const ws = new WebSocket(this.url, "mqtt");
+      ws.binaryType = "arraybuffer";
+      this.ws = ws;
+
+      ws.onopen = () => {
+        let flags = 0x02; // clean session
+        const payload = [...str(clientId)];
+        if (this.opts.username) {
+          flags |= 0x80;
+          payload.push(...str(this.opts.username));
+          if (this.opts.password) {
+            flags |= 0x40;
+            payload.push(...str(this.opts.password));
+          }
+        }
+        ws.send(packet(CONNECT << 4, [...str("MQTT"), 4, flags, keepAliveSec >> 8, keepAliveSec & 0xff, ...payload]));
+      };
+
+      ws.onerror = () => fail(`cannot reach ${this.url}`);
+
+      ws.onclose = e => {
+        clearTimeout(timer);
+        if (!settled) return fail(`connection closed (${e.code})`);
+        this.teardown();
+        this.closeHandlers.forEach(h => h(e.reason || `closed (${e.code})`));
+      };
+
+      ws.onmessage = e => {
+        this.receive(new Uint8Array(e.data as ArrayBuffer), (type, body) => {
+          if (type !== CONNACK || settled) return;
+          clearTimeout(timer);
+          const code = body[1];
+          if (code !== 0) return fail(`broker refused: ${CONNACK_ERRORS[code] ?? `code ${code}`}`);
+          settled = true;
+          this.pingTimer = setInterval(() => {
+            if (this.connected) this.send(packet(PINGREQ << 4, []));
+          }, (keepAliveSec * 1000) / 2);
+          resolve();
+        });
+      };
+    });
+  }
+
+  subscribe(filter: string) {
+    const id = this.packetId();
+    this.send(packet((SUBSCRIBE << 4) | 0x02, [id >> 8, id & 0xff, ...str(filter), 1]));
+  }
+
+  unsubscribe(filter: string) {
+    const id = this.packetId();
+    this.send(packet((UNSUBSCRIBE << 4) | 0x02, [id >> 8, id & 0xff, ...str(filter)]));
+  }
+
+  publish(topic: string, payload: string | Uint8Array, retain = false) {
+    const bytes = typeof payload === "string" ? utf8.encode(payload) : payload;
+    this.send(packet((PUBLISH << 4) | (retain ? 1 : 0), [...str(topic), ...bytes]));
+  }
+
+  onMessage(handler: (m: MqttMessage) => void) {
+    this.messageHandlers.add(handler);
+    return () => void this.messageHandlers.delete(handler);
+  }
+
+  onClose(handler: (reason: string) => void) {
+    this.closeHandlers.add(handler);
+    return () => void this.closeHandlers.delete(handler);
+  }
+
+  close() {
+    if (this.connected) this.send(packet(DISCONNECT << 4, []));
+    this.ws?.close();
+  }
+
+  // ---------- internals ----------
+  private send(bytes: Uint8Array) {
+    if (!this.connected) throw new Error("MQTT not connected");
+    this.ws!.send(bytes);
+  }
+
+  private packetId() {
+    const id = this.nextId;
+    this.nextId = (this.nextId % 0xffff) + 1;
+    return id;
+  }
+
+  private teardown() {
+    if (this.pingTimer) clearInterval(this.pingTimer);
+    this.pingTimer = null;
+    this.rx = new Uint8Array(0);
+  }
+
+  // WebSocket frames may carry partial or several MQTT packets
+  private receive(chunk: Uint8Array, onControl: (type: number, body: Uint8Array) => void) {
+    const buf = new Uint8Array(this.rx.length + chunk.length);
+    buf.set(this.rx);
+    buf.set(chunk, this.rx.length);
+
+    let pos = 0;
+    while (pos + 2 <= buf.length) {
+      let len = 0, mul = 1, i = pos + 1, complete = false;
+      while (i < buf.length && i < pos + 5) {
+        const b = buf[i++];
+        len += (b & 0x7f) * mul;
+        mul *= 128;
+        if (!(b & 0x80)) {
+          complete = true;
+          break;
+        }
+      }
+      if (!complete || i + len > buf.length) break;
+      const header = buf[pos];
+      const body = buf.subarray(i, i + len);
+      pos = i + len;
+
+      if (header >> 4 === PUBLISH) this.onPublish(header, body);
+      else onControl(header >> 4, body);
+    }
+    this.rx = buf.slice(pos);
+  }
+
+  private onPublish(header: number, body: Uint8Array) {
+    const qos = (header >> 1) & 0x03;
+    const tlen = (body[0] << 8) | body[1];
+    const topic = new TextDecoder().decode(body.subarray(2, 2 + tlen));
+    let p = 2 + tlen;
+    if (qos > 0) {
+      const id = [body[p], body[p + 1]];
+      p += 2;
+      if (qos === 1) this.send(packet(PUBACK << 4, id));
+    }
+    const m: MqttMessage = { topic, payload: body.slice(p), retain: !!(header & 1), t: performance.now() };
+    this.messageHandlers.forEach(h => h(m));
+  }
+}
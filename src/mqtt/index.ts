@@ -0,0 +1,4 @@
+// src/mqtt/index.ts
+export * from "./client";
+export * from "./monitor";
+export * from "./storage";
@@ -0,0 +1,216 @@
+// src/mqtt/monitor.ts
+//
+// Watches the master/minion broker from the browser: keeps a rolling log of
+// traffic, derives per-device presence, and can publish a stimulation command
+// straight to a minion. Topic layout lives in MqttSettings so it can follow
+// whatever the firmware build uses. A published start reaches the minion
+// without passing any transport guard, so the app hands in its refusal check.
+
+import { MqttClient, topicMatches, type MqttMessage } from "./client";
+
+export interface MqttSettings {
+  /** WebSocket endpoint, e.g. ws://localhost:9001 for Mosquitto's websockets listener. */
+  url: string;
+  username: string;
+  password: string;
+  /** Filter for the traffic view. */
+  watch: string;
+  /** `{name}` is a master or minion name (0xBB0A / 0xBB0B). */
+  stimTopic: string;
+  presenceTopic: string;
+  stimOnPayload: string;
+  stimOffPayload: string;
+}
+
+export const DEFAULT_MQTT_SETTINGS: MqttSettings = {
+  url: "ws://localhost:9001",
+  username: "",
+  password: "",
+  watch: "hhi/#",
+  stimTopic: "hhi/{name}/stim",
+  presenceTopic: "hhi/{name}/status",
+  stimOnPayload: "1",
+  stimOffPayload: "0",
+};
+
+export type MonitorState = "disconnected" | "connecting" | "connected";
+
+export type Direction = "stim" | "presence" | "other";
+
+export interface TrafficEntry {
+  seq: number;
+  t: number;
+  topic: string;
+  payload: string;
+  retain: boolean;
+  direction: Direction;
+  /** Device name pulled out of the topic, when it matches one of the templates. */
+  name?: string;
+  /** Sent by this app rather than received. */
+  own?: boolean;
+}
+
+export interface Presence {
+  name: string;
+  online: boolean | null;
+  lastSeen: number;
+  lastPayload: string;
+}
+
+const MAX_ENTRIES = 500;
+
+const ONLINE = ["online", "1", "connected", "true"];
+const OFFLINE = ["offline", "0", "disconnected", "false"];
+
+/** Turns "hhi/{name}/stim" into a filter ("hhi/+/stim") and a name extractor. */
+export const parseTemplate = (template: string) => {
+  const parts = template.split("/");
+  const at = parts.indexOf("{name}");
+  const filter = parts.map(p => (p === "{name}" ? "+" : p)).join("/");
+  return {
+    filter,
+    nameOf: (topic: string) => {
+      if (!topicMatches(filter, topic)) return undefined;
+      return at >= 0 ? topic.split("/")[at] : "";
+    },
+    topicFor: (name: string) => template.replace("{name}", name),
+  };
+};
+
+export class MqttMonitor {
+  private client: MqttClient | null = null;
+  private seq = 0;
+  private _state: MonitorState = "disconnected";
+  private _error: string | null = null;
+  private _traffic: TrafficEntry[] = [];
+  private readonly _presence = new Map<string, Presence>();
+  private settings = DEFAULT_MQTT_SETTINGS;
+  private readonly listeners = new Set<() => void>();
+
+  /** `refusal` says why stimulation is refused right now, or null. */
+  constructor(private readonly refusal: () => string | null = () => null) {}
+
+  get state() {
+    return this._state;
+  }
+
+  get error() {
+    return this._error;
+  }
+
+  get traffic() {
+    return this._traffic;
+  }
+
+  get presence() {
+    return [...this._presence.values()].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async connect(settings: MqttSettings) {
+    this.disconnect();
+    this.settings = settings;
+    this._error = null;
+    this._state = "connecting";
+    this.emit();
+
+    const client = new MqttClient(settings.url, {
+      username: settings.username || undefined,
+      password: settings.password || undefined,
+    });
+    try {
+      await client.connect();
+    } catch (e) {
+      this._state = "disconnected";
+      this._error = (e as Error).message;
+      this.emit();
+      return;
+    }
+    this.client = client;
+    client.onMessage(m => this.onMessage(m));
+    client.onClose(reason => {
+      if (this.client !== client) return;
+      this.client = null;
+      this._state = "disconnected";
+      this._error = `Broker connection lost: ${reason}`;
+      this.emit();
+    });
+
+    // Presence must be tracked even when the watch filter doesn't cover it
+    client.subscribe(settings.watch);
+    const presence = parseTemplate(settings.presenceTopic).filter;
+    if (!topicMatches(settings.watch, presence.replace(/\+/g, "x"))) client.subscribe(presence);
+
+    this._state = "connected";
+    this.emit();
+  }
+
+  disconnect() {
+    const c = this.client;
+    this.client = null;
+    c?.close();
+    if (this._state !== "disconnected") {
+      this._state = "disconnected";
+      this.emit();
+    }
+  }
+
+  /** Publishes a stimulation start/stop to a minion by name – no BLE involved. Stops are never refused. */
+  injectStim(minionName: string, on: boolean) {
+    if (!this.client) throw new Error("MQTT not connected");
+    const why = on ? this.refusal() : null;
+    if (why) throw new Error(`Stimulation refused: ${why}`);
+    const topic = parseTemplate(this.settings.stimTopic).topicFor(minionName);
+    const payload = on ? this.settings.stimOnPayload : this.settings.stimOffPayload;
+    this.client.publish(topic, payload);
+    this.push({ topic, payload, retain: false, direction: "stim", name: minionName, own: true });
+    return topic;
+  }
+
+  clearTraffic() {
+    this._traffic = [];
+    this.emit();
+  }
+
+  subscribe(listener: () => void) {
+    this.listeners.add(listener);
+    return () => void this.listeners.delete(listener);
+  }
+
+  // ---------- internals ----------
+  private onMessage(m: MqttMessage) {
+    const payload = new TextDecoder().decode(m.payload);
+    const stimName = parseTemplate(this.settings.stimTopic).nameOf(m.topic);
+    const presName = parseTemplate(this.settings.presenceTopic).nameOf(m.topic);
+    // Our own injected command comes back through the watch subscription – log it once
+    if (stimName !== undefined && this._traffic.some(e => e.own && e.topic === m.topic && e.payload === payload && m.t - e.t < 1000)) {
+      return;
+    }
+
+    if (presName !== undefined) {
+      const p = payload.trim().toLowerCase();
+      this._presence.set(presName, {
+        name: presName,
+        online: ONLINE.includes(p) ? true : OFFLINE.includes(p) ? false : this._presence.get(presName)?.online ?? null,
+        lastSeen: Date.now(),
+        lastPayload: payload,
+      });
+    }
+    this.push({
+      topic: m.topic,
+      payload,
+      retain: m.retain,
+      direction: stimName !== undefined ? "stim" : presName !== undefined ? "presence" : "other",
+      name: stimName ?? presName,
+    });
+  }
+
+  private push(e: Omit<TrafficEntry, "seq" | "t">) {
+    const entry = { ...e, seq: this.seq++, t: performance.now() };
+    this._traffic = [...this._traffic.slice(-(MAX_ENTRIES - 1)), entry];
+    this.emit();
+  }
+
+  private emit() {
+    this.listeners.forEach(l => l());
+  }
+}
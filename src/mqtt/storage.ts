@@ -0,0 +1,16 @@
+// src/mqtt/storage.ts
+import { DEFAULT_MQTT_SETTINGS, type MqttSettings } from "./monitor";
+
+const KEY = "hhi.mqtt";
+
+// The broker password is kept for the page session only
+export const loadMqttSettings = (): MqttSettings => {
+  try {
+    return { ...DEFAULT_MQTT_SETTINGS, ...JSON.parse(localStorage.getItem(KEY) ?? "{}"), password: "" };
+  } catch {
+    return DEFAULT_MQTT_SETTINGS;
+  }
+};
+
+export const saveMqttSettings = (s: MqttSettings) =>
+  localStorage.setItem(KEY, JSON.stringify({ ...s, password: undefined }));
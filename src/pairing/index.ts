@@ -0,0 +1,2 @@
+// src/pairing/index.ts
+export * from "./wizard";
@@ -0,0 +1,213 @@
+// src/pairing/wizard.ts
+//
+// Sets up a Mode 1 controller and a Mode 2 minion that talk through the same
+// MQTT broker, then watches 0xBB0E/0xBB0F until both report Wi-Fi + MQTT.
+// Everything that can go wrong ends up as a Diagnosis with a concrete cause.
+
+import {
+  brokerUrlProblem,
+  charSpec,
+  FIRMWARE_PROFILES,
+  hasChar,
+  MQTT_BIT,
+  readChar,
+  WIFI_BIT,
+  type CharKey,
+  type FirmwareProfile,
+} from "../bb01";
+import type { DeviceEntry, DeviceManager } from "../devices";
+import { StatusWatch } from "../provisioning";
+
+export const WIFI_JOIN_TIMEOUT_MS = 20_000;
+export const MQTT_JOIN_TIMEOUT_MS = 15_000;
+
+export interface PairingConfig {
+  controllerId: string;
+  minionId: string;
+  wifiSSID: string;
+  /** Empty keeps the password already stored on each device. */
+  wifiPassword: string;
+  mqttServerPort: string;
+  masterNameAddr: string;
+  minionNameAddr: string;
+}
+
+export type PairingRole = "controller" | "minion";
+
+export type DiagnosisCode = "input" | "write" | "wifi" | "broker" | "names";
+
+export interface Diagnosis {
+  code: DiagnosisCode;
+  /** Unset when the problem isn't specific to one device. */
+  role?: PairingRole;
+  /** For input problems: the setting to fix. */
+  field?: keyof PairingConfig;
+  message: string;
+}
+
+export type PairingStep = "validate" | "write" | "wifi" | "mqtt" | "names" | "done";
+
+export interface PairingResult {
+  ok: boolean;
+  diagnoses: Diagnosis[];
+  ip: Partial<Record<PairingRole, string>>;
+}
+
+// A short random tag keeps several pairs on one classroom broker apart.
+export const generateNames = () => {
+  const tag = Math.random().toString(36).slice(2, 6);
+  return { masterNameAddr: `hhi-${tag}-master`, minionNameAddr: `hhi-${tag}-minion` };
+};
+
+// ================= Input checks =================
+const NETWORK_KEYS: CharKey[] = ["operatingMode", "wifiSSID", "wifiPassword", "mqttServerPort", "masterNameAddr", "minionNameAddr", "wifiStatus"];
+
+const tooLong = (fw: FirmwareProfile, key: CharKey, v: string) => {
+  const max = charSpec(fw, key).maxLength;
+  return max !== undefined && new TextEncoder().encode(v).byteLength > max ? max : null;
+};
+
+export const validatePairing = (cfg: PairingConfig, manager: DeviceManager): Diagnosis[] => {
+  const out: Diagnosis[] = [];
+  const input = (field: keyof PairingConfig, message: string, role?: PairingRole) =>
+    out.push({ code: "input", field, role, message });
+
+  if (cfg.controllerId === cfg.minionId) input("minionId", "Pick two different devices for controller and minion");
+  for (const [role, field] of [["controller", "controllerId"], ["minion", "minionId"]] as const) {
+    const d = manager.get(cfg[field]);
+    if (!d) {
+      input(field, `The ${role} is no longer connected`, role);
+      continue;
+    }
+    const fw = FIRMWARE_PROFILES[d.firmware];
+    const missing = NETWORK_KEYS.filter(k => !hasChar(fw, k));
+    if (missing.length) input(field, `${d.transport.name} (${fw.label}) lacks ${missing.join(", ")}`, role);
+    for (const key of ["wifiSSID", "wifiPassword", "mqttServerPort", "masterNameAddr", "minionNameAddr"] as const) {
+      if (!hasChar(fw, key)) continue;
+      const max = tooLong(fw, key, cfg[key]);
+      if (max !== null) input(key, `${charSpec(fw, key).label} is longer than ${max} bytes`, role);
+    }
+  }
+  if (!cfg.wifiSSID) input("wifiSSID", "Enter the Wi-Fi SSID");
+  const broker = brokerUrlProblem(cfg.mqttServerPort);
+  if (broker) input("mqttServerPort", broker);
+  if (!cfg.masterNameAddr || !cfg.minionNameAddr) input("masterNameAddr", "Both names must be set");
+  else if (cfg.masterNameAddr === cfg.minionNameAddr) input("minionNameAddr", "Master and minion names must differ");
+
+  // same message from both devices is reported once
+  return out.filter((d, i) => out.findIndex(x => x.message === d.message) === i);
+};
+
+// ================= Runner =================
+export const runPairing = async (
+  cfg: PairingConfig,
+  manager: DeviceManager,
+  onStep: (step: PairingStep, message: string) => void,
+): Promise<PairingResult> => {
+  const result: PairingResult = { ok: false, diagnoses: [], ip: {} };
+  const diag = (d: Diagnosis) => result.diagnoses.push(d);
+
+  onStep("validate", "Checking settings…");
+  result.diagnoses = validatePairing(cfg, manager);
+  if (result.diagnoses.length) return result;
+
+  const roles = [
+    { role: "controller" as const, device: manager.get(cfg.controllerId)!, mode: 1 },
+    { role: "minion" as const,     device: manager.get(cfg.minionId)!,     mode: 2 },
+  ];
+  const name = (d: DeviceEntry) => d.transport.name;
+  const watches = new Map<PairingRole, StatusWatch>();
+  // Firmware with extended 0xBB0E codes says why it gave up
+  const reported = (role: PairingRole) => {
+    const w = watches.get(role)!;
+    return w.failed ? ` (device reports: ${w.decoded.label})` : "";
+  };
+
+  try {
+    // Subscribe before writing so the restart the writes cause isn't missed
+    for (const { role, device } of roles) {
+      const w = new StatusWatch(device.transport, FIRMWARE_PROFILES[device.firmware]);
+      await w.open();
+      watches.set(role, w);
+    }
+
+    // ---------- 1. Write settings; mode last so the device restarts into it ----------
+    for (const { role, device, mode } of roles) {
+      onStep("write", `Writing network settings to ${name(device)} (${role})…`);
+      try {
+        await manager.write(device.id, "wifiSSID", cfg.wifiSSID);
+        if (cfg.wifiPassword) await manager.write(device.id, "wifiPassword", cfg.wifiPassword);
+        await manager.write(device.id, "mqttServerPort", cfg.mqttServerPort);
+        await manager.write(device.id, "masterNameAddr", cfg.masterNameAddr);
+        await manager.write(device.id, "minionNameAddr", cfg.minionNameAddr);
+        await manager.write(device.id, "operatingMode", mode);
+      } catch (e) {
+        diag({ code: "write", role, message: `Writing to ${name(device)} failed: ${e}` });
+      }
+    }
+    if (result.diagnoses.length) return result;
+
+    // ---------- 2. Wi-Fi ----------
+    onStep("wifi", `Waiting for both devices to join '${cfg.wifiSSID}'…`);
+    const wifi = await Promise.all(roles.map(r => watches.get(r.role)!.until(WIFI_BIT, WIFI_JOIN_TIMEOUT_MS)));
+    if (!wifi[0] && !wifi[1]) {
+      diag({
+        code: "wifi",
+        message: `Neither device joined '${cfg.wifiSSID}' within ${WIFI_JOIN_TIMEOUT_MS / 1000} s – check the SSID and password (2.4 GHz networks only)${reported("controller")}`,
+      });
+    } else {
+      roles.forEach(({ role, device }, i) => {
+        if (wifi[i]) return;
+        diag({
+          code: "wifi",
+          role,
+          message: `${name(device)} did not join '${cfg.wifiSSID}' although the other device did – it may be out of range${cfg.wifiPassword ? "" : ", or it has a different stored password (enter the password to overwrite it)"}${reported(role)}`,
+        });
+      });
+    }
+
+    // ---------- 3. MQTT ----------
+    const online = roles.filter((_, i) => wifi[i]);
+    if (online.length) {
+      onStep("mqtt", `Waiting for the broker at ${cfg.mqttServerPort}…`);
+      const mqtt = await Promise.all(online.map(r => watches.get(r.role)!.until(MQTT_BIT, MQTT_JOIN_TIMEOUT_MS)));
+      online.forEach(({ role, device }, i) => {
+        const ip = watches.get(role)!.ip;
+        if (ip) result.ip[role] = ip;
+        if (mqtt[i]) return;
+        diag({
+          code: "broker",
+          role,
+          message: `${name(device)} is on Wi-Fi${ip ? ` (IP ${ip})` : ""} but can't reach the broker ${cfg.mqttServerPort} – check host and port, that the broker is running, and that this network isn't blocking it${reported(role)}`,
+        });
+      });
+    }
+
+    // ---------- 4. Names ----------
+    // Read back what each device actually stored; a truncated or stale value
+    // means the minion never sees the controller's messages.
+    onStep("names", "Checking master/minion names…");
+    for (const { role, device } of roles) {
+      const fw = FIRMWARE_PROFILES[device.firmware];
+      try {
+        const master = await readChar(device.transport, fw, "masterNameAddr");
+        const minion = await readChar(device.transport, fw, "minionNameAddr");
+        if (master !== cfg.masterNameAddr || minion !== cfg.minionNameAddr) {
+          diag({
+            code: "names",
+            role,
+            message: `Name mismatch on ${name(device)}: it holds master '${master}' / minion '${minion}', expected '${cfg.masterNameAddr}' / '${cfg.minionNameAddr}'`,
+          });
+        }
+      } catch (e) {
+        diag({ code: "names", role, message: `Couldn't read names back from ${name(device)}: ${e}` });
+      }
+    }
+  } finally {
+    watches.forEach(w => w.close());
+  }
+
+  result.ok = result.diagnoses.length === 0;
+  onStep("done", result.ok ? "Paired" : "Pairing failed");
+  return result;
+};
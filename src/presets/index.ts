@@ -0,0 +1,3 @@
+// src/presets/index.ts
+export * from "./model";
+export * from "./storage";
@@ -0,0 +1,153 @@
+// src/presets/model.ts
+//
+// Named parameter sets that can be saved locally, shared as JSON files and
+// applied to any device after reviewing a field-by-field diff.
+
+import {
+  charSpec,
+  hasChar,
+  readChar,
+  writeFields,
+  type Bb01Values,
+  type FieldWrite,
+  type WriteFieldsOptions,
+  type FirmwareId,
+  type FirmwareProfile,
+} from "../bb01";
+import type { StimParams } from "../safety";
+import type { HhiTransport } from "../transport";
+
+// The Wi-Fi password is deliberately not part of a preset.
+export const PRESET_KEYS = [
+  "stimAmplitude",
+  "stimFrequency",
+  "stimPulseWidth",
+  "stimDuration",
+  "stimNumPulses",
+  "emgThreshold",
+  "triggerEnableMask",
+  "wifiSSID",
+  "mqttServerPort",
+  "masterNameAddr",
+  "minionNameAddr",
+  // last, so a mode change happens once the parameters it uses are in place
+  "operatingMode",
+] as const;
+
+export type PresetKey = (typeof PRESET_KEYS)[number];
+export const isPresetKey = (k: string): k is PresetKey => (PRESET_KEYS as readonly string[]).includes(k);
+export type PresetValues = Partial<Pick<Bb01Values, PresetKey>>;
+
+export interface Preset {
+  id: string;
+  name: string;
+  createdAt: number;
+  /** Firmware layout the values were captured with; ranges differ between layouts. */
+  firmware?: FirmwareId;
+  values: PresetValues;
+}
+
+export const PRESET_FILE_FORMAT = "hhi-presets";
+
+// ================= Device I/O =================
+/** Reads every preset field the firmware supports. Unreadable fields are left out. */
+export const readPresetValues = async (t: HhiTransport, fw: FirmwareProfile) => {
+  const out: PresetValues = {};
+  for (const k of PRESET_KEYS) {
+    if (!hasChar(fw, k)) continue;
+    try {
+      (out as Record<string, unknown>)[k] = await readChar(t, fw, k);
+    } catch {
+      // leave it out – shows as "unknown" in the diff
+    }
+  }
+  return out;
+};
+
+/** `values` as an ordered write list (PRESET_KEYS order). */
+export const presetFields = (values: PresetValues): FieldWrite[] =>
+  PRESET_KEYS.filter(k => values[k] !== undefined).map(k => [k, values[k]] as FieldWrite);
+
+/** Writes `values` in PRESET_KEYS order, carrying on past failures; one result per field tried. */
+export const writePresetValues = (t: HhiTransport, fw: FirmwareProfile, values: PresetValues, opts?: WriteFieldsOptions) =>
+  writeFields(t, fw, presetFields(values), opts);
+
+/** Full stim parameter set for the safety check; fields the device didn't report count as 0. */
+export const stimParamsOf = (v: PresetValues): StimParams => ({
+  stimAmplitude:  v.stimAmplitude ?? 0,
+  stimFrequency:  v.stimFrequency ?? 1,
+  stimPulseWidth: v.stimPulseWidth ?? 0,
+  stimDuration:   v.stimDuration ?? 0,
+  stimNumPulses:  v.stimNumPulses ?? 0,
+});
+
+// ================= Diff =================
+export interface DiffRow {
+  key: PresetKey;
+  label: string;
+  device: number | string | undefined;
+  preset: number | string | undefined;
+  changed: boolean;
+  /** False when the connected firmware doesn't have this characteristic. */
+  supported: boolean;
+}
+
+export const diffPreset = (preset: PresetValues, device: PresetValues, fw: FirmwareProfile): DiffRow[] =>
+  PRESET_KEYS.filter(k => preset[k] !== undefined).map(k => {
+    const supported = hasChar(fw, k);
+    return {
+      key: k,
+      label: supported ? charSpec(fw, k).label : k,
+      device: device[k],
+      preset: preset[k],
+      changed: supported && device[k] !== preset[k],
+      supported,
+    };
+  });
+
+/** Only the fields that would actually change on the device. */
+export const changesOf = (rows: DiffRow[]): PresetValues =>
+  Object.fromEntries(rows.filter(r => r.changed).map(r => [r.key, r.preset])) as PresetValues;
+
+// ================= Files =================
+export const presetsToJson = (presets: Preset[]) =>
+  JSON.stringify({ format: PRESET_FILE_FORMAT, version: 1, presets }, null, 2);
+
+const isValueOk = (k: PresetKey, v: unknown) =>
+  ["wifiSSID", "mqttServerPort", "masterNameAddr", "minionNameAddr"].includes(k)
+    ? typeof v === "string"
+    : typeof v === "number" && Number.isInteger(v);
+
+/** Parses an exported file; throws with a readable reason when it isn't one. */
+export const parsePresetsJson = (text: string): Preset[] => {
+  let doc: unknown;
+  try {
+    doc = JSON.parse(text);
+  } catch {
+    throw new Error("Not a JSON file");
+  }
+  const d = doc as { format?: string; presets?: unknown };
+  if (d.format !== PRESET_FILE_FORMAT || !Array.isArray(d.presets)) {
+    throw new Error("Not an HHI preset file");
+  }
+  return d.presets.map((raw, i) => {
+    const p = raw as Partial<Preset>;
+    if (typeof p.name !== "string" || typeof p.values !== "object" || !p.values) {
+      throw new Error(`Preset #${i + 1} is missing a name or values`);
+    }
+    const values: PresetValues = {};
+    for (const k of PRESET_KEYS) {
+      const v = (p.values as Record<string, unknown>)[k];
+      if (v === undefined) continue;
+      if (!isValueOk(k, v)) throw new Error(`Preset '${p.name}': bad value for ${k}`);
+      (values as Record<string, unknown>)[k] = v;
+    }
+    return {
+      id: `${Date.now().toString(36)}-${i}`,
+      name: p.name,
+      createdAt: typeof p.createdAt === "number" ? p.createdAt : Date.now(),
+      firmware: p.firmware === "fw1" || p.firmware === "fw2" ? p.firmware : undefined,
+      values,
+    };
+  });
+};
@@ -0,0 +1,15 @@
+// src/presets/storage.ts
+import type { Preset } from "./model";
+
+const KEY = "hhi.presets";
+
+export const loadPresets = (): Preset[] => {
+  try {
+    return JSON.parse(localStorage.getItem(KEY) ?? "[]") as Preset[];
+  } catch {
+    return [];
+  }
+};
+
+export const savePresets = (list: Preset[]) =>
+  localStorage.setItem(KEY, JSON.stringify(list));
@@ -0,0 +1,5 @@
+// src/protocols/index.ts
+export * from "./model";
+export * from "./runner";
+export * from "./stim";
+export * from "./storage";
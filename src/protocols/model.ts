@@ -0,0 +1,170 @@
+// src/protocols/model.ts
+//
+// SpikeStation-style stimulation programs: an ordered list of steps that
+// change parameters, fire trains, ramp a parameter, wait, or repeat a block.
+
+import type { FirmwareProfile } from "../bb01";
+import {
+  deriveStim,
+  evaluateStim,
+  type SafetyLimits,
+  type StimField,
+  type StimParams,
+  type Violation,
+} from "../safety";
+
+export type RampField = "stimAmplitude" | "stimFrequency";
+
+export type ProtocolStep =
+  | { id: string; kind: "set"; params: Partial<StimParams> }
+  | {
+      id: string;
+      kind: "train";
+      /** How long to hold stimulation on when neither # pulses nor duration ends the train. */
+      holdMs: number;
+    }
+  | {
+      id: string;
+      kind: "ramp";
+      field: RampField;
+      from: number;
+      to: number;
+      /** Number of values visited, including both ends. */
+      steps: number;
+      stepMs: number;
+      /** Fire a train at every value instead of only changing the parameter. */
+      trainEachStep: boolean;
+      holdMs: number;
+    }
+  | { id: string; kind: "wait"; ms: number }
+  | { id: string; kind: "repeat"; times: number; steps: ProtocolStep[] };
+
+export type StepKind = ProtocolStep["kind"];
+
+export interface StimProtocol {
+  id: string;
+  name: string;
+  steps: ProtocolStep[];
+}
+
+export const newId = () => Math.random().toString(36).slice(2, 10);
+
+export const FIELD_LABELS: Record<StimField, string> = {
+  stimAmplitude:  "Amplitude",
+  stimFrequency:  "Frequency",
+  stimPulseWidth: "Pulse width",
+  stimDuration:   "Duration",
+  stimNumPulses:  "# Pulses",
+};
+
+export const newStep = (kind: StepKind): ProtocolStep => {
+  const id = newId();
+  switch (kind) {
+    case "set":    return { id, kind, params: {} };
+    case "train":  return { id, kind, holdMs: 1000 };
+    case "ramp":   return { id, kind, field: "stimAmplitude", from: 1, to: 10, steps: 10, stepMs: 1000, trainEachStep: true, holdMs: 500 };
+    case "wait":   return { id, kind, ms: 1000 };
+    case "repeat": return { id, kind, times: 3, steps: [] };
+  }
+};
+
+export const newProtocol = (name = "New protocol"): StimProtocol => ({ id: newId(), name, steps: [] });
+
+/** Evenly spaced, rounded ramp values from `from` to `to`. */
+export const rampValues = (s: Extract<ProtocolStep, { kind: "ramp" }>) => {
+  const n = Math.max(2, Math.round(s.steps));
+  return Array.from({ length: n }, (_, i) => Math.round(s.from + ((s.to - s.from) * i) / (n - 1)));
+};
+
+export const describeStep = (s: ProtocolStep): string => {
+  switch (s.kind) {
+    case "set": {
+      const parts = (Object.entries(s.params) as [StimField, number][])
+        .map(([f, v]) => `${FIELD_LABELS[f]} = ${v}`);
+      return `Set ${parts.join(", ") || "(nothing)"}`;
+    }
+    case "train":  return `Train (hold ≤ ${s.holdMs} ms)`;
+    case "ramp":   return `Ramp ${FIELD_LABELS[s.field]} ${s.from} → ${s.to} in ${s.steps} steps`;
+    case "wait":   return `Wait ${s.ms} ms`;
+    case "repeat": return `Repeat ×${s.times}`;
+  }
+};
+
+// ================= Static analysis =================
+// Walks the program the same way the runner does, without touching a device,
+// to estimate run time and check every parameter set it will produce.
+interface Visit {
+  params: StimParams;
+  ms: number;
+  /** Part of `ms` with stimulation on. */
+  stimMs: number;
+  checked: StimParams[];
+}
+
+const trainMs = (p: StimParams, fw: FirmwareProfile, holdMs: number) => {
+  const t = deriveStim(p, fw).trainMs;
+  return Number.isFinite(t) ? t : holdMs;
+};
+
+const walk = (steps: ProtocolStep[], fw: FirmwareProfile, v: Visit) => {
+  for (const s of steps) {
+    switch (s.kind) {
+      case "set":
+        v.params = { ...v.params, ...s.params };
+        v.checked.push(v.params);
+        break;
+      case "train": {
+        v.checked.push(v.params);
+        const ms = trainMs(v.params, fw, s.holdMs);
+        v.ms += ms;
+        v.stimMs += ms;
+        break;
+      }
+      case "ramp":
+        for (const x of rampValues(s)) {
+          v.params = { ...v.params, [s.field]: x };
+          v.checked.push(v.params);
+          const ms = s.trainEachStep ? trainMs(v.params, fw, s.holdMs) : 0;
+          v.ms += Math.max(s.stepMs, ms);
+          v.stimMs += ms;
+        }
+        break;
+      case "wait":
+        v.ms += s.ms;
+        break;
+      case "repeat":
+        for (let i = 0; i < s.times; i++) walk(s.steps, fw, v);
+        break;
+    }
+  }
+};
+
+export interface Preflight {
+  estimatedMs: number;
+  /** Time with stimulation on, for the battery estimate. */
+  stimMs: number;
+  violations: Violation[];
+  blocked: boolean;
+}
+
+export const preflight = (
+  protocol: StimProtocol, start: StimParams, fw: FirmwareProfile, limits: SafetyLimits,
+): Preflight => {
+  const v: Visit = { params: start, ms: 0, stimMs: 0, checked: [start] };
+  walk(protocol.steps, fw, v);
+
+  // Same message from many loop iterations is reported once
+  const seen = new Map<string, Violation>();
+  for (const p of v.checked) {
+    for (const viol of evaluateStim(p, fw, limits).violations) {
+      if (!seen.has(viol.message)) seen.set(viol.message, viol);
+    }
+  }
+  const violations = [...seen.values()];
+  return {
+    estimatedMs: v.ms,
+    stimMs: v.stimMs,
+    violations,
+    blocked: violations.some(x => x.severity === "block"),
+  };
+};
@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import { FIRMWARE_PROFILES, type FirmwareProfile } from "../bb01";
+import { DEFAULT_LIMITS, type StimParams } from "../safety";
+import { ProtocolRunner, type RunnerProgress, type StimProtocol, type StimTarget } from ".";
+
+// 5 mA, 100 µs at 20 Hz, one pulse per train – a 50 ms train
+const START: StimParams = { stimAmplitude: 5, stimFrequency: 20, stimPulseWidth: 100, stimDuration: 10, stimNumPulses: 1 };
+
+const fakeTarget = (fw: FirmwareProfile) => {
+  const calls: string[] = [];
+  const faults: string[] = [];
+  const target: StimTarget = {
+    fw,
+    write: async (field, value) => void calls.push(`${field}=${value}`),
+    trigger: async on => void calls.push(on ? "on" : "off"),
+    fault: e => void faults.push(e),
+  };
+  return { target, calls, faults };
+};
+
+const setup = (fw: FirmwareProfile = FIRMWARE_PROFILES.fw2) => {
+  const fake = fakeTarget(fw);
+  const progress: RunnerProgress[] = [];
+  const runner = new ProtocolRunner(fake.target, DEFAULT_LIMITS, START, p => progress.push(p));
+  return { ...fake, runner, progress, last: () => progress[progress.length - 1]! };
+};
+
+const protocol = (...steps: StimProtocol["steps"]): StimProtocol => ({ id: "p", name: "Test", steps });
+
+describe("ProtocolRunner", () => {
+  it("writes the starting parameters, then fires each train on and off", async () => {
+    const { runner, calls, last } = setup();
+    await runner.run(protocol(
+      { id: "a", kind: "set", params: { stimAmplitude: 8 } },
+      { id: "b", kind: "train", holdMs: 1000 },
+    ));
+    expect(last().state).toBe("done");
+    expect(calls.slice(-3)).toEqual(["stimAmplitude=8", "on", "off"]);
+    expect(calls.filter(c => c.startsWith("stimFrequency"))).toEqual(["stimFrequency=20"]);
+  });
+
+  it("sends a stop when aborted mid-train", async () => {
+    const { runner, calls, last } = setup();
+    // unbounded train held for 10 s
+    const done = runner.run(protocol(
+      { id: "a", kind: "set", params: { stimNumPulses: 0, stimDuration: 0 } },
+      { id: "b", kind: "train", holdMs: 10_000 },
+    ));
+    await new Promise(r => setTimeout(r, 20));
+    runner.abort();
+    await done;
+    expect(last().state).toBe("aborted");
+    expect(calls[calls.length - 1]).toBe("off");
+  });
+
+  it("fails before writing parameters the safety limits block", async () => {
+    const { runner, calls, faults, last } = setup();
+    await runner.run(protocol(
+      { id: "a", kind: "set", params: { stimAmplitude: 45 } },
+      { id: "b", kind: "train", holdMs: 1000 },
+    ));
+    expect(last()).toMatchObject({ state: "failed" });
+    expect(last().error).toBeTruthy();
+    expect(calls).not.toContain("stimAmplitude=45");
+    expect(calls).not.toContain("on");
+    expect(faults).toEqual([]);
+  });
+
+  it("stops firmware without a stop command at 0 mA, and puts the amplitude back when done", async () => {
+    const { runner, calls, last } = setup(FIRMWARE_PROFILES.fw1);
+    await runner.run(protocol({ id: "a", kind: "train", holdMs: 1000 }));
+    expect(last().state).toBe("done");
+    expect(calls.slice(-3)).toEqual(["on", "stimAmplitude=0", "stimAmplitude=5"]);
+    expect(calls).not.toContain("off");
+  });
+
+  it("holds 0 mA through a pause on firmware without a stop command, and leaves it there on abort", async () => {
+    const { runner, calls, last } = setup(FIRMWARE_PROFILES.fw1);
+    // a 5 s train
+    const done = runner.run(protocol(
+      { id: "a", kind: "set", params: { stimNumPulses: 100 } },
+      { id: "b", kind: "train", holdMs: 10_000 },
+    ));
+    await new Promise(r => setTimeout(r, 20));
+    runner.pause();
+    await new Promise(r => setTimeout(r, 120));
+    expect(calls.slice(-2)).toEqual(["on", "stimAmplitude=0"]);
+    runner.resume();
+    await new Promise(r => setTimeout(r, 20));
+    expect(calls.slice(-2)).toEqual(["stimAmplitude=5", "on"]);
+    runner.abort();
+    await done;
+    expect(last().state).toBe("aborted");
+    expect(calls[calls.length - 1]).toBe("stimAmplitude=0");
+  });
+
+  it("refuses to start on a battery that won't last", async () => {
+    const { target, calls } = fakeTarget(FIRMWARE_PROFILES.fw2);
+    const progress: RunnerProgress[] = [];
+    const runner = new ProtocolRunner(
+      { ...target, batteryCheck: () => "Battery too low for this run" }, DEFAULT_LIMITS, START, p => progress.push(p),
+    );
+    await runner.run(protocol({ id: "a", kind: "train", holdMs: 1000 }));
+    expect(progress[progress.length - 1]).toMatchObject({ state: "failed", error: "Error: Battery too low for this run" });
+    expect(calls).toEqual([]);
+  });
+});
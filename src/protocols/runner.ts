@@ -0,0 +1,236 @@
+// src/protocols/runner.ts
+//
+// Executes a StimProtocol against a device. Writes go through a StimTarget so
+// the runner doesn't care whether it's driving BLE or the virtual HHI.
+
+import type { FirmwareProfile } from "../bb01";
+import {
+  deriveStim,
+  evaluateStim,
+  STIM_FIELDS,
+  stimWriteOrder,
+  type SafetyLimits,
+  type StimField,
+  type StimParams,
+} from "../safety";
+import { describeStep, preflight, rampValues, type ProtocolStep, type StimProtocol } from "./model";
+import { StimSwitch } from "./stim";
+
+export interface StimTarget {
+  fw: FirmwareProfile;
+  write: (field: StimField, value: number) => Promise<void>;
+  trigger: (on: boolean) => Promise<void>;
+  /** Why a run of `durationMs` (`stimMs` of it stimulating) shouldn't start on this battery, or null. */
+  batteryCheck?: (durationMs: number, stimMs: number) => string | null;
+  /** Called as a run starts; the returned function as it ends. */
+  running?: () => () => void;
+  /** A run failed with stimulation on – the watchdog takes it from here. */
+  fault?: (error: string) => void;
+}
+
+export type RunnerState = "idle" | "running" | "paused" | "done" | "aborted" | "failed";
+
+export interface RunnerProgress {
+  state: RunnerState;
+  /** Breadcrumb of the step being executed, e.g. "Repeat 2/3 › Train (hold ≤ 500 ms)". */
+  label: string;
+  elapsedMs: number;
+  error?: string;
+}
+
+const TICK_MS = 50;
+
+class RunAborted extends Error {}
+
+const delay = (ms: number) => new Promise(r => setTimeout(r, ms));
+
+export class ProtocolRunner {
+  private state: RunnerState = "idle";
+  private params: StimParams;
+  private crumbs: string[] = [];
+  private startedAt = 0;
+  private resumeWaiters: (() => void)[] = [];
+  private readonly stim: StimSwitch;
+
+  constructor(
+    private readonly target: StimTarget,
+    private readonly limits: SafetyLimits,
+    start: StimParams,
+    private readonly onProgress: (p: RunnerProgress) => void,
+  ) {
+    this.params = { ...start };
+    this.stim = new StimSwitch(target);
+  }
+
+  get running() {
+    return this.state === "running" || this.state === "paused";
+  }
+
+  async run(protocol: StimProtocol) {
+    if (this.running) throw new Error("Runner already active");
+    this.state = "running";
+    this.startedAt = performance.now();
+    this.report(protocol.name);
+    const release = this.target.running?.();
+    try {
+      const { estimatedMs, stimMs } = preflight(protocol, this.params, this.target.fw, this.limits);
+      const battery = this.target.batteryCheck?.(estimatedMs, stimMs);
+      if (battery) throw new Error(battery);
+      // Start from a known state rather than trusting whatever the form shows
+      await this.apply(this.params);
+      await this.runSteps(protocol.steps);
+      await this.stim.restore();
+      this.state = "done";
+      this.crumbs = [];
+      this.report("Finished");
+    } catch (e) {
+      const aborted = e instanceof RunAborted;
+      this.state = aborted ? "aborted" : "failed";
+      this.report(aborted ? "Aborted" : "Failed", aborted ? undefined : String(e));
+      if (!aborted && this.stim.on) this.target.fault?.(String(e));
+    } finally {
+      await this.ensureStopped();
+      release?.();
+    }
+  }
+
+  pause() {
+    if (this.state !== "running") return;
+    this.state = "paused";
+    this.report();
+  }
+
+  resume() {
+    if (this.state !== "paused") return;
+    this.state = "running";
+    this.wake();
+    this.report();
+  }
+
+  abort() {
+    if (!this.running) return;
+    this.state = "aborted";
+    this.wake();
+  }
+
+  // ---------- execution ----------
+  private async runSteps(steps: ProtocolStep[]) {
+    for (let i = 0; i < steps.length; i++) {
+      await this.gate();
+      const s = steps[i];
+      this.crumbs.push(`${i + 1}/${steps.length} ${describeStep(s)}`);
+      this.report();
+      await this.runStep(s);
+      this.crumbs.pop();
+    }
+  }
+
+  private async runStep(s: ProtocolStep) {
+    switch (s.kind) {
+      case "set":
+        await this.apply(s.params);
+        break;
+      case "train":
+        await this.train(s.holdMs);
+        break;
+      case "ramp":
+        for (const v of rampValues(s)) {
+          await this.gate();
+          await this.apply({ [s.field]: v });
+          const t0 = performance.now();
+          if (s.trainEachStep) await this.train(s.holdMs);
+          await this.sleep(s.stepMs - (performance.now() - t0));
+        }
+        break;
+      case "wait":
+        await this.sleep(s.ms);
+        break;
+      case "repeat":
+        for (let i = 0; i < s.times; i++) {
+          this.crumbs.push(`pass ${i + 1}/${s.times}`);
+          await this.runSteps(s.steps);
+          this.crumbs.pop();
+        }
+        break;
+    }
+  }
+
+  // Writes the fields in `change`, lowered ones first, once the resulting set passes the safety check
+  private async apply(change: Partial<StimParams>) {
+    const next = { ...this.params, ...change };
+    const report = evaluateStim(next, this.target.fw, this.limits);
+    if (report.blocked) {
+      throw new Error(report.violations.find(v => v.severity === "block")!.message);
+    }
+    const writes = STIM_FIELDS.filter(f => change[f] !== undefined && this.target.fw.chars[f]).map(f => [f, next[f]] as const);
+    for (const [f, v] of stimWriteOrder(writes, this.params)) {
+      this.checkAbort();
+      await this.stim.write(f, v);
+      this.params[f] = v;
+    }
+  }
+
+  private async train(holdMs: number) {
+    const d = deriveStim(this.params, this.target.fw).trainMs;
+    const ms = Number.isFinite(d) ? d : holdMs;
+    this.checkAbort();
+    await this.stim.start();
+    await this.sleep(ms, {
+      // stimulation never stays on while the operator has the run paused
+      onPause: () => this.stim.stop(),
+      onResume: () => this.stim.start(),
+    });
+    await this.stim.stop();
+  }
+
+  private ensureStopped() {
+    return this.stim.ensureOff(e => this.report("Stop failed", String(e)));
+  }
+
+  // ---------- timing / control ----------
+  private async sleep(ms: number, hooks?: { onPause?: () => Promise<void>; onResume?: () => Promise<void> }) {
+    let remaining = ms;
+    while (remaining > 0) {
+      this.checkAbort();
+      if (this.state === "paused") {
+        await hooks?.onPause?.();
+        await this.waitForResume();
+        this.checkAbort();
+        await hooks?.onResume?.();
+        continue;
+      }
+      const t0 = performance.now();
+      await delay(Math.min(remaining, TICK_MS));
+      remaining -= performance.now() - t0;
+    }
+  }
+
+  private async gate() {
+    this.checkAbort();
+    if (this.state === "paused") await this.waitForResume();
+    this.checkAbort();
+  }
+
+  private waitForResume() {
+    return new Promise<void>(r => this.resumeWaiters.push(r));
+  }
+
+  private wake() {
+    const w = this.resumeWaiters;
+    this.resumeWaiters = [];
+    w.forEach(r => r());
+  }
+
+  private checkAbort() {
+    if (this.state === "aborted") throw new RunAborted();
+  }
+
+  private report(label = this.crumbs.join(" › "), error?: string) {
+    this.onProgress({
+      state: this.state,
+      label,
+      elapsedMs: performance.now() - this.startedAt,
+      error,
+    });
+  }
+}
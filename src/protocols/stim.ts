@@ -0,0 +1,69 @@
+// src/protocols/stim.ts
+//
+// Stimulation on/off for the protocol and experiment runners. Firmware
+// without a stop command (fw1) is stopped by writing 0 mA, like the e-stop
+// does; the amplitude then waits for the next start, so a setting written in
+// between can't bring a train that is still running back to full current. A
+// run that finishes puts it back; an aborted or failed one leaves 0 mA.
+
+import { hasStopCommand } from "../bb01";
+import type { StimField } from "../safety";
+import type { StimTarget } from "./runner";
+
+export class StimSwitch {
+  private live = false;
+  private amplitude: number | undefined;
+  /** A 0 mA stop is in force; the amplitude goes back on with the next start. */
+  private zeroed = false;
+
+  constructor(private readonly target: StimTarget) {}
+
+  /** Switched on and not switched off since. */
+  get on() {
+    return this.live;
+  }
+
+  /** Writes a parameter; after a 0 mA stop the amplitude is kept for the next start. */
+  async write(field: StimField, value: number) {
+    if (field === "stimAmplitude") {
+      this.amplitude = value;
+      if (this.zeroed) return;
+    }
+    await this.target.write(field, value);
+  }
+
+  async start() {
+    if (this.zeroed && this.amplitude !== undefined) await this.target.write("stimAmplitude", this.amplitude);
+    this.zeroed = false;
+    await this.target.trigger(true);
+    this.live = true;
+  }
+
+  /** 0xBB12 = 0, or 0 mA on firmware without it. */
+  async stop() {
+    if (hasStopCommand(this.target.fw)) {
+      await this.target.trigger(false);
+    } else {
+      await this.target.write("stimAmplitude", 0);
+      this.zeroed = true;
+    }
+    this.live = false;
+  }
+
+  /** Writes the amplitude back after a 0 mA stop, leaving stimulation off. */
+  async restore() {
+    if (!this.zeroed || this.amplitude === undefined) return;
+    await this.target.write("stimAmplitude", this.amplitude);
+    this.zeroed = false;
+  }
+
+  /** Stops if switched on; a failure goes to `failed` instead of being thrown. */
+  async ensureOff(failed: (e: unknown) => void) {
+    if (!this.live) return;
+    try {
+      await this.stop();
+    } catch (e) {
+      failed(e);
+    }
+  }
+}
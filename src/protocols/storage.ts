@@ -0,0 +1,15 @@
+// src/protocols/storage.ts
+import type { StimProtocol } from "./model";
+
+const KEY = "hhi.protocols";
+
+export const loadProtocols = (): StimProtocol[] => {
+  try {
+    return JSON.parse(localStorage.getItem(KEY) ?? "[]") as StimProtocol[];
+  } catch {
+    return [];
+  }
+};
+
+export const saveProtocols = (list: StimProtocol[]) =>
+  localStorage.setItem(KEY, JSON.stringify(list));
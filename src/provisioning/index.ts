@@ -0,0 +1,3 @@
+// src/provisioning/index.ts
+export * from "./watch";
+export * from "./provision";
@@ -0,0 +1,127 @@
+// src/provisioning/provision.ts
+//
+// Single-device network setup as a state machine: check the input, write it,
+// then wait for Wi-Fi, an IP address and the broker in turn. Each wait has its
+// own timeout, and a firmware that reports an error state ends the wait early
+// with that state as the reason.
+
+import {
+  brokerUrlProblem,
+  charSpec,
+  hasChar,
+  MQTT_BIT,
+  validate,
+  WIFI_BIT,
+  type FirmwareProfile,
+} from "../bb01";
+import type { HhiTransport } from "../transport";
+import { StatusWatch } from "./watch";
+
+export interface NetworkConfig {
+  wifiSSID: string;
+  /** Empty keeps the password already stored on the device. */
+  wifiPassword: string;
+  mqttServerPort: string;
+  masterNameAddr: string;
+  minionNameAddr: string;
+}
+
+export type ProvisionStage = "validate" | "write" | "wifi" | "ip" | "mqtt" | "done";
+
+export interface ProvisionProblem {
+  field: keyof NetworkConfig;
+  message: string;
+}
+
+export interface ProvisionOutcome {
+  ok: boolean;
+  /** Where it finished – "done" on success, otherwise the stage that failed. */
+  stage: ProvisionStage;
+  reason: string;
+  problems: ProvisionProblem[];
+  ip?: string;
+}
+
+export const PROVISION_TIMEOUTS: Readonly<Record<"wifi" | "ip" | "mqtt", number>> = {
+  wifi: 20_000,
+  ip:   10_000,
+  mqtt: 15_000,
+};
+
+// ================= Input checks =================
+export const validateNetworkConfig = (cfg: NetworkConfig, fw: FirmwareProfile): ProvisionProblem[] => {
+  const out: ProvisionProblem[] = [];
+  if (!cfg.wifiSSID) out.push({ field: "wifiSSID", message: "Enter the Wi-Fi SSID" });
+  const broker = brokerUrlProblem(cfg.mqttServerPort);
+  if (broker) out.push({ field: "mqttServerPort", message: broker });
+  for (const field of Object.keys(cfg) as (keyof NetworkConfig)[]) {
+    if (!hasChar(fw, field)) continue;
+    const err = validate(charSpec(fw, field), cfg[field]);
+    if (err) out.push({ field, message: err });
+  }
+  return out;
+};
+
+// ================= Runner =================
+const secs = (ms: number) => `${ms / 1000} s`;
+
+/**
+ * Runs the whole setup. `write` saves the settings (the caller owns how, so
+ * the panel keeps its progress and read-back) and resolves false if any field
+ * failed. The watch is opened before writing so the restart isn't missed.
+ */
+export const provisionNetwork = async (
+  t: HhiTransport,
+  fw: FirmwareProfile,
+  cfg: NetworkConfig,
+  write: () => Promise<boolean>,
+  onStage: (stage: ProvisionStage, message: string) => void,
+  timeouts = PROVISION_TIMEOUTS,
+): Promise<ProvisionOutcome> => {
+  const end = (stage: ProvisionStage, reason: string, extra?: Partial<ProvisionOutcome>): ProvisionOutcome => {
+    const outcome = { ok: stage === "done", stage, reason, problems: [], ...extra };
+    onStage(stage, reason);
+    return outcome;
+  };
+
+  onStage("validate", "Checking settings…");
+  const problems = validateNetworkConfig(cfg, fw);
+  if (problems.length) return end("validate", problems[0].message, { problems, ok: false });
+
+  const watch = new StatusWatch(t, fw);
+  try {
+    await watch.open();
+
+    onStage("write", "Writing network settings…");
+    if (!(await write())) return end("write", "Some settings were not saved – see the fields above");
+
+    // A failed stage names the device's own reason when it gave one
+    const why = (fallback: string) => (watch.failed ? `Device reports: ${watch.decoded.label}` : fallback);
+
+    onStage("wifi", `Joining '${cfg.wifiSSID}'…`);
+    if (!(await watch.until(WIFI_BIT, timeouts.wifi))) {
+      return end("wifi", why(
+        `No Wi-Fi after ${secs(timeouts.wifi)} – check the SSID and password (2.4 GHz networks only)`,
+      ));
+    }
+
+    if (hasChar(fw, "wifiIP")) {
+      onStage("ip", "Waiting for an IP address…");
+      if (!(await watch.waitFor(() => watch.ip !== "", timeouts.ip))) {
+        return end("ip", why(`Joined '${cfg.wifiSSID}' but got no IP address within ${secs(timeouts.ip)} – is DHCP running?`));
+      }
+    }
+    const ip = watch.ip || undefined;
+
+    onStage("mqtt", `Connecting to ${cfg.mqttServerPort}…`);
+    if (!(await watch.until(MQTT_BIT, timeouts.mqtt))) {
+      return end("mqtt", why(
+        `On Wi-Fi${ip ? ` (IP ${ip})` : ""} but no broker after ${secs(timeouts.mqtt)} – check host and port, that the broker is running, and that this network isn't blocking it`,
+      ), { ip });
+    }
+
+    return end("done", `Online${ip ? ` at ${ip}` : ""} and connected to ${cfg.mqttServerPort}`, { ip });
+  } finally {
+    watch.close();
+  }
+};
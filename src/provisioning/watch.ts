@@ -0,0 +1,92 @@
+// src/provisioning/watch.ts
+//
+// Follows 0xBB0E/0xBB0F notifications. A value only counts once the device has
+// notified after our writes – the status read before a Wi-Fi restart is stale.
+
+import { decodeNetStatus, hasChar, readChar, subscribeChar, type FirmwareProfile, type NetStatus } from "../bb01";
+import type { HhiTransport } from "../transport";
+
+export class StatusWatch {
+  status = 0;
+  ip = "";
+  private notified = false;
+  private waiters = new Set<() => void>();
+  private unsubs: (() => void)[] = [];
+
+  constructor(
+    private readonly t: HhiTransport,
+    private readonly fw: FirmwareProfile,
+  ) {}
+
+  get decoded(): NetStatus {
+    return decodeNetStatus(this.status);
+  }
+
+  /** The device reported a state it won't recover from on its own. */
+  get failed() {
+    return this.notified && !!this.decoded.state?.error;
+  }
+
+  async open() {
+    this.unsubs.push(
+      await subscribeChar(this.t, this.fw, "wifiStatus", v => {
+        this.status = v;
+        this.notified = true;
+        this.wake();
+      }),
+    );
+    if (hasChar(this.fw, "wifiIP")) {
+      this.unsubs.push(
+        await subscribeChar(this.t, this.fw, "wifiIP", v => {
+          this.ip = v;
+          this.wake();
+        }),
+      );
+    }
+  }
+
+  /** Resolves true once `bit` is set; false on timeout or an error state. */
+  until(bit: number, timeoutMs: number) {
+    return this.waitFor(() => !!(this.status & bit), timeoutMs);
+  }
+
+  /**
+   * Waits until `check` holds after a notification, the device reports an
+   * error state, or time runs out. When the device never notified at all
+   * (settings unchanged, so no restart) the last read value decides.
+   */
+  async waitFor(check: () => boolean, timeoutMs: number) {
+    const deadline = Date.now() + timeoutMs;
+    while (!(this.notified && check()) && !this.failed) {
+      const left = deadline - Date.now();
+      if (left <= 0) break;
+      await new Promise<void>(r => {
+        const done = () => {
+          clearTimeout(timer);
+          this.waiters.delete(done);
+          r();
+        };
+        const timer = setTimeout(done, left);
+        this.waiters.add(done);
+      });
+    }
+    if (this.notified) return check();
+    try {
+      this.status = await readChar(this.t, this.fw, "wifiStatus");
+      if (hasChar(this.fw, "wifiIP")) this.ip = await readChar(this.t, this.fw, "wifiIP");
+    } catch {
+      return false;
+    }
+    return check();
+  }
+
+  close() {
+    this.unsubs.forEach(u => u());
+    this.unsubs = [];
+    this.wake();
+  }
+
+  private wake() {
+    [...this.waiters].forEach(w => w());
+  }
+}
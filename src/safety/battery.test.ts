@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { BATTERY_LEVEL_CHAR_UUID, BATTERY_SERVICE_UUID, HHI_SERVICE_UUID } from "../bb01";
+import type { HhiTransport } from "../transport";
+import { fakeTransport } from "../transport/fake";
+import { DEFAULT_BATTERY } from "../battery";
+import { BatteryCriticalError, BatteryGuard } from ".";
+
+const fakeAt = (level: number) => {
+  const f = fakeTransport();
+  f.readValue = Uint8Array.of(level);
+  return { ...f, notify: (pct: number) => f.notify(BATTERY_LEVEL_CHAR_UUID, Uint8Array.of(pct)) };
+};
+
+const start = (t: HhiTransport) => t.write(HHI_SERVICE_UUID, 0xbb12, Uint8Array.of(1));
+const stop = (t: HhiTransport) => t.write(HHI_SERVICE_UUID, 0xbb12, Uint8Array.of(0));
+
+describe("BatteryGuard", () => {
+  it("lets starts through until a critical level has been seen", async () => {
+    const f = fakeAt(4);
+    const g = new BatteryGuard().guard(f.t);
+    await start(g);
+    await g.read(BATTERY_SERVICE_UUID, BATTERY_LEVEL_CHAR_UUID);
+    await expect(start(g)).rejects.toBeInstanceOf(BatteryCriticalError);
+    expect(f.writes).toEqual(["bb12=1"]);
+  });
+
+  it("follows battery notifications, and never refuses a stop", async () => {
+    const f = fakeAt(50);
+    const battery = new BatteryGuard();
+    const g = battery.guard(f.t);
+    await g.subscribe(BATTERY_SERVICE_UUID, BATTERY_LEVEL_CHAR_UUID, () => {});
+    f.notify(DEFAULT_BATTERY.criticalPct);
+    expect(battery.critical("fake")).toBe(true);
+    await expect(start(g)).rejects.toThrow(/battery critical \(5%\)/);
+    await stop(g);
+    f.notify(40);
+    await start(g);
+    expect(f.writes).toEqual(["bb12=0", "bb12=1"]);
+  });
+
+  it("uses the thresholds it was given", async () => {
+    const f = fakeAt(8);
+    const battery = new BatteryGuard();
+    const g = battery.guard(f.t);
+    await g.read(BATTERY_SERVICE_UUID, BATTERY_LEVEL_CHAR_UUID);
+    await start(g);
+    battery.setThresholds({ ...DEFAULT_BATTERY, criticalPct: 10 });
+    await expect(start(g)).rejects.toBeInstanceOf(BatteryCriticalError);
+  });
+});
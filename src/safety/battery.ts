@@ -0,0 +1,70 @@
+// src/safety/battery.ts
+//
+// Refuses stimulation starts on a device whose battery is at or below the
+// critical level. The level is taken from the 0x2A19 reads and notifications
+// passing through the transport, so the refusal holds for every caller –
+// panel, protocol, experiment, script – not just the buttons that check it.
+
+import { BATTERY_LEVEL_CHAR_UUID, BATTERY_SERVICE_UUID } from "../bb01";
+import { DEFAULT_BATTERY, type BatteryThresholds } from "../battery";
+import type { GattUuid, HhiTransport } from "../transport";
+import { isStartWrite } from "./estop";
+
+export class BatteryCriticalError extends Error {
+  constructor(name: string, pct: number) {
+    super(`${name}: battery critical (${pct}%) – stimulation refused until the device is charged`);
+    this.name = "BatteryCriticalError";
+  }
+}
+
+const isBatteryLevel = (service: GattUuid, characteristic: GattUuid) =>
+  service === BATTERY_SERVICE_UUID && characteristic === BATTERY_LEVEL_CHAR_UUID;
+
+export class BatteryGuard {
+  private thresholds: BatteryThresholds = DEFAULT_BATTERY;
+  /** Last battery level each device reported; kept across reconnects. */
+  private readonly levels = new Map<string, number>();
+
+  setThresholds(th: BatteryThresholds) {
+    this.thresholds = th;
+  }
+
+  /** Whether starts on `deviceId` are refused right now. */
+  critical(deviceId: string) {
+    const pct = this.levels.get(deviceId);
+    return pct !== undefined && pct <= this.thresholds.criticalPct;
+  }
+
+  /** Wraps a transport so starts fail while its battery is critical. */
+  guard(t: HhiTransport): HhiTransport {
+    const seen = (dv: DataView) => {
+      if (dv.byteLength) this.levels.set(t.id, dv.getUint8(0));
+    };
+    return {
+      ...t,
+      isConnected: () => t.isConnected(),
+      connect: () => t.connect(),
+      disconnect: () => t.disconnect(),
+      onDisconnect: h => t.onDisconnect(h),
+
+      read: async (service, characteristic) => {
+        const dv = await t.read(service, characteristic);
+        if (isBatteryLevel(service, characteristic)) seen(dv);
+        return dv;
+      },
+
+      write: async (service, characteristic, value) => {
+        if (isStartWrite(service, characteristic, value) && this.critical(t.id)) {
+          throw new BatteryCriticalError(t.name, this.levels.get(t.id)!);
+        }
+        return t.write(service, characteristic, value);
+      },
+
+      subscribe: (service, characteristic, handler) =>
+        t.subscribe(service, characteristic, dv => {
+          if (isBatteryLevel(service, characteristic)) seen(dv);
+          handler(dv);
+        }),
+    };
+  }
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { FIRMWARE_PROFILES } from "../bb01";
+import { DEFAULT_LIMITS, deriveStim, evaluateStim, type StimParams } from ".";
+
+const fw1 = FIRMWARE_PROFILES.fw1;
+const fw2 = FIRMWARE_PROFILES.fw2;
+
+// 5 mA, 100 µs at 20 Hz for 1 s – well inside the defaults
+const SAFE: StimParams = { stimAmplitude: 5, stimFrequency: 20, stimPulseWidth: 100, stimDuration: 10, stimNumPulses: 0 };
+
+describe("deriveStim", () => {
+  it("derives charge, duty cycle and train length", () => {
+    const d = deriveStim(SAFE, fw2);
+    expect(d.chargePerPulseUc).toBeCloseTo(0.5);
+    expect(d.dutyCycle).toBeCloseTo(0.002);
+    expect(d.trainMs).toBe(1000);
+    expect(d.pulsesPerTrain).toBe(20);
+    expect(d.trainChargeUc).toBeCloseTo(10);
+  });
+
+  it("takes the shorter of # pulses and duration", () => {
+    expect(deriveStim({ ...SAFE, stimNumPulses: 5 }, fw2).trainMs).toBe(250);
+  });
+
+  it("treats an unbounded train as infinitely long", () => {
+    const d = deriveStim({ ...SAFE, stimDuration: 0 }, fw2);
+    expect(d.trainMs).toBe(Infinity);
+    expect(d.trainChargeUc).toBe(Infinity);
+  });
+
+  it("counts POT as the firmware maximum", () => {
+    expect(deriveStim({ ...SAFE, stimAmplitude: 0xff, stimNumPulses: 10 }, fw1)).toMatchObject({ amplitudeMa: 30, amplitudeOnPot: true });
+    expect(deriveStim({ ...SAFE, stimAmplitude: 0xffff }, fw2)).toMatchObject({ amplitudeMa: 50, amplitudeOnPot: true });
+  });
+});
+
+describe("evaluateStim", () => {
+  it("passes settings inside the limits", () => {
+    const r = evaluateStim(SAFE, fw2, DEFAULT_LIMITS);
+    expect(r.violations).toEqual([]);
+    expect(r.blocked).toBe(false);
+    expect(r.needsConfirm).toBe(false);
+  });
+
+  it("asks for confirmation between the confirm and block limits", () => {
+    const r = evaluateStim({ ...SAFE, stimAmplitude: 20 }, fw2, DEFAULT_LIMITS);
+    expect(r.blocked).toBe(false);
+    expect(r.needsConfirm).toBe(true);
+    expect(r.violations.map(v => v.severity)).toContain("confirm");
+  });
+
+  it("blocks settings past the block limits", () => {
+    const r = evaluateStim({ ...SAFE, stimAmplitude: 40 }, fw2, DEFAULT_LIMITS);
+    expect(r.blocked).toBe(true);
+    expect(r.needsConfirm).toBe(false);
+  });
+
+  it("blocks values the firmware can't represent, whatever the limits", () => {
+    const r = evaluateStim({ ...SAFE, stimAmplitude: 40 }, fw1, { ...DEFAULT_LIMITS, block: {}, confirm: {} });
+    expect(r.blocked).toBe(true);
+    expect(r.violations[0].message).toMatch(/firmware accepts/);
+  });
+
+  it("flags POT against the amplitude limits at full scale", () => {
+    const r = evaluateStim({ ...SAFE, stimAmplitude: 0xffff }, fw2, DEFAULT_LIMITS);
+    expect(r.blocked).toBe(true);
+    expect(r.violations.some(v => v.message.includes("POT at full scale"))).toBe(true);
+  });
+
+  it("doesn't hold 0 mA to the lower limits", () => {
+    const limits = { ...DEFAULT_LIMITS, block: { ...DEFAULT_LIMITS.block, amplitudeMa: { min: 2, max: 30 }, chargePerPulseUc: { min: 0.1 } } };
+    expect(evaluateStim({ ...SAFE, stimAmplitude: 0 }, fw2, limits).violations).toEqual([]);
+    expect(evaluateStim({ ...SAFE, stimAmplitude: 1 }, fw2, limits).blocked).toBe(true);
+  });
+});
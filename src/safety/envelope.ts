@@ -0,0 +1,204 @@
+// src/safety/envelope.ts
+//
+// Software-side stimulation limits. Every stimulation write is checked here
+// first: firmware ranges and lab "block" limits refuse the write outright,
+// lab "confirm" limits need an explicit operator acknowledgement.
+
+import {
+  charSpec,
+  describeRange,
+  hasChar,
+  specialValue,
+  validate,
+  type Bb01Values,
+  type FirmwareProfile,
+} from "../bb01";
+import { DEFAULT_BATTERY, type BatteryThresholds } from "../battery";
+import { DEFAULT_DOSE_CAP, type DoseCap } from "../dose";
+
+export type StimField = "stimAmplitude" | "stimFrequency" | "stimPulseWidth" | "stimDuration" | "stimNumPulses";
+export type StimParams = Pick<Bb01Values, StimField>;
+
+export const STIM_FIELDS: readonly StimField[] = [
+  "stimAmplitude", "stimFrequency", "stimPulseWidth", "stimDuration", "stimNumPulses",
+];
+
+// ================= Derived quantities =================
+export type Quantity =
+  | "amplitudeMa"
+  | "frequencyHz"
+  | "pulseWidthUs"
+  | "chargePerPulseUc"
+  | "dutyCycle"
+  | "trainMs"
+  | "trainChargeUc";
+
+export interface Derived {
+  /** Worst case: the firmware maximum when the amplitude is on the POT. */
+  amplitudeMa: number;
+  amplitudeOnPot: boolean;
+  frequencyHz: number;
+  pulseWidthUs: number;
+  chargePerPulseUc: number;
+  /** Fraction of time the output is on, 0–1. */
+  dutyCycle: number;
+  /** Infinity when neither # pulses nor duration ends the train. */
+  trainMs: number;
+  pulsesPerTrain: number;
+  trainChargeUc: number;
+}
+
+export const QUANTITY_INFO: Record<Quantity, { label: string; unit: string; fields: StimField[] }> = {
+  amplitudeMa:      { label: "Amplitude",         unit: "mA", fields: ["stimAmplitude"] },
+  frequencyHz:      { label: "Frequency",         unit: "Hz", fields: ["stimFrequency"] },
+  pulseWidthUs:     { label: "Pulse width",       unit: "µs", fields: ["stimPulseWidth"] },
+  chargePerPulseUc: { label: "Charge per pulse",  unit: "µC", fields: ["stimAmplitude", "stimPulseWidth"] },
+  dutyCycle:        { label: "Duty cycle",        unit: "%",  fields: ["stimFrequency", "stimPulseWidth"] },
+  trainMs:          { label: "Train length",      unit: "ms", fields: ["stimDuration", "stimNumPulses", "stimFrequency"] },
+  trainChargeUc:    { label: "Charge per train",  unit: "µC", fields: ["stimAmplitude", "stimPulseWidth", "stimNumPulses", "stimDuration"] },
+};
+
+export const deriveStim = (p: StimParams, fw: FirmwareProfile): Derived => {
+  const ampSpec = charSpec(fw, "stimAmplitude");
+  const amplitudeOnPot = p.stimAmplitude === specialValue(ampSpec, "POT");
+  const amplitudeMa = amplitudeOnPot ? ampSpec.max ?? 0 : p.stimAmplitude;
+  const frequencyHz = p.stimFrequency;
+  const pulseWidthUs = p.stimPulseWidth;
+
+  // mA × µs = nC
+  const chargePerPulseUc = (amplitudeMa * pulseWidthUs) / 1000;
+  const dutyCycle = frequencyHz * pulseWidthUs * 1e-6;
+
+  const limits: number[] = [];
+  const pulsesInfinite = p.stimNumPulses === specialValue(charSpec(fw, "stimNumPulses"), "∞");
+  if (!pulsesInfinite && frequencyHz > 0) limits.push((p.stimNumPulses / frequencyHz) * 1000);
+  if (hasChar(fw, "stimDuration")) {
+    const durSpec = charSpec(fw, "stimDuration");
+    // 0 means "no duration limit"; 0xFF gates on the EMG signal, so it's unbounded too
+    if (p.stimDuration > 0 && !durSpec.special?.[p.stimDuration]) limits.push(p.stimDuration * 100);
+  }
+  const trainMs = limits.length ? Math.min(...limits) : Infinity;
+  const pulsesPerTrain = Number.isFinite(trainMs) ? Math.floor((trainMs / 1000) * frequencyHz) : Infinity;
+
+  return {
+    amplitudeMa,
+    amplitudeOnPot,
+    frequencyHz,
+    pulseWidthUs,
+    chargePerPulseUc,
+    dutyCycle,
+    trainMs,
+    pulsesPerTrain,
+    trainChargeUc: chargePerPulseUc * pulsesPerTrain,
+  };
+};
+
+// ================= Limits =================
+export interface Bound {
+  min?: number;
+  max?: number;
+}
+
+export interface SafetyLimits {
+  labName: string;
+  /** Refused outright. */
+  block: Partial<Record<Quantity, Bound>>;
+  /** Allowed only after explicit confirmation. */
+  confirm: Partial<Record<Quantity, Bound>>;
+  /** Low-battery alerts and the level below which stimulation stops. */
+  battery: BatteryThresholds;
+  /** Most stimulation one participant session may receive. */
+  dose: DoseCap;
+}
+
+// Conservative starting point for surface stimulation on human participants.
+// Labs are expected to replace these with the values from their protocol.
+export const DEFAULT_LIMITS: SafetyLimits = {
+  labName: "Default",
+  block: {
+    amplitudeMa:      { max: 30 },
+    frequencyHz:      { min: 1, max: 100 },
+    pulseWidthUs:     { min: 50, max: 1000 },
+    chargePerPulseUc: { max: 20 },
+    dutyCycle:        { max: 0.5 },
+  },
+  confirm: {
+    amplitudeMa:      { max: 15 },
+    chargePerPulseUc: { max: 7.5 },
+    dutyCycle:        { max: 0.1 },
+    trainMs:          { max: 10_000 },
+    trainChargeUc:    { max: 2_000 },
+  },
+  battery: DEFAULT_BATTERY,
+  dose: DEFAULT_DOSE_CAP,
+};
+
+// ================= Evaluation =================
+export type Severity = "block" | "confirm";
+
+export interface Violation {
+  severity: Severity;
+  /** Fields the operator should look at; the message is shown next to each. */
+  fields: StimField[];
+  message: string;
+}
+
+export interface SafetyReport {
+  derived: Derived;
+  violations: Violation[];
+  blocked: boolean;
+  needsConfirm: boolean;
+}
+
+export const fmtQuantity = (q: Quantity, v: number) => {
+  if (!Number.isFinite(v)) return "∞";
+  if (q === "dutyCycle") return `${+(v * 100).toFixed(2)} %`;
+  return `${+v.toFixed(2)} ${QUANTITY_INFO[q].unit}`;
+};
+
+const checkBounds = (d: Derived, limits: Partial<Record<Quantity, Bound>>, severity: Severity) => {
+  const out: Violation[] = [];
+  for (const [q, b] of Object.entries(limits) as [Quantity, Bound][]) {
+    const v = d[q];
+    const { label, fields } = QUANTITY_INFO[q];
+    const pot = d.amplitudeOnPot && QUANTITY_INFO[q].fields.includes("stimAmplitude") ? " (POT at full scale)" : "";
+    // Lower bounds keep stimulation effective; 0 mA (a sham) isn't stimulation at all
+    const off = d.amplitudeMa === 0 && QUANTITY_INFO[q].fields.includes("stimAmplitude");
+    if (b.max !== undefined && v > b.max) {
+      out.push({ severity, fields, message: `${label} ${fmtQuantity(q, v)}${pot} exceeds ${severity} limit ${fmtQuantity(q, b.max)}` });
+    }
+    if (b.min !== undefined && v < b.min && !off) {
+      out.push({ severity, fields, message: `${label} ${fmtQuantity(q, v)} is below ${severity} limit ${fmtQuantity(q, b.min)}` });
+    }
+  }
+  return out;
+};
+
+export const evaluateStim = (p: StimParams, fw: FirmwareProfile, limits: SafetyLimits): SafetyReport => {
+  // Firmware ranges first – a value the device can't represent is always a block.
+  const violations: Violation[] = [];
+  for (const f of STIM_FIELDS) {
+    if (!hasChar(fw, f)) continue;
+    const spec = charSpec(fw, f);
+    const err = validate(spec, p[f]);
+    if (err) violations.push({ severity: "block", fields: [f], message: `${err} (firmware accepts ${describeRange(spec)})` });
+  }
+
+  const derived = deriveStim(p, fw);
+  violations.push(...checkBounds(derived, limits.block, "block"));
+  violations.push(...checkBounds(derived, limits.confirm, "confirm"));
+
+  const blocked = violations.some(v => v.severity === "block");
+  return {
+    derived,
+    violations,
+    blocked,
+    needsConfirm: !blocked && violations.length > 0,
+  };
+};
+
+/** Violations that concern one field, worst first. */
+export const violationsFor = (report: SafetyReport, field: StimField) =>
+  report.violations
+    .filter(v => v.fields.includes(field))
+    .sort((a, b) => (a.severity === b.severity ? 0 : a.severity === "block" ? -1 : 1));
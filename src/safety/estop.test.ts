@@ -0,0 +1,124 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { DeviceManager } from "../devices";
+import { createQueuedTransport, type HhiTransport } from "../transport";
+import { addFake } from "../transport/fake";
+import { EmergencyStop, isStimWrite, isStopWrite, StopLatchedError } from ".";
+
+// A decorator outside the e-stop guard that refuses every write while `refusing`
+const outerLayer = (t: HhiTransport, refusing: () => boolean): HhiTransport => ({
+  ...t,
+  write: async (service, characteristic, value) => {
+    if (refusing()) throw new Error("refused above the guard");
+    return t.write(service, characteristic, value);
+  },
+});
+
+const setup = (firmware: "fw1" | "fw2" = "fw2") => {
+  const manager = new DeviceManager();
+  const log: string[] = [];
+  const estop = new EmergencyStop(manager, m => log.push(m));
+  let refusing = false;
+  const fake = addFake(manager, firmware, t =>
+    outerLayer(estop.guard(createQueuedTransport(t, { urgent: isStopWrite, supersedes: isStimWrite, retryDelayMs: 1 })), () => refusing),
+  );
+  return { manager, estop, fake, log, id: fake.t.id, refuse: (on: boolean) => (refusing = on) };
+};
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("EmergencyStop", () => {
+  it("stops every device, latches, and refuses starts until reset", async () => {
+    const { manager, estop, fake, id } = setup();
+    await manager.write(id, "triggerStimulation", 1);
+    expect(estop.armed).toBe(true);
+
+    await estop.trip("test");
+    expect(fake.writes.slice(1)).toEqual(["bb12=0", "bb03=0,0"]);
+    expect(estop.snapshot.latched?.reason).toBe("test");
+    expect(estop.armed).toBe(false);
+    await expect(manager.write(id, "triggerStimulation", 1)).rejects.toBeInstanceOf(StopLatchedError);
+
+    estop.reset();
+    await manager.write(id, "triggerStimulation", 1);
+    expect(fake.writes[fake.writes.length - 1]).toBe("bb12=1");
+  });
+
+  it("sets the amplitude to 0 on firmware without a stop command, and keeps it there until reset", async () => {
+    const { manager, estop, fake, id } = setup("fw1");
+    await estop.trip("test");
+    expect(fake.writes).toEqual(["bb03=0"]);
+    await expect(manager.write(id, "stimAmplitude", 10)).rejects.toBeInstanceOf(StopLatchedError);
+    await manager.write(id, "stimAmplitude", 0);
+    await manager.write(id, "stimFrequency", 30);
+    estop.reset();
+    await manager.write(id, "stimAmplitude", 10);
+    expect(fake.writes).toEqual(["bb03=0", "bb03=0", "bb04=30", "bb03=10"]);
+  });
+
+  it("stops one device without latching", async () => {
+    const { estop, fake, id } = setup();
+    expect(await estop.stop(id, "battery critical")).toBe(true);
+    expect(fake.writes).toEqual(["bb12=0", "bb03=0,0"]);
+    expect(estop.snapshot.latched).toBeNull();
+  });
+
+  it("retries a stop refused by a layer above the guard until it lands", async () => {
+    vi.useFakeTimers();
+    const { estop, fake, refuse } = setup();
+    refuse(true);
+    await estop.trip("test");
+    expect(fake.writes).toEqual([]);
+    expect(estop.snapshot.failures).toMatchObject([{ attempts: 1, level: "warning", resolved: false }]);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(estop.snapshot.failures).toMatchObject([{ attempts: 2 }]);
+
+    refuse(false);
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(fake.writes).toEqual(["bb12=0", "bb03=0,0"]);
+    expect(estop.snapshot.failures).toMatchObject([{ resolved: true }]);
+  });
+
+  it("reports a stop that fails below the guard once, not again from above", async () => {
+    vi.useFakeTimers();
+    const { estop, fake, log } = setup();
+    fake.failing = new DOMException("gone", "NotSupportedError");
+    await estop.trip("test");
+    expect(estop.snapshot.failures).toMatchObject([{ attempts: 1 }]);
+    // one line per failed write (0xBB12 and amplitude), none repeated from stopDevice
+    expect(log.filter(m => m.includes("stop failed"))).toHaveLength(2);
+  });
+
+  it("escalates to an alarm that needs acknowledging", async () => {
+    vi.useFakeTimers();
+    const { estop, refuse, id } = setup();
+    refuse(true);
+    await estop.trip("test");
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(estop.snapshot.failures[0].level).toBe("alarm");
+
+    estop.acknowledge(id);
+    expect(estop.snapshot.failures[0]).toMatchObject({ acknowledged: true });
+    refuse(false);
+    await vi.advanceTimersByTimeAsync(10_000);
+    // acknowledged and landed – nothing left to show
+    expect(estop.snapshot.failures).toEqual([]);
+  });
+
+  it("cancels a start still queued behind the write in flight", async () => {
+    const manager = new DeviceManager();
+    const estop = new EmergencyStop(manager, () => {});
+    const fake = addFake(manager, "fw2", t => estop.guard(createQueuedTransport(t, { urgent: isStopWrite, supersedes: isStimWrite })));
+    fake.hold = label => label.startsWith("bb02=");
+
+    const mode = manager.write(fake.t.id, "operatingMode", 3);
+    const start = manager.write(fake.t.id, "triggerStimulation", 1);
+    const tripped = estop.trip("test");
+    await expect(start).rejects.toThrow(/cancelled/);
+    await fake.release();
+    await Promise.all([mode, tripped]);
+    expect(fake.sent).toEqual(["bb02=3", "bb12=0", "bb03=0,0"]);
+  });
+});
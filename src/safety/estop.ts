@@ -0,0 +1,289 @@
+// src/safety/estop.ts
+//
+// Emergency stop and stimulation watchdog. A stop sends 0xBB12 = 0 (where the
+// firmware has a stop command) and amplitude 0 to every connected device, then
+// latches: starts and amplitudes above 0 are refused until the operator
+// resets it – on fw1, 0 mA is all that holds a stop. Every transport is
+// wrapped with `guard`, so a stop write that fails anywhere in the app –
+// panel, protocol, script – is retried here with escalating alerts until it
+// lands and the operator has acknowledged it.
+
+import {
+  charSpec,
+  FIRMWARE_PROFILES,
+  hasChar,
+  hasStopCommand,
+  HHI_SERVICE_UUID,
+  LATEST_FIRMWARE,
+} from "../bb01";
+import type { DeviceEntry, DeviceManager } from "../devices";
+import type { GattUuid, HhiTransport } from "../transport";
+
+// Same UUIDs in every firmware layout; only the width differs
+const TRIGGER_UUID   = charSpec(FIRMWARE_PROFILES[LATEST_FIRMWARE], "triggerStimulation").uuid;
+const AMPLITUDE_UUID = charSpec(FIRMWARE_PROFILES[LATEST_FIRMWARE], "stimAmplitude").uuid;
+const STIM_SETTING_UUIDS = (["stimAmplitude", "stimFrequency", "stimPulseWidth", "stimDuration", "stimNumPulses"] as const)
+  .map(k => charSpec(FIRMWARE_PROFILES[LATEST_FIRMWARE], k).uuid as GattUuid);
+
+/** 0xBB12 = 0 or amplitude 0 – writes that make a device safe. */
+export const isStopWrite = (service: GattUuid, characteristic: GattUuid, value: Uint8Array) =>
+  service === HHI_SERVICE_UUID &&
+  (characteristic === TRIGGER_UUID || characteristic === AMPLITUDE_UUID) &&
+  value.every(b => b === 0);
+
+/** 0xBB12 with anything but 0 – a stimulation start. */
+export const isStartWrite = (service: GattUuid, characteristic: GattUuid, value: Uint8Array) =>
+  service === HHI_SERVICE_UUID && characteristic === TRIGGER_UUID && value.some(b => b !== 0);
+
+/** 0xBB03 with anything but 0 – undoes a stop on firmware without a stop command. */
+const isAmplitudeRaise = (service: GattUuid, characteristic: GattUuid, value: Uint8Array) =>
+  service === HHI_SERVICE_UUID && characteristic === AMPLITUDE_UUID && value.some(b => b !== 0);
+
+/** A start, or a stimulation setting other than a stop – what a queued stop cancels. */
+export const isStimWrite = (service: GattUuid, characteristic: GattUuid, value: Uint8Array) =>
+  !isStopWrite(service, characteristic, value) &&
+  (isStartWrite(service, characteristic, value) || (service === HHI_SERVICE_UUID && STIM_SETTING_UUIDS.includes(characteristic)));
+
+/** warning → error (with a beep) → alarm (modal, beeps on every retry). */
+export type AlertLevel = "warning" | "error" | "alarm";
+
+export interface StopFailure {
+  deviceId: string;
+  name: string;
+  error: string;
+  attempts: number;
+  since: number;
+  level: AlertLevel;
+  acknowledged: boolean;
+  /** The device went away before a stop landed. */
+  lost: boolean;
+  /** The stop has landed since; the alert stays until acknowledged. */
+  resolved: boolean;
+}
+
+export interface EstopState {
+  /** Set from the stop until the operator resets it. */
+  latched: { at: number; reason: string } | null;
+  failures: StopFailure[];
+}
+
+export class StopLatchedError extends Error {
+  constructor(reason: string) {
+    super(`Emergency stop engaged (${reason}) – reset it to stimulate again`);
+    this.name = "StopLatchedError";
+  }
+}
+
+// Retry n (1-based) after 1 s doubling up to 10 s
+const retryDelayMs = (n: number) => Math.min(10_000, 1000 * 2 ** (n - 1));
+const levelFor = (attempts: number): AlertLevel => (attempts >= 6 ? "alarm" : attempts >= 3 ? "error" : "warning");
+
+export class EmergencyStop {
+  private state: EstopState = { latched: null, failures: [] };
+  private readonly listeners = new Set<(s: EstopState) => void>();
+  private readonly retryTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  /** Devices told to start and not known to have stopped since. */
+  private readonly started = new Set<string>();
+  /** Protocol and experiment runs in progress. */
+  private readonly runs = new Set<object>();
+  /** Devices the retry loop is writing to right now. */
+  private readonly retrying = new Set<string>();
+  /** Stop errors the guard has handed to the retry loop already. */
+  private readonly reported = new WeakSet<object>();
+
+  constructor(
+    private readonly manager: DeviceManager,
+    private readonly log: (m: string) => void,
+  ) {}
+
+  get snapshot() {
+    return this.state;
+  }
+
+  /** Something may be stimulating – what the page-hidden / closing watchdog looks at. */
+  get armed() {
+    return this.started.size > 0 || this.runs.size > 0;
+  }
+
+  /** Marks a run as active until the returned function is called. */
+  hold(): () => void {
+    const token = {};
+    this.runs.add(token);
+    return () => void this.runs.delete(token);
+  }
+
+  /** Stops every connected device and latches. Never throws. */
+  async trip(reason: string) {
+    if (!this.state.latched) this.patch({ latched: { at: Date.now(), reason } });
+    this.log(`EMERGENCY STOP: ${reason}`);
+    await Promise.all(this.manager.list.map(d => this.stopDevice(d)));
+  }
+
+  /** Stops one device without latching; a failed stop is retried and alarmed like any other. */
+  async stop(deviceId: string, reason: string) {
+    const d = this.manager.get(deviceId);
+    if (!d) return false;
+    this.log(`${d.transport.name}: stopping – ${reason}`);
+    return this.stopDevice(d);
+  }
+
+  reset() {
+    if (!this.state.latched) return;
+    this.log("Emergency stop reset");
+    this.patch({ latched: null });
+  }
+
+  acknowledge(deviceId: string) {
+    const f = this.state.failures.find(x => x.deviceId === deviceId);
+    if (!f) return;
+    const done = f.lost || f.resolved;
+    this.log(`${f.name}: stop failure acknowledged${done ? "" : " – still retrying"}`);
+    this.setFailures(
+      done ? this.state.failures.filter(x => x !== f) : this.state.failures.map(x => (x === f ? { ...x, acknowledged: true } : x)),
+    );
+  }
+
+  subscribe(listener: (s: EstopState) => void) {
+    this.listeners.add(listener);
+    return () => void this.listeners.delete(listener);
+  }
+
+  /**
+   * Wraps a transport: starts and non-zero amplitudes are refused while
+   * latched, successful stops and 0xBB12 = 0 notifications clear the device's
+   * started flag, and a stop that fails hands the device to the retry loop.
+   */
+  guard(t: HhiTransport): HhiTransport {
+    return {
+      ...t,
+      isConnected: () => t.isConnected(),
+      connect: () => t.connect(),
+      disconnect: () => t.disconnect(),
+      onDisconnect: h => t.onDisconnect(h),
+
+      write: async (service, characteristic, value) => {
+        const latched = this.state.latched;
+        if (latched && (isStartWrite(service, characteristic, value) || isAmplitudeRaise(service, characteristic, value))) {
+          throw new StopLatchedError(latched.reason);
+        }
+        try {
+          await t.write(service, characteristic, value);
+        } catch (e) {
+          if (isStopWrite(service, characteristic, value)) {
+            this.stopFailed(t.id, e);
+            if (e instanceof Object) this.reported.add(e);
+          }
+          throw e;
+        }
+        if (isStartWrite(service, characteristic, value)) this.started.add(t.id);
+        else if (isStopWrite(service, characteristic, value) && characteristic === TRIGGER_UUID) this.started.delete(t.id);
+      },
+
+      subscribe: (service, characteristic, handler) =>
+        t.subscribe(service, characteristic, dv => {
+          if (service === HHI_SERVICE_UUID && characteristic === TRIGGER_UUID && dv.byteLength && dv.getUint8(0) === 0) {
+            this.started.delete(t.id);
+          }
+          handler(dv);
+        }),
+    };
+  }
+
+  // ---------- stopping ----------
+  // Both writes are attempted even if the first one fails. A stop refused
+  // above the guard (lab lock, dose meter, recorder) never reached it, so it
+  // is handed to the retry loop here.
+  private async stopDevice(d: DeviceEntry): Promise<boolean> {
+    const fw = FIRMWARE_PROFILES[d.firmware];
+    let ok = true;
+    const attempt = async (write: () => Promise<void>) => {
+      try {
+        await write();
+      } catch (e) {
+        ok = false;
+        if (!(e instanceof Object && this.reported.has(e))) this.stopFailed(d.id, e);
+      }
+    };
+    if (hasStopCommand(fw)) await attempt(() => this.manager.write(d.id, "triggerStimulation", 0));
+    if (hasChar(fw, "stimAmplitude")) await attempt(() => this.manager.write(d.id, "stimAmplitude", 0));
+    if (ok) this.started.delete(d.id);
+    return ok;
+  }
+
+  private stopFailed(deviceId: string, e: unknown) {
+    const d = this.manager.get(deviceId);
+    const error = e instanceof Error ? e.message : String(e);
+    const prev = this.state.failures.find(x => x.deviceId === deviceId);
+    // the retry loop's own failures are counted there
+    if (this.retrying.has(deviceId)) {
+      if (prev) this.upsert({ ...prev, error });
+      return;
+    }
+    const f: StopFailure = prev
+      ? { ...prev, error, acknowledged: false, resolved: false }
+      : {
+          deviceId,
+          name: d?.transport.name ?? deviceId,
+          error,
+          attempts: 1,
+          since: Date.now(),
+          level: "warning",
+          acknowledged: false,
+          lost: false,
+          resolved: false,
+        };
+    this.log(`${f.name}: stop failed (${error}) – retrying`);
+    this.upsert(f);
+    this.scheduleRetry(deviceId);
+  }
+
+  private scheduleRetry(deviceId: string) {
+    if (this.retryTimers.has(deviceId)) return;
+    const f = this.state.failures.find(x => x.deviceId === deviceId);
+    if (!f) return;
+    const timer = setTimeout(() => void this.retry(deviceId), retryDelayMs(f.attempts));
+    this.retryTimers.set(deviceId, timer);
+  }
+
+  private async retry(deviceId: string) {
+    this.retryTimers.delete(deviceId);
+    const f = this.state.failures.find(x => x.deviceId === deviceId);
+    if (!f) return;
+    const d = this.manager.get(deviceId);
+    if (!d) {
+      this.log(`${f.name}: device gone before the stop landed`);
+      this.upsert({ ...f, lost: true, level: "alarm", acknowledged: false });
+      return;
+    }
+    this.retrying.add(deviceId);
+    const ok = await this.stopDevice(d).finally(() => this.retrying.delete(deviceId));
+    const cur = this.state.failures.find(x => x.deviceId === deviceId);
+    if (!cur) return;
+    if (ok) {
+      this.log(`${cur.name}: stop landed after ${cur.attempts + 1} attempts`);
+      if (cur.acknowledged) this.setFailures(this.state.failures.filter(x => x !== cur));
+      else this.upsert({ ...cur, resolved: true });
+      return;
+    }
+    const attempts = cur.attempts + 1;
+    const level = levelFor(attempts);
+    // a new level needs a new acknowledgement
+    this.upsert({ ...cur, attempts, level, acknowledged: cur.acknowledged && level === cur.level });
+    this.scheduleRetry(deviceId);
+  }
+
+  // ---------- state ----------
+  private upsert(f: StopFailure) {
+    const rest = this.state.failures.filter(x => x.deviceId !== f.deviceId);
+    this.setFailures([...rest, f]);
+  }
+
+  private setFailures(failures: StopFailure[]) {
+    this.patch({ failures });
+  }
+
+  private patch(p: Partial<EstopState>) {
+    this.state = { ...this.state, ...p };
+    this.listeners.forEach(l => l(this.state));
+  }
+}
@@ -0,0 +1,7 @@
+// src/safety/index.ts
+export * from "./envelope";
+export * from "./train";
+export * from "./storage";
+export * from "./estop";
+export * from "./battery";
+export * from "./limits";
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { charSpec, encode, FIRMWARE_PROFILES, type Bb01Values, type CharKey } from "../bb01";
+import type { HhiTransport } from "../transport";
+import { fakeTransport } from "../transport/fake";
+import { DEFAULT_LIMITS, LimitGuard, SafetyLimitError, stimWriteOrder, type StimParams } from ".";
+
+const fw2 = FIRMWARE_PROFILES.fw2;
+
+// 5 mA, 100 µs at 20 Hz for 1 s – inside the default block limits
+const SAFE: StimParams = { stimAmplitude: 5, stimFrequency: 20, stimPulseWidth: 100, stimDuration: 10, stimNumPulses: 0 };
+
+const send = <K extends CharKey>(t: HhiTransport, key: K, value: Bb01Values[K]) => {
+  const spec = charSpec(fw2, key);
+  return t.write(spec.service, spec.uuid, encode(spec, value));
+};
+
+// A device already holding `params`, seen through the guard
+const setup = async (params: StimParams = SAFE) => {
+  const fake = fakeTransport();
+  const limits = new LimitGuard();
+  const g = limits.guard(fake.t, () => fw2);
+  for (const [k, v] of Object.entries(params) as [keyof StimParams, number][]) await send(g, k, v);
+  fake.writes.length = 0;
+  return { fake, limits, g };
+};
+
+describe("LimitGuard", () => {
+  it("refuses a stimulation write past a block limit, whoever sends it", async () => {
+    const { fake, g } = await setup();
+    await expect(send(g, "stimAmplitude", 35)).rejects.toBeInstanceOf(SafetyLimitError);
+    // 30 mA × 1000 µs = 30 µC per pulse
+    await send(g, "stimAmplitude", 30);
+    await expect(send(g, "stimPulseWidth", 1000)).rejects.toThrow(/Charge per pulse/);
+    expect(fake.writes).toEqual(["bb03=30,0"]);
+  });
+
+  it("lets confirm-level values through – the callers ask for those", async () => {
+    const { fake, g } = await setup();
+    await send(g, "stimAmplitude", 20);
+    expect(fake.writes).toEqual(["bb03=20,0"]);
+  });
+
+  it("refuses a start with settings past a block limit, and never a stop", async () => {
+    const { fake, g } = await setup();
+    // the knob took over, as the device reports
+    const amp = charSpec(fw2, "stimAmplitude");
+    await g.subscribe(amp.service, amp.uuid, () => {});
+    fake.notify(amp.uuid, Uint8Array.of(0xff, 0xff));
+    await expect(send(g, "triggerStimulation", 1)).rejects.toThrow(/POT at full scale/);
+    // writes that don't involve the amplitude still go out
+    await send(g, "stimFrequency", 30);
+    await send(g, "triggerStimulation", 0);
+    await send(g, "stimAmplitude", 0);
+    expect(fake.writes).toEqual(["bb04=30", "bb12=0", "bb03=0,0"]);
+  });
+
+  it("reads settings it hasn't seen before judging a write", async () => {
+    const fake = fakeTransport();
+    fake.readValue = Uint8Array.of(40, 0);
+    const g = new LimitGuard().guard(fake.t, () => fw2);
+    await expect(send(g, "triggerStimulation", 1)).rejects.toBeInstanceOf(SafetyLimitError);
+    expect(fake.writes).toEqual([]);
+  });
+
+  it("follows the limits it was given", async () => {
+    const { limits, g } = await setup();
+    limits.setLimits({ ...DEFAULT_LIMITS, block: { ...DEFAULT_LIMITS.block, amplitudeMa: { max: 4 } } });
+    await expect(send(g, "triggerStimulation", 1)).rejects.toBeInstanceOf(SafetyLimitError);
+    await send(g, "stimAmplitude", 4);
+    await send(g, "triggerStimulation", 1);
+  });
+});
+
+describe("stimWriteOrder", () => {
+  it("writes lowered values before raised ones", () => {
+    const order = stimWriteOrder([["stimAmplitude", 30], ["stimPulseWidth", 100], ["operatingMode", 3]] as const, {
+      stimAmplitude: 10,
+      stimPulseWidth: 1000,
+    });
+    expect(order.map(([k]) => k)).toEqual(["stimPulseWidth", "operatingMode", "stimAmplitude"]);
+  });
+
+  it("counts 0 pulses as the longest train", () => {
+    const order = stimWriteOrder([["stimNumPulses", 0], ["stimFrequency", 10]] as const, { stimNumPulses: 20, stimFrequency: 50 });
+    expect(order.map(([k]) => k)).toEqual(["stimFrequency", "stimNumPulses"]);
+  });
+});
@@ -0,0 +1,137 @@
+// src/safety/limits.ts
+//
+// The safety limits enforced in the transport. The form, the runners and the
+// script API check a whole parameter set, asking for confirmation where the
+// limits say so; this guard sits under all of them, so a write from the GATT
+// inspector, pairing or anywhere else that would take the device past a
+// block limit – or a start with settings past one – never reaches it.
+
+import {
+  decode,
+  hasChar,
+  HHI_SERVICE_UUID,
+  readChar,
+  specByUuid,
+  type CharKey,
+  type FirmwareProfile,
+} from "../bb01";
+import type { GattUuid, HhiTransport } from "../transport";
+import { DEFAULT_LIMITS, evaluateStim, STIM_FIELDS, type SafetyLimits, type StimField, type StimParams } from "./envelope";
+import { isStartWrite, isStopWrite } from "./estop";
+
+export class SafetyLimitError extends Error {
+  constructor(message: string) {
+    super(`Blocked by safety limits: ${message}`);
+    this.name = "SafetyLimitError";
+  }
+}
+
+const isStimField = (k: CharKey): k is StimField => (STIM_FIELDS as readonly string[]).includes(k);
+
+// 0 pulses and 0 duration mean "until stopped" – the longest train, not the shortest
+const size = (key: CharKey, value: unknown) =>
+  (key === "stimNumPulses" || key === "stimDuration") && value === 0 ? Infinity : Number(value);
+
+/**
+ * Orders writes so every stimulation value that goes down is written before
+ * any that goes up. The sets the device passes through on the way then never
+ * exceed the new one, and the guard doesn't refuse a change halfway.
+ */
+export const stimWriteOrder = <W extends readonly [CharKey, unknown]>(
+  writes: readonly W[],
+  current: Partial<Record<CharKey, unknown>>,
+): W[] => {
+  const rises = ([k, v]: W) => isStimField(k) && (current[k] === undefined || size(k, v) > size(k, current[k]));
+  return [...writes].sort((a, b) => Number(rises(a)) - Number(rises(b)));
+};
+
+export class LimitGuard {
+  private limits: SafetyLimits = DEFAULT_LIMITS;
+  /** Stimulation settings per device, as reads, writes and notifications showed them. */
+  private readonly params = new Map<string, Partial<StimParams>>();
+
+  /** The limits in force – the lab's own, tightened by a locked lab profile. */
+  setLimits(limits: SafetyLimits) {
+    this.limits = limits;
+  }
+
+  /**
+   * Wraps a transport: a stimulation write is refused when the resulting set
+   * breaks a block limit that field takes part in, and a start when the
+   * current set breaks any. Stops and 0 mA always pass; confirm limits are
+   * left to the callers, which ask the operator.
+   */
+  guard(t: HhiTransport, fw: () => FirmwareProfile): HhiTransport {
+    const known = () => {
+      let p = this.params.get(t.id);
+      if (!p) this.params.set(t.id, (p = {}));
+      return p;
+    };
+    const seen = (service: GattUuid, characteristic: GattUuid, dv: DataView) => {
+      const spec = specByUuid(fw(), service, characteristic);
+      if (!spec || !isStimField(spec.key)) return;
+      try {
+        known()[spec.key] = decode(spec, dv) as number;
+      } catch {
+        // too short for this layout – nothing learned
+      }
+    };
+    // Settings nothing has shown yet are read from the device
+    const current = async (profile: FirmwareProfile): Promise<StimParams> => {
+      const p = known();
+      for (const f of STIM_FIELDS) p[f] ??= hasChar(profile, f) ? await readChar(t, profile, f) : 0;
+      return p as StimParams;
+    };
+    const check = async (service: GattUuid, characteristic: GattUuid, value: Uint8Array) => {
+      if (service !== HHI_SERVICE_UUID || isStopWrite(service, characteristic, value)) return;
+      const profile = fw();
+      const spec = specByUuid(profile, service, characteristic);
+      let p: StimParams;
+      let field: StimField | undefined;
+      if (spec && isStimField(spec.key)) {
+        let v: number;
+        try {
+          v = decode(spec, new DataView(value.buffer, value.byteOffset, value.byteLength)) as number;
+        } catch {
+          return; // malformed; the firmware refuses it
+        }
+        field = spec.key;
+        p = { ...(await current(profile)), [field]: v };
+      } else if (isStartWrite(service, characteristic, value)) {
+        p = await current(profile);
+      } else {
+        return;
+      }
+      const block = evaluateStim(p, profile, this.limits).violations.find(
+        v => v.severity === "block" && (!field || v.fields.includes(field)),
+      );
+      if (block) throw new SafetyLimitError(block.message);
+    };
+
+    return {
+      ...t,
+      isConnected: () => t.isConnected(),
+      connect: () => t.connect(),
+      disconnect: () => t.disconnect(),
+      onDisconnect: h => t.onDisconnect(h),
+
+      read: async (service, characteristic) => {
+        const dv = await t.read(service, characteristic);
+        seen(service, characteristic, dv);
+        return dv;
+      },
+
+      write: async (service, characteristic, value) => {
+        await check(service, characteristic, value);
+        await t.write(service, characteristic, value);
+        seen(service, characteristic, new DataView(value.buffer, value.byteOffset, value.byteLength));
+      },
+
+      subscribe: (service, characteristic, handler) =>
+        t.subscribe(service, characteristic, dv => {
+          seen(service, characteristic, dv);
+          handler(dv);
+        }),
+    };
+  }
+}
@@ -0,0 +1,25 @@
+// src/safety/storage.ts
+import { DEFAULT_LIMITS, type SafetyLimits } from "./envelope";
+
+const KEY = "hhi.safetyLimits";
+
+export const loadLimits = (): SafetyLimits => {
+  try {
+    const raw = localStorage.getItem(KEY);
+    if (!raw) return DEFAULT_LIMITS;
+    const parsed = JSON.parse(raw) as Partial<SafetyLimits>;
+    return {
+      labName: parsed.labName ?? DEFAULT_LIMITS.labName,
+      block: parsed.block ?? DEFAULT_LIMITS.block,
+      confirm: parsed.confirm ?? DEFAULT_LIMITS.confirm,
+      // saved before battery thresholds existed
+      battery: { ...DEFAULT_LIMITS.battery, ...parsed.battery },
+      dose: parsed.dose ?? DEFAULT_LIMITS.dose,
+    };
+  } catch {
+    return DEFAULT_LIMITS;
+  }
+};
+
+export const saveLimits = (limits: SafetyLimits) =>
+  localStorage.setItem(KEY, JSON.stringify(limits));
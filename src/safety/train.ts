@@ -0,0 +1,74 @@
+// src/safety/train.ts
+//
+// What a Mode 3 parameter set actually produces over time: pulse spacing, how
+// long the train runs and which setting cuts it off. Built on deriveStim so
+// the waveform preview and the safety check never disagree.
+
+import { charSpec, hasChar, specialValue, type FirmwareProfile } from "../bb01";
+import { deriveStim, type StimParams } from "./envelope";
+
+/**
+ * What ends the train: the pulse count, the duration, the EMG signal dropping
+ * below threshold (duration 0xFF), or nothing but a Stop command.
+ */
+export type TrainEnd = "pulses" | "duration" | "threshold" | "stop";
+
+export interface PulseTrain {
+  amplitudeMa: number;
+  amplitudeOnPot: boolean;
+  /** Full scale of the amplitude setting – what the POT can reach. */
+  amplitudeMaxMa: number;
+  pulseWidthUs: number;
+  /** Onset to onset. */
+  periodMs: number;
+  /** Output off between two pulses. */
+  gapMs: number;
+  pulsesInfinite: boolean;
+  /** Duration 0xFF: the train runs only while EMG stays above threshold. */
+  gated: boolean;
+  /** Train length if only # pulses applied; Infinity for ∞. */
+  byPulsesMs: number;
+  /** Train length if only the duration applied; Infinity when unlimited or gated. */
+  byDurationMs: number;
+  trainMs: number;
+  pulses: number;
+  endsBy: TrainEnd;
+}
+
+export const describeTrain = (p: StimParams, fw: FirmwareProfile): PulseTrain => {
+  const d = deriveStim(p, fw);
+  const periodMs = d.frequencyHz > 0 ? 1000 / d.frequencyHz : Infinity;
+
+  const pulsesInfinite = p.stimNumPulses === specialValue(charSpec(fw, "stimNumPulses"), "∞");
+  const byPulsesMs = pulsesInfinite ? Infinity : p.stimNumPulses * periodMs;
+
+  let gated = false;
+  let byDurationMs = Infinity;
+  if (hasChar(fw, "stimDuration")) {
+    const durSpec = charSpec(fw, "stimDuration");
+    gated = p.stimDuration === specialValue(durSpec, "while > threshold");
+    if (p.stimDuration > 0 && !durSpec.special?.[p.stimDuration]) byDurationMs = p.stimDuration * 100;
+  }
+
+  const endsBy: TrainEnd =
+    Number.isFinite(byPulsesMs) && byPulsesMs <= byDurationMs ? "pulses"
+      : Number.isFinite(byDurationMs) ? "duration"
+      : gated ? "threshold"
+      : "stop";
+
+  return {
+    amplitudeMa: d.amplitudeMa,
+    amplitudeOnPot: d.amplitudeOnPot,
+    amplitudeMaxMa: charSpec(fw, "stimAmplitude").max ?? d.amplitudeMa,
+    pulseWidthUs: d.pulseWidthUs,
+    periodMs,
+    gapMs: Math.max(0, periodMs - d.pulseWidthUs / 1000),
+    pulsesInfinite,
+    gated,
+    byPulsesMs,
+    byDurationMs,
+    trainMs: d.trainMs,
+    pulses: d.pulsesPerTrain,
+    endsBy,
+  };
+};
@@ -0,0 +1,298 @@
+// src/scripting/api.ts
+//
+// The programmatic surface over connected devices, for bench scripts in the
+// script console and for `window.hhi` in DevTools. Every call belongs to a
+// ScriptRun; stopping the run cancels pending sleeps and waits, and the run
+// always ends by switching stimulation off on every device it touched.
+
+import {
+  charSpec,
+  FIRMWARE_PROFILES,
+  hasChar,
+  hasStopCommand,
+  readChar,
+  subscribeChar,
+  type Bb01Values,
+  type CharKey,
+} from "../bb01";
+import type { DeviceEntry, DeviceManager } from "../devices";
+import { evaluateStim, STIM_FIELDS, type SafetyLimits, type StimField, type StimParams } from "../safety";
+
+/** What the API needs from the app around it. */
+export interface ScriptHost {
+  manager: DeviceManager;
+  limits: () => SafetyLimits;
+  /** Device the UI has selected – the default target. */
+  selected: () => string | null;
+  /** Opens a device the same way the Connect button does; resolves its id. */
+  connect: (sim: boolean) => Promise<string | null>;
+  log: (m: string) => void;
+}
+
+export interface DeviceInfo {
+  id: string;
+  name: string;
+  firmware: string;
+  link: string;
+}
+
+/** Device id or name; omitted = the device picked with `use()`, else the selected one. */
+export type DeviceRef = string | undefined;
+
+export interface SetOptions {
+  /** Accept values that need operator confirmation under the safety limits. */
+  confirm?: boolean;
+}
+
+export interface HhiApi {
+  /** Connected devices. */
+  devices(): DeviceInfo[];
+  /** Connects a device (`{ sim: true }` for a virtual HHI) and makes it the default. */
+  connect(opts?: { sim?: boolean }): Promise<string>;
+  /** Makes `device` the default for later calls. */
+  use(device: string): void;
+  /** Characteristic keys the device's firmware has. */
+  keys(device?: DeviceRef): CharKey[];
+  get<K extends CharKey>(key: K, device?: DeviceRef): Promise<Bb01Values[K]>;
+  /** Stimulation fields are checked against the safety limits first. */
+  set<K extends CharKey>(key: K, value: Bb01Values[K], device?: DeviceRef, opts?: SetOptions): Promise<void>;
+  /** Starts (default) or stops stimulation via 0xBB12; firmware without a stop gets 0 mA instead. */
+  trigger(on?: boolean, device?: DeviceRef): Promise<void>;
+  /** Stops stimulation on every connected device. */
+  stopAll(): Promise<void>;
+  /**
+   * Resolves with the next notification of `key` that equals `match` (or
+   * satisfies it, when a function). Rejects after `timeoutMs`.
+   */
+  waitFor<K extends CharKey>(
+    key: K,
+    match?: Bb01Values[K] | ((v: Bb01Values[K]) => boolean),
+    timeoutMs?: number,
+    device?: DeviceRef,
+  ): Promise<Bb01Values[K]>;
+  sleep(ms: number): Promise<void>;
+  log(...parts: unknown[]): void;
+}
+
+export class ScriptStopped extends Error {
+  constructor() {
+    super("Script stopped");
+    this.name = "ScriptStopped";
+  }
+}
+
+export const WAIT_TIMEOUT_MS = 10_000;
+
+const isStimField = (k: CharKey): k is StimField => (STIM_FIELDS as readonly string[]).includes(k);
+
+// ================= Run =================
+export class ScriptRun {
+  private stopped = false;
+  private readonly cancels = new Set<() => void>();
+  // Writes handed to the manager that haven't settled yet; stopping the run
+  // only rejects the script's await, the write itself carries on
+  private readonly writes = new Set<Promise<unknown>>();
+  /** Devices this run wrote to; they get a Stop when the run ends. */
+  readonly touched = new Set<string>();
+
+  get isStopped() {
+    return this.stopped;
+  }
+
+  check() {
+    if (this.stopped) throw new ScriptStopped();
+  }
+
+  /** Rejects `p` with ScriptStopped if the run stops first. */
+  guard<T>(p: Promise<T>, cleanup?: () => void): Promise<T> {
+    this.check();
+    return new Promise<T>((resolve, reject) => {
+      const cancel = () => {
+        cleanup?.();
+        reject(new ScriptStopped());
+      };
+      this.cancels.add(cancel);
+      p.then(resolve, reject).finally(() => this.cancels.delete(cancel));
+    });
+  }
+
+  /** Like `guard`, and the write is tracked until it settles. */
+  write<T>(p: Promise<T>): Promise<T> {
+    this.check();
+    const settled = p.then(
+      () => undefined,
+      () => undefined,
+    );
+    this.writes.add(settled);
+    void settled.then(() => this.writes.delete(settled));
+    return this.guard(p);
+  }
+
+  /** Waits for the run's outstanding writes; resolves true if there were any. */
+  async settle(): Promise<boolean> {
+    if (!this.writes.size) return false;
+    await Promise.all([...this.writes]);
+    return true;
+  }
+
+  stop() {
+    if (this.stopped) return;
+    this.stopped = true;
+    [...this.cancels].forEach(c => c());
+    this.cancels.clear();
+  }
+}
+
+// ================= API =================
+export const createHhiApi = (host: ScriptHost, run: ScriptRun): HhiApi => {
+  const { manager } = host;
+  let current: string | null = null;
+
+  const resolve = (ref: DeviceRef): DeviceEntry => {
+    const key = ref ?? current ?? host.selected() ?? manager.list[0]?.id;
+    const d = manager.list.find(x => x.id === key || x.transport.name === key);
+    if (!d) throw new Error(ref ? `No connected device '${ref}'` : "No device connected");
+    return d;
+  };
+  const fwOf = (d: DeviceEntry) => FIRMWARE_PROFILES[d.firmware];
+
+  // Current stimulation set with one field replaced; unknown fields are read
+  const stimWith = async (d: DeviceEntry, key: StimField, value: number): Promise<StimParams> => {
+    const fw = fwOf(d);
+    const known = d.cache.snapshot(fw, STIM_FIELDS);
+    const p = {} as StimParams;
+    for (const f of STIM_FIELDS) {
+      p[f] = f === key ? value : ((known[f] as number | undefined) ?? (hasChar(fw, f) ? await readChar(d.transport, fw, f) : 0));
+    }
+    return p;
+  };
+
+  const api: HhiApi = {
+    devices: () =>
+      manager.list.map(d => ({ id: d.id, name: d.transport.name, firmware: fwOf(d).label, link: d.link })),
+
+    connect: async ({ sim = false } = {}) => {
+      run.check();
+      const id = await run.guard(host.connect(sim));
+      if (!id) throw new Error("Connection failed or was cancelled");
+      current = id;
+      return id;
+    },
+
+    use: device => {
+      current = resolve(device).id;
+    },
+
+    keys: device => {
+      const fw = fwOf(resolve(device));
+      return (Object.keys(fw.chars) as CharKey[]).filter(k => hasChar(fw, k));
+    },
+
+    get: async (key, device) => {
+      const d = resolve(device);
+      return run.guard(readChar(d.transport, fwOf(d), key));
+    },
+
+    set: async (key, value, device, opts = {}) => {
+      const d = resolve(device);
+      run.check();
+      if (d.link !== "connected") throw new Error(`${d.transport.name} is ${d.link}`);
+      if (isStimField(key)) {
+        const report = evaluateStim(await stimWith(d, key, value as number), fwOf(d), host.limits());
+        const block = report.violations.find(v => v.severity === "block");
+        if (block) throw new Error(`Blocked by safety limits: ${block.message}`);
+        const ask = report.violations.filter(v => v.severity === "confirm");
+        if (ask.length && !opts.confirm) {
+          throw new Error(`Needs confirmation: ${ask.map(v => v.message).join("; ")} – pass { confirm: true } to accept`);
+        }
+        ask.forEach(v => host.log(`Script confirmed: ${v.message}`));
+      }
+      run.touched.add(d.id);
+      await run.write(manager.write(d.id, key, value));
+    },
+
+    trigger: async (on = true, device) => {
+      const d = resolve(device);
+      run.check();
+      if (on && d.link !== "connected") throw new Error(`${d.transport.name} is ${d.link}`);
+      const { battery } = d.status;
+      if (on && battery !== undefined && battery <= host.limits().battery.criticalPct) {
+        throw new Error(`${d.transport.name}: battery critical (${battery}%) – stimulation refused`);
+      }
+      run.touched.add(d.id);
+      if (!on && !hasStopCommand(fwOf(d))) return stimOff(host, [d.id]);
+      await run.write(manager.write(d.id, "triggerStimulation", on ? 1 : 0));
+    },
+
+    stopAll: () => stimOff(host, manager.list.map(d => d.id)),
+
+    waitFor: async (key, match, timeoutMs = WAIT_TIMEOUT_MS, device) => {
+      const d = resolve(device);
+      const fw = fwOf(d);
+      const label = charSpec(fw, key).label;
+      const test = (v: Bb01Values[typeof key]) =>
+        match === undefined || (typeof match === "function" ? (match as (x: typeof v) => boolean)(v) : v === match);
+
+      let unsub: (() => void) | null = null;
+      let finished = false;
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const done = () => {
+        finished = true;
+        clearTimeout(timer);
+        unsub?.();
+      };
+      const wait = new Promise<Bb01Values[typeof key]>((res, rej) => {
+        timer = setTimeout(() => rej(new Error(`Timed out after ${timeoutMs} ms waiting for ${label}`)), timeoutMs);
+        subscribeChar(d.transport, fw, key, v => {
+          if (test(v)) res(v);
+        }).then(u => {
+          // the wait may already be over by the time the subscription lands
+          if (finished) u();
+          else unsub = u;
+        }, rej);
+      });
+      try {
+        return await run.guard(wait, done);
+      } finally {
+        done();
+      }
+    },
+
+    sleep: ms => {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      return run.guard(new Promise<void>(r => (timer = setTimeout(r, ms))), () => clearTimeout(timer));
+    },
+
+    log: (...parts) => host.log(parts.map(p => (typeof p === "string" ? p : JSON.stringify(p))).join(" ")),
+  };
+  return api;
+};
+
+/**
+ * Sends Stop to each device in `ids`; firmware without a stop gets its
+ * amplitude set to 0 mA instead, so a running train goes quiet and the next
+ * trigger doesn't stimulate. Never throws.
+ */
+export const stimOff = async (host: ScriptHost, ids: Iterable<string>) => {
+  for (const id of ids) {
+    const d = host.manager.get(id);
+    if (!d) continue;
+    const fw = FIRMWARE_PROFILES[d.firmware];
+    try {
+      if (hasStopCommand(fw)) await host.manager.write(id, "triggerStimulation", 0);
+      else if (hasChar(fw, "stimAmplitude")) {
+        await host.manager.write(id, "stimAmplitude", 0);
+        host.log(`${d.transport.name}: ${fw.label} has no stop – amplitude set to 0 mA`);
+      }
+    } catch (e) {
+      host.log(`${d.transport.name}: stop failed: ${e}`);
+    }
+  }
+};
+
+declare global {
+  interface Window {
+    /** Scripting API for DevTools – see README "Scripting". */
+    hhi?: HhiApi;
+  }
+}
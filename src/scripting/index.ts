@@ -0,0 +1,4 @@
+// src/scripting/index.ts
+export * from "./api";
+export * from "./runner";
+export * from "./storage";
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { DeviceManager } from "../devices";
+import { DEFAULT_LIMITS } from "../safety";
+import { addFake } from "../transport/fake";
+import { startScript, type ScriptHost } from ".";
+
+const setup = (firmware: "fw1" | "fw2" = "fw2") => {
+  const manager = new DeviceManager();
+  const fake = addFake(manager, firmware);
+  const log: string[] = [];
+  const host: ScriptHost = {
+    manager,
+    limits: () => DEFAULT_LIMITS,
+    selected: () => fake.t.id,
+    connect: async () => null,
+    log: m => void log.push(m),
+  };
+  return { host, fake, log };
+};
+
+describe("startScript", () => {
+  it("runs the script and stops stimulation when it finishes", async () => {
+    const { host, fake } = setup();
+    const { done } = startScript("await hhi.trigger(); await sleep(1);", host);
+    expect(await done).toMatchObject({ ok: true, stopped: false });
+    expect(fake.writes).toEqual(["bb12=1", "bb12=0"]);
+  });
+
+  it("sends Stop when the run is stopped mid-sleep", async () => {
+    const { host, fake } = setup();
+    const { run, done } = startScript("await hhi.trigger(); await sleep(60_000);", host);
+    await new Promise(r => setTimeout(r, 10));
+    run.stop();
+    expect(await done).toMatchObject({ ok: false, stopped: true });
+    expect(fake.writes).toEqual(["bb12=1", "bb12=0"]);
+  });
+
+  it("reports a script error and still stops", async () => {
+    const { host, fake } = setup();
+    const { done } = startScript("await hhi.trigger(); throw new Error('bad');", host);
+    expect(await done).toMatchObject({ ok: false, stopped: false, error: "Error: bad" });
+    expect(fake.writes[fake.writes.length - 1]).toBe("bb12=0");
+  });
+
+  it("sets 0 mA on firmware without a stop command", async () => {
+    const { host, fake, log } = setup("fw1");
+    const { done } = startScript("await hhi.trigger(); await hhi.trigger(false);", host);
+    await done;
+    expect(fake.writes).toEqual(["bb12=1", "bb03=0", "bb03=0"]);
+    expect(log.some(m => m.includes("amplitude set to 0 mA"))).toBe(true);
+  });
+
+  it("stops again after a start that was in flight when the run stopped", async () => {
+    const { host, fake } = setup();
+    fake.hold = label => label === "bb12=1";
+    const { run, done } = startScript("await hhi.trigger();", host);
+    await new Promise(r => setTimeout(r, 10));
+    run.stop();
+    await new Promise(r => setTimeout(r, 10));
+    await fake.release();
+    expect(await done).toMatchObject({ stopped: true });
+    expect(fake.writes).toEqual(["bb12=0", "bb12=1", "bb12=0"]);
+  });
+});
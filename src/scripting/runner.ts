@@ -0,0 +1,45 @@
+// src/scripting/runner.ts
+//
+// Runs script source as the body of an async function that gets `hhi`,
+// `sleep` and `log`. Stopping rejects whatever the script is awaiting; the
+// script's own code after that point never sees another API call succeed.
+
+import { createHhiApi, ScriptRun, ScriptStopped, stimOff, type ScriptHost } from "./api";
+
+export interface ScriptResult {
+  ok: boolean;
+  stopped: boolean;
+  error?: string;
+  elapsedMs: number;
+}
+
+type AsyncFn = (...args: unknown[]) => Promise<unknown>;
+const AsyncFunction = Object.getPrototypeOf(async () => {}).constructor as new (...args: string[]) => AsyncFn;
+
+export const startScript = (source: string, host: ScriptHost) => {
+  const run = new ScriptRun();
+  const hhi = createHhiApi(host, run);
+  const t0 = performance.now();
+
+  const done = (async (): Promise<ScriptResult> => {
+    let result: Omit<ScriptResult, "elapsedMs">;
+    try {
+      const fn = new AsyncFunction("hhi", "sleep", "log", `"use strict";\n${source}`);
+      await run.guard(fn(hhi, hhi.sleep, hhi.log));
+      result = { ok: true, stopped: false };
+    } catch (e) {
+      const stopped = e instanceof ScriptStopped;
+      result = { ok: false, stopped, error: stopped ? undefined : String(e) };
+    } finally {
+      // However it ended, nothing it started keeps stimulating. The first
+      // Stop cancels starts still queued; one already on the air when the
+      // run stopped could land after it, so once those settle, stop again.
+      run.stop();
+      await stimOff(host, run.touched);
+      if (await run.settle()) await stimOff(host, run.touched);
+    }
+    return { ...result, elapsedMs: performance.now() - t0 };
+  })();
+
+  return { run, done };
+};
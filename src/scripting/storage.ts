@@ -0,0 +1,36 @@
+// src/scripting/storage.ts
+export interface SavedScript {
+  id: string;
+  name: string;
+  source: string;
+}
+
+const KEY = "hhi.scripts";
+
+export const EXAMPLE_SCRIPT: Omit<SavedScript, "id"> = {
+  name: "Frequency sweep",
+  source: `// Sweep 1–100 Hz and fire one train at each step.
+await hhi.set("operatingMode", 3);
+await hhi.set("stimNumPulses", 10);
+for (const hz of [1, 2, 5, 10, 20, 50, 100]) {
+  await hhi.set("stimFrequency", hz);
+  // listen before triggering so a short train can't end unseen
+  const ended = hhi.waitFor("triggerStimulation", 0, 15000);
+  await hhi.trigger();
+  await ended;
+  log("done at", hz, "Hz");
+  await sleep(500);
+}
+`,
+};
+
+export const loadScripts = (): SavedScript[] => {
+  try {
+    return JSON.parse(localStorage.getItem(KEY) ?? "[]") as SavedScript[];
+  } catch {
+    return [];
+  }
+};
+
+export const saveScripts = (list: SavedScript[]) =>
+  localStorage.setItem(KEY, JSON.stringify(list));
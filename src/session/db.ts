@@ -0,0 +1,80 @@
+// src/session/db.ts
+//
+// IndexedDB persistence for recorded sessions. One store for session
+// metadata, one for events indexed by session.
+
+import type { SessionEvent, SessionMeta } from "./events";
+
+const DB_NAME = "hhi-sessions";
+const DB_VERSION = 1;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      db.createObjectStore("sessions", { keyPath: "id" });
+      const events = db.createObjectStore("events", { autoIncrement: true });
+      events.createIndex("sessionId", "sessionId");
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+  return dbPromise;
+};
+
+const done = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+const result = <T>(req: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+export const putSession = async (meta: SessionMeta) => {
+  const tx = (await openDb()).transaction("sessions", "readwrite");
+  tx.objectStore("sessions").put(meta);
+  await done(tx);
+};
+
+export const addEvents = async (events: SessionEvent[]) => {
+  if (!events.length) return;
+  const tx = (await openDb()).transaction("events", "readwrite");
+  const store = tx.objectStore("events");
+  events.forEach(e => store.add(e));
+  await done(tx);
+};
+
+export const listSessions = async (): Promise<SessionMeta[]> => {
+  const tx = (await openDb()).transaction("sessions");
+  const all = await result(tx.objectStore("sessions").getAll() as IDBRequest<SessionMeta[]>);
+  return all.sort((a, b) => b.startedAt - a.startedAt);
+};
+
+export const getSession = async (id: string): Promise<SessionMeta | undefined> => {
+  const tx = (await openDb()).transaction("sessions");
+  return result(tx.objectStore("sessions").get(id) as IDBRequest<SessionMeta | undefined>);
+};
+
+export const getEvents = async (sessionId: string): Promise<SessionEvent[]> => {
+  const tx = (await openDb()).transaction("events");
+  const idx = tx.objectStore("events").index("sessionId");
+  const all = await result(idx.getAll(sessionId) as IDBRequest<SessionEvent[]>);
+  return all.sort((a, b) => a.seq - b.seq);
+};
+
+export const deleteSession = async (id: string) => {
+  const tx = (await openDb()).transaction(["sessions", "events"], "readwrite");
+  tx.objectStore("sessions").delete(id);
+  const idx = tx.objectStore("events").index("sessionId");
+  const keys = await result(idx.getAllKeys(id));
+  keys.forEach(k => tx.objectStore("events").delete(k));
+  await done(tx);
+};
@@ -0,0 +1,47 @@
+// src/session/events.ts
+import type { DoseSummary } from "../dose";
+import type { GattUuid } from "../transport";
+
+export type EventOp = "read" | "write" | "notify" | "error" | "connect" | "disconnect";
+
+export interface SessionEvent {
+  sessionId: string;
+  seq: number;
+  /** Wall-clock time in ms since the Unix epoch, sub-millisecond resolution. */
+  t: number;
+  /** Seconds since the session started. */
+  sessionT: number;
+  deviceId: string;
+  deviceName: string;
+  op: EventOp;
+  service?: GattUuid;
+  characteristic?: GattUuid;
+  /** Schema key, when the characteristic is known to the active firmware profile. */
+  key?: string;
+  label?: string;
+  /** Null when it doesn't decode, and for secrets such as the Wi-Fi password. */
+  value?: number | string | null;
+  /** Space-separated hex bytes as they went over the air; unset for secrets. */
+  raw?: string;
+  error?: string;
+}
+
+export interface SessionMeta {
+  id: string;
+  name: string;
+  startedAt: number;
+  endedAt?: number;
+  eventCount: number;
+  deviceIds: string[];
+  /** Stimulation delivered in this session, kept up to date while it records. */
+  dose?: DoseSummary;
+}
+
+// performance.now() is monotonic and sub-ms; anchoring it to timeOrigin gives
+// wall-clock times that line up with other recording systems.
+export const now = () => performance.timeOrigin + performance.now();
+
+export const toHex = (bytes: Uint8Array) =>
+  Array.from(bytes, b => b.toString(16).padStart(2, "0")).join(" ");
+
+export const dvBytes = (dv: DataView) => new Uint8Array(dv.buffer, dv.byteOffset, dv.byteLength);
@@ -0,0 +1,106 @@
+// src/session/export.ts
+//
+// Session exports: a flat CSV of every event, the full JSON, and a BIDS-style
+// events.tsv (+ sidecar) for aligning stimulation with EEG/EMG recordings.
+
+import { fmtUuid, type GattUuid } from "../transport";
+import type { SessionEvent, SessionMeta } from "./events";
+
+const hex = (u?: GattUuid) => (u === undefined ? "" : fmtUuid(u));
+
+/** One CSV field, quoted when it holds a quote, comma or newline. */
+export const csvCell = (v: unknown) => {
+  const s = v === undefined || v === null ? "" : String(v);
+  return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+};
+
+const CSV_COLUMNS = [
+  "seq", "t_unix_ms", "session_s", "device_id", "device_name", "op",
+  "service", "characteristic", "key", "label", "value", "raw", "error",
+] as const;
+
+export const toCsv = (events: SessionEvent[]) => {
+  const rows = events.map(e => [
+    e.seq, e.t.toFixed(3), e.sessionT.toFixed(6), e.deviceId, e.deviceName, e.op,
+    hex(e.service), hex(e.characteristic), e.key, e.label, e.value, e.raw, e.error,
+  ].map(csvCell).join(","));
+  return [CSV_COLUMNS.join(","), ...rows].join("\n") + "\n";
+};
+
+export const toJson = (meta: SessionMeta, events: SessionEvent[], extra: Record<string, unknown> = {}) =>
+  JSON.stringify({ session: meta, ...extra, events }, null, 2);
+
+// ================= BIDS =================
+interface BidsRow {
+  onset: number;
+  duration: number | null;
+  trial_type: string;
+  value: string | number;
+  device_id: string;
+}
+
+// Stimulation is taken from 0xBB12 notifications when the firmware sends
+// them, otherwise from the app's own trigger writes.
+export const toBidsRows = (events: SessionEvent[]): BidsRow[] => {
+  const rows: BidsRow[] = [];
+  const hasStimNotify = new Set(
+    events.filter(e => e.key === "triggerStimulation" && e.op === "notify").map(e => e.deviceId),
+  );
+  const openStim = new Map<string, BidsRow>();
+
+  for (const e of events) {
+    const isStim =
+      e.key === "triggerStimulation" &&
+      (e.op === "notify" || (e.op === "write" && !hasStimNotify.has(e.deviceId)));
+
+    if (isStim) {
+      const open = openStim.get(e.deviceId);
+      if (e.value === 1 && !open) {
+        const row: BidsRow = { onset: e.sessionT, duration: null, trial_type: "stimulation", value: 1, device_id: e.deviceId };
+        rows.push(row);
+        openStim.set(e.deviceId, row);
+      } else if (e.value === 0 && open) {
+        open.duration = e.sessionT - open.onset;
+        openStim.delete(e.deviceId);
+      }
+    } else if (e.op === "notify" && e.key === "currentStimAmplitude") {
+      rows.push({ onset: e.sessionT, duration: 0, trial_type: "amplitude_change", value: e.value ?? "n/a", device_id: e.deviceId });
+    } else if (e.op === "notify" && e.key === "batteryLevel") {
+      rows.push({ onset: e.sessionT, duration: 0, trial_type: "battery", value: e.value ?? "n/a", device_id: e.deviceId });
+    } else if (e.op === "notify" && e.key === "wifiStatus") {
+      rows.push({ onset: e.sessionT, duration: 0, trial_type: "wifi_status", value: e.value ?? "n/a", device_id: e.deviceId });
+    } else if (e.op === "connect" || e.op === "disconnect") {
+      rows.push({ onset: e.sessionT, duration: 0, trial_type: e.op, value: "n/a", device_id: e.deviceId });
+    }
+  }
+  return rows;
+};
+
+export const toBidsTsv = (events: SessionEvent[]) => {
+  const fmt = (n: number | null) => (n === null ? "n/a" : n.toFixed(6));
+  const lines = toBidsRows(events).map(r =>
+    [fmt(r.onset), fmt(r.duration), r.trial_type, r.value, r.device_id].join("\t"),
+  );
+  return ["onset\tduration\ttrial_type\tvalue\tdevice_id", ...lines].join("\n") + "\n";
+};
+
+export const bidsSidecar = (meta: SessionMeta) =>
+  JSON.stringify({
+    onset: { Description: "Seconds from session start", Units: "s" },
+    duration: { Description: "Stimulation train length; 0 for instantaneous events", Units: "s" },
+    trial_type: {
+      Description: "Event category",
+      Levels: {
+        stimulation: "0xBB12 stimulation on → off",
+        amplitude_change: "0xBB10 current stimulation amplitude (value in mA)",
+        battery: "Battery level notification (value in %)",
+        wifi_status: "0xBB0E bit-mask (bit 0 Wi-Fi, bit 1 MQTT)",
+        connect: "BLE link established",
+        disconnect: "BLE link lost",
+      },
+    },
+    device_id: { Description: "HHI BLE device identifier" },
+    SessionStartUnixMs: meta.startedAt,
+    // pulses, stimulation time (ms) and charge (µC), per device and in total
+    ...(meta.dose ? { StimulationDose: meta.dose } : {}),
+  }, null, 2);
@@ -0,0 +1,5 @@
+// src/session/index.ts
+export * from "./events";
+export * from "./db";
+export * from "./recorder";
+export * from "./export";
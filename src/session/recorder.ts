@@ -0,0 +1,174 @@
+// src/session/recorder.ts
+//
+// Records every GATT operation as a typed, timestamped event. Capture happens
+// in a transport decorator so nothing in the UI has to remember to log.
+
+import { decode, specByUuid, type FirmwareProfile } from "../bb01";
+import type { GattUuid, HhiTransport } from "../transport";
+import { addEvents, putSession } from "./db";
+import { dvBytes, now, toHex, type SessionEvent, type SessionMeta } from "./events";
+
+type Draft = Omit<SessionEvent, "sessionId" | "seq" | "t" | "sessionT">;
+
+const FLUSH_MS = 500;
+
+export class SessionRecorder {
+  private meta: SessionMeta | null = null;
+  private seq = 0;
+  private buffer: SessionEvent[] = [];
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private readonly listeners = new Set<(meta: SessionMeta | null) => void>();
+  private readonly eventListeners = new Set<(e: SessionEvent) => void>();
+
+  get current() {
+    return this.meta;
+  }
+
+  async start(name: string) {
+    await this.stop();
+    this.meta = {
+      id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+      name,
+      startedAt: now(),
+      eventCount: 0,
+      deviceIds: [],
+    };
+    this.seq = 0;
+    await putSession(this.meta);
+    this.emit();
+    return this.meta;
+  }
+
+  async stop() {
+    if (!this.meta) return;
+    const meta = { ...this.meta, endedAt: now() };
+    await this.flush();
+    this.meta = null;
+    await putSession(meta);
+    this.emit();
+  }
+
+  /** `t` defaults to now; writes pass the time they were issued, not acknowledged. */
+  record(draft: Draft, t = now()) {
+    const meta = this.meta;
+    if (!meta) return;
+    const ev: SessionEvent = { ...draft, sessionId: meta.id, seq: this.seq++, t, sessionT: (t - meta.startedAt) / 1000 };
+    meta.eventCount++;
+    if (!meta.deviceIds.includes(ev.deviceId)) meta.deviceIds.push(ev.deviceId);
+    this.buffer.push(ev);
+    this.eventListeners.forEach(l => l(ev));
+    this.flushTimer ??= setTimeout(() => void this.flush(), FLUSH_MS);
+  }
+
+  /** Attaches a running summary to the session; it is saved with the next flush. */
+  annotate(patch: Pick<SessionMeta, "dose">) {
+    if (!this.meta) return;
+    Object.assign(this.meta, patch);
+    this.flushTimer ??= setTimeout(() => void this.flush(), FLUSH_MS);
+  }
+
+  /** Fires on session start/stop and (throttled by the flush) as events arrive. */
+  subscribe(listener: (meta: SessionMeta | null) => void) {
+    this.listeners.add(listener);
+    return () => void this.listeners.delete(listener);
+  }
+
+  /** Fires synchronously for every recorded event. */
+  onEvent(listener: (e: SessionEvent) => void) {
+    this.eventListeners.add(listener);
+    return () => void this.eventListeners.delete(listener);
+  }
+
+  private async flush() {
+    if (this.flushTimer) clearTimeout(this.flushTimer);
+    this.flushTimer = null;
+    const batch = this.buffer;
+    this.buffer = [];
+    await addEvents(batch);
+    if (this.meta) await putSession(this.meta);
+    this.emit();
+  }
+
+  private emit() {
+    const snapshot = this.meta && { ...this.meta };
+    this.listeners.forEach(l => l(snapshot));
+  }
+}
+
+// ================= Transport decorator =================
+// `links` is false for a second path to a device that is already recorded,
+// so its connects and disconnects aren't logged twice.
+export const recordTransport = (
+  t: HhiTransport,
+  recorder: SessionRecorder,
+  fw: () => FirmwareProfile,
+  links = true,
+): HhiTransport => {
+  const base = { deviceId: t.id, deviceName: t.name };
+
+  const describe = (service: GattUuid, characteristic: GattUuid, bytes?: Uint8Array) => {
+    const spec = specByUuid(fw(), service, characteristic);
+    let value: number | string | null = null;
+    if (spec && bytes && !spec.secret) {
+      try {
+        value = decode(spec, new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength));
+      } catch {
+        value = null;
+      }
+    }
+    return {
+      ...base,
+      service,
+      characteristic,
+      key: spec?.key,
+      label: spec?.label,
+      value,
+      raw: bytes && !spec?.secret ? toHex(bytes) : undefined,
+    };
+  };
+
+  const failed = (op: string, service: GattUuid, characteristic: GattUuid, e: unknown, t?: number) =>
+    recorder.record({ ...describe(service, characteristic), op: "error", error: `${op}: ${e}` }, t);
+
+  if (links) t.onDisconnect(() => recorder.record({ ...base, op: "disconnect" }));
+
+  return {
+    ...t,
+    isConnected: () => t.isConnected(),
+    disconnect: () => t.disconnect(),
+    onDisconnect: h => t.onDisconnect(h),
+
+    connect: async () => {
+      await t.connect();
+      if (links) recorder.record({ ...base, op: "connect" });
+    },
+
+    read: async (service, characteristic) => {
+      try {
+        const dv = await t.read(service, characteristic);
+        recorder.record({ ...describe(service, characteristic, dvBytes(dv)), op: "read" });
+        return dv;
+      } catch (e) {
+        failed("read", service, characteristic, e);
+        throw e;
+      }
+    },
+
+    write: async (service, characteristic, value) => {
+      const issued = now();
+      try {
+        await t.write(service, characteristic, value);
+        recorder.record({ ...describe(service, characteristic, value), op: "write" }, issued);
+      } catch (e) {
+        failed("write", service, characteristic, e, issued);
+        throw e;
+      }
+    },
+
+    subscribe: (service, characteristic, handler) =>
+      t.subscribe(service, characteristic, dv => {
+        recorder.record({ ...describe(service, characteristic, dvBytes(dv)), op: "notify" });
+        handler(dv);
+      }),
+  };
+};
@@ -0,0 +1,2 @@
+// src/telemetry/index.ts
+export * from "./telemetry";
@@ -0,0 +1,79 @@
+// src/telemetry/telemetry.ts
+//
+// Rolling history of the values an HHI notifies, for the live charts. One
+// instance per device; the panel pushes into it from its notification
+// handlers and the chart reads whatever window it is showing.
+
+export type SeriesKey = "amplitude" | "emgThreshold" | "battery" | "wifi" | "mqtt";
+
+export interface Sample {
+  /** Wall-clock ms (Date.now()). */
+  t: number;
+  v: number;
+}
+
+/** Stimulation started (`on`) or stopped, from 0xBB12 or our own trigger writes. */
+export interface StimMarker {
+  t: number;
+  on: boolean;
+}
+
+export const SERIES_LABELS: Record<SeriesKey, string> = {
+  amplitude:    "Amplitude (0xBB10)",
+  emgThreshold: "EMG threshold",
+  battery:      "Battery %",
+  wifi:         "Wi-Fi",
+  mqtt:         "MQTT",
+};
+
+// About 40 min of 1 Hz notifications per series; older samples are dropped
+const MAX_SAMPLES = 2500;
+const MAX_MARKERS = 1000;
+
+export class Telemetry {
+  private readonly data: Record<SeriesKey, Sample[]> = {
+    amplitude: [], emgThreshold: [], battery: [], wifi: [], mqtt: [],
+  };
+  private _markers: StimMarker[] = [];
+
+  push(key: SeriesKey, v: number, t = Date.now()) {
+    const s = this.data[key];
+    s.push({ t, v });
+    if (s.length > MAX_SAMPLES) s.splice(0, s.length - MAX_SAMPLES);
+  }
+
+  /** Repeated starts (notification + our own write) collapse into one marker. */
+  mark(on: boolean, t = Date.now()) {
+    if (this._markers[this._markers.length - 1]?.on === on) return;
+    this._markers.push({ t, on });
+    if (this._markers.length > MAX_MARKERS) this._markers.splice(0, this._markers.length - MAX_MARKERS);
+  }
+
+  get markers(): readonly StimMarker[] {
+    return this._markers;
+  }
+
+  series(key: SeriesKey): readonly Sample[] {
+    return this.data[key];
+  }
+
+  /** Samples in [from, to] plus the one before `from`, so step lines start at the left edge. */
+  window(key: SeriesKey, from: number, to: number) {
+    const s = this.data[key];
+    let i = s.findIndex(x => x.t >= from);
+    if (i < 0) i = s.length;
+    return s.slice(Math.max(0, i - 1)).filter(x => x.t <= to);
+  }
+
+  /** Visible window as long-format CSV: one row per sample or marker. */
+  toCsv(from: number, to: number) {
+    const rows: [number, string, number][] = [];
+    for (const key of Object.keys(this.data) as SeriesKey[]) {
+      for (const x of this.data[key]) if (x.t >= from && x.t <= to) rows.push([x.t, key, x.v]);
+    }
+    for (const m of this._markers) if (m.t >= from && m.t <= to) rows.push([m.t, "stim", m.on ? 1 : 0]);
+    rows.sort((a, b) => a[0] - b[0]);
+    return ["t_unix_ms,iso_time,series,value", ...rows.map(([t, k, v]) => `${t},${new Date(t).toISOString()},${k},${v}`)]
+      .join("\n") + "\n";
+  }
+}
@@ -0,0 +1,170 @@
+// src/transport/ble.ts
+import type { CharProp } from "../bb01";
+import type {
+  GattCharacteristicInfo,
+  GattDescriptorInfo,
+  GattProperty,
+  GattServiceInfo,
+  HhiTransport,
+  NotifyHandler,
+} from "./types";
+import { toGattUuid, type GattUuid } from "./uuid";
+
+const GATT_PROPERTIES: GattProperty[] = [
+  "broadcast",
+  "read",
+  "writeWithoutResponse",
+  "write",
+  "notify",
+  "indicate",
+  "authenticatedSignedWrites",
+  "reliableWrite",
+  "writableAuxiliaries",
+];
+
+const bytesOf = (dv: DataView) => new Uint8Array(dv.buffer.slice(dv.byteOffset, dv.byteOffset + dv.byteLength));
+
+// getCharacteristics()/getDescriptors() reject with NotFoundError when there are none
+const noneIfMissing = <T>(e: unknown): T[] => {
+  if ((e as Error)?.name === "NotFoundError") return [];
+  throw e;
+};
+
+// Wraps a BluetoothDevice picked from the browser chooser.
+export const createBleTransport = (device: BluetoothDevice): HhiTransport => {
+  const services = new Map<GattUuid, Promise<BluetoothRemoteGATTService>>();
+  // Handles are only valid for one GATT connection; both maps are cleared on drop
+  const chars = new Map<string, Promise<BluetoothRemoteGATTCharacteristic>>();
+  const disconnectHandlers = new Set<() => void>();
+  // Subscribers per characteristic; notifications are stopped when the last one leaves
+  const subscribers = new Map<BluetoothRemoteGATTCharacteristic, number>();
+
+  device.addEventListener("gattserverdisconnected", () => {
+    services.clear();
+    chars.clear();
+    subscribers.clear();
+    disconnectHandlers.forEach(h => h());
+  });
+
+  const getService = (uuid: GattUuid) => {
+    let svc = services.get(uuid);
+    if (!svc) {
+      svc = device.gatt!.getPrimaryService(uuid);
+      // don't cache failures – the service may appear after a reconnect
+      svc.catch(() => services.delete(uuid));
+      services.set(uuid, svc);
+    }
+    return svc;
+  };
+
+  const getChar = (service: GattUuid, characteristic: GattUuid) => {
+    const slot = `${service}:${characteristic}`;
+    let ch = chars.get(slot);
+    if (!ch) {
+      ch = getService(service).then(svc => svc.getCharacteristic(characteristic));
+      ch.catch(() => chars.delete(slot));
+      chars.set(slot, ch);
+    }
+    return ch;
+  };
+
+  return {
+    kind: "ble",
+    id: device.id,
+    name: device.name || "Unknown",
+
+    isConnected: () => !!device.gatt?.connected,
+
+    connect: async () => {
+      if (!device.gatt!.connected) {
+        services.clear();
+        chars.clear();
+        await device.gatt!.connect();
+      }
+    },
+
+    disconnect: () => device.gatt?.disconnect(),
+
+    read: async (service, characteristic) =>
+      (await getChar(service, characteristic)).readValue(),
+
+    write: async (service, characteristic, value) =>
+      (await getChar(service, characteristic)).writeValue(value),
+
+    properties: async (service, characteristic) => {
+      const p = (await getChar(service, characteristic)).properties;
+      const out: CharProp[] = [];
+      if (p.read) out.push("read");
+      if (p.write || p.writeWithoutResponse) out.push("write");
+      if (p.notify || p.indicate) out.push("notify");
+      return out;
+    },
+
+    // Only services named in optionalServices at the chooser are visible to the page
+    discover: async () => {
+      const out: GattServiceInfo[] = [];
+      for (const svc of await device.gatt!.getPrimaryServices()) {
+        const characteristics: GattCharacteristicInfo[] = [];
+        for (const ch of await svc.getCharacteristics().catch(noneIfMissing<BluetoothRemoteGATTCharacteristic>)) {
+          const descriptors: GattDescriptorInfo[] = [];
+          for (const d of await ch.getDescriptors().catch(noneIfMissing<BluetoothRemoteGATTDescriptor>)) {
+            try {
+              descriptors.push({ uuid: toGattUuid(d.uuid), value: bytesOf(await d.readValue()) });
+            } catch (e) {
+              // e.g. the CCCD is blocklisted for reads
+              descriptors.push({ uuid: toGattUuid(d.uuid), error: String(e) });
+            }
+          }
+          characteristics.push({
+            uuid: toGattUuid(ch.uuid),
+            properties: GATT_PROPERTIES.filter(p => ch.properties[p]),
+            descriptors,
+          });
+        }
+        out.push({ uuid: toGattUuid(svc.uuid), characteristics });
+      }
+      return out;
+    },
+
+    subscribe: async (service, characteristic, handler: NotifyHandler) => {
+      const ch = await getChar(service, characteristic);
+      const listener = (e: Event) =>
+        handler((e.target as BluetoothRemoteGATTCharacteristic).value!);
+      ch.addEventListener("characteristicvaluechanged", listener);
+      try {
+        await ch.startNotifications();
+      } catch (e) {
+        ch.removeEventListener("characteristicvaluechanged", listener);
+        throw e;
+      }
+      subscribers.set(ch, (subscribers.get(ch) ?? 0) + 1);
+      let active = true;
+      return () => {
+        if (!active) return;
+        active = false;
+        ch.removeEventListener("characteristicvaluechanged", listener);
+        const left = (subscribers.get(ch) ?? 1) - 1;
+        if (left > 0) {
+          subscribers.set(ch, left);
+          return;
+        }
+        subscribers.delete(ch);
+        if (device.gatt?.connected) void ch.stopNotifications().catch(() => {});
+      };
+    },
+
+    onDisconnect: handler => {
+      disconnectHandlers.add(handler);
+      return () => disconnectHandlers.delete(handler);
+    },
+  };
+};
+
+// Opens the browser chooser and returns a transport for the picked device.
+export const requestBleTransport = async (optionalServices: number[]) => {
+  const device = await navigator.bluetooth.requestDevice({
+    acceptAllDevices: true,
+    optionalServices,
+  });
+  return createBleTransport(device);
+};
@@ -0,0 +1,107 @@
+// src/transport/fake.ts
+//
+// Test double for HhiTransport: records every write as "bb03=5,0"
+// (characteristic in hex, then the bytes) and can hold writes in flight,
+// fail them, or push notifications. Only the tests import it.
+
+import type { FirmwareId } from "../bb01";
+import type { DeviceManager } from "../devices";
+import type { HhiTransport, NotifyHandler } from "./types";
+import type { GattUuid } from "./uuid";
+
+export interface FakeTransport {
+  readonly t: HhiTransport;
+  /** Writes as they were issued. */
+  readonly sent: string[];
+  /** Writes that completed, in the order they did. */
+  readonly writes: string[];
+  /** Fails every write while set. */
+  failing: Error | null;
+  /** Writes this matches wait in flight until `release` finishes them. */
+  hold: ((label: string) => boolean) | null;
+  /** Bytes every read resolves with. */
+  readValue: Uint8Array;
+  /** Whether two writes were ever in flight at once. */
+  readonly overlapped: boolean;
+  /** Finishes the oldest held write (with `error`, if given) once there is one. */
+  release(error?: Error): Promise<void>;
+  /** Delivers a notification to whoever subscribed to `characteristic`. */
+  notify(characteristic: GattUuid, value: Uint8Array): void;
+}
+
+export const writeLabel = (characteristic: GattUuid, value: Uint8Array) =>
+  `${characteristic.toString(16)}=${[...value].join(",")}`;
+
+export const fakeTransport = (id = "fake"): FakeTransport => {
+  const held: { finish: (e?: Error) => void }[] = [];
+  const waiting: (() => void)[] = [];
+  const handlers = new Map<GattUuid, NotifyHandler>();
+  const disconnects = new Set<() => void>();
+  let inFlight = 0;
+  let overlapped = false;
+
+  const f: FakeTransport = {
+    sent: [],
+    writes: [],
+    failing: null,
+    hold: null,
+    readValue: new Uint8Array(4),
+    get overlapped() {
+      return overlapped;
+    },
+    release: async error => {
+      if (!held.length) await new Promise<void>(r => waiting.push(r));
+      held.shift()!.finish(error);
+    },
+    notify: (characteristic, value) => handlers.get(characteristic)?.(new DataView(value.slice().buffer)),
+    t: {
+      kind: "sim",
+      id,
+      name: id,
+      isConnected: () => true,
+      connect: async () => {},
+      disconnect: () => disconnects.forEach(h => h()),
+      read: async () => new DataView(f.readValue.slice().buffer),
+      write: async (_s, c, v) => {
+        const label = writeLabel(c, v);
+        f.sent.push(label);
+        if (++inFlight > 1) overlapped = true;
+        try {
+          if (f.hold?.(label)) {
+            await new Promise<void>((resolve, reject) => {
+              held.push({ finish: e => (e ? reject(e) : resolve()) });
+              waiting.splice(0).forEach(w => w());
+            });
+          }
+          if (f.failing) throw f.failing;
+          f.writes.push(label);
+        } finally {
+          inFlight--;
+        }
+      },
+      subscribe: async (_s, c, h) => {
+        handlers.set(c, h);
+        return () => void handlers.delete(c);
+      },
+      onDisconnect: h => {
+        disconnects.add(h);
+        return () => void disconnects.delete(h);
+      },
+    },
+  };
+  return f;
+};
+
+/**
+ * A fake for `firmware`, connected to `manager` through `wrap` (the guards
+ * under test), with the id `dev-<firmware>`.
+ */
+export const addFake = (
+  manager: DeviceManager,
+  firmware: FirmwareId = "fw2",
+  wrap: (t: HhiTransport) => HhiTransport = t => t,
+) => {
+  const fake = fakeTransport(`dev-${firmware}`);
+  manager.add(wrap(fake.t), firmware);
+  return fake;
+};
@@ -0,0 +1,25 @@
+// src/transport/index.ts
+import type { TransportKind } from "./types";
+
+export type {
+  GattCharacteristicInfo,
+  GattDescriptorInfo,
+  GattProperty,
+  GattServiceInfo,
+  HhiTransport,
+  NotifyHandler,
+  TransportKind,
+} from "./types";
+export { fmtUuid, toGattUuid } from "./uuid";
+export type { GattUuid } from "./uuid";
+export { createBleTransport, requestBleTransport } from "./ble";
+export { VirtualHhi, createSimTransport } from "./sim";
+export type { SimClock, VirtualHhiOptions } from "./sim";
+export { createQueuedTransport, GattCancelledError, GattTimeoutError } from "./queue";
+export type { QueueOptions } from "./queue";
+
+// `?transport=sim` (or a bare `?sim`) makes the virtual HHI the default choice.
+export const transportFromUrl = (search = window.location.search): TransportKind => {
+  const q = new URLSearchParams(search);
+  return q.get("transport") === "sim" || q.has("sim") ? "sim" : "ble";
+};
@@ -0,0 +1,127 @@
+import { describe, expect, it, vi } from "vitest";
+import { isStimWrite, isStopWrite } from "../safety";
+import { fakeTransport } from "./fake";
+import { createQueuedTransport, GattCancelledError, GattTimeoutError } from "./queue";
+import type { HhiTransport } from "./types";
+import type { GattUuid } from "./uuid";
+
+const HHI = 0xbb01;
+const TRIGGER = 0xbb12;
+const AMPLITUDE = 0xbb03;
+const MODE = 0xbb02;
+
+// Every write waits in flight until the test releases it
+const heldTransport = () => {
+  const f = fakeTransport();
+  f.hold = () => true;
+  return f;
+};
+
+const write = (t: HhiTransport, c: GattUuid, ...bytes: number[]) => t.write(HHI, c, Uint8Array.from(bytes));
+
+describe("createQueuedTransport", () => {
+  it("runs one operation at a time, in order", async () => {
+    const f = heldTransport();
+    const q = createQueuedTransport(f.t);
+    const done = [write(q, MODE, 3), write(q, AMPLITUDE, 5, 0), write(q, TRIGGER, 1)];
+    for (let i = 0; i < 3; i++) await f.release();
+    await Promise.all(done);
+    expect(f.sent).toEqual(["bb02=3", "bb03=5,0", "bb12=1"]);
+    expect(f.overlapped).toBe(false);
+  });
+
+  it("puts a stop ahead of everything waiting, behind the operation in flight", async () => {
+    const f = heldTransport();
+    const q = createQueuedTransport(f.t, { urgent: isStopWrite });
+    const done = [write(q, MODE, 3), write(q, MODE, 1), write(q, TRIGGER, 0)];
+    for (let i = 0; i < 3; i++) await f.release();
+    await Promise.all(done);
+    expect(f.sent).toEqual(["bb02=3", "bb12=0", "bb02=1"]);
+  });
+
+  it("keeps urgent writes in the order they were queued", async () => {
+    const f = heldTransport();
+    const q = createQueuedTransport(f.t, { urgent: isStopWrite });
+    const done = [write(q, MODE, 3), write(q, MODE, 1), write(q, TRIGGER, 0), write(q, AMPLITUDE, 0, 0)];
+    for (let i = 0; i < 4; i++) await f.release();
+    await Promise.all(done);
+    expect(f.sent).toEqual(["bb02=3", "bb12=0", "bb03=0,0", "bb02=1"]);
+  });
+
+  it("cancels a start and settings still waiting when a stop is queued", async () => {
+    const f = heldTransport();
+    const q = createQueuedTransport(f.t, { urgent: isStopWrite, supersedes: isStimWrite });
+    const busy = write(q, MODE, 3);
+    const amplitude = write(q, AMPLITUDE, 20, 0);
+    const start = write(q, TRIGGER, 1);
+    const stop = write(q, TRIGGER, 0);
+    await expect(amplitude).rejects.toBeInstanceOf(GattCancelledError);
+    await expect(start).rejects.toBeInstanceOf(GattCancelledError);
+    await f.release();
+    await f.release();
+    await Promise.all([busy, stop]);
+    expect(f.sent).toEqual(["bb02=3", "bb12=0"]);
+  });
+
+  it("lets a start queued after the stop through", async () => {
+    const f = heldTransport();
+    const q = createQueuedTransport(f.t, { urgent: isStopWrite, supersedes: isStimWrite });
+    const stop = write(q, TRIGGER, 0);
+    const start = write(q, TRIGGER, 1);
+    await f.release();
+    await f.release();
+    await Promise.all([stop, start]);
+    expect(f.sent).toEqual(["bb12=0", "bb12=1"]);
+  });
+
+  it("retries transient failures but not permanent ones", async () => {
+    const f = heldTransport();
+    const q = createQueuedTransport(f.t, { retries: 2, retryDelayMs: 1 });
+    const flaky = write(q, MODE, 3);
+    await f.release(new DOMException("busy", "NetworkError"));
+    await f.release();
+    await flaky;
+    const refused = write(q, MODE, 9);
+    await f.release(new DOMException("no", "NotSupportedError"));
+    await expect(refused).rejects.toThrow("no");
+    expect(f.sent).toEqual(["bb02=3", "bb02=3", "bb02=9"]);
+  });
+
+  it("holds the next operation until one that timed out has settled", async () => {
+    const f = heldTransport();
+    const q = createQueuedTransport(f.t, { timeoutMs: 50, retries: 0, settleMs: 10_000 });
+    const slow = write(q, TRIGGER, 1);
+    const after = write(q, MODE, 3);
+    await expect(slow).rejects.toBeInstanceOf(GattTimeoutError);
+    await new Promise(r => setTimeout(r, 60));
+    expect(f.sent).toEqual(["bb12=1"]);
+    await f.release();
+    await f.release();
+    await after;
+    expect(f.sent).toEqual(["bb12=1", "bb02=3"]);
+    expect(f.overlapped).toBe(false);
+  });
+
+  it("waits for a timed-out operation before retrying it", async () => {
+    const f = heldTransport();
+    const q = createQueuedTransport(f.t, { timeoutMs: 50, retries: 1, retryDelayMs: 1, settleMs: 10_000 });
+    const w = write(q, MODE, 3);
+    await new Promise(r => setTimeout(r, 80));
+    expect(f.sent).toEqual(["bb02=3"]);
+    await f.release();
+    await f.release();
+    await w;
+    expect(f.sent).toEqual(["bb02=3", "bb02=3"]);
+    expect(f.overlapped).toBe(false);
+  });
+
+  it("resets the link when a timed-out operation never settles", async () => {
+    const f = heldTransport();
+    const onDrop = vi.fn();
+    f.t.onDisconnect(onDrop);
+    const q = createQueuedTransport(f.t, { timeoutMs: 10, retries: 0, settleMs: 20 });
+    const hung = write(q, TRIGGER, 1);
+    await expect(hung).rejects.toBeInstanceOf(GattTimeoutError);
+    await vi.waitFor(() => expect(onDrop).toHaveBeenCalledOnce());
+  });
+});
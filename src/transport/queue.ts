@@ -0,0 +1,172 @@
+// src/transport/queue.ts
+//
+// Web Bluetooth allows one GATT operation per device at a time – a second
+// read/write while one is in flight fails with "GATT operation already in
+// progress". This decorator funnels every read, write and notification start
+// through a single FIFO, gives each a deadline and retries transient failures.
+// An operation past its deadline is reported as timed out, but nothing else
+// starts until it has settled; if it never does, the link is reset.
+// Writes marked urgent (stimulation stops) skip ahead of whatever is waiting;
+// they still wait for the operation already in flight. Waiting writes an
+// urgent one supersedes – a start queued before the stop – are rejected rather
+// than sent after it.
+
+import type { HhiTransport } from "./types";
+import { fmtUuid, type GattUuid } from "./uuid";
+
+export interface QueueOptions {
+  /** Deadline for one attempt. */
+  timeoutMs?: number;
+  /** Extra attempts after the first one fails with a transient error. */
+  retries?: number;
+  /** Pause before each retry. */
+  retryDelayMs?: number;
+  /** How long a timed-out operation may keep running before the link is reset. */
+  settleMs?: number;
+  /** Writes that go ahead of everything still waiting, e.g. a stimulation stop. */
+  urgent?: (service: GattUuid, characteristic: GattUuid, value: Uint8Array) => boolean;
+  /** Waiting writes an urgent write cancels, e.g. starts and stimulation settings. */
+  supersedes?: (service: GattUuid, characteristic: GattUuid, value: Uint8Array) => boolean;
+}
+
+export class GattTimeoutError extends Error {
+  constructor(op: string, ms: number) {
+    super(`${op} timed out after ${ms} ms`);
+    this.name = "GattTimeoutError";
+  }
+}
+
+export class GattCancelledError extends Error {
+  constructor(op: string) {
+    super(`${op} was cancelled by a stop queued after it`);
+    this.name = "GattCancelledError";
+  }
+}
+
+interface Waiting {
+  job: () => Promise<void>;
+  urgent: boolean;
+  /** Set for writes an urgent write may cancel. */
+  cancel?: () => void;
+}
+
+// Errors that won't go away by asking again
+const PERMANENT = ["NotSupportedError", "NotAllowedError", "SecurityError", "InvalidModificationError", "NotFoundError"];
+
+const sleep = (ms: number) => new Promise(r => setTimeout(r, ms));
+
+export const createQueuedTransport = (t: HhiTransport, opts: QueueOptions = {}): HhiTransport => {
+  const { timeoutMs = 4000, retries = 2, retryDelayMs = 150, settleMs = 4000, urgent, supersedes } = opts;
+  let waiting: Waiting[] = [];
+  let busy = false;
+  // Resolves once the operation that missed its deadline is out of the way
+  let overrun: Promise<void> | null = null;
+
+  // Ends when `pending` settles or the link drops, resetting the link after `settleMs`
+  const outlast = (pending: Promise<unknown>) => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let off = () => {};
+    const done: Promise<void> = Promise.race([
+      pending.then(() => undefined, () => undefined),
+      new Promise<void>(r => {
+        off = t.onDisconnect(r);
+        timer = setTimeout(() => {
+          r();
+          t.disconnect();
+        }, settleMs);
+      }),
+    ]).finally(() => {
+      clearTimeout(timer);
+      off();
+      if (overrun === done) overrun = null;
+    });
+    return done;
+  };
+
+  // `discard` cleans up after an attempt that succeeds only after its deadline
+  const attempt = <T>(op: string, run: () => Promise<T>, discard?: (v: T) => void) =>
+    new Promise<T>((resolve, reject) => {
+      let late = false;
+      const pending = run();
+      const timer = setTimeout(() => {
+        late = true;
+        overrun = outlast(pending);
+        reject(new GattTimeoutError(op, timeoutMs));
+      }, timeoutMs);
+      pending.then(
+        v => (late ? discard?.(v) : (clearTimeout(timer), resolve(v))),
+        e => (clearTimeout(timer), reject(e)),
+      );
+    });
+
+  const withRetry = async <T>(op: string, run: () => Promise<T>, discard?: (v: T) => void) => {
+    for (let n = 0; ; n++) {
+      try {
+        return await attempt(op, run, discard);
+      } catch (e) {
+        const permanent = PERMANENT.includes((e as Error)?.name);
+        if (permanent || n >= retries || !t.isConnected()) throw e;
+        await overrun;
+        await sleep(retryDelayMs);
+      }
+    }
+  };
+
+  // One job at a time; urgent ones line up behind earlier urgent ones only.
+  // A job that gave up on a late operation has already answered its caller.
+  const pump = async () => {
+    if (busy) return;
+    busy = true;
+    for (let next = waiting.shift(); next; next = waiting.shift()) {
+      await next.job();
+      await overrun;
+    }
+    busy = false;
+  };
+
+  const enqueue = <T>(
+    op: string, run: () => Promise<T>, discard?: (v: T) => void, first = false, cancellable = false,
+  ): Promise<T> =>
+    new Promise<T>((resolve, reject) => {
+      const job = () => withRetry(op, run, discard).then(resolve, reject);
+      const entry: Waiting = { job, urgent: first, cancel: cancellable ? () => reject(new GattCancelledError(op)) : undefined };
+      if (first) {
+        waiting.filter(w => w.cancel).forEach(w => w.cancel!());
+        waiting = waiting.filter(w => !w.cancel);
+      }
+      const at = first ? waiting.findIndex(w => !w.urgent) : -1;
+      if (at < 0) waiting.push(entry);
+      else waiting.splice(at, 0, entry);
+      void pump();
+    });
+
+  return {
+    ...t,
+    isConnected: () => t.isConnected(),
+    connect: () => t.connect(),
+    disconnect: () => t.disconnect(),
+    onDisconnect: h => t.onDisconnect(h),
+
+    read: (service, characteristic) =>
+      enqueue(`read ${fmtUuid(characteristic)}`, () => t.read(service, characteristic)),
+
+    write: (service, characteristic, value) =>
+      enqueue(`write ${fmtUuid(characteristic)}`, () => t.write(service, characteristic, value), undefined,
+        !!urgent?.(service, characteristic, value), !!supersedes?.(service, characteristic, value)),
+
+    subscribe: (service, characteristic, handler) =>
+      enqueue(`subscribe ${fmtUuid(characteristic)}`,
+        () => t.subscribe(service, characteristic, handler),
+        // a subscription that landed after we gave up on it would leak its handler
+        unsubscribe => unsubscribe()),
+
+    // Discovery is a GATT operation too
+    ...(t.properties && {
+      properties: (service: GattUuid, characteristic: GattUuid) =>
+        enqueue(`properties ${fmtUuid(characteristic)}`, () => t.properties!(service, characteristic)),
+    }),
+    ...(t.discover && {
+      discover: () => enqueue("discover", () => t.discover!()),
+    }),
+  };
+};
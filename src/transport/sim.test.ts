@@ -0,0 +1,101 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { charSpec, decode, encode, FIRMWARE_PROFILES, type CharKey, type FirmwareId } from "../bb01";
+import { createSimTransport, VirtualHhi, type VirtualHhiOptions } from ".";
+
+const open = async (firmware: FirmwareId = "fw2", opts: VirtualHhiOptions = {}) => {
+  const hhi = new VirtualHhi({ firmware, latencyMs: 1, ...opts });
+  const t = createSimTransport(hhi);
+  const fw = FIRMWARE_PROFILES[firmware];
+  const read = async (key: CharKey) => {
+    const spec = charSpec(fw, key);
+    return decode(spec, await t.read(spec.service, spec.uuid));
+  };
+  const write = (key: CharKey, value: number | string) => {
+    const spec = charSpec(fw, key);
+    return t.write(spec.service, spec.uuid, encode(spec, value));
+  };
+  const link = t.connect();
+  await vi.advanceTimersByTimeAsync(1);
+  await link;
+  return { hhi, t, fw, read, write };
+};
+
+// Every GATT operation waits `latencyMs` on the (fake) clock. Failures are
+// left for the caller's expect, not reported as unhandled while time moves.
+const settle = <T>(p: Promise<T>) => {
+  p.catch(() => {});
+  return vi.advanceTimersByTimeAsync(5).then(() => p);
+};
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("VirtualHhi", () => {
+  it("starts with the factory defaults and answers reads once linked", async () => {
+    const { read } = await open();
+    expect(await settle(read("operatingMode"))).toBe(0);
+    expect(await settle(read("stimFrequency"))).toBe(20);
+    expect(await settle(read("batteryLevel"))).toBe(100);
+  });
+
+  it("refuses GATT operations while unlinked", async () => {
+    const { t, read } = await open();
+    t.disconnect();
+    await expect(settle(read("operatingMode"))).rejects.toMatchObject({ name: "NetworkError" });
+  });
+
+  it("rejects out-of-range values and wrong lengths like the firmware", async () => {
+    const { t, write } = await open();
+    const spec = charSpec(FIRMWARE_PROFILES.fw2, "stimAmplitude");
+    await expect(settle(t.write(spec.service, spec.uuid, Uint8Array.of(51, 0)))).rejects.toThrow("value not allowed");
+    await expect(settle(t.write(spec.service, spec.uuid, Uint8Array.of(5)))).rejects.toThrow("invalid attribute length");
+    await settle(write("stimAmplitude", 0xffff));
+  });
+
+  it("only has the characteristics of the firmware it emulates", async () => {
+    const { t } = await open("fw1");
+    await expect(settle(t.read(0xbb01, 0xbb06))).rejects.toMatchObject({ name: "NotFoundError" });
+  });
+
+  it("starts a train only in Modes 1 and 3, and ends it after # pulses", async () => {
+    const { hhi, t, fw, write } = await open();
+    const seen: number[] = [];
+    const trigger = charSpec(fw, "triggerStimulation");
+    await settle(t.subscribe(trigger.service, trigger.uuid, dv => seen.push(dv.getUint8(0))));
+
+    await expect(settle(write("triggerStimulation", 1))).rejects.toThrow("write not permitted");
+    await settle(write("operatingMode", 3));
+    await settle(write("stimNumPulses", 4));
+    await settle(write("triggerStimulation", 1));
+    expect(hhi.snapshot().stimulating).toBe(true);
+
+    // 4 pulses at 20 Hz
+    await vi.advanceTimersByTimeAsync(200);
+    expect(hhi.snapshot().stimulating).toBe(false);
+    expect(seen).toEqual([1, 0]);
+  });
+
+  it("reports the knob while the amplitude is on POT", async () => {
+    const { hhi, read, write } = await open();
+    await settle(write("stimAmplitude", 0xffff));
+    hhi.setPot(12);
+    expect(await settle(read("currentStimAmplitude"))).toBe(12);
+    await settle(write("stimAmplitude", 7));
+    expect(await settle(read("currentStimAmplitude"))).toBe(7);
+  });
+
+  it("powers off and drops the link at an empty battery", async () => {
+    const { hhi, t } = await open();
+    const dropped = vi.fn();
+    t.onDisconnect(dropped);
+    hhi.setBattery(0);
+    expect(dropped).toHaveBeenCalledOnce();
+    expect(t.isConnected()).toBe(false);
+    await expect(settle(t.connect())).rejects.toMatchObject({ name: "NetworkError" });
+  });
+});
@@ -0,0 +1,534 @@
+// src/transport/sim.ts
+//
+// In-memory "virtual HHI": a model of the BB01 + Battery GATT server with the
+// same read/write/notify surface the real firmware exposes. It has no DOM or
+// React dependencies so it can be driven from the UI or from a plain script.
+
+import {
+  canNotify,
+  canRead,
+  canWrite,
+  decode,
+  EMG_ENVELOPE_MAX,
+  encode,
+  FIRMWARE_PROFILES,
+  isBrokerUrl,
+  LATEST_FIRMWARE,
+  specByUuid,
+  specialValue,
+  validate,
+  type Bb01Values,
+  type CharKey,
+  type CharProp,
+  type CharSpec,
+  type FirmwareId,
+  type FirmwareProfile,
+} from "../bb01";
+import type { GattServiceInfo, HhiTransport, NotifyHandler } from "./types";
+import { fmtUuid, type GattUuid } from "./uuid";
+
+// ================= Clock =================
+// Injectable so tests can drive time by hand instead of waiting on timers.
+export interface SimClock {
+  setTimeout: (fn: () => void, ms: number) => unknown;
+  clearTimeout: (handle: unknown) => void;
+}
+
+const realClock: SimClock = {
+  setTimeout: (fn, ms) => setTimeout(fn, ms),
+  clearTimeout: h => clearTimeout(h as ReturnType<typeof setTimeout>),
+};
+
+// ================= Characteristic lookup =================
+const lookup = (fw: FirmwareProfile, service: GattUuid, characteristic: GattUuid): CharSpec => {
+  const spec = specByUuid(fw, service, characteristic);
+  if (!spec) {
+    throw new DOMException(
+      `No Characteristics matching UUID ${fmtUuid(characteristic)} found in Service ${fmtUuid(service)}.`,
+      "NotFoundError",
+    );
+  }
+  return spec;
+};
+
+const gattError = (msg: string) => new DOMException(`GATT Error: ${msg}`, "NotSupportedError");
+
+
+type SimValues = Omit<Bb01Values, "wifiPassword" | "batteryLevel" | "triggerStimulation" | "emgEnvelope">;
+
+// Simulated EMG envelope: resting noise floor, full contraction, update period
+const EMG_REST = 40;
+const EMG_MAX_EFFORT = 900;
+const EMG_TICK_MS = 50;
+
+// ================= Simulated broker =================
+// Sims online with the same 0xBB09 hear each other: a Mode 1 controller's
+// trigger reaches the Mode 2 minions holding the same master/minion names.
+const brokers = new Map<string, Set<VirtualHhi>>();
+
+// ================= Virtual device =================
+export interface VirtualHhiOptions {
+  name?: string;
+  /** Which BB01 layout to emulate. */
+  firmware?: FirmwareId;
+  battery?: number;
+  /** Simulated round-trip of every GATT operation. */
+  latencyMs?: number;
+  /** Time for 1 % of battery while idle; stimulating drains 3× faster. */
+  batteryDrainMs?: number;
+  wifiJoinMs?: number;
+  mqttJoinMs?: number;
+  /** Controller → broker → minion delay of a remote trigger; each one varies by ±50 %. */
+  relayMs?: number;
+  /**
+   * Decides whether a Wi-Fi join succeeds: false means the SSID isn't found,
+   * "password" that the network rejected the password. Defaults to "any
+   * non-empty SSID".
+   */
+  acceptWifi?: (ssid: string, password: string) => boolean | "password";
+  clock?: SimClock;
+}
+
+let nextSimId = 1;
+
+export class VirtualHhi {
+  readonly id: string;
+  readonly name: string;
+  readonly firmware: FirmwareProfile;
+
+  private readonly opts: Required<Omit<VirtualHhiOptions, "name" | "battery" | "firmware">>;
+  private readonly values = new Map<keyof SimValues, number | string>();
+  private readonly listeners = new Map<CharKey, Set<NotifyHandler>>();
+  private readonly disconnectHandlers = new Set<() => void>();
+  private linked = false;
+  private password = "";
+  private battery: number;
+  private drainAcc = 0;
+  private pot = 5;
+  private effort = 0;
+  private envelope = EMG_REST;
+  private stimulating = false;
+  private stimTimer: unknown = null;
+  private netTimer: unknown = null;
+  private batteryTimer: unknown = null;
+  private emgTimer: unknown = null;
+  private broker: string | null = null;
+
+  constructor(options: VirtualHhiOptions = {}) {
+    const n = nextSimId++;
+    this.id = `sim-${n}`;
+    this.name = options.name ?? `HHI-SIM-${n}`;
+    this.firmware = FIRMWARE_PROFILES[options.firmware ?? LATEST_FIRMWARE];
+    this.battery = options.battery ?? 100;
+    this.opts = {
+      latencyMs:      options.latencyMs ?? 15,
+      batteryDrainMs: options.batteryDrainMs ?? 30_000,
+      wifiJoinMs:     options.wifiJoinMs ?? 1500,
+      mqttJoinMs:     options.mqttJoinMs ?? 1000,
+      relayMs:        options.relayMs ?? 60,
+      acceptWifi:     options.acceptWifi ?? (ssid => ssid.length > 0),
+      clock:          options.clock ?? realClock,
+    };
+
+    // Factory defaults – Mode 0 (Traditional HHI), amplitude on the knob.
+    const defaults: SimValues = {
+      operatingMode: 0,
+      stimAmplitude: this.potValue() ?? 0,
+      stimFrequency: 20,
+      stimPulseWidth: 200,
+      stimDuration: 1,
+      emgThreshold: 2,
+      mqttServerPort: "",
+      masterNameAddr: "",
+      minionNameAddr: "",
+      wifiSSID: "",
+      wifiStatus: 0,
+      wifiIP: "",
+      currentStimAmplitude: this.pot,
+      currentEmgThreshold: 2,
+      triggerEnableMask: 0x01,
+      stimNumPulses: 0,
+    };
+    for (const [k, v] of Object.entries(defaults) as [keyof SimValues, number | string][]) {
+      if (this.firmware.chars[k]) this.values.set(k, v);
+    }
+
+    this.scheduleDrain();
+  }
+
+  // ---------- Link ----------
+  isLinked() {
+    return this.linked;
+  }
+
+  async link() {
+    await this.delay();
+    if (this.battery <= 0) throw new DOMException("Connection failed for unknown reason.", "NetworkError");
+    this.linked = true;
+    this.scheduleEmg();
+  }
+
+  /** Central-initiated disconnect. */
+  unlink() {
+    this.dropLink();
+  }
+
+  /** Link loss as seen from the central (out of range, device reset, …). */
+  dropLink() {
+    if (!this.linked) return;
+    this.linked = false;
+    this.opts.clock.clearTimeout(this.emgTimer);
+    // CCCD subscriptions don't survive a reconnect
+    this.listeners.clear();
+    this.disconnectHandlers.forEach(h => h());
+  }
+
+  onDisconnect(handler: () => void) {
+    this.disconnectHandlers.add(handler);
+    return () => void this.disconnectHandlers.delete(handler);
+  }
+
+  // ---------- GATT surface ----------
+  async read(service: GattUuid, characteristic: GattUuid): Promise<DataView> {
+    await this.delay();
+    this.assertLinked();
+    const spec = lookup(this.firmware, service, characteristic);
+    if (!canRead(spec)) throw gattError("read not permitted.");
+    return this.encoded(spec);
+  }
+
+  async write(service: GattUuid, characteristic: GattUuid, bytes: Uint8Array): Promise<void> {
+    await this.delay();
+    this.assertLinked();
+    const spec = lookup(this.firmware, service, characteristic);
+    if (!canWrite(spec)) throw gattError("write not permitted.");
+
+    const width = spec.type === "uint8" ? 1 : spec.type === "uint16" ? 2 : undefined;
+    if (width !== undefined && bytes.byteLength !== width) throw gattError("invalid attribute length.");
+    const value = decode(spec, new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength));
+    if (validate(spec, value)) {
+      throw gattError(spec.type === "utf8" ? "invalid attribute length." : "value not allowed.");
+    }
+    this.apply(spec.key, value);
+  }
+
+  async properties(service: GattUuid, characteristic: GattUuid): Promise<CharProp[]> {
+    await this.delay();
+    this.assertLinked();
+    return [...lookup(this.firmware, service, characteristic).props];
+  }
+
+  async subscribe(service: GattUuid, characteristic: GattUuid, handler: NotifyHandler): Promise<() => void> {
+    await this.delay();
+    this.assertLinked();
+    const spec = lookup(this.firmware, service, characteristic);
+    if (!canNotify(spec)) throw gattError("notify not permitted.");
+    let set = this.listeners.get(spec.key);
+    if (!set) this.listeners.set(spec.key, (set = new Set()));
+    set.add(handler);
+    return () => void set!.delete(handler);
+  }
+
+  /**
+   * The GATT table for the loaded firmware: each characteristic carries a
+   * User Description (0x2901) and, if it notifies, a CCCD (0x2902).
+   */
+  async discover(): Promise<GattServiceInfo[]> {
+    await this.delay();
+    this.assertLinked();
+    const out: GattServiceInfo[] = [];
+    for (const spec of Object.values(this.firmware.chars)) {
+      let svc = out.find(s => s.uuid === spec.service);
+      if (!svc) out.push((svc = { uuid: spec.service, characteristics: [] }));
+      const notifying = this.listeners.get(spec.key)?.size ? 1 : 0;
+      svc.characteristics.push({
+        uuid: spec.uuid,
+        properties: [...spec.props],
+        descriptors: [
+          { uuid: 0x2901, value: new TextEncoder().encode(spec.label) },
+          ...(canNotify(spec) ? [{ uuid: 0x2902, value: Uint8Array.of(notifying, 0) }] : []),
+        ],
+      });
+    }
+    return out;
+  }
+
+  // ---------- Bench controls ----------
+  /** Turns the amplitude knob (only visible while amplitude is on POT). */
+  setPot(mA: number) {
+    const max = this.firmware.chars.currentStimAmplitude?.max ?? 50;
+    this.pot = Math.max(0, Math.min(max, Math.round(mA)));
+    this.syncCurrentAmplitude();
+  }
+
+  /** The hardware threshold button: cycles the current EMG threshold 0–5. */
+  pressButton() {
+    const key = this.firmware.chars.currentEmgThreshold ? "currentEmgThreshold" : "emgThreshold";
+    const t = this.values.get(key) as number;
+    this.set(key, t > 5 ? 0 : (t + 1) % 6);
+  }
+
+  /** Muscle contraction under the EMG electrodes, 0 (rest) to 1 (maximal); drives 0xBB14. */
+  setEffort(fraction: number) {
+    this.effort = Math.max(0, Math.min(1, fraction));
+  }
+
+  setBattery(pct: number) {
+    this.battery = Math.max(0, Math.min(100, Math.round(pct)));
+    this.notify("batteryLevel");
+    if (this.battery === 0) this.powerOff();
+  }
+
+  /** Read-only view of the device state, password excluded. */
+  snapshot() {
+    return {
+      battery: this.battery,
+      stimulating: this.stimulating,
+      pot: this.pot,
+      effort: this.effort,
+      values: Object.fromEntries(this.values) as Partial<SimValues>,
+    };
+  }
+
+  /** Stops every timer. The instance is unusable afterwards. */
+  dispose() {
+    const { clock } = this.opts;
+    clock.clearTimeout(this.stimTimer);
+    clock.clearTimeout(this.netTimer);
+    clock.clearTimeout(this.batteryTimer);
+    clock.clearTimeout(this.emgTimer);
+    this.leaveBroker();
+    this.dropLink();
+  }
+
+  // ---------- Internals ----------
+  private delay() {
+    return new Promise<void>(r => this.opts.clock.setTimeout(r, this.opts.latencyMs));
+  }
+
+  private assertLinked() {
+    if (!this.linked) throw new DOMException("GATT Server is disconnected.", "NetworkError");
+  }
+
+  private potValue() {
+    const amp = this.firmware.chars.stimAmplitude;
+    return amp && specialValue(amp, "POT");
+  }
+
+  private current(key: CharKey): number | string {
+    if (key === "batteryLevel") return this.battery;
+    if (key === "triggerStimulation") return this.stimulating ? 1 : 0;
+    if (key === "emgEnvelope") return this.envelope;
+    return this.values.get(key as keyof SimValues)!;
+  }
+
+  private encoded(spec: CharSpec) {
+    const bytes = encode(spec, this.current(spec.key));
+    return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  private notify(key: CharKey) {
+    const set = this.listeners.get(key);
+    if (!set?.size) return;
+    const dv = this.encoded(this.firmware.chars[key]!);
+    set.forEach(h => h(dv));
+  }
+
+  private set(key: keyof SimValues, value: number | string) {
+    if (!this.firmware.chars[key] || this.values.get(key) === value) return;
+    this.values.set(key, value);
+    this.notify(key);
+  }
+
+  private apply(key: CharKey, value: number | string) {
+    switch (key) {
+      case "wifiPassword":
+        this.password = value as string;
+        this.restartNetwork();
+        return;
+      case "triggerStimulation": {
+        const mode = this.values.get("operatingMode");
+        // Stop is always honoured; start only where the app owns the trigger.
+        if (value === 1 && mode !== 1 && mode !== 3) throw gattError("write not permitted.");
+        if (value === 1) this.startStim();
+        else this.stopStim();
+        if (mode === 1) this.relay(value === 1);
+        return;
+      }
+      case "batteryLevel":
+      case "emgEnvelope":
+        return;
+    }
+
+    this.set(key, value);
+
+    switch (key) {
+      case "stimAmplitude":
+        this.syncCurrentAmplitude();
+        break;
+      case "emgThreshold":
+        if (value !== specialValue(this.firmware.chars.emgThreshold!, "Button")) {
+          this.set("currentEmgThreshold", value);
+        }
+        break;
+      case "operatingMode":
+        if (value !== 3 && value !== 1) this.stopStim();
+        this.restartNetwork();
+        break;
+      case "wifiSSID":
+      case "mqttServerPort":
+        this.restartNetwork();
+        break;
+    }
+  }
+
+  private syncCurrentAmplitude() {
+    const a = this.values.get("stimAmplitude") as number;
+    this.set("currentStimAmplitude", a === this.potValue() ? this.pot : a);
+  }
+
+  // ----- stimulation -----
+  private startStim() {
+    const { clock } = this.opts;
+    clock.clearTimeout(this.stimTimer);
+    this.stimTimer = null;
+
+    const freq     = this.values.get("stimFrequency") as number;
+    const pulses   = this.values.get("stimNumPulses") as number;
+    const duration = this.values.get("stimDuration") as number | undefined;
+    const durSpec  = this.firmware.chars.stimDuration;
+    const infinite = this.firmware.chars.stimNumPulses?.special?.[0] === "∞";
+
+    const limits: number[] = [];
+    if (pulses > 0 || !infinite) limits.push((pulses / freq) * 1000);
+    if (durSpec && duration && !durSpec.special?.[duration]) limits.push(duration * 100);
+    if (limits.length) this.stimTimer = clock.setTimeout(() => this.stopStim(), Math.min(...limits));
+
+    if (!this.stimulating) {
+      this.stimulating = true;
+      this.notify("triggerStimulation");
+    }
+  }
+
+  private stopStim() {
+    this.opts.clock.clearTimeout(this.stimTimer);
+    this.stimTimer = null;
+    if (!this.stimulating) return;
+    this.stimulating = false;
+    this.notify("triggerStimulation");
+  }
+
+  // ----- Wi-Fi / MQTT -----
+  // Any change to mode or credentials drops the network and rejoins from scratch.
+  private restartNetwork() {
+    const { clock, wifiJoinMs, mqttJoinMs, acceptWifi } = this.opts;
+    clock.clearTimeout(this.netTimer);
+    this.netTimer = null;
+    this.leaveBroker();
+    this.set("wifiStatus", 0);
+    this.set("wifiIP", "");
+
+    const mode = this.values.get("operatingMode");
+    const ssid = this.values.get("wifiSSID") as string;
+    if ((mode !== 1 && mode !== 2) || !ssid) return;
+
+    // Upper nibble carries the connection state, as newer firmware reports it
+    this.set("wifiStatus", 0x10);
+    this.netTimer = clock.setTimeout(() => {
+      const joined = acceptWifi(ssid, this.password);
+      if (joined !== true) {
+        this.set("wifiStatus", joined === "password" ? 0x20 : 0x30);
+        return;
+      }
+      this.set("wifiStatus", 0x41);
+      this.set("wifiIP", `192.168.4.${10 + (parseInt(this.id.slice(4), 10) % 240)}`);
+      this.set("wifiStatus", 0x61);
+
+      this.netTimer = clock.setTimeout(() => {
+        const url = this.values.get("mqttServerPort") as string;
+        if (!isBrokerUrl(url)) return this.set("wifiStatus", 0x71);
+        this.set("wifiStatus", 0x03);
+        this.broker = url;
+        if (!brokers.has(url)) brokers.set(url, new Set());
+        brokers.get(url)!.add(this);
+      }, mqttJoinMs);
+    }, wifiJoinMs);
+  }
+
+  private leaveBroker() {
+    if (this.broker === null) return;
+    brokers.get(this.broker)?.delete(this);
+    if (!brokers.get(this.broker)?.size) brokers.delete(this.broker);
+    this.broker = null;
+  }
+
+  // Publishes a start/stop to every paired minion; it lands after the broker round trip
+  private relay(start: boolean) {
+    if (this.broker === null) return;
+    const { clock, relayMs } = this.opts;
+    const master = this.values.get("masterNameAddr");
+    const minion = this.values.get("minionNameAddr");
+    for (const peer of brokers.get(this.broker) ?? []) {
+      if (peer === this || peer.values.get("operatingMode") !== 2) continue;
+      if (peer.values.get("masterNameAddr") !== master || peer.values.get("minionNameAddr") !== minion) continue;
+      const url = this.broker;
+      clock.setTimeout(() => {
+        // the minion may have left the broker while the message was in flight
+        if (peer.broker !== url) return;
+        if (start) peer.startStim();
+        else peer.stopStim();
+      }, relayMs * (0.5 + Math.random()));
+    }
+  }
+
+  // ----- EMG -----
+  // The envelope follows the effort with some lag and a little noise, like a smoothed rectified EMG
+  private scheduleEmg() {
+    const { clock } = this.opts;
+    clock.clearTimeout(this.emgTimer);
+    if (!this.firmware.chars.emgEnvelope) return;
+    this.emgTimer = clock.setTimeout(() => {
+      const target = EMG_REST + this.effort * (EMG_MAX_EFFORT - EMG_REST);
+      const next = this.envelope + (target - this.envelope) * 0.4 + (Math.random() - 0.5) * 16;
+      this.envelope = Math.round(Math.max(0, Math.min(EMG_ENVELOPE_MAX, next)));
+      this.notify("emgEnvelope");
+      if (this.linked) this.scheduleEmg();
+    }, EMG_TICK_MS);
+  }
+
+  // ----- battery -----
+  private scheduleDrain() {
+    const { clock, batteryDrainMs } = this.opts;
+    this.batteryTimer = clock.setTimeout(() => {
+      this.drainAcc += this.stimulating ? 3 : 1;
+      if (this.drainAcc >= 3) {
+        this.drainAcc -= 3;
+        this.setBattery(this.battery - 1);
+      }
+      if (this.battery > 0) this.scheduleDrain();
+    }, batteryDrainMs / 3);
+  }
+
+  private powerOff() {
+    this.stopStim();
+    this.opts.clock.clearTimeout(this.netTimer);
+    this.leaveBroker();
+    this.dropLink();
+  }
+}
+
+// ================= Transport =================
+export const createSimTransport = (hhi: VirtualHhi): HhiTransport => ({
+  kind: "sim",
+  id: hhi.id,
+  name: hhi.name,
+  isConnected: () => hhi.isLinked(),
+  connect: () => hhi.link(),
+  disconnect: () => hhi.unlink(),
+  read: (s, c) => hhi.read(s, c),
+  write: (s, c, v) => hhi.write(s, c, v),
+  subscribe: (s, c, h) => hhi.subscribe(s, c, h),
+  properties: (s, c) => hhi.properties(s, c),
+  discover: () => hhi.discover(),
+  onDisconnect: h => hhi.onDisconnect(h),
+});
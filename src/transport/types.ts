@@ -0,0 +1,65 @@
+// src/transport/types.ts
+//
+// Everything the UI needs from "a connected HHI", independent of whether the
+// bytes travel over Web Bluetooth or stay inside an in-memory virtual device.
+
+import type { CharProp } from "../bb01";
+import type { GattUuid } from "./uuid";
+
+export type TransportKind = "ble" | "sim";
+
+export type NotifyHandler = (dv: DataView) => void;
+
+/** Characteristic properties as the Bluetooth spec names them. */
+export type GattProperty =
+  | "broadcast"
+  | "read"
+  | "writeWithoutResponse"
+  | "write"
+  | "notify"
+  | "indicate"
+  | "authenticatedSignedWrites"
+  | "reliableWrite"
+  | "writableAuxiliaries";
+
+export interface GattDescriptorInfo {
+  uuid: GattUuid;
+  /** Missing when the read failed; see `error`. */
+  value?: Uint8Array;
+  error?: string;
+}
+
+export interface GattCharacteristicInfo {
+  uuid: GattUuid;
+  properties: GattProperty[];
+  descriptors: GattDescriptorInfo[];
+}
+
+export interface GattServiceInfo {
+  uuid: GattUuid;
+  characteristics: GattCharacteristicInfo[];
+}
+
+export interface HhiTransport {
+  readonly kind: TransportKind;
+  /** Stable per-device identifier (BluetoothDevice.id for BLE). */
+  readonly id: string;
+  readonly name: string;
+
+  isConnected(): boolean;
+  /** (Re)opens the GATT link. Safe to call when already connected. */
+  connect(): Promise<void>;
+  disconnect(): void;
+
+  read(service: GattUuid, characteristic: GattUuid): Promise<DataView>;
+  write(service: GattUuid, characteristic: GattUuid, value: Uint8Array): Promise<void>;
+  /** Starts notifications; resolves with an unsubscribe function. */
+  subscribe(service: GattUuid, characteristic: GattUuid, handler: NotifyHandler): Promise<() => void>;
+  /** Properties the device declares for a characteristic. Rejects with NotFoundError if it's missing. */
+  properties?(service: GattUuid, characteristic: GattUuid): Promise<CharProp[]>;
+  /** Every primary service the link can see, with characteristics and descriptor values. */
+  discover?(): Promise<GattServiceInfo[]>;
+
+  /** Fires when the link drops, whoever dropped it. Returns an unregister function. */
+  onDisconnect(handler: () => void): () => void;
+}
@@ -0,0 +1,22 @@
+// src/transport/uuid.ts
+//
+// GATT UUIDs as the transports take them: assigned numbers on the Bluetooth
+// base UUID (0xbb12, 0x2a19) as numbers, anything else as the full lowercase
+// 128-bit string. Web Bluetooth reports every UUID in the long form.
+
+export type GattUuid = number | string;
+
+const BASE = /^([0-9a-f]{8})-0000-1000-8000-00805f9b34fb$/;
+const FULL = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+/** 0xbb12 → "0xbb12"; a 128-bit UUID as it is. */
+export const fmtUuid = (u: GattUuid) => (typeof u === "number" ? `0x${u.toString(16)}` : u);
+
+/** "bb12", "0xBB12" and "0000bb12-0000-1000-8000-00805f9b34fb" all give 0xbb12. Throws on anything else. */
+export const toGattUuid = (text: string): GattUuid => {
+  const s = text.trim().toLowerCase();
+  const short = /^(?:0x)?([0-9a-f]{1,8})$/.exec(s) ?? BASE.exec(s);
+  if (short) return parseInt(short[1], 16);
+  if (FULL.test(s)) return s;
+  throw new Error(`'${text}' is not a GATT UUID`);
+};
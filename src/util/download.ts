@@ -0,0 +1,17 @@
+// src/util/download.ts
+
+// Saves `blob` as a file via a temporary object URL.
+export const downloadBlob = (filename: string, blob: Blob) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const downloadText = (filename: string, text: string, mime = "text/plain") =>
+  downloadBlob(filename, new Blob([text], { type: `${mime};charset=utf-8` }));
+
+// Filesystem-safe stem from a user-entered name
+export const slug = (s: string) => s.trim().replace(/[^\w.-]+/g, "_") || "untitled";